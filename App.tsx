@@ -1,157 +1,304 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, SetStateAction } from 'react';
 import ChatInterface from './components/ChatInterface';
+import ConversationList from './components/ConversationList';
 import ImageEditor from './components/ImageEditor';
 import HomeView from './components/HomeView';
 import SlideshowGenerator from './components/SlideshowGenerator';
 import HDImageGenerator from './components/HDImageGenerator'; // NEW IMPORT
-import { ChatMessage, UserPreferences } from './types';
-import { STORAGE_KEY_USER_PREFS } from './constants';
-
-type NavigationView = 'home' | 'chat' | 'image-editor' | 'slideshow-generator' | 'hd-image-generator'; // NEW: Added 'hd-image-generator'
+import VideoGenerator from './components/VideoGenerator';
+import Gallery from './components/Gallery';
+import { AppLanguage, ChatMessage, Conversation, ConversationSummary, GalleryItem, NavigationView, Persona, SpeechSettings, UserMemory } from './types';
+import { APP_LANGUAGES, APP_ROUTES, DEFAULT_SPEECH_SETTINGS, DEFAULT_USER_MEMORY } from './constants';
+import { createConversation, deriveConversationTitle, sortConversations } from './services/conversations';
+import { getAppStorage } from './services/storage';
+import { useHashRoute } from './services/router';
+import { createTranslator, detectLanguage, I18nContext } from './services/i18n';
 
 const App: React.FC = () => {
-  const [activeView, setActiveView] = useState<NavigationView>('home'); // Default to home view
+  // The URL hash is the source of truth for the current view (and thread / gallery item)
+  const { location, navigate } = useHashRoute();
+  const activeView = location.view;
   const [userName, setUserName] = useState<string>('');
   const [rememberMe, setRememberMe] = useState<boolean>(false);
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [customPersonas, setCustomPersonas] = useState<Persona[]>([]);
+  const [language, setLanguage] = useState<AppLanguage>(() => detectLanguage());
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS);
+  const [memory, setMemory] = useState<UserMemory>(DEFAULT_USER_MEMORY);
+  const i18n = useMemo(() => createTranslator(language), [language]);
+  // Gallery item whose settings prefill the tool it came from
+  const [reuseItem, setReuseItem] = useState<GalleryItem | null>(null);
+
+  const [storageReady, setStorageReady] = useState<boolean>(false);
 
-  // Load user preferences from localStorage on initial mount
+  // Load user preferences from IndexedDB on initial mount (migrating any legacy localStorage data)
   useEffect(() => {
-    const storedPrefs = localStorage.getItem(STORAGE_KEY_USER_PREFS);
-    if (storedPrefs) {
+    let cancelled = false;
+    const loadPreferences = async () => {
       try {
-        const userPrefs: UserPreferences = JSON.parse(storedPrefs);
-        setUserName(userPrefs.name || '');
-        setRememberMe(userPrefs.rememberMe || false);
-        // Ensure lastChat items have correct Date objects
-        setChatHistory(userPrefs.lastChat.map(msg => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp),
-        })) || []);
+        const storage = await getAppStorage();
+        const userPrefs = await storage.loadPreferences();
+        if (userPrefs && !cancelled) {
+          setUserName(userPrefs.name);
+          setRememberMe(userPrefs.rememberMe);
+          setConversations(userPrefs.conversations);
+          setActiveConversationId(userPrefs.activeConversationId);
+          setCustomPersonas(userPrefs.customPersonas);
+          setLanguage(userPrefs.language);
+          setSpeechSettings(userPrefs.speech);
+          setMemory(userPrefs.memory);
+        }
       } catch (e) {
-        console.error("Failed to parse user preferences from localStorage", e);
-        localStorage.removeItem(STORAGE_KEY_USER_PREFS); // Clear invalid data
+        console.error("Failed to load user preferences", e);
+      } finally {
+        if (!cancelled) setStorageReady(true);
+      }
+    };
+    loadPreferences();
+    return () => { cancelled = true; };
+  }, []);
+
+  // Save preferences (including every conversation) while "remember me" is on.
+  // Waits for the initial load so the empty startup state never overwrites saved data.
+  useEffect(() => {
+    if (!storageReady) return;
+    const persist = async () => {
+      const storage = await getAppStorage();
+      if (rememberMe) {
+        await storage.savePreferences({
+          name: userName,
+          rememberMe: true,
+          conversations,
+          activeConversationId,
+          customPersonas,
+          language,
+          speech: speechSettings,
+          memory,
+        });
+      } else {
+        await storage.clearPreferences();
+      }
+    };
+    persist().catch(e => console.error("Failed to save user preferences", e));
+  }, [storageReady, userName, rememberMe, conversations, activeConversationId, customPersonas, language, speechSettings, memory]);
+
+  // Lets the browser pick Devanagari fonts and screen readers the right voice
+  useEffect(() => {
+    document.documentElement.lang = i18n.locale;
+  }, [i18n.locale]);
+
+  // Open the thread named in the URL (#/chat/<threadId>) once the threads are loaded
+  const routeThreadId = activeView === 'chat' ? location.param : null;
+  useEffect(() => {
+    if (storageReady && routeThreadId && conversations.some(c => c.id === routeThreadId)) {
+      setActiveConversationId(routeThreadId);
+    }
+  }, [storageReady, routeThreadId, conversations]);
+
+  // Make sure there is always a thread to chat in, and that the URL names it
+  useEffect(() => {
+    if (!storageReady || activeView !== 'chat') return;
+    if (routeThreadId && conversations.some(c => c.id === routeThreadId) && routeThreadId !== activeConversationId) {
+      return; // The effect above is switching to it
+    }
+    if (!conversations.some(c => c.id === activeConversationId)) {
+      if (conversations.length > 0) {
+        setActiveConversationId(sortConversations(conversations)[0].id);
+      } else {
+        const conversation = createConversation();
+        setConversations([conversation]);
+        setActiveConversationId(conversation.id);
       }
+    } else if (routeThreadId !== activeConversationId) {
+      navigate('chat', activeConversationId, { replace: true });
     }
+  }, [storageReady, activeView, routeThreadId, conversations, activeConversationId, navigate]);
+
+  const activeConversation = useMemo(
+    () => conversations.find(c => c.id === activeConversationId) || null,
+    [conversations, activeConversationId],
+  );
+
+  // History setter bound to one thread, so a reply still streaming lands in the
+  // thread it was sent from even if the user switches away.
+  const setActiveChatHistory = useCallback((update: SetStateAction<ChatMessage[]>) => {
+    const conversationId = activeConversationId;
+    setConversations(prev => prev.map(conversation => {
+      if (conversation.id !== conversationId) {
+        return conversation;
+      }
+      const messages = typeof update === 'function' ? update(conversation.messages) : update;
+      return {
+        ...conversation,
+        messages,
+        title: conversation.titleIsCustom ? conversation.title : deriveConversationTitle(messages),
+        updatedAt: messages.length !== conversation.messages.length ? new Date() : conversation.updatedAt,
+      };
+    }));
+  }, [activeConversationId]);
+
+  const handleSelectConversation = useCallback((id: string) => {
+    navigate('chat', id);
+  }, [navigate]);
+
+  const handleCreateConversation = useCallback(() => {
+    const conversation = createConversation();
+    setConversations(prev => [conversation, ...prev]);
+    setActiveConversationId(conversation.id);
+    navigate('chat', conversation.id);
+  }, [navigate]);
+
+  const handleRenameConversation = useCallback((id: string, title: string) => {
+    setConversations(prev => prev.map(c => (c.id === id ? { ...c, title, titleIsCustom: true } : c)));
   }, []);
 
-  const handleNavigate = useCallback((view: NavigationView) => {
-    setActiveView(view);
+  const handleDeleteConversation = useCallback((id: string) => {
+    setConversations(prev => prev.filter(c => c.id !== id));
   }, []);
 
+  const handleTogglePinConversation = useCallback((id: string) => {
+    setConversations(prev => prev.map(c => (c.id === id ? { ...c, pinned: !c.pinned } : c)));
+  }, []);
+
+  const handleSetConversationPersona = useCallback((personaId: string) => {
+    setConversations(prev => prev.map(c => (c.id === activeConversationId ? { ...c, personaId } : c)));
+  }, [activeConversationId]);
+
+  const handleSetConversationSummary = useCallback((summary: ConversationSummary) => {
+    setConversations(prev => prev.map(c => (c.id === activeConversationId ? { ...c, summary } : c)));
+  }, [activeConversationId]);
+
+  const handleNavigate = useCallback((view: NavigationView) => {
+    setReuseItem(null);
+    navigate(view);
+  }, [navigate]);
+
+  const handleReuseGalleryItem = useCallback((item: GalleryItem) => {
+    setReuseItem(item);
+    navigate(item.tool);
+  }, [navigate]);
+
+  // Forget a reused item once its tool is left (e.g. with the back button)
+  useEffect(() => {
+    if (reuseItem && activeView !== reuseItem.tool) {
+      setReuseItem(null);
+    }
+  }, [reuseItem, activeView]);
+
+  const handleOpenGalleryItem = useCallback((id: string | null) => {
+    navigate('gallery', id);
+  }, [navigate]);
+
   const renderContent = () => {
     switch (activeView) {
       case 'home':
         return <HomeView onNavigate={handleNavigate} />;
       case 'chat':
         return (
-          <ChatInterface
-            userName={userName}
-            setUserName={setUserName}
-            rememberMe={rememberMe}
-            setRememberMe={setRememberMe}
-            chatHistory={chatHistory}
-            setChatHistory={setChatHistory}
-          />
+          <div className="flex h-full border border-gray-200 rounded-lg overflow-hidden bg-white">
+            <ConversationList
+              conversations={conversations}
+              activeConversationId={activeConversationId}
+              onSelect={handleSelectConversation}
+              onCreate={handleCreateConversation}
+              onRename={handleRenameConversation}
+              onDelete={handleDeleteConversation}
+              onTogglePin={handleTogglePinConversation}
+            />
+            <div className="flex-1 min-w-0">
+              {activeConversation && (
+                <ChatInterface
+                  key={activeConversation.id} // Remount per thread so the welcome message and stream state reset
+                  userName={userName}
+                  setUserName={setUserName}
+                  rememberMe={rememberMe}
+                  setRememberMe={setRememberMe}
+                  chatHistory={activeConversation.messages}
+                  setChatHistory={setActiveChatHistory}
+                  personaId={activeConversation.personaId}
+                  onPersonaChange={handleSetConversationPersona}
+                  summary={activeConversation.summary}
+                  onSummaryChange={handleSetConversationSummary}
+                  customPersonas={customPersonas}
+                  onCustomPersonasChange={setCustomPersonas}
+                  speechSettings={speechSettings}
+                  onSpeechSettingsChange={setSpeechSettings}
+                  memory={memory}
+                  onMemoryChange={setMemory}
+                />
+              )}
+            </div>
+          </div>
         );
+      // Keyed by the reused item so picking another one remounts the tool with it
       case 'image-editor':
-        return <ImageEditor />;
+        return <ImageEditor key={reuseItem?.id} initialItem={reuseItem?.tool === 'image-editor' ? reuseItem : undefined} />;
       case 'slideshow-generator':
-        return <SlideshowGenerator />;
+        return <SlideshowGenerator key={reuseItem?.id} initialItem={reuseItem?.tool === 'slideshow-generator' ? reuseItem : undefined} />;
       case 'hd-image-generator': // NEW CASE
-        return <HDImageGenerator />;
+        return <HDImageGenerator key={reuseItem?.id} initialItem={reuseItem?.tool === 'hd-image-generator' ? reuseItem : undefined} />;
+      case 'video-generator':
+        return <VideoGenerator />;
+      case 'gallery':
+        return <Gallery openItemId={location.param} onOpenItem={handleOpenGalleryItem} onReuse={handleReuseGalleryItem} />;
       default:
         return <HomeView onNavigate={handleNavigate} />;
     }
   };
 
   return (
-    <div className="flex flex-col w-full h-full bg-gray-100 rounded-lg shadow-xl overflow-hidden">
-      {/* Top Bar */}
-      <header className="flex items-center p-4 bg-gradient-to-r from-blue-600 to-indigo-700 text-white shadow-md">
-        <h1 className="text-xl font-bold flex items-center gap-2">
-          <span className="text-2xl">🤖</span>Bhaii AI Studio
-        </h1>
-      </header>
-
-      <div className="flex flex-1 overflow-hidden">
-        {/* Sidebar Navigation */}
-        <nav className="w-60 bg-gray-800 text-white flex flex-col p-4 shadow-lg z-10">
-          <ul className="space-y-2">
-            <li>
-              <button
-                className={`w-full text-left py-2 px-3 rounded-md transition-colors duration-200 flex items-center gap-2
-                  ${activeView === 'home'
-                    ? 'bg-blue-700 text-white'
-                    : 'hover:bg-gray-700 text-gray-300'
-                  }`}
-                onClick={() => handleNavigate('home')}
-                aria-current={activeView === 'home' ? 'page' : undefined}
-              >
-                <span className="text-lg">🏠</span> Home
-              </button>
-            </li>
-            <li>
-              <button
-                className={`w-full text-left py-2 px-3 rounded-md transition-colors duration-200 flex items-center gap-2
-                  ${activeView === 'chat'
-                    ? 'bg-blue-700 text-white'
-                    : 'hover:bg-gray-700 text-gray-300'
-                  }`}
-                onClick={() => handleNavigate('chat')}
-                aria-current={activeView === 'chat' ? 'page' : undefined}
-              >
-                <span className="text-lg">💬</span> Bhaii Chat
-              </button>
-            </li>
-            <li>
-              <button
-                className={`w-full text-left py-2 px-3 rounded-md transition-colors duration-200 flex items-center gap-2
-                  ${activeView === 'image-editor'
-                    ? 'bg-blue-700 text-white'
-                    : 'hover:bg-gray-700 text-gray-300'
-                  }`}
-                onClick={() => handleNavigate('image-editor')}
-                aria-current={activeView === 'image-editor' ? 'page' : undefined}
-              >
-                <span className="text-lg">📸</span> Image Editor
-              </button>
-            </li>
-            <li>
-              <button
-                className={`w-full text-left py-2 px-3 rounded-md transition-colors duration-200 flex items-center gap-2
-                  ${activeView === 'slideshow-generator'
-                    ? 'bg-blue-700 text-white'
-                    : 'hover:bg-gray-700 text-gray-300'
-                  }`}
-                onClick={() => handleNavigate('slideshow-generator')}
-                aria-current={activeView === 'slideshow-generator' ? 'page' : undefined}
-              >
-                <span className="text-lg">🎞️</span> Animated Slideshow
-              </button>
-            </li>
-            <li> {/* NEW NAVIGATION ITEM */}
-              <button
-                className={`w-full text-left py-2 px-3 rounded-md transition-colors duration-200 flex items-center gap-2
-                  ${activeView === 'hd-image-generator'
-                    ? 'bg-blue-700 text-white'
-                    : 'hover:bg-gray-700 text-gray-300'
-                  }`}
-                onClick={() => handleNavigate('hd-image-generator')}
-                aria-current={activeView === 'hd-image-generator' ? 'page' : undefined}
-              >
-                <span className="text-lg">🖼️</span> HD Image Generator
-              </button>
-            </li>
-          </ul>
-        </nav>
-
-        {/* Main Content Area */}
-        <main className="flex-1 bg-gray-50 overflow-auto custom-scrollbar p-6">
-          {renderContent()}
-        </main>
+    <I18nContext.Provider value={i18n}>
+      <div className="flex flex-col w-full h-full bg-gray-100 rounded-lg shadow-xl overflow-hidden">
+        {/* Top Bar */}
+        <header className="flex items-center p-4 bg-gradient-to-r from-blue-600 to-indigo-700 text-white shadow-md">
+          <h1 className="text-xl font-bold flex items-center gap-2">
+            <span className="text-2xl">🤖</span>Bhaii AI Studio
+          </h1>
+          <label className="ml-auto flex items-center gap-2 text-sm">
+            <span aria-hidden="true">🌐</span>
+            <span className="sr-only">{i18n.t('app.languageLabel')}</span>
+            <select
+              className="p-1 rounded-md text-sm text-gray-800"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as AppLanguage)}
+            >
+              {APP_LANGUAGES.map(option => (
+                <option key={option.id} value={option.id} lang={option.locale}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </header>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Sidebar Navigation */}
+          <nav className="w-60 bg-gray-800 text-white flex flex-col p-4 shadow-lg z-10">
+            <ul className="space-y-2">
+              {APP_ROUTES.map(({ view, labelKey, icon }) => (
+                <li key={view}>
+                  <button
+                    className={`w-full text-left py-2 px-3 rounded-md transition-colors duration-200 flex items-center gap-2
+                      ${activeView === view
+                        ? 'bg-blue-700 text-white'
+                        : 'hover:bg-gray-700 text-gray-300'
+                      }`}
+                    onClick={() => handleNavigate(view)}
+                    aria-current={activeView === view ? 'page' : undefined}
+                  >
+                    <span className="text-lg">{icon}</span> {i18n.t(labelKey)}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </nav>
+
+          {/* Main Content Area */}
+          <main className="flex-1 bg-gray-50 overflow-auto custom-scrollbar p-6">
+            {renderContent()}
+          </main>
+        </div>
       </div>
-    </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,60 @@
+import React from 'react';
+import { ChatAttachment } from '../types';
+import { formatBytes } from '../services/imagePreprocess';
+import { useTranslation } from '../services/i18n';
+
+interface ChatAttachmentListProps {
+  attachments: ChatAttachment[];
+  onRemove?: (attachmentId: string) => void; // Shown for attachments not sent yet
+}
+
+const FILE_ICONS: Record<ChatAttachment['kind'], string> = {
+  image: '🖼️',
+  pdf: '📄',
+  text: '📝',
+};
+
+// Thumbnails for images and name chips for documents, in a chat bubble or
+// above the input while composing.
+const ChatAttachmentList: React.FC<ChatAttachmentListProps> = ({ attachments, onRemove }) => {
+  const { t } = useTranslation();
+
+  return (
+    <ul className="flex flex-wrap gap-2" aria-label={t('attachments.listLabel')}>
+      {attachments.map(attachment => (
+        <li key={attachment.id} className="relative">
+          {attachment.kind === 'image' ? (
+            <img
+              src={attachment.dataUrl}
+              alt={attachment.name}
+              title={attachment.name}
+              className="h-20 w-20 object-cover rounded-lg border border-gray-300 bg-white"
+            />
+          ) : (
+            <a
+              href={attachment.dataUrl}
+              download={attachment.name}
+              className="flex items-center gap-1 max-w-[12rem] h-10 px-2 rounded-lg border border-gray-300 bg-white text-gray-800 text-xs"
+              title={`${attachment.name} (${formatBytes(attachment.size)})`}
+            >
+              <span aria-hidden="true">{FILE_ICONS[attachment.kind]}</span>
+              <span className="truncate">{attachment.name}</span>
+            </a>
+          )}
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(attachment.id)}
+              className="absolute -top-2 -right-2 h-5 w-5 rounded-full bg-gray-700 text-white text-xs leading-none"
+              aria-label={t('attachments.remove', { name: attachment.name })}
+            >
+              ×
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ChatAttachmentList;
@@ -1,8 +1,25 @@
 import React, { useState, useEffect, useRef, useCallback, Dispatch, SetStateAction } from 'react';
-import { ChatMessage, UserPreferences } from '../types';
+import { ChatAttachment, ChatMessage, ConversationSummary, MemoryProposal, Persona, SpeechSettings, UserMemory } from '../types';
+import { MAX_CHAT_ATTACHMENTS } from '../constants';
 import { chatWithBhaii } from '../services/geminiService';
-import { WELCOME_MESSAGES, STORAGE_KEY_USER_PREFS } from '../constants';
+import { getAIErrorMessage } from '../services/aiErrors';
+import { findPersona, getAllPersonas } from '../services/personas';
+import { addReplyAlternative, createMessageId, ensureReplyAlternatives, selectReplyAlternative } from '../services/conversations';
+import { useTranslation } from '../services/i18n';
+import { isSpeechSynthesisSupported, speak, stopSpeaking } from '../services/speech';
+import { CHAT_ATTACHMENT_ACCEPT, ChatAttachmentError, createChatAttachment } from '../services/chatAttachments';
+import { isSummaryCurrent } from '../services/chatContext';
+import { createMemoryEntry, hasMemory } from '../services/memory';
+import { MessageKey } from '../locales';
 import Button from './Button';
+import ChatAttachmentList from './ChatAttachmentList';
+import ChatMessageActions from './ChatMessageActions';
+import ConversationSummaryNotice from './ConversationSummaryNotice';
+import MarkdownMessage from './MarkdownMessage';
+import MemoryPanel from './MemoryPanel';
+import PersonaManager from './PersonaManager';
+import SpeechSettingsPanel from './SpeechSettingsPanel';
+import VoiceInputButton from './VoiceInputButton';
 
 interface ChatInterfaceProps {
   userName: string;
@@ -12,8 +29,24 @@ interface ChatInterfaceProps {
   chatHistory: ChatMessage[];
   // FIX: Corrected the type for setChatHistory to allow functional updates
   setChatHistory: Dispatch<SetStateAction<ChatMessage[]>>;
+  personaId: string; // This conversation's persona
+  onPersonaChange: (personaId: string) => void;
+  summary?: ConversationSummary; // Recap of older messages in long threads
+  onSummaryChange: (summary: ConversationSummary) => void;
+  customPersonas: Persona[];
+  onCustomPersonasChange: (personas: Persona[]) => void;
+  speechSettings: SpeechSettings;
+  onSpeechSettingsChange: (settings: SpeechSettings) => void;
+  memory: UserMemory; // Shared by every thread
+  onMemoryChange: (memory: UserMemory) => void;
 }
 
+const ATTACHMENT_ERROR_KEYS: Record<ChatAttachmentError['code'], MessageKey> = {
+  'unsupported': 'attachments.unsupported',
+  'too-large': 'attachments.tooLarge',
+  'unreadable': 'attachments.unreadable',
+};
+
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
   userName,
   setUserName,
@@ -21,10 +54,101 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   setRememberMe,
   chatHistory,
   setChatHistory,
+  personaId,
+  onPersonaChange,
+  summary,
+  onSummaryChange,
+  customPersonas,
+  onCustomPersonasChange,
+  speechSettings,
+  onSpeechSettingsChange,
+  memory,
+  onMemoryChange,
 }) => {
   const [inputMessage, setInputMessage] = useState<string>('');
+  const [showPersonaManager, setShowPersonaManager] = useState<boolean>(false);
+  const [showSpeechSettings, setShowSpeechSettings] = useState<boolean>(false);
+  const [showMemory, setShowMemory] = useState<boolean>(false);
+  const [inputError, setInputError] = useState<string | null>(null); // Voice input, attachment or regenerate problems
+  const [pendingAttachments, setPendingAttachments] = useState<ChatAttachment[]>([]);
+  const [attaching, setAttaching] = useState<boolean>(false);
+  const [isDraggingFile, setIsDraggingFile] = useState<boolean>(false);
+  const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<string>('');
+  const { t, language, locale, formatTime } = useTranslation();
   const [loading, setLoading] = useState<boolean>(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [summarizing, setSummarizing] = useState<boolean>(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const persona = findPersona(personaId, customPersonas);
+  const canSpeak = isSpeechSynthesisSupported();
+
+  const speakMessage = useCallback((message: ChatMessage) => {
+    setSpeakingMessageId(message.id);
+    speak(message.text, {
+      locale,
+      voiceURI: speechSettings.voiceURI,
+      rate: speechSettings.rate,
+      // Only clear if a newer message hasn't taken over
+      onEnd: () => setSpeakingMessageId(current => (current === message.id ? null : current)),
+    });
+  }, [locale, speechSettings]);
+
+  const handleToggleSpeak = useCallback((message: ChatMessage) => {
+    if (speakingMessageId === message.id) {
+      stopSpeaking();
+      setSpeakingMessageId(null);
+    } else {
+      speakMessage(message);
+    }
+  }, [speakingMessageId, speakMessage]);
+
+  // Turns picked, pasted or dropped files into attachments for the next message.
+  const addFiles = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    setInputError(null);
+    const room = MAX_CHAT_ATTACHMENTS - pendingAttachments.length;
+    if (files.length > room) {
+      setInputError(t('attachments.tooMany', { count: MAX_CHAT_ATTACHMENTS }));
+    }
+    setAttaching(true);
+    const errors: string[] = [];
+    const added: ChatAttachment[] = [];
+    for (const file of files.slice(0, Math.max(0, room))) {
+      try {
+        added.push(await createChatAttachment(file));
+      } catch (error) {
+        const key: MessageKey = error instanceof ChatAttachmentError ? ATTACHMENT_ERROR_KEYS[error.code] : 'attachments.unreadable';
+        errors.push(t(key, { name: file.name }));
+      }
+    }
+    setPendingAttachments(current => [...current, ...added].slice(0, MAX_CHAT_ATTACHMENTS));
+    if (errors.length > 0) setInputError(errors.join(' '));
+    setAttaching(false);
+  }, [pendingAttachments.length, t]);
+
+  const handlePaste = useCallback((e: React.ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return; // Plain text pastes as usual
+    e.preventDefault();
+    addFiles(files);
+  }, [addFiles]);
+
+  const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    if (!loading) addFiles(Array.from(e.dataTransfer.files));
+  }, [addFiles, loading]);
+
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  }, []);
 
   // Scroll to bottom whenever chat history changes
   useEffect(() => {
@@ -34,9 +158,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   // Handle initial welcome message if history is empty
   useEffect(() => {
     if (chatHistory.length === 0) {
-      const welcomeText = userName 
-        ? `Namaste ${userName}! Kya haal hai, mere bhai/behen? Kaise ho tum?`
-        : WELCOME_MESSAGES[0]; 
+      const welcomeText = userName ? t('chat.welcomeNamed', { name: userName }) : t('chat.welcome');
 
       setChatHistory([
         {
@@ -50,75 +172,192 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Run only once on mount
 
+  // Streams Bhaii's reply to `userMessage` into the message `replyId`: a new
+  // bubble, or the latest reply when regenerating, where it becomes another version.
+  const requestReply = useCallback(async (
+    history: ChatMessage[], // Messages before `userMessage`
+    userMessage: ChatMessage,
+    replyId: string,
+    { regenerate = false }: { regenerate?: boolean } = {},
+  ) => {
+    setLoading(true);
+    setInputError(null);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setStreamingMessageId(replyId);
+
+    const updateReply = (update: (msg: ChatMessage) => ChatMessage) => {
+      setChatHistory((prev) => {
+        if (prev.some((msg) => msg.id === replyId)) {
+          return prev.map((msg) => (msg.id === replyId ? update(msg) : msg));
+        }
+        // Insert the bhaii bubble on the first chunk, then keep growing it in place.
+        return [...prev, update({ id: replyId, sender: 'bhaii', text: '', timestamp: new Date() })];
+      });
+    };
+    const finishReply = (reply: { text: string; stopped?: boolean }) => {
+      if (!regenerate) {
+        updateReply(msg => ({ ...msg, ...reply }));
+      } else if (reply.stopped && !reply.text) {
+        updateReply(msg => selectReplyAlternative(msg, msg.selectedAlternative ?? 0)); // Nothing new; show the old version again
+      } else {
+        updateReply(msg => addReplyAlternative(msg, { ...reply, timestamp: new Date() }));
+      }
+    };
+    // A failed regenerate keeps the old version rather than saving the error as one
+    const failReply = (message: string) => {
+      if (regenerate) {
+        updateReply(msg => selectReplyAlternative(msg, msg.selectedAlternative ?? 0));
+        setInputError(message);
+      } else {
+        finishReply({ text: message });
+      }
+    };
+
+    try {
+      const response = await chatWithBhaii(userMessage.text, history, userName, persona, {
+        signal: abortController.signal,
+        language,
+        attachments: userMessage.attachments,
+        summary,
+        memory,
+        onSummarizing: () => setSummarizing(true),
+        onChunk: (_chunkText, fullText) => updateReply(msg => ({ ...msg, text: fullText })),
+      });
+      if (response.summary) {
+        onSummaryChange(response.summary);
+      }
+      if (response.stopped) {
+        finishReply({ text: response.text, stopped: true });
+      } else if (!response.text) {
+        failReply(response.error ? getAIErrorMessage(response.error, t) : t('chat.replyFailed'));
+      } else {
+        finishReply({ text: response.text });
+        const memoryProposals = response.memoryProposals?.map((text): MemoryProposal => ({ text, status: 'pending' }));
+        updateReply(msg => ({ ...msg, memoryProposals })); // A regenerated reply drops the old version's proposals
+        if (speechSettings.autoRead && canSpeak) {
+          speakMessage({ id: replyId, sender: 'bhaii', text: response.text, timestamp: new Date() });
+        }
+      }
+    } catch (error) {
+      console.error("Failed to send message:", error);
+      failReply(t('chat.sendFailed'));
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
+      setSummarizing(false);
+      setLoading(false);
+    }
+  }, [setChatHistory, userName, persona, language, summary, memory, onSummaryChange, t, speechSettings.autoRead, canSpeak, speakMessage]);
+
   const handleSendMessage = useCallback(async (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (inputMessage.trim() === '' || loading) return;
+    if ((inputMessage.trim() === '' && pendingAttachments.length === 0) || loading || attaching) return;
 
     const newUserMessage: ChatMessage = {
-      id: Date.now().toString(),
+      id: createMessageId(),
       sender: 'user',
       text: inputMessage.trim(),
       timestamp: new Date(),
+      ...(pendingAttachments.length > 0 ? { attachments: pendingAttachments } : {}),
     };
 
-    const updatedHistory = [...chatHistory, newUserMessage];
-    setChatHistory(updatedHistory);
+    setChatHistory([...chatHistory, newUserMessage]);
     setInputMessage('');
-    setLoading(true);
+    setPendingAttachments([]);
+    // Earlier messages are the history; this one (with its files) is the new turn
+    await requestReply(chatHistory, newUserMessage, createMessageId());
+  }, [inputMessage, pendingAttachments, loading, attaching, chatHistory, setChatHistory, requestReply]);
 
-    try {
-      const response = await chatWithBhaii(inputMessage.trim(), updatedHistory, userName); // Pass full updated history
-      const bhaiiResponse: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        sender: 'bhaii',
-        text: response.text || response.error || 'Oops, kuch error ho gaya.',
-        timestamp: new Date(),
-      };
-      // FIX: The type of setChatHistory now correctly accepts functional updates.
-      setChatHistory((prev) => [...prev, bhaiiResponse]);
-    } catch (error) {
-      console.error("Failed to send message:", error);
-      const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        sender: 'bhaii',
-        text: 'Bhaii ko kuch dikkat ho gayi. Dobara try karo na.',
-        timestamp: new Date(),
-      };
-      // FIX: The type of setChatHistory now correctly accepts functional updates.
-      setChatHistory((prev) => [...prev, errorMessage]);
-    } finally {
-      setLoading(false);
+  // Sends an edited copy of a user message; everything after it is dropped.
+  const handleResendEdited = useCallback(async () => {
+    const index = chatHistory.findIndex(msg => msg.id === editingMessageId);
+    const original = chatHistory[index];
+    if (!original || loading || (!editDraft.trim() && !original.attachments?.length)) return;
+
+    const edited: ChatMessage = { ...original, text: editDraft.trim(), timestamp: new Date() };
+    const history = chatHistory.slice(0, index);
+    setChatHistory([...history, edited]);
+    setEditingMessageId(null);
+    stopSpeaking();
+    await requestReply(history, edited, createMessageId());
+  }, [chatHistory, editingMessageId, editDraft, loading, setChatHistory, requestReply]);
+
+  // Only the latest reply can be regenerated, and only if it answers a user message.
+  const lastMessage = chatHistory[chatHistory.length - 1];
+  const promptForLastReply = chatHistory[chatHistory.length - 2];
+  const canRegenerate = lastMessage?.sender === 'bhaii' && promptForLastReply?.sender === 'user';
+
+  const handleRegenerate = useCallback(async () => {
+    if (!canRegenerate || loading) return;
+    stopSpeaking();
+    setChatHistory(prev => prev.map(msg => (msg.id === lastMessage.id
+      ? { ...ensureReplyAlternatives(msg), text: '', stopped: undefined }
+      : msg)));
+    await requestReply(chatHistory.slice(0, -2), promptForLastReply, lastMessage.id, { regenerate: true });
+  }, [canRegenerate, loading, lastMessage, promptForLastReply, chatHistory, setChatHistory, requestReply]);
+
+  const handleDeleteMessage = useCallback((message: ChatMessage) => {
+    if (!window.confirm(t('messages.deleteConfirm'))) return;
+    if (speakingMessageId === message.id) stopSpeaking();
+    setChatHistory(prev => prev.filter(msg => msg.id !== message.id));
+  }, [speakingMessageId, setChatHistory, t]);
+
+  const updateMessage = useCallback((messageId: string, update: (msg: ChatMessage) => ChatMessage) => {
+    setChatHistory(prev => prev.map(msg => (msg.id === messageId ? update(msg) : msg)));
+  }, [setChatHistory]);
+
+  // Saving adds the fact to memory; either way the proposal stays as a record of the choice.
+  const handleMemoryProposal = useCallback((message: ChatMessage, index: number, accept: boolean) => {
+    const proposal = message.memoryProposals?.[index];
+    if (!proposal) return;
+    if (accept && !hasMemory(memory.entries, proposal.text)) {
+      onMemoryChange({ ...memory, entries: [...memory.entries, createMemoryEntry(proposal.text)] });
     }
-  }, [inputMessage, loading, chatHistory, setChatHistory, userName]);
+    updateMessage(message.id, msg => ({
+      ...msg,
+      memoryProposals: msg.memoryProposals?.map((p, i) => (i === index ? { ...p, status: accept ? 'saved' : 'dismissed' } : p)),
+    }));
+  }, [memory, onMemoryChange, updateMessage]);
+
+  const handleStop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
-  // Handle saving preferences to localStorage
+  // Abort any in-flight reply and stop reading aloud when leaving the chat view
   useEffect(() => {
-    if (rememberMe) {
-      const userPrefs: UserPreferences = {
-        name: userName,
-        rememberMe: true,
-        lastChat: chatHistory,
-      };
-      localStorage.setItem(STORAGE_KEY_USER_PREFS, JSON.stringify(userPrefs));
-    } else {
-      localStorage.removeItem(STORAGE_KEY_USER_PREFS);
-    }
-  }, [userName, rememberMe, chatHistory]);
+    return () => {
+      abortControllerRef.current?.abort();
+      stopSpeaking();
+    };
+  }, []);
+
+  // Shown as a divider after the last message it covers
+  const currentSummary = isSummaryCurrent(summary, chatHistory) ? summary : undefined;
+  // A regenerated reply is emptied until its first chunk arrives
+  const isWaitingForFirstChunk = loading && !chatHistory.some((msg) => msg.id === streamingMessageId && msg.text);
 
   return (
-    <div className="flex flex-col h-full bg-white">
+    <div
+      className={`flex flex-col h-full bg-white ${isDraggingFile ? 'ring-4 ring-inset ring-blue-300' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false);
+      }}
+      onDrop={handleDrop}
+    >
       {/* Settings/Preferences */}
       <div className="p-4 border-b border-gray-200 bg-blue-50">
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
           <div className="flex items-center gap-2">
             <label htmlFor="userName" className="text-gray-700 text-sm font-medium">
-              Aapka naam:
+              {t('chat.nameLabel')}
             </label>
             <input
               id="userName"
               type="text"
               className="p-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500 w-32 sm:w-40"
-              placeholder="Enter your name"
+              placeholder={t('chat.namePlaceholder')}
               value={userName}
               onChange={(e) => setUserName(e.target.value)}
             />
@@ -132,41 +371,189 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               onChange={(e) => setRememberMe(e.target.checked)}
             />
             <label htmlFor="rememberMe" className="text-gray-700 text-sm select-none">
-              Mujhe yaad rakho (Remember me)
+              {t('chat.rememberMe')}
             </label>
           </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="persona" className="text-gray-700 text-sm font-medium">
+              {t('chat.personaLabel')}
+            </label>
+            <select
+              id="persona"
+              className="p-2 border border-gray-300 rounded-md text-sm"
+              value={persona.id}
+              onChange={(e) => onPersonaChange(e.target.value)}
+              disabled={loading}
+            >
+              {getAllPersonas(customPersonas).map(p => (
+                <option key={p.id} value={p.id}>{p.avatar} {p.name}</option>
+              ))}
+            </select>
+            <Button
+              onClick={() => setShowPersonaManager(show => !show)}
+              variant="secondary"
+              size="sm"
+              aria-expanded={showPersonaManager}
+            >
+              {t('chat.managePersonas')}
+            </Button>
+            {canSpeak && (
+              <Button
+                onClick={() => setShowSpeechSettings(show => !show)}
+                variant="secondary"
+                size="sm"
+                aria-expanded={showSpeechSettings}
+              >
+                {t('voice.settings')}
+              </Button>
+            )}
+            <Button
+              onClick={() => setShowMemory(show => !show)}
+              variant="secondary"
+              size="sm"
+              aria-expanded={showMemory}
+            >
+              {t('memory.button')}
+            </Button>
+          </div>
         </div>
       </div>
 
+      {showPersonaManager && (
+        <PersonaManager
+          customPersonas={customPersonas}
+          onChange={onCustomPersonasChange}
+          onClose={() => setShowPersonaManager(false)}
+        />
+      )}
+
+      {showSpeechSettings && (
+        <SpeechSettingsPanel
+          settings={speechSettings}
+          onChange={onSpeechSettingsChange}
+          onClose={() => setShowSpeechSettings(false)}
+        />
+      )}
+
+      {showMemory && (
+        <MemoryPanel
+          memory={memory}
+          onChange={onMemoryChange}
+          persisted={rememberMe}
+          onClose={() => setShowMemory(false)}
+        />
+      )}
+
       {/* Chat History */}
       <div className="flex-1 p-4 overflow-y-auto custom-scrollbar">
-        {chatHistory.map((message) => (
-          <div
-            key={message.id}
-            className={`flex mb-4 ${
-              message.sender === 'user' ? 'justify-end' : 'justify-start'
-            }`}
-          >
-            <div
-              className={`max-w-[70%] p-3 rounded-xl shadow-sm ${
-                message.sender === 'user'
-                  ? 'bg-blue-600 text-white rounded-br-none'
-                  : 'bg-gray-200 text-gray-800 rounded-bl-none'
-              }`}
-            >
-              <p className="text-sm break-words">{message.text}</p>
-              <span className="block text-xs text-right opacity-75 mt-1">
-                {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-              </span>
-            </div>
-          </div>
-        ))}
-        {loading && (
+        {chatHistory.map((message, index) => {
+          if (message.id === streamingMessageId && !message.text) return null; // Typing indicator shows instead
+          const isStreaming = message.id === streamingMessageId;
+          const isEditing = message.id === editingMessageId;
+          return (
+            <React.Fragment key={message.id}>
+              <div
+                className={`group flex mb-4 ${
+                  message.sender === 'user' ? 'justify-end' : 'justify-start'
+                }`}
+              >
+                {message.sender === 'bhaii' && (
+                  <span className="text-xl mr-2 self-start mt-2" aria-hidden="true">{persona.avatar}</span>
+                )}
+                <div className={`max-w-[70%] flex flex-col gap-1 ${message.sender === 'user' ? 'items-end' : 'items-start'}`}>
+                  <div
+                    className={`p-3 rounded-xl shadow-sm ${isEditing ? 'w-full min-w-[16rem]' : ''} ${
+                      message.sender === 'user'
+                        ? 'bg-blue-600 text-white rounded-br-none'
+                        : 'bg-gray-200 text-gray-800 rounded-bl-none'
+                    }`}
+                  >
+                    {message.attachments && message.attachments.length > 0 && (
+                      <div className={message.text || isEditing ? 'mb-2' : ''}>
+                        <ChatAttachmentList attachments={message.attachments} />
+                      </div>
+                    )}
+                    {isEditing ? (
+                      <div className="flex flex-col gap-2">
+                        <textarea
+                          className="w-full p-2 rounded-md text-sm text-gray-800 resize-none"
+                          rows={3}
+                          value={editDraft}
+                          onChange={(e) => setEditDraft(e.target.value)}
+                          aria-label={t('messages.editLabel')}
+                          autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button onClick={() => setEditingMessageId(null)} variant="secondary" size="sm">{t('messages.cancelEdit')}</Button>
+                          <Button
+                            onClick={handleResendEdited}
+                            variant="secondary"
+                            size="sm"
+                            disabled={loading || (!editDraft.trim() && !message.attachments?.length)}
+                          >
+                            {t('messages.resend')}
+                          </Button>
+                        </div>
+                        <p className="text-xs opacity-75">{t('messages.resendHint')}</p>
+                      </div>
+                    ) : (
+                      message.text && (message.sender === 'bhaii'
+                        ? <MarkdownMessage text={message.text} />
+                        : <p className="text-sm break-words whitespace-pre-wrap">{message.text}</p>)
+                    )}
+                    {message.memoryProposals?.map((proposal, i) => (
+                      proposal.status === 'pending' ? (
+                        <div key={i} className="mt-2 p-2 rounded-lg bg-white/70 border border-purple-200 text-sm">
+                          <p className="text-xs font-medium text-purple-700">🧠 {t('memory.proposal')}</p>
+                          <p className="my-1">{proposal.text}</p>
+                          <div className="flex gap-2">
+                            <Button onClick={() => handleMemoryProposal(message, i, true)} size="sm">{t('memory.accept')}</Button>
+                            <Button onClick={() => handleMemoryProposal(message, i, false)} variant="secondary" size="sm">{t('memory.dismiss')}</Button>
+                          </div>
+                        </div>
+                      ) : proposal.status === 'saved' && (
+                        <p key={i} className="mt-1 text-xs text-purple-700">✓ {t('memory.saved')}: {proposal.text}</p>
+                      )
+                    ))}
+                    {message.stopped && (
+                      <span className="block text-xs italic opacity-75 mt-1">{t('chat.stopped')}</span>
+                    )}
+                    <span className="block text-xs text-right opacity-75 mt-1">
+                      {formatTime(message.timestamp)}
+                    </span>
+                  </div>
+                  {!isStreaming && !isEditing && (
+                    <div className="text-gray-600 sm:opacity-0 sm:group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                      <ChatMessageActions
+                        message={message}
+                        disabled={loading}
+                        isSpeaking={speakingMessageId === message.id}
+                        onToggleSpeak={canSpeak && message.sender === 'bhaii' ? () => handleToggleSpeak(message) : undefined}
+                        onEdit={message.sender === 'user' ? () => {
+                          setEditingMessageId(message.id);
+                          setEditDraft(message.text);
+                        } : undefined}
+                        onRegenerate={canRegenerate && index === chatHistory.length - 1 ? handleRegenerate : undefined}
+                        onDelete={() => handleDeleteMessage(message)}
+                        onFeedback={message.sender === 'bhaii' ? (feedback) => updateMessage(message.id, msg => ({ ...msg, feedback })) : undefined}
+                        onSelectAlternative={(alternative) => updateMessage(message.id, msg => selectReplyAlternative(msg, alternative))}
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+              {currentSummary && index === currentSummary.coveredCount - 1 && (
+                <ConversationSummaryNotice summary={currentSummary} personaName={persona.name} />
+              )}
+            </React.Fragment>
+          );
+        })}
+        {isWaitingForFirstChunk && (
           <div className="flex justify-start mb-4">
             <div className="max-w-[70%] p-3 rounded-xl shadow-sm bg-gray-200 text-gray-800 rounded-bl-none">
               <div className="flex items-center">
                 <span className="dot-pulse"></span>
-                <span className="ml-2 text-sm italic">Bhaii is typing...</span>
+                <span className="ml-2 text-sm italic">{summarizing ? t('chat.summarizing') : t('chat.typing', { name: persona.name })}</span>
               </div>
             </div>
           </div>
@@ -176,18 +563,65 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
       {/* Message Input */}
       <form onSubmit={handleSendMessage} className="p-4 border-t border-gray-200 bg-gray-50 sticky bottom-0">
+        {inputError && (
+          <p className="text-sm text-red-600 mb-2" role="alert">{inputError}</p>
+        )}
+        {pendingAttachments.length > 0 && (
+          <div className="mb-3">
+            <ChatAttachmentList
+              attachments={pendingAttachments}
+              onRemove={(id) => setPendingAttachments(current => current.filter(a => a.id !== id))}
+            />
+          </div>
+        )}
         <div className="flex gap-2">
           <input
             type="text"
             className="flex-1 p-3 border border-gray-300 rounded-full focus:ring-blue-500 focus:border-blue-500 text-sm"
-            placeholder="Type your message, mere bhai/behen..."
+            placeholder={t('chat.inputPlaceholder')}
             value={inputMessage}
             onChange={(e) => setInputMessage(e.target.value)}
+            onPaste={handlePaste}
             disabled={loading}
           />
-          <Button type="submit" loading={loading} disabled={loading} className="px-5 py-3 rounded-full">
-            Send
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => fileInputRef.current?.click()}
+            loading={attaching}
+            disabled={loading || pendingAttachments.length >= MAX_CHAT_ATTACHMENTS}
+            className="px-4 py-3 rounded-full"
+            aria-label={t('attachments.add')}
+            title={t('attachments.add')}
+          >
+            📎
           </Button>
+          <input
+            type="file"
+            accept={CHAT_ATTACHMENT_ACCEPT}
+            multiple
+            className="hidden"
+            ref={fileInputRef}
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files ?? []));
+              e.target.value = ''; // Allow picking the same file again
+            }}
+          />
+          <VoiceInputButton
+            value={inputMessage}
+            onChange={setInputMessage}
+            onError={setInputError}
+            disabled={loading}
+          />
+          {loading ? (
+            <Button type="button" variant="danger" onClick={handleStop} className="px-5 py-3 rounded-full" aria-label={t('chat.stopAria')}>
+              {t('chat.stop')}
+            </Button>
+          ) : (
+            <Button type="submit" className="px-5 py-3 rounded-full" disabled={attaching}>
+              {t('chat.send')}
+            </Button>
+          )}
         </div>
       </form>
     </div>
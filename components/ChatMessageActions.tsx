@@ -0,0 +1,116 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ChatFeedback, ChatMessage } from '../types';
+import { useTranslation } from '../services/i18n';
+
+interface ChatMessageActionsProps {
+  message: ChatMessage;
+  disabled: boolean; // While a reply is streaming
+  isSpeaking: boolean;
+  onToggleSpeak?: () => void; // Omitted when read-aloud is unavailable
+  onEdit?: () => void; // User messages only
+  onRegenerate?: () => void; // Only for the latest reply
+  onDelete?: () => void;
+  onFeedback?: (feedback: ChatFeedback | undefined) => void; // Replies only
+  onSelectAlternative: (index: number) => void;
+}
+
+const COPIED_RESET_MS = 2000;
+
+const ActionButton: React.FC<React.ButtonHTMLAttributes<HTMLButtonElement> & { label: string; active?: boolean }> = ({
+  label,
+  active = false,
+  children,
+  ...props
+}) => (
+  <button
+    type="button"
+    className={`px-1 rounded disabled:opacity-40 ${active ? 'opacity-100' : 'opacity-60 hover:opacity-100'}`}
+    aria-label={label}
+    title={label}
+    {...props}
+  >
+    {children}
+  </button>
+);
+
+// The row of small buttons under a chat bubble, plus the "2/3" switcher for
+// regenerated replies.
+const ChatMessageActions: React.FC<ChatMessageActionsProps> = ({
+  message,
+  disabled,
+  isSpeaking,
+  onToggleSpeak,
+  onEdit,
+  onRegenerate,
+  onDelete,
+  onFeedback,
+  onSelectAlternative,
+}) => {
+  const [copied, setCopied] = useState<boolean>(false);
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = window.setTimeout(() => setCopied(false), COPIED_RESET_MS);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(message.text);
+      setCopied(true);
+    } catch (e) {
+      console.error('Failed to copy message', e);
+    }
+  }, [message.text]);
+
+  const alternativeCount = message.alternatives?.length ?? 0;
+  const selected = message.selectedAlternative ?? 0;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-xs">
+      {alternativeCount > 1 && (
+        <span className="flex items-center mr-1" role="group" aria-label={t('messages.versions')}>
+          <ActionButton label={t('messages.previousVersion')} onClick={() => onSelectAlternative(selected - 1)} disabled={disabled || selected === 0}>‹</ActionButton>
+          <span>{t('messages.versionCount', { current: selected + 1, total: alternativeCount })}</span>
+          <ActionButton label={t('messages.nextVersion')} onClick={() => onSelectAlternative(selected + 1)} disabled={disabled || selected === alternativeCount - 1}>›</ActionButton>
+        </span>
+      )}
+      {message.text && (
+        <ActionButton label={copied ? t('messages.copied') : t('messages.copy')} onClick={handleCopy}>
+          {copied ? '✓' : '📋'}
+        </ActionButton>
+      )}
+      {onToggleSpeak && message.text && (
+        <ActionButton label={t(isSpeaking ? 'voice.stopReading' : 'voice.readAloud')} onClick={onToggleSpeak}>
+          {isSpeaking ? '⏹' : '🔊'}
+        </ActionButton>
+      )}
+      {onEdit && <ActionButton label={t('messages.edit')} onClick={onEdit} disabled={disabled}>✏️</ActionButton>}
+      {onRegenerate && <ActionButton label={t('messages.regenerate')} onClick={onRegenerate} disabled={disabled}>🔄</ActionButton>}
+      {onFeedback && (
+        <>
+          <ActionButton
+            label={t('messages.goodReply')}
+            active={message.feedback === 'up'}
+            aria-pressed={message.feedback === 'up'}
+            onClick={() => onFeedback(message.feedback === 'up' ? undefined : 'up')}
+          >
+            👍
+          </ActionButton>
+          <ActionButton
+            label={t('messages.badReply')}
+            active={message.feedback === 'down'}
+            aria-pressed={message.feedback === 'down'}
+            onClick={() => onFeedback(message.feedback === 'down' ? undefined : 'down')}
+          >
+            👎
+          </ActionButton>
+        </>
+      )}
+      {onDelete && <ActionButton label={t('messages.delete')} onClick={onDelete} disabled={disabled}>🗑️</ActionButton>}
+    </div>
+  );
+};
+
+export default ChatMessageActions;
@@ -0,0 +1,62 @@
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { CodeTokenType, highlightCode } from '../services/syntaxHighlight';
+import { useTranslation } from '../services/i18n';
+
+interface CodeBlockProps {
+  code: string;
+  language: string;
+}
+
+const TOKEN_CLASSES: Record<CodeTokenType, string> = {
+  keyword: 'text-purple-300',
+  string: 'text-green-300',
+  comment: 'text-gray-400 italic',
+  number: 'text-amber-300',
+  plain: '',
+};
+
+const COPIED_RESET_MS = 2000;
+
+// A fenced code block from a chat reply, highlighted, with a copy button.
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language }) => {
+  const [copied, setCopied] = useState<boolean>(false);
+  const { t } = useTranslation();
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = window.setTimeout(() => setCopied(false), COPIED_RESET_MS);
+    return () => window.clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch (e) {
+      console.error('Failed to copy code', e);
+    }
+  }, [code]);
+
+  return (
+    <div className="my-2 rounded-lg overflow-hidden bg-gray-900 text-gray-100">
+      <div className="flex items-center justify-between px-3 py-1 bg-gray-800 text-xs text-gray-300">
+        <span>{language || t('markdown.code')}</span>
+        <button type="button" onClick={handleCopy} className="hover:text-white" aria-live="polite">
+          {copied ? t('markdown.copied') : t('markdown.copy')}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed">
+        <code>
+          {tokens.map((token, i) => (
+            token.type === 'plain'
+              ? <React.Fragment key={i}>{token.text}</React.Fragment>
+              : <span key={i} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,125 @@
+import React, { useState, useCallback } from 'react';
+import { Conversation } from '../types';
+import { sortConversations } from '../services/conversations';
+import Button from './Button';
+import { useTranslation } from '../services/i18n';
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onTogglePin: (id: string) => void;
+}
+
+const ConversationList: React.FC<ConversationListProps> = ({
+  conversations,
+  activeConversationId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onTogglePin,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState<string>('');
+  const { t } = useTranslation();
+
+  const startRename = useCallback((conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  }, []);
+
+  const commitRename = useCallback(() => {
+    if (editingId && draftTitle.trim() !== '') {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  }, [editingId, draftTitle, onRename]);
+
+  const handleDelete = useCallback((conversation: Conversation) => {
+    if (window.confirm(t('conversations.deleteConfirm', { title: conversation.title }))) {
+      onDelete(conversation.id);
+    }
+  }, [onDelete, t]);
+
+  return (
+    <aside className="w-56 flex-shrink-0 flex flex-col border-r border-gray-200 bg-gray-50">
+      <div className="p-3 border-b border-gray-200">
+        <Button onClick={onCreate} size="sm" className="w-full">
+          {t('conversations.new')}
+        </Button>
+      </div>
+      <ul className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1" aria-label={t('conversations.listLabel')}>
+        {sortConversations(conversations).map((conversation) => {
+          const isActive = conversation.id === activeConversationId;
+          return (
+            <li key={conversation.id}>
+              {editingId === conversation.id ? (
+                <input
+                  type="text"
+                  className="w-full p-2 border border-blue-400 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  aria-label={t('conversations.titleAria')}
+                  autoFocus
+                />
+              ) : (
+                <div
+                  className={`group flex items-center gap-1 rounded-md transition-colors duration-200
+                    ${isActive ? 'bg-blue-100 text-blue-800' : 'hover:bg-gray-200 text-gray-700'}`}
+                >
+                  <button
+                    className="flex-1 min-w-0 text-left py-2 px-2 text-sm truncate"
+                    onClick={() => onSelect(conversation.id)}
+                    onDoubleClick={() => startRename(conversation)}
+                    aria-current={isActive ? 'true' : undefined}
+                    title={conversation.title}
+                  >
+                    {conversation.pinned && <span className="mr-1" aria-label={t('conversations.pinned')}>📌</span>}
+                    {conversation.title}
+                  </button>
+                  <div className={`flex items-center pr-1 ${isActive ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+                    <button
+                      className="p-1 text-xs hover:text-blue-600"
+                      onClick={() => onTogglePin(conversation.id)}
+                      aria-label={t(conversation.pinned ? 'conversations.unpinAria' : 'conversations.pinAria')}
+                      title={t(conversation.pinned ? 'conversations.unpin' : 'conversations.pin')}
+                    >
+                      {conversation.pinned ? '📍' : '📌'}
+                    </button>
+                    <button
+                      className="p-1 text-xs hover:text-blue-600"
+                      onClick={() => startRename(conversation)}
+                      aria-label={t('conversations.renameAria')}
+                      title={t('conversations.rename')}
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      className="p-1 text-xs hover:text-red-600"
+                      onClick={() => handleDelete(conversation)}
+                      aria-label={t('conversations.deleteAria')}
+                      title={t('conversations.delete')}
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+};
+
+export default ConversationList;
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { ConversationSummary } from '../types';
+import { useTranslation } from '../services/i18n';
+
+interface ConversationSummaryNoticeProps {
+  summary: ConversationSummary;
+  personaName: string;
+}
+
+// Divider after the last summarized message: older messages stay on screen,
+// but the model only sees this summary of them.
+const ConversationSummaryNotice: React.FC<ConversationSummaryNoticeProps> = ({ summary, personaName }) => {
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const { t, formatDateTime } = useTranslation();
+
+  return (
+    <div className="my-4 text-xs text-gray-500">
+      <div className="flex items-center gap-2">
+        <span className="flex-1 border-t border-dashed border-gray-300" />
+        <span className="text-center">
+          📝 {t('chat.summaryNotice', { count: summary.coveredCount, name: personaName })}{' '}
+          <button
+            type="button"
+            onClick={() => setExpanded(prev => !prev)}
+            className="text-purple-700 underline"
+            aria-expanded={expanded}
+          >
+            {t(expanded ? 'chat.hideSummary' : 'chat.showSummary')}
+          </button>
+        </span>
+        <span className="flex-1 border-t border-dashed border-gray-300" />
+      </div>
+      {expanded && (
+        <div className="mt-2 mx-auto max-w-[70%] p-3 rounded-lg bg-gray-100 text-gray-700 text-sm whitespace-pre-wrap">
+          {summary.text}
+          <span className="block text-xs text-right opacity-75 mt-1">{formatDateTime(summary.updatedAt)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConversationSummaryNotice;
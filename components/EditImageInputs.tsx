@@ -0,0 +1,94 @@
+import React, { useCallback } from 'react';
+import { MAX_EDIT_IMAGES } from '../constants';
+import { useTranslation } from '../services/i18n';
+
+export interface ReferenceImage {
+  id: string;
+  imageUrl: string; // data: URL
+  name: string;
+  label: string;
+}
+
+interface EditImageInputsProps {
+  baseImageUrl: string;
+  references: ReferenceImage[];
+  onChange: (references: ReferenceImage[]) => void;
+  disabled?: boolean;
+}
+
+// The ordered images sent with an edit: Image 1 is the one being edited, the
+// rest can be reordered, labeled and removed.
+const EditImageInputs: React.FC<EditImageInputsProps> = ({ baseImageUrl, references, onChange, disabled = false }) => {
+  const { t } = useTranslation();
+
+  const handleMove = useCallback((index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= references.length) return;
+    const next = [...references];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  }, [references, onChange]);
+
+  const handleLabelChange = useCallback((id: string, label: string) => {
+    onChange(references.map(reference => (reference.id === id ? { ...reference, label } : reference)));
+  }, [references, onChange]);
+
+  return (
+    <div className="mb-4">
+      <h3 className="text-sm font-medium text-gray-700 mb-2">
+        {t('imageEditor.inputsTitle', { count: references.length + 1, max: MAX_EDIT_IMAGES })}
+      </h3>
+      <ol className="flex flex-wrap gap-3" aria-label={t('imageEditor.inputsLabel')}>
+        <li className="flex flex-col items-center w-28">
+          <img src={baseImageUrl} alt={t('imageEditor.imageNumber', { number: 1 })} className="h-20 w-28 object-cover rounded-md border-2 border-blue-500" />
+          <span className="mt-1 text-xs font-semibold text-gray-700">{t('imageEditor.imageNumber', { number: 1 })}</span>
+          <span className="text-xs text-gray-500">{t('imageEditor.beingEdited')}</span>
+        </li>
+        {references.map((reference, index) => (
+          <li key={reference.id} className="flex flex-col items-center w-28">
+            <img src={reference.imageUrl} alt={t('imageEditor.imageNumber', { number: index + 2 })} className="h-20 w-28 object-cover rounded-md border border-gray-300" />
+            <div className="mt-1 flex items-center gap-1">
+              <button
+                className="p-0.5 text-xs text-gray-600 hover:text-blue-600 disabled:opacity-30"
+                onClick={() => handleMove(index, -1)}
+                disabled={disabled || index === 0}
+                aria-label={t('imageEditor.moveEarlier', { number: index + 2 })}
+              >
+                ◀
+              </button>
+              <span className="text-xs font-semibold text-gray-700">{t('imageEditor.imageNumber', { number: index + 2 })}</span>
+              <button
+                className="p-0.5 text-xs text-gray-600 hover:text-blue-600 disabled:opacity-30"
+                onClick={() => handleMove(index, 1)}
+                disabled={disabled || index === references.length - 1}
+                aria-label={t('imageEditor.moveLater', { number: index + 2 })}
+              >
+                ▶
+              </button>
+              <button
+                className="p-0.5 text-xs text-gray-600 hover:text-red-600 disabled:opacity-30"
+                onClick={() => onChange(references.filter(r => r.id !== reference.id))}
+                disabled={disabled}
+                aria-label={t('imageEditor.removeImage', { number: index + 2 })}
+              >
+                ✕
+              </button>
+            </div>
+            <input
+              type="text"
+              className="mt-1 w-full p-1 border border-gray-300 rounded text-xs"
+              placeholder={t('imageEditor.labelPlaceholder')}
+              value={reference.label}
+              onChange={(e) => handleLabelChange(reference.id, e.target.value)}
+              disabled={disabled}
+              aria-label={t('imageEditor.labelFor', { number: index + 2 })}
+              title={reference.name}
+            />
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default EditImageInputs;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import Button from './Button';
+import { GALLERY_TOOL_LABEL_KEYS } from '../constants';
+import { GalleryItem, GalleryTool } from '../types';
+import { getAppStorage } from '../services/storage';
+import { useTranslation } from '../services/i18n';
+import { createGalleryZip, describeGallerySettings, filterGalleryItems, getGalleryItemFileName } from '../services/gallery';
+import { MessageKey } from '../locales';
+
+interface GalleryProps {
+  openItemId: string | null; // Item shown in the details panel (from the URL)
+  onOpenItem: (id: string | null) => void;
+  onReuse: (item: GalleryItem) => void;
+}
+
+const TOOL_FILTERS: (GalleryTool | 'all')[] = ['all', 'image-editor', 'hd-image-generator', 'slideshow-generator'];
+
+const isVideo = (item: GalleryItem) => item.mediaUrl.startsWith('data:video/');
+
+const GalleryMedia: React.FC<{ item: GalleryItem; className: string; controls?: boolean }> = ({ item, className, controls = false }) =>
+  isVideo(item) ? (
+    <video src={item.mediaUrl} className={className} controls={controls} muted={!controls} aria-label={item.prompt} />
+  ) : (
+    <img src={item.mediaUrl} alt={item.prompt} className={className} />
+  );
+
+const Gallery: React.FC<GalleryProps> = ({ openItemId, onOpenItem, onReuse }) => {
+  const [items, setItems] = useState<GalleryItem[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [query, setQuery] = useState<string>('');
+  const [toolFilter, setToolFilter] = useState<GalleryTool | 'all'>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<MessageKey | null>(null);
+  const { t, formatDate, formatDateTime } = useTranslation();
+
+  useEffect(() => {
+    let cancelled = false;
+    getAppStorage()
+      .then(storage => storage.listGalleryItems())
+      .then(loaded => { if (!cancelled) setItems(loaded); })
+      .catch(e => {
+        console.error('Failed to load the gallery', e);
+        if (!cancelled) setError('gallery.loadFailed');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const visibleItems = useMemo(() => filterGalleryItems(items, query, toolFilter, t), [items, query, toolFilter, t]);
+  const openItem = items.find(item => item.id === openItemId) ?? null;
+  const selectedVisible = visibleItems.filter(item => selectedIds.has(item.id));
+  const allVisibleSelected = visibleItems.length > 0 && selectedVisible.length === visibleItems.length;
+
+  const handleToggleSelected = useCallback((id: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  }, []);
+
+  const handleToggleSelectAll = useCallback(() => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleItems.map(item => item.id)));
+  }, [allVisibleSelected, visibleItems]);
+
+  const handleDelete = useCallback(async (ids: string[]) => {
+    if (ids.length === 0) return;
+    if (!window.confirm(ids.length === 1 ? t('gallery.deleteOneConfirm') : t('gallery.deleteManyConfirm', { count: ids.length }))) return;
+    try {
+      const storage = await getAppStorage();
+      await storage.deleteGalleryItems(ids);
+      setItems(current => current.filter(item => !ids.includes(item.id)));
+      setSelectedIds(current => new Set([...current].filter(id => !ids.includes(id))));
+      if (openItemId && ids.includes(openItemId)) onOpenItem(null);
+    } catch (e) {
+      console.error('Failed to delete gallery items', e);
+      setError('gallery.deleteFailed');
+    }
+  }, [openItemId, onOpenItem, t]);
+
+  // Downloads the selection, or everything shown when nothing is selected.
+  const handleDownloadZip = useCallback(() => {
+    const toZip = selectedVisible.length > 0 ? selectedVisible : visibleItems;
+    if (toZip.length === 0) return;
+    const url = URL.createObjectURL(createGalleryZip(toZip));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'bhaii-gallery.zip';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }, [selectedVisible, visibleItems]);
+
+  return (
+    <div className="flex flex-col bg-white p-4">
+      <h2 className="text-xl font-bold mb-4 text-gray-800">{t('gallery.title')}</h2>
+      <p className="text-gray-600 text-sm mb-4">
+        {t('gallery.description')}
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <input
+          type="search"
+          className="flex-1 min-w-[12rem] p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-sm"
+          placeholder={t('gallery.searchPlaceholder')}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          aria-label={t('gallery.search')}
+        />
+        <select
+          className="p-2 border border-gray-300 rounded-md text-sm"
+          value={toolFilter}
+          onChange={(e) => setToolFilter(e.target.value as GalleryTool | 'all')}
+          aria-label={t('gallery.filterByTool')}
+        >
+          {TOOL_FILTERS.map(tool => (
+            <option key={tool} value={tool}>{t(tool === 'all' ? 'gallery.allTools' : GALLERY_TOOL_LABEL_KEYS[tool])}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700 mr-auto">
+          <input type="checkbox" checked={allVisibleSelected} onChange={handleToggleSelectAll} disabled={visibleItems.length === 0} />
+          {selectedVisible.length > 0 ? t('gallery.selectedCount', { count: selectedVisible.length }) : t('gallery.selectAll')}
+        </label>
+        <Button onClick={() => handleDelete(selectedVisible.map(item => item.id))} variant="danger" size="sm" disabled={selectedVisible.length === 0}>
+          {t('gallery.deleteSelected')}
+        </Button>
+        <Button onClick={handleDownloadZip} variant="secondary" size="sm" disabled={visibleItems.length === 0}>
+          {t(selectedVisible.length > 0 ? 'gallery.downloadSelected' : 'gallery.downloadAll')}
+        </Button>
+      </div>
+
+      {error && <p className="text-red-600 text-sm mb-4" role="alert">{t(error)}</p>}
+
+      {!loading && openItemId && !openItem && (
+        <p className="text-gray-500 text-sm mb-4">{t('gallery.itemMissing')}</p>
+      )}
+
+      {openItem && (
+        <div className="mb-4 p-3 border border-blue-200 rounded-lg bg-blue-50 flex flex-col md:flex-row gap-4" aria-label={t('gallery.itemDetails')}>
+          <GalleryMedia item={openItem} className="max-w-full md:max-w-sm max-h-72 object-contain rounded-md shadow-md self-center" controls />
+          <div className="flex-1 min-w-0 flex flex-col gap-1 text-sm">
+            <p className="text-gray-800 whitespace-pre-wrap break-words">{openItem.prompt || t('gallery.noPrompt')}</p>
+            <p className="text-xs text-gray-500">
+              {t(GALLERY_TOOL_LABEL_KEYS[openItem.tool])} · {openItem.model || t('gallery.noModel')} · {formatDateTime(openItem.createdAt)}
+            </p>
+            <ul className="text-xs text-gray-600 list-disc list-inside">
+              {describeGallerySettings(openItem, t).map(line => <li key={line}>{line}</li>)}
+            </ul>
+            <div className="flex flex-wrap gap-2 mt-auto pt-2">
+              <Button onClick={() => onReuse(openItem)} size="sm">{t('gallery.reuse')}</Button>
+              <a
+                href={openItem.mediaUrl}
+                download={getGalleryItemFileName(openItem)}
+                className="px-3 py-1.5 text-sm rounded-md border border-gray-300 bg-white text-blue-600 hover:bg-gray-100"
+              >
+                {t('gallery.download')}
+              </a>
+              <Button onClick={() => handleDelete([openItem.id])} variant="danger" size="sm">{t('gallery.delete')}</Button>
+              <Button onClick={() => onOpenItem(null)} variant="secondary" size="sm" className="ml-auto">{t('gallery.close')}</Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-gray-500 text-center py-8" role="status">{t('gallery.loading')}</p>
+      ) : visibleItems.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">
+          {t(items.length === 0 ? 'gallery.empty' : 'gallery.noMatches')}
+        </p>
+      ) : (
+        <ul className="grid grid-cols-2 md:grid-cols-4 gap-3" aria-label={t('gallery.items')}>
+          {visibleItems.map(item => (
+            <li
+              key={item.id}
+              className={`relative rounded-lg border overflow-hidden bg-gray-50
+                ${item.id === openItemId ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-200'}`}
+            >
+              <button className="block w-full" onClick={() => onOpenItem(item.id)} aria-label={t('gallery.openItem', { name: item.prompt || t(GALLERY_TOOL_LABEL_KEYS[item.tool]) })}>
+                <GalleryMedia item={item} className="w-full h-32 object-cover" />
+              </button>
+              <input
+                type="checkbox"
+                className="absolute top-2 left-2 w-4 h-4"
+                checked={selectedIds.has(item.id)}
+                onChange={() => handleToggleSelected(item.id)}
+                aria-label={t('gallery.selectItem', { name: item.prompt || t(GALLERY_TOOL_LABEL_KEYS[item.tool]) })}
+              />
+              <div className="p-2">
+                <p className="text-xs text-gray-800 truncate" title={item.prompt}>{item.prompt || t('gallery.noPrompt')}</p>
+                <p className="text-xs text-gray-500">{t(GALLERY_TOOL_LABEL_KEYS[item.tool])} · {formatDate(item.createdAt)}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Gallery;
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { HDGenerationJob } from '../types';
+import { HD_STYLE_PRESETS } from '../constants';
+import Button from './Button';
+import { useTranslation } from '../services/i18n';
+import { MessageKey } from '../locales';
+
+const STATUS_LABELS: Record<HDGenerationJob['status'], { textKey: MessageKey; className: string }> = {
+  queued: { textKey: 'hdImages.status.queued', className: 'bg-gray-100 text-gray-700' },
+  running: { textKey: 'hdImages.status.running', className: 'bg-blue-100 text-blue-700' },
+  done: { textKey: 'hdImages.status.done', className: 'bg-green-100 text-green-700' },
+  error: { textKey: 'hdImages.status.error', className: 'bg-red-100 text-red-700' },
+  cancelled: { textKey: 'hdImages.status.cancelled', className: 'bg-gray-100 text-gray-500' },
+};
+
+interface HDGenerationJobCardProps {
+  job: HDGenerationJob;
+  position: number; // 1-based place in the queue
+  favoritesOnly: boolean;
+  onCancel: (jobId: string) => void;
+  onRemove: (jobId: string) => void;
+  onToggleFavorite: (jobId: string, imageId: string) => void;
+}
+
+// Elapsed seconds while a job runs; Imagen reports no finer progress.
+const useElapsedSeconds = (startedAt: number | undefined, active: boolean) => {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!active) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [active]);
+  return startedAt ? Math.max(0, Math.round((now - startedAt) / 1000)) : 0;
+};
+
+const HDGenerationJobCard: React.FC<HDGenerationJobCardProps> = ({
+  job,
+  position,
+  favoritesOnly,
+  onCancel,
+  onRemove,
+  onToggleFavorite,
+}) => {
+  const isActive = job.status === 'queued' || job.status === 'running';
+  const elapsedSeconds = useElapsedSeconds(job.startedAt, job.status === 'running');
+  const { t } = useTranslation();
+  const status = STATUS_LABELS[job.status];
+  const { settings } = job;
+  const extension = settings.format === 'image/png' ? 'png' : 'jpeg';
+  const stylePreset = HD_STYLE_PRESETS.find(preset => preset.id === settings.stylePresetId);
+  const images = favoritesOnly ? job.images.filter(image => image.favorite) : job.images;
+
+  return (
+    <li className="p-3 border border-gray-200 rounded-lg bg-gray-50">
+      <div className="flex items-start gap-2">
+        <span className="text-xs font-semibold text-gray-500 mt-0.5">#{position}</span>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-gray-800 truncate" title={job.prompt}>{job.prompt}</p>
+          <p className="text-xs text-gray-500">
+            {[
+              settings.aspectRatio,
+              settings.numberOfImages === 1 ? t('hdImages.oneImage') : t('hdImages.variationCount', { count: settings.numberOfImages }),
+              extension.toUpperCase(),
+              stylePreset && t(stylePreset.nameKey),
+              settings.seed !== undefined && t('hdImages.seedValue', { seed: settings.seed }),
+            ].filter(Boolean).join(' · ')}
+          </p>
+        </div>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+          {t(status.textKey)}{job.status === 'running' ? ` · ${elapsedSeconds}s` : ''}
+        </span>
+        {isActive ? (
+          <Button onClick={() => onCancel(job.id)} variant="secondary" size="sm" aria-label={t('hdImages.cancelJob', { position })}>
+            {t('hdImages.cancel')}
+          </Button>
+        ) : (
+          <Button onClick={() => onRemove(job.id)} variant="secondary" size="sm" aria-label={t('hdImages.removeJob', { position })}>
+            {t('hdImages.remove')}
+          </Button>
+        )}
+      </div>
+
+      {job.status === 'running' && (
+        <div className="mt-2 w-full h-1.5 bg-gray-200 rounded-full overflow-hidden" role="progressbar" aria-label={t('hdImages.generatingJob', { position })}>
+          <div className="h-full w-1/3 bg-blue-600 rounded-full animate-pulse" />
+        </div>
+      )}
+      {job.error && <p className="mt-2 text-red-600 text-xs" role="alert">{job.error}</p>}
+
+      {images.length > 0 && (
+        <div className={`mt-3 grid gap-2 ${images.length === 1 ? 'grid-cols-1' : 'grid-cols-2'}`}>
+          {images.map((image, i) => (
+            <figure key={image.id} className="relative group">
+              <img src={image.imageUrl} alt={t('hdImages.variationAlt', { number: i + 1, prompt: job.prompt })} className="w-full h-auto rounded-md shadow-md" />
+              <button
+                className={`absolute top-1 right-1 w-8 h-8 rounded-full bg-white/90 shadow text-lg leading-none
+                  ${image.favorite ? 'text-yellow-500' : 'text-gray-400 hover:text-yellow-500'}`}
+                onClick={() => onToggleFavorite(job.id, image.id)}
+                aria-pressed={image.favorite}
+                aria-label={t(image.favorite ? 'hdImages.unfavorite' : 'hdImages.favorite')}
+              >
+                {image.favorite ? '★' : '☆'}
+              </button>
+              <a
+                href={image.imageUrl}
+                download={`generated_hd_image_${position}_${i + 1}.${extension}`}
+                className="absolute bottom-1 right-1 px-2 py-0.5 rounded bg-white/90 text-blue-600 text-xs shadow hover:underline"
+              >
+                {t('hdImages.download')}
+              </a>
+            </figure>
+          ))}
+        </div>
+      )}
+    </li>
+  );
+};
+
+export default HDGenerationJobCard;
@@ -1,14 +1,72 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import Button from './Button';
-import { generateHDImageWithGemini } from '../services/geminiService';
-
-const HDImageGenerator: React.FC = () => {
-  const [prompt, setPrompt] = useState<string>('');
-  const [aspectRatio, setAspectRatio] = useState<'1:1' | '3:4' | '4:3' | '9:16' | '16:9'>('1:1');
-  const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(null);
-  const [loading, setLoading] = useState<boolean>(false);
-  const [statusMessage, setStatusMessage] = useState<string>('');
+import HDGenerationJobCard from './HDGenerationJobCard';
+import { enhanceImagePrompt, generateHDImageWithGemini, hasSelectedApiKey, openApiKeySelector, supportsImageSeed } from '../services/geminiService';
+import { getAIErrorMessage } from '../services/aiErrors';
+import { useTranslation } from '../services/i18n';
+import { MessageKey } from '../locales';
+import { applyStylePreset } from '../services/imagePrompt';
+import { recordGalleryItem } from '../services/gallery';
+import { HD_IMAGE_GEN_MODEL_NAME, HD_STYLE_PRESETS } from '../constants';
+import { AspectRatio, GalleryItemOf, HDGenerationJob, HDImageFormat, HDPersonGeneration, HDSafetyLevel } from '../types';
+
+const VARIATION_OPTIONS = [1, 2, 3, 4];
+
+const NO_STYLE_PRESET: { id: null; nameKey: MessageKey } = { id: null, nameKey: 'hdImages.style.none' };
+
+const ASPECT_RATIO_OPTIONS: { value: AspectRatio; labelKey: MessageKey }[] = [
+  { value: '1:1', labelKey: 'hdImages.aspect.square' },
+  { value: '3:4', labelKey: 'hdImages.aspect.portrait' },
+  { value: '4:3', labelKey: 'hdImages.aspect.landscape' },
+  { value: '9:16', labelKey: 'hdImages.aspect.tallPortrait' },
+  { value: '16:9', labelKey: 'hdImages.aspect.wideLandscape' },
+];
+
+const PERSON_GENERATION_OPTIONS: { value: HDPersonGeneration; labelKey: MessageKey }[] = [
+  { value: 'dont_allow', labelKey: 'hdImages.people.none' },
+  { value: 'allow_adult', labelKey: 'hdImages.people.adults' },
+  { value: 'allow_all', labelKey: 'hdImages.people.all' },
+];
+
+const SAFETY_LEVEL_OPTIONS: { value: HDSafetyLevel; labelKey: MessageKey }[] = [
+  { value: 'strict', labelKey: 'hdImages.safety.strict' },
+  { value: 'balanced', labelKey: 'hdImages.safety.balanced' },
+  { value: 'relaxed', labelKey: 'hdImages.safety.relaxed' },
+];
+
+const MAX_SEED = 2 ** 31 - 1;
+
+let jobCounter = 0;
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${++jobCounter}`;
+
+interface HDImageGeneratorProps {
+  initialItem?: GalleryItemOf<'hd-image-generator'>; // Gallery item whose settings are being reused
+}
+
+const HDImageGenerator: React.FC<HDImageGeneratorProps> = ({ initialItem }) => {
+  const initialSettings = initialItem?.settings;
+  const [prompt, setPrompt] = useState<string>(initialItem?.prompt ?? '');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(initialSettings?.aspectRatio ?? '1:1');
+  const [numberOfImages, setNumberOfImages] = useState<number>(initialSettings?.numberOfImages ?? 1);
+  const [format, setFormat] = useState<HDImageFormat>(initialSettings?.format ?? 'image/jpeg');
+  const [stylePresetId, setStylePresetId] = useState<string | null>(initialSettings?.stylePresetId ?? null);
+  const [negativePrompt, setNegativePrompt] = useState<string>(initialSettings?.negativePrompt ?? '');
+  const seedSupported = supportsImageSeed(); // The Gemini API ignores seeds, so the field is hidden there
+  const [seed, setSeed] = useState<string>(initialSettings?.seed?.toString() ?? ''); // Empty = random each time
+  const [personGeneration, setPersonGeneration] = useState<HDPersonGeneration | ''>(initialSettings?.personGeneration ?? '');
+  const [safetyLevel, setSafetyLevel] = useState<HDSafetyLevel | ''>(initialSettings?.safetyLevel ?? '');
+  // "Enhance prompt" suggestion waiting for the user to accept or discard it
+  const [enhancing, setEnhancing] = useState<boolean>(false);
+  const [enhancedPrompt, setEnhancedPrompt] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<HDGenerationJob[]>([]);
+  const [favoritesOnly, setFavoritesOnly] = useState<boolean>(false);
+  const [statusMessage, setStatusMessage] = useState<MessageKey | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  // Abort controller of the job that is currently running
+  const runningAbortRef = useRef<{ jobId: string; controller: AbortController } | null>(null);
 
   // API Key selection checks
   const [apiKeySelected, setApiKeySelected] = useState<boolean>(false);
@@ -16,176 +74,456 @@ const HDImageGenerator: React.FC = () => {
   useEffect(() => {
     // Check API key status on component mount
     const checkApiKey = async () => {
-      const selected = await (window as any).aistudio.hasSelectedApiKey();
+      const selected = await hasSelectedApiKey();
       setApiKeySelected(selected);
       if (!selected) {
-        setStatusMessage("Please select your API key for HD image generation (billing required).");
+        setStatusMessage('hdImages.selectKey');
       } else {
-        setStatusMessage("Ready to generate HD images!");
+        setStatusMessage('hdImages.ready');
       }
     };
     checkApiKey();
   }, []);
 
+  // Stop the running job when leaving the view
+  useEffect(() => {
+    return () => runningAbortRef.current?.controller.abort();
+  }, []);
+
   const handleSelectApiKey = async () => {
-    setStatusMessage("Opening API key selection dialog...");
-    await (window as any).aistudio.openSelectKey();
+    setStatusMessage('apiKey.opening');
+    await openApiKeySelector();
     // Assume selection was successful to avoid race condition, actual check happens on API call
     setApiKeySelected(true);
-    setStatusMessage("API key selected. You can now generate HD images.");
+    setStatusMessage('hdImages.keySelected');
   };
 
-  const handleGenerateImage = useCallback(async () => {
+  const updateJob = useCallback((jobId: string, update: Partial<HDGenerationJob>) => {
+    setJobs(current => current.map(job => (job.id === jobId ? { ...job, ...update } : job)));
+  }, []);
+
+  const runJob = useCallback(async (job: HDGenerationJob) => {
+    const controller = new AbortController();
+    runningAbortRef.current = { jobId: job.id, controller };
+    updateJob(job.id, { status: 'running', startedAt: Date.now() });
+
+    try {
+      const { settings } = job;
+      const response = await generateHDImageWithGemini(applyStylePreset(job.prompt, settings.stylePresetId), settings.aspectRatio, {
+        numberOfImages: settings.numberOfImages,
+        outputMimeType: settings.format,
+        negativePrompt: settings.negativePrompt,
+        seed: settings.seed,
+        personGeneration: settings.personGeneration,
+        safetyLevel: settings.safetyLevel,
+        signal: controller.signal,
+      });
+
+      if (response.cancelled || controller.signal.aborted) {
+        updateJob(job.id, { status: 'cancelled' });
+      } else if (response.imageUrls) {
+        updateJob(job.id, {
+          status: 'done',
+          images: response.imageUrls.map(imageUrl => ({ id: createId('image'), imageUrl, favorite: false })),
+        });
+        response.imageUrls.forEach(imageUrl => recordGalleryItem({
+          tool: 'hd-image-generator',
+          mediaUrl: imageUrl,
+          prompt: job.prompt,
+          model: HD_IMAGE_GEN_MODEL_NAME,
+          settings,
+        }));
+      } else {
+        updateJob(job.id, { status: 'error', error: getAIErrorMessage(response.error, t) });
+        if (response.error?.kind === 'auth' || response.error?.kind === 'billing') {
+          setApiKeySelected(false); // Reset key selection state; the queue waits until a key is selected
+          setStatusMessage('hdImages.billingRequired');
+        }
+      }
+    } catch (err) {
+      console.error('HD image generation failed:', err);
+      updateJob(job.id, { status: 'error', error: t('errors.unknown') });
+    } finally {
+      runningAbortRef.current = null;
+    }
+  }, [updateJob, t]);
+
+  // Runs queued prompts one after another.
+  const isRunning = jobs.some(job => job.status === 'running');
+  useEffect(() => {
+    if (isRunning || !apiKeySelected) return;
+    const next = jobs.find(job => job.status === 'queued');
+    if (next) {
+      runJob(next);
+    }
+  }, [jobs, isRunning, apiKeySelected, runJob]);
+
+  const handleGenerateImage = useCallback(() => {
     if (!apiKeySelected) {
-      setError("Please select your API key first.");
+      setError(t('apiKey.required'));
       return;
     }
     if (prompt.trim() === '') {
-      setError('Please provide a text prompt to generate an image.');
+      setError(t('errors.emptyImagePrompt'));
       return;
     }
 
-    setLoading(true);
-    setError(null);
-    setGeneratedImageUrl(null);
-    setStatusMessage('Generating HD image... This may take a moment.');
+    // Only a seed the provider honors is kept on the job and its gallery items
+    const parsedSeed = !seedSupported || seed.trim() === '' ? undefined : Number(seed);
+    if (parsedSeed !== undefined && (!Number.isInteger(parsedSeed) || parsedSeed < 0 || parsedSeed > MAX_SEED)) {
+      setError(t('hdImages.invalidSeed', { max: MAX_SEED }));
+      return;
+    }
 
-    try {
-      const response = await generateHDImageWithGemini(
-        prompt.trim(),
+    setError(null);
+    setEnhancedPrompt(null);
+    setJobs(current => [...current, {
+      id: createId('job'),
+      prompt: prompt.trim(),
+      settings: {
         aspectRatio,
-      );
-
-      if (response.imageUrl) {
-        setGeneratedImageUrl(response.imageUrl);
-        setStatusMessage('HD image generated successfully!');
-      } else if (response.error) {
-        setError(response.error);
-        if (response.error.includes("API key issue")) {
-          setApiKeySelected(false); // Reset key selection state
-          setStatusMessage("API key issue: HD image generation requires billing. Please ensure your API key is enabled for billing and re-select it.");
-        } else {
-          setStatusMessage('');
-        }
-      } else {
-        setError('Failed to generate HD image.');
-        setStatusMessage('');
-      }
-    } catch (err: any) {
-      console.error('HD image generation failed:', err);
-      setError(`An unexpected error occurred: ${err.message || 'Unknown error'}`);
-      setStatusMessage('');
-    } finally {
-      setLoading(false);
+        numberOfImages,
+        format,
+        negativePrompt: negativePrompt.trim() || undefined,
+        seed: parsedSeed,
+        personGeneration: personGeneration || undefined,
+        safetyLevel: safetyLevel || undefined,
+        stylePresetId: stylePresetId ?? undefined,
+      },
+      status: 'queued',
+      images: [],
+    }]);
+    setPrompt('');
+    setStatusMessage('hdImages.generating');
+  }, [apiKeySelected, prompt, aspectRatio, numberOfImages, format, negativePrompt, seedSupported, seed, personGeneration, safetyLevel, stylePresetId, t]);
+
+  const handleEnhancePrompt = useCallback(async () => {
+    setEnhancing(true);
+    setError(null);
+    const response = await enhanceImagePrompt(prompt);
+    setEnhancing(false);
+    if (response.prompt) {
+      setEnhancedPrompt(response.prompt);
+    } else {
+      setError(getAIErrorMessage(response.error, t));
     }
-  }, [apiKeySelected, prompt, aspectRatio]);
+  }, [prompt, t]);
+
+  const handleCancelJob = useCallback((jobId: string) => {
+    if (runningAbortRef.current?.jobId === jobId) {
+      runningAbortRef.current.controller.abort(); // runJob marks it cancelled
+    } else {
+      updateJob(jobId, { status: 'cancelled' });
+    }
+  }, [updateJob]);
+
+  const handleRemoveJob = useCallback((jobId: string) => {
+    setJobs(current => current.filter(job => job.id !== jobId));
+  }, []);
+
+  const handleToggleFavorite = useCallback((jobId: string, imageId: string) => {
+    setJobs(current => current.map(job => (job.id !== jobId ? job : {
+      ...job,
+      images: job.images.map(image => (image.id === imageId ? { ...image, favorite: !image.favorite } : image)),
+    })));
+  }, []);
 
   const handleClear = useCallback(() => {
+    runningAbortRef.current?.controller.abort();
     setPrompt('');
     setAspectRatio('1:1');
-    setGeneratedImageUrl(null);
-    setLoading(false);
+    setStylePresetId(null);
+    setNegativePrompt('');
+    setSeed('');
+    setEnhancedPrompt(null);
+    setJobs([]);
+    setFavoritesOnly(false);
     setError(null);
-    setStatusMessage(apiKeySelected ? 'Ready to generate HD images!' : 'Please select your API key for HD image generation (billing required).');
+    setStatusMessage(apiKeySelected ? 'hdImages.ready' : 'hdImages.selectKey');
   }, [apiKeySelected]);
 
+  const pendingCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+  const hasFavorites = jobs.some(job => job.images.some(image => image.favorite));
+  const visibleJobs = favoritesOnly ? jobs.filter(job => job.images.some(image => image.favorite)) : jobs;
+
   return (
     <div className="flex flex-col bg-white p-4">
-      <h2 className="text-xl font-bold mb-4 text-gray-800">HD Image Generator</h2>
+      <h2 className="text-xl font-bold mb-4 text-gray-800">{t('hdImages.title')}</h2>
       <p className="text-gray-600 text-sm mb-4">
-        Generate high-quality, clear, sharp, and detailed images from text prompts.
-        Perfect for school demos, posters, and presentations! This feature uses Google Gemini's image generation capabilities and requires an API key with billing enabled.
+        {t('hdImages.description')}
       </p>
 
       {!apiKeySelected && (
         <div className="mb-4 p-4 bg-yellow-100 border border-yellow-400 text-yellow-800 rounded-md" role="alert">
-          <p className="mb-2">{statusMessage}</p>
+          {statusMessage && <p className="mb-2">{t(statusMessage)}</p>}
           <Button onClick={handleSelectApiKey} variant="primary" size="sm">
-            Select API Key
+            {t('apiKey.select')}
           </Button>
           <p className="mt-2 text-xs">
-            A link to the billing documentation can be found <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">here</a>.
+            {t('apiKey.billingDocsBefore')}<a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{t('apiKey.billingDocsLink')}</a>{t('apiKey.billingDocsAfter')}
           </p>
         </div>
       )}
 
       {/* Text Prompt */}
       <div className="mb-4">
-        <label htmlFor="imagePrompt" className="block text-gray-700 text-sm font-medium mb-2">
-          Image Prompt:
-        </label>
+        <div className="flex items-center justify-between mb-2">
+          <label htmlFor="imagePrompt" className="block text-gray-700 text-sm font-medium">
+            {t('hdImages.promptLabel')}
+          </label>
+          <Button
+            onClick={handleEnhancePrompt}
+            loading={enhancing}
+            disabled={enhancing || prompt.trim() === ''}
+            variant="secondary"
+            size="sm"
+          >
+            ✨ {t('hdImages.enhance')}
+          </Button>
+        </div>
         <textarea
           id="imagePrompt"
           className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-none text-sm"
           rows={3}
-          placeholder="Describe the image you want to generate (e.g., 'A vibrant watercolor painting of a whimsical treehouse in a magical forest')..."
+          placeholder={t('hdImages.promptPlaceholder')}
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
-          disabled={loading || !apiKeySelected}
+          disabled={!apiKeySelected}
           aria-describedby="prompt-help"
         />
         <p id="prompt-help" className="mt-1 text-xs text-gray-500">
-          Be descriptive for best results!
+          {t('hdImages.promptHelp')}
         </p>
+        {enhancedPrompt !== null && (
+          <div className="mt-2 p-3 border border-purple-200 rounded-lg bg-purple-50">
+            <label htmlFor="enhancedPrompt" className="block text-sm font-medium text-gray-700 mb-1">
+              {t('hdImages.suggestedPrompt')}
+            </label>
+            <textarea
+              id="enhancedPrompt"
+              className="w-full p-2 border border-gray-300 rounded-md text-sm resize-none"
+              rows={4}
+              value={enhancedPrompt}
+              onChange={(e) => setEnhancedPrompt(e.target.value)}
+            />
+            <div className="flex gap-2 mt-2 justify-end">
+              <Button onClick={() => setEnhancedPrompt(null)} variant="secondary" size="sm">
+                {t('hdImages.discard')}
+              </Button>
+              <Button
+                onClick={() => {
+                  setPrompt(enhancedPrompt);
+                  setEnhancedPrompt(null);
+                }}
+                disabled={enhancedPrompt.trim() === ''}
+                size="sm"
+              >
+                {t('hdImages.usePrompt')}
+              </Button>
+            </div>
+          </div>
+        )}
       </div>
 
-      {/* Aspect Ratio */}
+      {/* Style Presets */}
       <div className="mb-4">
-        <label htmlFor="aspectRatio" className="block text-gray-700 text-sm font-medium mb-2">
-          Aspect Ratio:
-        </label>
-        <select
-          id="aspectRatio"
-          className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-sm"
-          value={aspectRatio}
-          onChange={(e) => setAspectRatio(e.target.value as typeof aspectRatio)}
-          disabled={loading || !apiKeySelected}
-          aria-label="Select image aspect ratio"
-        >
-          <option value="1:1">1:1 (Square)</option>
-          <option value="3:4">3:4 (Portrait)</option>
-          <option value="4:3">4:3 (Landscape)</option>
-          <option value="9:16">9:16 (Tall Portrait)</option>
-          <option value="16:9">16:9 (Wide Landscape)</option>
-        </select>
+        <span className="block text-gray-700 text-sm font-medium mb-2">{t('hdImages.style')}</span>
+        <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={t('hdImages.stylePreset')}>
+          {[NO_STYLE_PRESET, ...HD_STYLE_PRESETS].map(preset => (
+            <button
+              key={preset.id ?? 'none'}
+              role="radio"
+              aria-checked={stylePresetId === preset.id}
+              className={`px-3 py-1.5 rounded-full border text-sm transition-colors duration-200
+                ${stylePresetId === preset.id ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:border-gray-400'}`}
+              onClick={() => setStylePresetId(preset.id)}
+              disabled={!apiKeySelected}
+            >
+              {t(preset.nameKey)}
+            </button>
+          ))}
+        </div>
       </div>
 
+      <div className="mb-4 grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {/* Aspect Ratio */}
+        <div>
+          <label htmlFor="aspectRatio" className="block text-gray-700 text-sm font-medium mb-2">
+            {t('hdImages.aspectRatio')}
+          </label>
+          <select
+            id="aspectRatio"
+            className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-sm"
+            value={aspectRatio}
+            onChange={(e) => setAspectRatio(e.target.value as typeof aspectRatio)}
+            disabled={!apiKeySelected}
+            aria-label={t('hdImages.aspectRatioLabel')}
+          >
+            {ASPECT_RATIO_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Variations */}
+        <div>
+          <span className="block text-gray-700 text-sm font-medium mb-2">{t('hdImages.variations')}</span>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden" role="radiogroup" aria-label={t('hdImages.variationsLabel')}>
+            {VARIATION_OPTIONS.map(count => (
+              <button
+                key={count}
+                role="radio"
+                aria-checked={numberOfImages === count}
+                className={`flex-1 py-3 text-sm ${numberOfImages === count ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                onClick={() => setNumberOfImages(count)}
+                disabled={!apiKeySelected}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Output Format */}
+        <div>
+          <label htmlFor="outputFormat" className="block text-gray-700 text-sm font-medium mb-2">
+            {t('hdImages.format')}
+          </label>
+          <select
+            id="outputFormat"
+            className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-sm"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as HDImageFormat)}
+            disabled={!apiKeySelected}
+          >
+            <option value="image/jpeg">{t('hdImages.formatJpeg')}</option>
+            <option value="image/png">{t('hdImages.formatPng')}</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Advanced Settings */}
+      <details className="mb-4 text-sm text-gray-700">
+        <summary className="cursor-pointer select-none font-medium">{t('hdImages.advanced')}</summary>
+        <fieldset className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 border border-gray-200 rounded-lg" disabled={!apiKeySelected}>
+          <label className="sm:col-span-2">
+            {t('hdImages.negativePrompt')}
+            <input
+              type="text"
+              className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+              placeholder={t('hdImages.negativePromptPlaceholder')}
+              value={negativePrompt}
+              onChange={(e) => setNegativePrompt(e.target.value)}
+            />
+          </label>
+          {seedSupported && (
+            <div>
+              <label htmlFor="seed">{t('hdImages.seed')}</label>
+              <div className="mt-1 flex gap-2">
+                <input
+                  id="seed"
+                  type="number"
+                  min={0}
+                  max={MAX_SEED}
+                  className="w-full p-2 border border-gray-300 rounded-md text-sm"
+                  placeholder={t('hdImages.seedRandom')}
+                  value={seed}
+                  onChange={(e) => setSeed(e.target.value)}
+                />
+                <Button onClick={() => setSeed(String(Math.floor(Math.random() * MAX_SEED)))} variant="secondary" size="sm" aria-label={t('hdImages.randomSeed')}>
+                  🎲
+                </Button>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">{t('hdImages.seedHelp')}</p>
+            </div>
+          )}
+          <div className="flex flex-col gap-3">
+            <label>
+              {t('hdImages.people')}
+              <select
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+                value={personGeneration}
+                onChange={(e) => setPersonGeneration(e.target.value as HDPersonGeneration | '')}
+              >
+                <option value="">{t('hdImages.default')}</option>
+                {PERSON_GENERATION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              {t('hdImages.safety')}
+              <select
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+                value={safetyLevel}
+                onChange={(e) => setSafetyLevel(e.target.value as HDSafetyLevel | '')}
+              >
+                <option value="">{t('hdImages.default')}</option>
+                {SAFETY_LEVEL_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </fieldset>
+      </details>
+
       {error && (
         <p className="text-red-600 text-sm mb-4" role="alert">{error}</p>
       )}
 
-      {statusMessage && !error && !generatedImageUrl && (
-        <p className={`text-sm mb-4 ${loading ? 'text-blue-600' : 'text-gray-600'}`} role="status">{statusMessage}</p>
+      {statusMessage && !error && jobs.length === 0 && (
+        <p className="text-sm mb-4 text-gray-600" role="status">{t(statusMessage)}</p>
       )}
 
       {/* Action Buttons */}
       <div className="flex gap-2 mb-4 justify-end">
-        <Button onClick={handleClear} variant="secondary" disabled={loading} size="sm">
-          Clear
+        <Button onClick={handleClear} variant="secondary" size="sm">
+          {t('hdImages.clear')}
         </Button>
         <Button
           onClick={handleGenerateImage}
-          loading={loading}
-          disabled={loading || !apiKeySelected || prompt.trim() === ''}
+          disabled={!apiKeySelected || prompt.trim() === ''}
           size="sm"
-          aria-label={loading ? 'Generating image' : 'Generate Image'}
         >
-          {loading ? 'Generating...' : 'Generate Image'}
+          {pendingCount > 0 ? t('hdImages.addToQueue') : t('hdImages.generate')}
         </Button>
       </div>
 
-      {/* Generated Image Display */}
-      {generatedImageUrl && (
-        <div className="flex flex-col items-center mt-4 border border-gray-200 rounded-lg p-2 bg-gray-50">
-          <h3 className="text-sm font-medium text-gray-700 mb-2">Generated HD Image</h3>
-          <img src={generatedImageUrl} alt="Generated HD" className="max-w-full h-auto rounded-md shadow-md" aria-label="Generated HD image"/>
-          <a href={generatedImageUrl} download="generated_hd_image.jpeg" className="mt-2 text-blue-600 hover:underline text-sm" aria-label="Download generated image">
-            Download Image
-          </a>
+      {/* Queue and Results */}
+      {jobs.length > 0 && (
+        <div className="mt-2">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium text-gray-700" aria-live="polite">
+              {pendingCount > 0 ? t('hdImages.inProgress', { count: pendingCount }) : t('hdImages.allDone')}
+            </h3>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={favoritesOnly}
+                onChange={(e) => setFavoritesOnly(e.target.checked)}
+                disabled={!hasFavorites && !favoritesOnly}
+              />
+              {t('hdImages.favoritesOnly')}
+            </label>
+          </div>
+          <ol className="space-y-3" aria-label={t('hdImages.queue')}>
+            {visibleJobs.map(job => (
+              <HDGenerationJobCard
+                key={job.id}
+                job={job}
+                position={jobs.indexOf(job) + 1}
+                favoritesOnly={favoritesOnly}
+                onCancel={handleCancelJob}
+                onRemove={handleRemoveJob}
+                onToggleFavorite={handleToggleFavorite}
+              />
+            ))}
+          </ol>
         </div>
       )}
     </div>
   );
 };
 
-export default HDImageGenerator;
\ No newline at end of file
+export default HDImageGenerator;
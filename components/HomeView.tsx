@@ -1,7 +1,8 @@
 import React from 'react';
 import Button from './Button';
-
-type NavigationView = 'home' | 'chat' | 'image-editor' | 'slideshow-generator' | 'hd-image-generator'; // NEW: Added 'hd-image-generator'
+import { APP_ROUTES } from '../constants';
+import { NavigationView } from '../types';
+import { useTranslation } from '../services/i18n';
 
 interface HomeViewProps {
   onNavigate: (view: NavigationView) => void;
@@ -16,6 +17,7 @@ interface FeatureCardProps {
 }
 
 const FeatureCard: React.FC<FeatureCardProps> = ({ title, description, gradient, targetView, onNavigate }) => {
+  const { t } = useTranslation();
   return (
     <div className={`relative flex flex-col justify-between p-6 rounded-xl shadow-lg hover:shadow-xl transform hover:-translate-y-1 transition-all duration-300 ${gradient} text-white`}>
       <h3 className="text-2xl font-bold mb-3">{title}</h3>
@@ -26,55 +28,29 @@ const FeatureCard: React.FC<FeatureCardProps> = ({ title, description, gradient,
         className="bg-white text-blue-600 hover:bg-gray-100 self-start mt-auto"
         size="md"
       >
-        Launch
+        {t('home.launch')}
       </Button>
     </div>
   );
 };
 
 const HomeView: React.FC<HomeViewProps> = ({ onNavigate }) => {
-  const featureCards = [
-    {
-      title: 'Bhaii Chat',
-      description: 'Chat with your supportive AI brother, Bhaii! Get quick, friendly advice and encouraging words with a local touch. Kya haal hai?',
-      gradient: 'bg-gradient-to-br from-blue-500 to-purple-600',
-      targetView: 'chat' as NavigationView,
-    },
-    {
-      title: 'Gemini Image Editor',
-      description: 'Unleash your creativity! Upload an image and use text prompts to edit it with the power of Gemini 2.5 Flash Image. Add a filter, remove objects, and more!',
-      gradient: 'bg-gradient-to-br from-green-500 to-teal-600',
-      targetView: 'image-editor' as NavigationView,
-    },
-    {
-      title: 'Animated Slideshow',
-      description: 'Create a short, fun animated slideshow from your text! Perfect for quick demos and student projects, no API key needed!',
-      gradient: 'bg-gradient-to-br from-pink-500 to-indigo-600',
-      targetView: 'slideshow-generator' as NavigationView,
-    },
-    { // NEW FEATURE CARD
-      title: 'HD Image Generator',
-      description: 'Generate high-quality, clear, and detailed images from text prompts. Ideal for school projects, posters, and presentations!',
-      gradient: 'bg-gradient-to-br from-yellow-400 to-orange-500',
-      targetView: 'hd-image-generator' as NavigationView,
-    },
-  ];
-
+  const { t } = useTranslation();
   return (
     <div className="flex flex-col h-full bg-gray-50 p-6 rounded-lg">
-      <h2 className="text-3xl font-extrabold text-gray-800 mb-8">Welcome to Bhaii AI Studio!</h2>
+      <h2 className="text-3xl font-extrabold text-gray-800 mb-8">{t('home.title')}</h2>
       <p className="text-lg text-gray-600 mb-10 max-w-2xl">
-        Your personal space for creative AI interactions. Choose a feature below to get started!
+        {t('home.subtitle')}
       </p>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-        {featureCards.map((card, index) => (
+        {APP_ROUTES.map(({ view, card }) => card && (
           <FeatureCard
-            key={index}
-            title={card.title}
-            description={card.description}
+            key={view}
+            title={t(card.titleKey)}
+            description={t(card.descriptionKey)}
             gradient={card.gradient}
-            targetView={card.targetView}
+            targetView={view}
             onNavigate={onNavigate}
           />
         ))}
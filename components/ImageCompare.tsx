@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { useTranslation } from '../services/i18n';
+
+export type ImageCompareMode = 'side-by-side' | 'slider';
+
+interface ComparedImage {
+  label: string;
+  imageUrl: string;
+}
+
+interface ImageCompareProps {
+  before: ComparedImage;
+  after: ComparedImage;
+  mode: ImageCompareMode;
+}
+
+// Two versions next to each other, or stacked with a draggable divider.
+const ImageCompare: React.FC<ImageCompareProps> = ({ before, after, mode }) => {
+  const [position, setPosition] = useState<number>(50); // Percent of the width showing `before`
+  const { t } = useTranslation();
+
+  if (mode === 'side-by-side') {
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {[before, after].map((image, i) => (
+          <div key={i} className="flex flex-col items-center border border-gray-200 rounded-lg p-2 bg-gray-50">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">{image.label}</h3>
+            <img src={image.imageUrl} alt={image.label} className="max-w-full h-auto max-h-64 object-contain rounded-md" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center border border-gray-200 rounded-lg p-2 bg-gray-50">
+      <div className="flex justify-between w-full text-sm font-medium text-gray-700 mb-2">
+        <span>{before.label}</span>
+        <span>{after.label}</span>
+      </div>
+      <div className="relative w-full h-72 select-none">
+        <img src={after.imageUrl} alt={after.label} className="absolute inset-0 w-full h-full object-contain" />
+        <img
+          src={before.imageUrl}
+          alt={before.label}
+          className="absolute inset-0 w-full h-full object-contain"
+          style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        />
+        <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }} aria-hidden="true" />
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={position}
+          onChange={(e) => setPosition(Number(e.target.value))}
+          className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+          aria-label={t('imageEditor.compareSlider', { before: before.label, after: after.label })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ImageCompare;
@@ -1,100 +1,295 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { editImageWithGemini } from '../services/geminiService';
+import { getAIErrorMessage } from '../services/aiErrors';
+import { useTranslation } from '../services/i18n';
+import {
+  addVersion,
+  canRedo,
+  canUndo,
+  EMPTY_IMAGE_HISTORY,
+  getCurrentVersion,
+  getVersion,
+  getVersionLabel,
+  ImageHistory,
+  redo,
+  selectVersion,
+  startImageHistory,
+  undo,
+} from '../services/imageHistory';
 import Button from './Button';
+import ImageCompare, { ImageCompareMode } from './ImageCompare';
+import ImageVersionTimeline from './ImageVersionTimeline';
+import MaskCanvas from './MaskCanvas';
+import EditImageInputs, { ReferenceImage } from './EditImageInputs';
+import ImagePreprocessSettings from './ImagePreprocessSettings';
+import { IMAGE_EDIT_MODEL_NAME, MAX_EDIT_IMAGES } from '../constants';
+import { GalleryItemOf } from '../types';
+import {
+  DEFAULT_PREPROCESS_OPTIONS,
+  describePreprocessing,
+  IMAGE_FILE_ACCEPT,
+  ImagePreprocessOptions,
+  ImagePreprocessError,
+  isImageFile,
+  preprocessImage,
+} from '../services/imagePreprocess';
+import { compositeWithMask } from '../services/imageMask';
+import { recordGalleryItem } from '../services/gallery';
 
-const ImageEditor: React.FC = () => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [imagePrompt, setImagePrompt] = useState<string>('');
-  const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
-  const [editedImageUrl, setEditedImageUrl] = useState<string | null>(null);
+// "image/png" -> "png", for download file names.
+const extensionFromDataUrl = (dataUrl: string) => dataUrl.match(/^data:image\/([a-z0-9]+)/i)?.[1] ?? 'png';
+
+let referenceCounter = 0;
+
+interface ImageEditorProps {
+  initialItem?: GalleryItemOf<'image-editor'>; // Gallery item whose settings are being reused
+}
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ initialItem }) => {
+  const { t } = useTranslation();
+  const [fileName, setFileName] = useState<string | null>(initialItem ? t('imageEditor.galleryImage') : null);
+  const [imagePrompt, setImagePrompt] = useState<string>(initialItem?.prompt ?? '');
+  const [history, setHistory] = useState<ImageHistory>(
+    () => (initialItem ? startImageHistory(initialItem.settings.sourceImageUrl) : EMPTY_IMAGE_HISTORY),
+  );
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<ImageCompareMode>('side-by-side');
+  // Versions picked for comparison; null means "follow the current version".
+  const [compareIds, setCompareIds] = useState<{ before: string | null; after: string | null }>({ before: null, after: null });
+  // Region editing: when on, the edit is limited to the painted mask.
+  const [maskMode, setMaskMode] = useState<boolean>(initialItem?.settings.masked ?? false);
+  const [maskDataUrl, setMaskDataUrl] = useState<string | null>(null);
+  // Extra images combined into the edit (Image 2, Image 3, ...)
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [preprocessOptions, setPreprocessOptions] = useState<ImagePreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+  const [uploadSummary, setUploadSummary] = useState<string[]>([]); // Before/after size of the latest uploads
+  const [preparing, setPreparing] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const currentVersion = getCurrentVersion(history);
+  const hasBaseImage = Boolean(currentVersion);
+
+  // Uploads, drops and pastes all land here. Images are preprocessed first;
+  // the first one starts a new history and later ones are added as extra
+  // images for the next edit.
+  const addImageFiles = useCallback(async (files: File[]) => {
+    const images = files.filter(isImageFile);
+    if (images.length === 0) {
+      setError(t('imageEditor.invalidFile'));
+      return;
+    }
+    setError(null);
+
+    const freeSlots = hasBaseImage ? MAX_EDIT_IMAGES - 1 - references.length : MAX_EDIT_IMAGES;
+    const accepted = images.slice(0, Math.max(0, freeSlots));
+    if (accepted.length === 0) {
+      setError(t('imageEditor.tooManyImages', { count: MAX_EDIT_IMAGES }));
+      return;
+    }
+
+    setPreparing(true);
+    try {
+      const processed = await Promise.all(accepted.map(file => preprocessImage(file, preprocessOptions)));
+      setUploadSummary(processed.map((result, i) => describePreprocessing(accepted[i].name, result, t)));
+
+      let added = processed.map((result, i): ReferenceImage => ({
+        id: `reference-${Date.now()}-${++referenceCounter}`,
+        imageUrl: result.dataUrl,
+        name: accepted[i].name,
+        label: '',
+      }));
+      if (!hasBaseImage) {
+        const [first, ...rest] = added;
+        setFileName(first.name);
+        setHistory(startImageHistory(first.imageUrl));
+        setCompareIds({ before: null, after: null });
+        added = rest;
+      }
+      setReferences(current => (hasBaseImage ? [...current, ...added] : added));
+      if (accepted.length < images.length) {
+        setError(t('imageEditor.someLeftOut', { count: MAX_EDIT_IMAGES }));
+      }
+    } catch (err) {
+      console.error('Image preprocessing failed:', err);
+      setError(t(err instanceof ImagePreprocessError ? 'errors.unsupportedImageFormat' : 'errors.unreadableImage'));
+    } finally {
+      setPreparing(false);
+    }
+  }, [hasBaseImage, references.length, preprocessOptions, t]);
+
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-      setSelectedFile(file);
-      setOriginalImageUrl(URL.createObjectURL(file));
-      setEditedImageUrl(null); // Clear edited image on new upload
-      setError(null);
-    } else {
-      setSelectedFile(null);
-      setOriginalImageUrl(null);
-      setError('Please select a valid image file (jpeg, png, gif, webp).');
+    addImageFiles(Array.from(e.target.files ?? []));
+    e.target.value = ''; // Allow picking the same file again
+  }, [addImageFiles]);
+
+  const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!loading && !preparing) {
+      addImageFiles(Array.from(e.dataTransfer.files));
     }
-  }, []);
+  }, [addImageFiles, loading, preparing]);
 
+  // Pasting an image anywhere in the view adds it; pasted text is left alone.
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files ?? []).filter(isImageFile);
+      if (files.length === 0 || loading || preparing) return;
+      e.preventDefault();
+      addImageFiles(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [addImageFiles, loading, preparing]);
+
+  // Edits the current version; the result becomes a new version on top of it.
   const handleEditImage = useCallback(async () => {
-    if (!selectedFile || imagePrompt.trim() === '') {
-      setError('Please upload an image and provide an editing prompt.');
+    if (!currentVersion || imagePrompt.trim() === '') {
+      setError(t('imageEditor.missingInput'));
       return;
     }
 
     setLoading(true);
     setError(null);
-    setEditedImageUrl(null); // Clear previous edited image before new generation
 
     try {
-      const response = await editImageWithGemini(selectedFile, imagePrompt);
+      const prompt = imagePrompt.trim();
+      const mask = maskMode ? maskDataUrl ?? undefined : undefined;
+      const response = await editImageWithGemini(
+        [{ image: currentVersion.imageUrl }, ...references.map(({ imageUrl, label }) => ({ image: imageUrl, label }))],
+        prompt,
+        mask,
+      );
       if (response.imageUrl) {
-        setEditedImageUrl(response.imageUrl);
+        // Keep every pixel outside the mask exactly as it was.
+        const imageUrl = mask
+          ? await compositeWithMask(currentVersion.imageUrl, response.imageUrl, mask)
+          : response.imageUrl;
+        const note = [mask && t('imageEditor.noteSelectedArea'), references.length > 0 && t('imageEditor.noteImages', { count: references.length })].filter(Boolean).join(', ');
+        setHistory(current => addVersion(current, currentVersion.id, imageUrl, note ? `${prompt} (${note})` : prompt));
+        recordGalleryItem({
+          tool: 'image-editor',
+          mediaUrl: imageUrl,
+          prompt,
+          model: IMAGE_EDIT_MODEL_NAME,
+          settings: { sourceImageUrl: currentVersion.imageUrl, masked: Boolean(mask), referenceCount: references.length },
+        });
+        setCompareIds({ before: null, after: null });
+        setImagePrompt('');
       } else if (response.error) {
-        setError(response.error);
+        setError(getAIErrorMessage(response.error, t));
       }
     } catch (err) {
       console.error('Image editing failed:', err);
-      setError('An unexpected error occurred during image editing.');
+      setError(t('errors.unknown'));
     } finally {
       setLoading(false);
     }
-  }, [selectedFile, imagePrompt]);
+  }, [currentVersion, imagePrompt, maskMode, maskDataUrl, references, t]);
+
+  const handleSelectVersion = useCallback((versionId: string) => {
+    setHistory(current => selectVersion(current, versionId));
+    setCompareIds({ before: null, after: null });
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    setHistory(undo);
+    setCompareIds({ before: null, after: null });
+  }, []);
+
+  const handleRedo = useCallback(() => {
+    setHistory(redo);
+    setCompareIds({ before: null, after: null });
+  }, []);
 
   const handleClear = useCallback(() => {
-    setSelectedFile(null);
+    setFileName(null);
     setImagePrompt('');
-    setOriginalImageUrl(null);
-    setEditedImageUrl(null);
+    setHistory(EMPTY_IMAGE_HISTORY);
+    setCompareIds({ before: null, after: null });
+    setMaskMode(false);
+    setMaskDataUrl(null);
+    setReferences([]);
+    setUploadSummary([]);
     setError(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = ''; // Clear file input value
     }
   }, []);
 
+  // By default compare the current version with the one it was edited from.
+  const afterVersion = getVersion(history, compareIds.after) ?? currentVersion;
+  const beforeVersion = getVersion(history, compareIds.before)
+    ?? getVersion(history, afterVersion?.parentId ?? null)
+    ?? afterVersion;
+  const canCompare = history.versions.length > 1 && beforeVersion && afterVersion;
+
+  const versionOptions = history.versions.map(version => (
+    <option key={version.id} value={version.id}>
+      {getVersionLabel(history, version.id)}: {version.prompt || t('imageEditor.original')}
+    </option>
+  ));
+
   return (
     <div className="flex flex-col bg-white p-4">
-      <h2 className="text-xl font-bold mb-4 text-gray-800">Image Editor (Nano Banana Powered)</h2>
+      <h2 className="text-xl font-bold mb-4 text-gray-800">{t('imageEditor.title')}</h2>
 
       {/* File Input */}
-      <div className="mb-4 p-4 border-2 border-dashed border-gray-300 rounded-lg text-center cursor-pointer hover:border-blue-500 transition-colors"
-           onClick={() => fileInputRef.current?.click()}>
+      <div className={`mb-4 p-4 border-2 border-dashed rounded-lg text-center cursor-pointer hover:border-blue-500 transition-colors
+             ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300'}`}
+           onClick={() => !loading && !preparing && fileInputRef.current?.click()}
+           onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+           onDragLeave={() => setIsDragging(false)}
+           onDrop={handleDrop}>
         <input
           type="file"
-          accept="image/*"
+          accept={IMAGE_FILE_ACCEPT}
+          multiple
           onChange={handleFileChange}
           className="hidden"
           ref={fileInputRef}
         />
-        {selectedFile ? (
-          <p className="text-gray-700 text-sm">Selected: <span className="font-semibold">{selectedFile.name}</span>. Click to change.</p>
+        {fileName ? (
+          <p className="text-gray-700 text-sm">
+            {t('imageEditor.editing')} <span className="font-semibold">{fileName}</span>. {t('imageEditor.addMore', { count: MAX_EDIT_IMAGES })}
+          </p>
         ) : (
-          <p className="text-gray-500">Drag & drop an image or click to upload</p>
+          <p className="text-gray-500">{t('imageEditor.dropHint')}</p>
         )}
       </div>
 
+      <ImagePreprocessSettings options={preprocessOptions} onChange={setPreprocessOptions} disabled={loading || preparing} />
+
+      {preparing && <p className="text-blue-600 text-sm mb-4" role="status">{t('imageEditor.preparing')}</p>}
+      {!preparing && uploadSummary.length > 0 && (
+        <ul className="mb-4 text-xs text-gray-500" aria-label={t('imageEditor.uploadSummary')}>
+          {uploadSummary.map((line, i) => <li key={i}>{line}</li>)}
+        </ul>
+      )}
+
+      {currentVersion && references.length > 0 && (
+        <EditImageInputs baseImageUrl={currentVersion.imageUrl} references={references} onChange={setReferences} disabled={loading} />
+      )}
+
       {/* Image Prompt */}
       <div className="mb-4">
         <label htmlFor="imagePrompt" className="block text-gray-700 text-sm font-medium mb-2">
-          Editing Prompt (e.g., "Add a retro filter", "Remove the person"):
+          {currentVersion?.parentId
+            ? t('imageEditor.refinePromptLabel', { version: getVersionLabel(history, currentVersion.id) })
+            : references.length > 0
+              ? t('imageEditor.combinePromptLabel')
+              : t('imageEditor.promptLabel')}
         </label>
         <textarea
           id="imagePrompt"
           className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-none text-sm"
           rows={3}
-          placeholder="Describe how you want to edit the image..."
+          placeholder={t('imageEditor.promptPlaceholder')}
           value={imagePrompt}
           onChange={(e) => setImagePrompt(e.target.value)}
-          disabled={loading || !selectedFile}
+          disabled={loading || !currentVersion}
         />
       </div>
 
@@ -104,34 +299,104 @@ const ImageEditor: React.FC = () => {
 
       {/* Action Buttons */}
       <div className="flex gap-2 mb-4 justify-end">
-        <Button onClick={handleClear} variant="secondary" disabled={loading || !selectedFile} size="sm">
-          Clear
+        <label className="flex items-center gap-2 mr-auto text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={maskMode}
+            onChange={(e) => {
+              setMaskMode(e.target.checked);
+              setMaskDataUrl(null);
+            }}
+            disabled={loading || !currentVersion}
+          />
+          {t('imageEditor.maskMode')}
+        </label>
+        <Button onClick={handleUndo} variant="secondary" disabled={loading || !canUndo(history)} size="sm" aria-label={t('imageEditor.undoLabel')}>
+          ↶ {t('imageEditor.undo')}
+        </Button>
+        <Button onClick={handleRedo} variant="secondary" disabled={loading || !canRedo(history)} size="sm" aria-label={t('imageEditor.redoLabel')}>
+          ↷ {t('imageEditor.redo')}
+        </Button>
+        <Button onClick={handleClear} variant="secondary" disabled={loading || !currentVersion} size="sm">
+          {t('imageEditor.clear')}
         </Button>
-        <Button onClick={handleEditImage} loading={loading} disabled={loading || !selectedFile || imagePrompt.trim() === ''} size="sm">
-          {loading ? 'Editing...' : 'Edit Image'}
+        <Button onClick={handleEditImage} loading={loading} disabled={loading || preparing || !currentVersion || imagePrompt.trim() === '' || (maskMode && !maskDataUrl)} size="sm">
+          {loading ? t('imageEditor.submitting') : t('imageEditor.submit')}
         </Button>
       </div>
 
       {/* Image Display */}
-      <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4 overflow-y-auto custom-scrollbar">
-        {originalImageUrl && (
-          <div className="flex flex-col items-center border border-gray-200 rounded-lg p-2 bg-gray-50">
-            <h3 className="text-sm font-medium text-gray-700 mb-2">Original Image</h3>
-            <img src={originalImageUrl} alt="Original" className="max-w-full h-auto max-h-64 object-contain rounded-md" />
+      {currentVersion ? (
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+          <div className="md:col-span-2 flex flex-col gap-3">
+            {maskMode ? (
+              <MaskCanvas key={currentVersion.id} imageUrl={currentVersion.imageUrl} onMaskChange={setMaskDataUrl} disabled={loading} />
+            ) : canCompare ? (
+              <>
+                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                  {t('imageEditor.compare')}
+                  <select
+                    className="p-1 border border-gray-300 rounded-md text-sm max-w-[12rem]"
+                    value={beforeVersion.id}
+                    onChange={(e) => setCompareIds(ids => ({ ...ids, before: e.target.value }))}
+                    aria-label={t('imageEditor.compareFirst')}
+                  >
+                    {versionOptions}
+                  </select>
+                  {t('imageEditor.compareWith')}
+                  <select
+                    className="p-1 border border-gray-300 rounded-md text-sm max-w-[12rem]"
+                    value={afterVersion.id}
+                    onChange={(e) => setCompareIds(ids => ({ ...ids, after: e.target.value }))}
+                    aria-label={t('imageEditor.compareSecond')}
+                  >
+                    {versionOptions}
+                  </select>
+                  <div className="flex ml-auto rounded-md border border-gray-300 overflow-hidden" role="radiogroup" aria-label={t('imageEditor.compareView')}>
+                    {(['side-by-side', 'slider'] as ImageCompareMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        role="radio"
+                        aria-checked={compareMode === mode}
+                        className={`px-2 py-1 text-xs ${compareMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+                        onClick={() => setCompareMode(mode)}
+                      >
+                        {t(mode === 'side-by-side' ? 'imageEditor.sideBySide' : 'imageEditor.slider')}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <ImageCompare
+                  before={{ label: getVersionLabel(history, beforeVersion.id), imageUrl: beforeVersion.imageUrl }}
+                  after={{ label: getVersionLabel(history, afterVersion.id), imageUrl: afterVersion.imageUrl }}
+                  mode={compareMode}
+                />
+              </>
+            ) : (
+              <div className="flex flex-col items-center border border-gray-200 rounded-lg p-2 bg-gray-50">
+                <h3 className="text-sm font-medium text-gray-700 mb-2">{t('imageEditor.originalImage')}</h3>
+                <img src={currentVersion.imageUrl} alt={t('imageEditor.original')} className="max-w-full h-auto max-h-64 object-contain rounded-md" />
+              </div>
+            )}
+            <a
+              href={currentVersion.imageUrl}
+              download={`edited-${getVersionLabel(history, currentVersion.id)}.${extensionFromDataUrl(currentVersion.imageUrl)}`}
+              className="self-center text-blue-600 hover:underline text-sm"
+            >
+              {t('imageEditor.download', { version: getVersionLabel(history, currentVersion.id) })}
+            </a>
           </div>
-        )}
-        {editedImageUrl && (
-          <div className="flex flex-col items-center border border-gray-200 rounded-lg p-2 bg-gray-50">
-            <h3 className="text-sm font-medium text-gray-700 mb-2">Edited Image</h3>
-            <img src={editedImageUrl} alt="Edited" className="max-w-full h-auto max-h-64 object-contain rounded-md" />
+          <div className="flex flex-col">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">{t('imageEditor.versions')}</h3>
+            <ImageVersionTimeline history={history} onSelect={handleSelectVersion} disabled={loading} />
+            <p className="mt-2 text-xs text-gray-500">{t('imageEditor.branchHint')}</p>
           </div>
-        )}
-        {!originalImageUrl && !editedImageUrl && (
-          <p className="text-gray-500 text-center col-span-2 py-8">Upload an image to get started!</p>
-        )}
-      </div>
+        </div>
+      ) : (
+        <p className="text-gray-500 text-center py-8">{t('imageEditor.empty')}</p>
+      )}
     </div>
   );
 };
 
-export default ImageEditor;
\ No newline at end of file
+export default ImageEditor;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { ImageOutputFormat, ImagePreprocessOptions } from '../services/imagePreprocess';
+import { useTranslation } from '../services/i18n';
+import { MessageKey } from '../locales';
+
+const MAX_DIMENSION_OPTIONS: (number | null)[] = [1024, 1536, 2048, null]; // null = original size
+
+const FORMAT_OPTIONS: { value: ImageOutputFormat; labelKey: MessageKey }[] = [
+  { value: 'image/jpeg', labelKey: 'imageEditor.formatJpeg' },
+  { value: 'image/webp', labelKey: 'imageEditor.formatWebp' },
+  { value: 'image/png', labelKey: 'imageEditor.formatPng' },
+];
+
+interface ImagePreprocessSettingsProps {
+  options: ImagePreprocessOptions;
+  onChange: (options: ImagePreprocessOptions) => void;
+  disabled?: boolean;
+}
+
+// How uploads are resized and re-encoded before they are sent.
+const ImagePreprocessSettings: React.FC<ImagePreprocessSettingsProps> = ({ options, onChange, disabled = false }) => {
+  const { t } = useTranslation();
+
+  return (
+    <details className="mb-4 text-sm text-gray-700">
+      <summary className="cursor-pointer select-none">{t('imageEditor.uploadSettings')}</summary>
+      <fieldset className="mt-2 grid grid-cols-1 sm:grid-cols-3 gap-3 p-3 border border-gray-200 rounded-lg" disabled={disabled}>
+        <label>
+          {t('imageEditor.maxSize')}
+          <select
+            className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+            value={options.maxDimension ?? ''}
+            onChange={(e) => onChange({ ...options, maxDimension: e.target.value ? Number(e.target.value) : null })}
+          >
+            {MAX_DIMENSION_OPTIONS.map(value => (
+              <option key={value ?? 'original'} value={value ?? ''}>
+                {value ? t('imageEditor.pixels', { count: value }) : t('imageEditor.originalSize')}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          {t('imageEditor.format')}
+          <select
+            className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+            value={options.format}
+            onChange={(e) => onChange({ ...options, format: e.target.value as ImageOutputFormat })}
+          >
+            {FORMAT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          {t('imageEditor.quality', { percent: Math.round(options.quality * 100) })}
+          <input
+            type="range"
+            min={50}
+            max={100}
+            className="mt-3 w-full"
+            value={Math.round(options.quality * 100)}
+            onChange={(e) => onChange({ ...options, quality: Number(e.target.value) / 100 })}
+            disabled={options.format === 'image/png'}
+          />
+        </label>
+        <p className="sm:col-span-3 text-xs text-gray-500">
+          {t('imageEditor.uploadSettingsHelp')}
+        </p>
+      </fieldset>
+    </details>
+  );
+};
+
+export default ImagePreprocessSettings;
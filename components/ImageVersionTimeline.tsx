@@ -0,0 +1,43 @@
+import React from 'react';
+import { ImageHistory, flattenVersionTree, getVersionLabel } from '../services/imageHistory';
+import { useTranslation } from '../services/i18n';
+
+interface ImageVersionTimelineProps {
+  history: ImageHistory;
+  onSelect: (versionId: string) => void;
+  disabled?: boolean;
+}
+
+// Every version with its prompt and a thumbnail. Branches are indented under
+// the version they were edited from.
+const ImageVersionTimeline: React.FC<ImageVersionTimelineProps> = ({ history, onSelect, disabled = false }) => {
+  const { t } = useTranslation();
+
+  return (
+    <ol className="space-y-1 max-h-72 overflow-y-auto custom-scrollbar" aria-label={t('imageEditor.versionsLabel')}>
+      {flattenVersionTree(history).map(({ version, depth, startsBranch }) => {
+        const isCurrent = version.id === history.currentId;
+        return (
+          <li key={version.id} style={{ marginLeft: `${depth * 1.25}rem` }}>
+            <button
+              className={`w-full flex items-center gap-2 p-1.5 rounded-md border text-left transition-colors duration-200 disabled:opacity-60
+                ${isCurrent ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+              onClick={() => onSelect(version.id)}
+              disabled={disabled}
+              aria-current={isCurrent ? 'true' : undefined}
+            >
+              <img src={version.imageUrl} alt="" className="h-10 w-10 flex-shrink-0 object-cover rounded border border-gray-200" />
+              <span className="text-xs font-semibold text-gray-500">{getVersionLabel(history, version.id)}</span>
+              <span className="flex-1 min-w-0 text-sm text-gray-800 truncate">
+                {startsBranch && <span className="text-gray-400" aria-label={t('imageEditor.newBranch')}>↳ </span>}
+                {version.prompt || t('imageEditor.original')}
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default ImageVersionTimeline;
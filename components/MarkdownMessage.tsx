@@ -0,0 +1,103 @@
+import React, { useMemo } from 'react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '../services/markdown';
+import CodeBlock from './CodeBlock';
+import MathFormula from './MathFormula';
+
+interface MarkdownMessageProps {
+  text: string;
+}
+
+const HEADING_CLASSES = ['text-lg font-bold', 'text-base font-bold', 'text-sm font-bold'];
+
+const ALIGN_CLASSES = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const renderInlines = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'strong':
+        return <strong key={i}>{renderInlines(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={i}>{renderInlines(node.children)}</em>;
+      case 'strikethrough':
+        return <del key={i}>{renderInlines(node.children)}</del>;
+      case 'code':
+        return <code key={i} className="px-1 rounded bg-gray-300/60 font-mono text-[0.85em]">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-blue-700 underline break-all">
+            {renderInlines(node.children)}
+          </a>
+        );
+      case 'math':
+        return <MathFormula key={i} tex={node.tex} />;
+      case 'break':
+        return <br key={i} />;
+    }
+  });
+
+// `tight` drops paragraph margins inside list items.
+const renderBlocks = (blocks: MarkdownBlock[], tight = false): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph':
+        return <p key={i} className={tight ? '' : 'my-1'}>{renderInlines(block.children)}</p>;
+      case 'heading': {
+        const Tag = `h${Math.min(block.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6'; // Stay below the page's own headings
+        return <Tag key={i} className={`${HEADING_CLASSES[Math.min(block.level, 3) - 1]} mt-2 mb-1`}>{renderInlines(block.children)}</Tag>;
+      }
+      case 'code':
+        return <CodeBlock key={i} code={block.code} language={block.language} />;
+      case 'math':
+        return block.complete
+          ? <MathFormula key={i} tex={block.tex} display />
+          : <pre key={i} className="my-2 text-sm font-mono whitespace-pre-wrap text-gray-700">{block.tex}</pre>;
+      case 'list': {
+        const items = block.items.map((item, j) => <li key={j}>{renderBlocks(item, true)}</li>);
+        return block.ordered
+          ? <ol key={i} start={block.start} className="list-decimal pl-5 my-1 space-y-0.5">{items}</ol>
+          : <ul key={i} className="list-disc pl-5 my-1 space-y-0.5">{items}</ul>;
+      }
+      case 'blockquote':
+        return <blockquote key={i} className="border-l-4 border-gray-400 pl-3 my-1 text-gray-700">{renderBlocks(block.children)}</blockquote>;
+      case 'table':
+        return (
+          <div key={i} className="my-2 overflow-x-auto">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, j) => (
+                    <th key={j} className={`border border-gray-400 px-2 py-1 bg-gray-300/60 ${ALIGN_CLASSES[block.align[j] ?? 'left']}`}>
+                      {renderInlines(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, j) => (
+                      <td key={j} className={`border border-gray-400 px-2 py-1 ${ALIGN_CLASSES[block.align[j] ?? 'left']}`}>
+                        {renderInlines(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'rule':
+        return <hr key={i} className="my-2 border-gray-400" />;
+    }
+  });
+
+// Renders a chat reply's markdown as React elements (never as raw HTML).
+// Safe to call on every streamed chunk: partial input still renders.
+const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ text }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className="text-sm break-words">{renderBlocks(blocks)}</div>;
+};
+
+export default MarkdownMessage;
@@ -0,0 +1,195 @@
+import React, { useRef, useState, useCallback, useEffect } from 'react';
+import { invertMask, isMaskEmpty, maskToDataUrl } from '../services/imageMask';
+import Button from './Button';
+import { useTranslation } from '../services/i18n';
+import { MessageKey } from '../locales';
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+const TOOL_OPTIONS: { value: MaskTool; icon: string; labelKey: MessageKey }[] = [
+  { value: 'brush', icon: '🖌️', labelKey: 'imageEditor.maskBrush' },
+  { value: 'eraser', icon: '🧽', labelKey: 'imageEditor.maskEraser' },
+  { value: 'lasso', icon: '➰', labelKey: 'imageEditor.maskLasso' },
+];
+
+const MASK_COLOR = '#ef4444';
+
+type Point = { x: number; y: number };
+
+// Pointer position in canvas pixels, plus how many canvas pixels one screen pixel covers.
+const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+  const canvas = e.currentTarget;
+  const rect = canvas.getBoundingClientRect();
+  const scale = canvas.width / rect.width;
+  return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+};
+
+const drawSegment = (ctx: CanvasRenderingContext2D, from: Point, to: Point, width: number, erase: boolean) => {
+  ctx.save();
+  ctx.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+  ctx.strokeStyle = MASK_COLOR;
+  ctx.lineWidth = width;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+  ctx.restore();
+};
+
+interface MaskCanvasProps {
+  imageUrl: string;
+  // Called after every change with the black-and-white mask, or null when nothing is selected.
+  onMaskChange: (maskDataUrl: string | null) => void;
+  disabled?: boolean;
+}
+
+// Paint over the image to choose the region an edit may change. The canvas is
+// kept at the image's full resolution and scaled down for display.
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ imageUrl, onMaskChange, disabled = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(40); // In displayed pixels
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const strokeRef = useRef<{ points: Point[]; scale: number } | null>(null);
+  const { t } = useTranslation();
+
+  // A new image starts with an empty mask
+  useEffect(() => {
+    setImageSize(null);
+    onMaskChange(null);
+  }, [imageUrl, onMaskChange]);
+
+  const reportMask = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    onMaskChange(isMaskEmpty(canvas) ? null : maskToDataUrl(canvas));
+  }, [onMaskChange]);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (disabled || !ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y, scale } = toCanvasPoint(e);
+    strokeRef.current = { points: [{ x, y }], scale };
+    if (tool !== 'lasso') {
+      drawSegment(ctx, { x, y }, { x, y }, brushSize * scale, tool === 'eraser');
+    }
+  }, [disabled, tool, brushSize]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!stroke || !ctx) return;
+    const { x, y } = toCanvasPoint(e);
+    const last = stroke.points[stroke.points.length - 1];
+    stroke.points.push({ x, y });
+    if (tool === 'lasso') {
+      // Outline only while dragging; it is filled on release.
+      ctx.save();
+      ctx.strokeStyle = MASK_COLOR;
+      ctx.lineWidth = 2 * stroke.scale;
+      ctx.beginPath();
+      ctx.moveTo(last.x, last.y);
+      ctx.lineTo(x, y);
+      ctx.stroke();
+      ctx.restore();
+    } else {
+      drawSegment(ctx, last, { x, y }, brushSize * stroke.scale, tool === 'eraser');
+    }
+  }, [tool, brushSize]);
+
+  const handlePointerUp = useCallback(() => {
+    const stroke = strokeRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    strokeRef.current = null;
+    if (!stroke || !ctx) return;
+    if (tool === 'lasso' && stroke.points.length > 2) {
+      ctx.save();
+      ctx.fillStyle = MASK_COLOR;
+      ctx.beginPath();
+      stroke.points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+      ctx.closePath();
+      ctx.fill();
+      ctx.restore();
+    }
+    reportMask();
+  }, [tool, reportMask]);
+
+  const handleInvert = useCallback(() => {
+    if (!canvasRef.current) return;
+    invertMask(canvasRef.current);
+    reportMask();
+  }, [reportMask]);
+
+  const handleClear = useCallback(() => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onMaskChange(null);
+  }, [onMaskChange]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex rounded-md border border-gray-300 overflow-hidden" role="radiogroup" aria-label={t('imageEditor.maskTool')}>
+          {TOOL_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              role="radio"
+              aria-checked={tool === option.value}
+              className={`px-2 py-1 text-xs ${tool === option.value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              onClick={() => setTool(option.value)}
+              disabled={disabled}
+            >
+              {option.icon} {t(option.labelKey)}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-700">
+          {t('imageEditor.brushSizeShort')}
+          <input
+            type="range"
+            min={5}
+            max={120}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            disabled={disabled || tool === 'lasso'}
+            aria-label={t('imageEditor.brushSize')}
+          />
+        </label>
+        <Button onClick={handleInvert} variant="secondary" size="sm" disabled={disabled}>
+          {t('imageEditor.invertMask')}
+        </Button>
+        <Button onClick={handleClear} variant="secondary" size="sm" disabled={disabled}>
+          {t('imageEditor.clearMask')}
+        </Button>
+      </div>
+      <div className="relative self-center inline-block">
+        <img
+          src={imageUrl}
+          alt={t('imageEditor.maskImageAlt')}
+          className="block max-w-full max-h-96 rounded-md"
+          onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          draggable={false}
+        />
+        {imageSize && (
+          <canvas
+            ref={canvasRef}
+            width={imageSize.width}
+            height={imageSize.height}
+            className={`absolute inset-0 w-full h-full rounded-md opacity-50 touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            aria-label={t('imageEditor.maskCanvasLabel')}
+          />
+        )}
+      </div>
+      <p className="text-xs text-gray-500 text-center">{t('imageEditor.maskHelp')}</p>
+    </div>
+  );
+};
+
+export default MaskCanvas;
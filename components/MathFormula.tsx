@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { MathNode, parseLatex } from '../services/latex';
+
+interface MathFormulaProps {
+  tex: string;
+  display?: boolean; // Block formula on its own line
+}
+
+// MathML elements aren't in React's JSX types, so they are created by tag name.
+const renderNode = (node: MathNode, key?: number): React.ReactNode => {
+  const h = (tag: string, props: Record<string, unknown> | null, ...children: React.ReactNode[]) =>
+    React.createElement(tag, { key, ...props }, ...children);
+
+  switch (node.type) {
+    case 'identifier':
+      return h('mi', node.variant ? { mathvariant: node.variant } : null, node.text);
+    case 'number':
+      return h('mn', null, node.text);
+    case 'operator':
+      return h('mo', {
+        ...(node.largeOp ? { largeop: 'true', movablelimits: 'true' } : {}),
+        ...(node.stretchy ? { stretchy: 'true' } : {}),
+      }, node.text);
+    case 'text':
+      return h('mtext', null, node.text);
+    case 'space':
+      return h('mspace', { width: node.width });
+    case 'row':
+      return h('mrow', null, ...node.children.map((child, i) => renderNode(child, i)));
+    case 'fraction':
+      return h('mfrac', null, renderNode(node.numerator, 0), renderNode(node.denominator, 1));
+    case 'root':
+      return node.index
+        ? h('mroot', null, renderNode(node.base, 0), renderNode(node.index, 1))
+        : h('msqrt', null, renderNode(node.base, 0));
+    case 'accent':
+      return h('mover', { accent: 'true' }, renderNode(node.base, 0), h('mo', { key: 1, stretchy: String(node.stretchy) }, node.accent));
+    case 'scripts': {
+      const base = renderNode(node.base, 0);
+      // Limits of \sum and friends go above and below in display formulas
+      const isLargeOp = node.base.type === 'operator' && node.base.largeOp;
+      if (node.sub && node.sup) {
+        return h(isLargeOp ? 'munderover' : 'msubsup', null, base, renderNode(node.sub, 1), renderNode(node.sup, 2));
+      }
+      if (node.sub) return h(isLargeOp ? 'munder' : 'msub', null, base, renderNode(node.sub, 1));
+      return h(isLargeOp ? 'mover' : 'msup', null, base, renderNode(node.sup!, 1));
+    }
+  }
+};
+
+// Typesets a LaTeX formula with the browser's MathML support. Formulas we
+// can't parse (or that are still streaming in) are shown as their source.
+const MathFormula: React.FC<MathFormulaProps> = ({ tex, display = false }) => {
+  const tree = useMemo(() => {
+    try {
+      return parseLatex(tex);
+    } catch {
+      return null;
+    }
+  }, [tex]);
+
+  if (!tree) {
+    return display
+      ? <pre className="my-2 text-sm font-mono whitespace-pre-wrap text-gray-700">{tex}</pre>
+      : <code className="px-1 rounded bg-gray-100 font-mono text-[0.85em]">{tex}</code>;
+  }
+
+  return React.createElement(
+    'math',
+    { display: display ? 'block' : 'inline', className: display ? 'my-2 text-lg overflow-x-auto' : undefined },
+    React.createElement(
+      'semantics',
+      null,
+      renderNode(tree),
+      React.createElement('annotation', { encoding: 'application/x-tex' }, tex),
+    ),
+  );
+};
+
+export default MathFormula;
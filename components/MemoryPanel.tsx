@@ -0,0 +1,127 @@
+import React, { useState, useCallback } from 'react';
+import Button from './Button';
+import { MAX_MEMORY_ENTRY_LENGTH } from '../constants';
+import { MemoryEntry, UserMemory } from '../types';
+import { createMemoryEntry, hasMemory } from '../services/memory';
+import { useTranslation } from '../services/i18n';
+
+interface MemoryPanelProps {
+  memory: UserMemory;
+  onChange: (memory: UserMemory) => void;
+  persisted: boolean; // False while "remember me" is off, so memories end with the session
+  onClose: () => void;
+}
+
+// View, add, edit and delete the facts Bhaii remembers about the user.
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ memory, onChange, persisted, onClose }) => {
+  const [newText, setNewText] = useState<string>('');
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const { t, formatDate } = useTranslation();
+
+  const handleAdd = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newText.trim()) return;
+    if (!hasMemory(memory.entries, newText)) {
+      onChange({ ...memory, entries: [...memory.entries, createMemoryEntry(newText)] });
+    }
+    setNewText('');
+  }, [newText, memory, onChange]);
+
+  const handleSaveEdit = useCallback(() => {
+    if (!editing || !editing.text.trim()) return;
+    onChange({
+      ...memory,
+      entries: memory.entries.map(entry => (entry.id === editing.id
+        ? { ...entry, text: editing.text.trim().slice(0, MAX_MEMORY_ENTRY_LENGTH), updatedAt: new Date() }
+        : entry)),
+    });
+    setEditing(null);
+  }, [editing, memory, onChange]);
+
+  const handleDelete = useCallback((entry: MemoryEntry) => {
+    if (!window.confirm(t('memory.deleteConfirm', { text: entry.text }))) return;
+    onChange({ ...memory, entries: memory.entries.filter(e => e.id !== entry.id) });
+  }, [memory, onChange, t]);
+
+  const handleClearAll = useCallback(() => {
+    if (!window.confirm(t('memory.clearAllConfirm', { count: memory.entries.length }))) return;
+    onChange({ ...memory, entries: [] });
+    setEditing(null);
+  }, [memory, onChange, t]);
+
+  return (
+    <div className="p-4 border-b border-gray-200 bg-white max-h-[60vh] overflow-y-auto custom-scrollbar" aria-label={t('memory.title')}>
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="text-base font-semibold text-gray-800 mr-auto">{t('memory.title')}</h3>
+        <Button onClick={handleClearAll} variant="danger" size="sm" disabled={memory.entries.length === 0}>{t('memory.clearAll')}</Button>
+        <Button onClick={onClose} variant="secondary" size="sm">{t('memory.close')}</Button>
+      </div>
+      <p className="text-xs text-gray-500 mb-1">{t('memory.localOnly')}</p>
+      {!persisted && <p className="text-xs text-amber-700 mb-1">{t('memory.notPersisted')}</p>}
+
+      <label className="text-sm text-gray-700 flex items-center gap-2 my-2 select-none">
+        <input
+          type="checkbox"
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+          checked={memory.enabled}
+          onChange={(e) => onChange({ ...memory, enabled: e.target.checked })}
+        />
+        {t('memory.enabled')}
+      </label>
+
+      {memory.entries.length === 0 ? (
+        <p className="text-sm text-gray-500 my-2">{t('memory.empty')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {memory.entries.map(entry => (
+            <li key={entry.id} className="flex items-center gap-2 py-1">
+              {editing?.id === entry.id ? (
+                <>
+                  <input
+                    type="text"
+                    className="flex-1 p-2 border border-gray-300 rounded-md text-sm"
+                    value={editing.text}
+                    maxLength={MAX_MEMORY_ENTRY_LENGTH}
+                    onChange={(e) => setEditing({ id: entry.id, text: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleSaveEdit();
+                      if (e.key === 'Escape') setEditing(null);
+                    }}
+                    aria-label={t('memory.editLabel')}
+                    autoFocus
+                  />
+                  <Button onClick={handleSaveEdit} size="sm" disabled={!editing.text.trim()}>{t('memory.save')}</Button>
+                  <Button onClick={() => setEditing(null)} variant="secondary" size="sm">{t('memory.cancel')}</Button>
+                </>
+              ) : (
+                <>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-800 break-words">{entry.text}</p>
+                    <p className="text-xs text-gray-500">{formatDate(entry.updatedAt)}</p>
+                  </div>
+                  <Button onClick={() => setEditing({ id: entry.id, text: entry.text })} variant="secondary" size="sm" aria-label={`${t('memory.edit')}: ${entry.text}`}>{t('memory.edit')}</Button>
+                  <Button onClick={() => handleDelete(entry)} variant="danger" size="sm" aria-label={`${t('memory.delete')}: ${entry.text}`}>{t('memory.delete')}</Button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="flex items-center gap-2 mt-3">
+        <input
+          type="text"
+          className="flex-1 p-2 border border-gray-300 rounded-md text-sm"
+          placeholder={t('memory.addPlaceholder')}
+          value={newText}
+          maxLength={MAX_MEMORY_ENTRY_LENGTH}
+          onChange={(e) => setNewText(e.target.value)}
+          aria-label={t('memory.addLabel')}
+        />
+        <Button type="submit" size="sm" disabled={!newText.trim()}>{t('memory.add')}</Button>
+      </form>
+    </div>
+  );
+};
+
+export default MemoryPanel;
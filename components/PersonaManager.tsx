@@ -0,0 +1,191 @@
+import React, { useState, useRef, useCallback } from 'react';
+import Button from './Button';
+import { BUILT_IN_PERSONAS } from '../constants';
+import { Persona } from '../types';
+import { createPersonaId, exportPersonasJson, importPersonasJson, PersonaImportError, PersonaImportErrorCode } from '../services/personas';
+import { useTranslation } from '../services/i18n';
+import { MessageKey } from '../locales';
+
+interface PersonaManagerProps {
+  customPersonas: Persona[];
+  onChange: (personas: Persona[]) => void;
+  onClose: () => void;
+}
+
+type PersonaDraft = Omit<Persona, 'id' | 'builtIn'> & { id: string | null }; // null id = new persona
+
+const EMPTY_DRAFT: PersonaDraft = { id: null, name: '', avatar: '🙂', tone: '', languageMix: '', systemInstruction: '' };
+
+const IMPORT_ERROR_KEYS: Record<PersonaImportErrorCode, MessageKey> = {
+  'invalid-json': 'personas.invalidJson',
+  'no-personas': 'personas.noPersonas',
+};
+
+// Create, edit, delete, import and export the user's own personas.
+// Built-in personas can't be changed, but can be copied as a starting point.
+const PersonaManager: React.FC<PersonaManagerProps> = ({ customPersonas, onChange, onClose }) => {
+  const [draft, setDraft] = useState<PersonaDraft | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { t } = useTranslation();
+
+  const updateDraft = (update: Partial<PersonaDraft>) => setDraft(current => (current ? { ...current, ...update } : current));
+
+  const handleSave = useCallback(() => {
+    if (!draft || !draft.name.trim() || !draft.systemInstruction.trim()) return;
+    const persona: Persona = {
+      id: draft.id ?? createPersonaId(),
+      name: draft.name.trim(),
+      avatar: draft.avatar.trim() || '🙂',
+      tone: draft.tone.trim(),
+      languageMix: draft.languageMix.trim(),
+      systemInstruction: draft.systemInstruction.trim(),
+    };
+    onChange(draft.id
+      ? customPersonas.map(p => (p.id === draft.id ? persona : p))
+      : [...customPersonas, persona]);
+    setDraft(null);
+    setMessage({ text: t('personas.saved', { name: persona.name }), isError: false });
+  }, [draft, customPersonas, onChange, t]);
+
+  const handleDelete = useCallback((persona: Persona) => {
+    if (!window.confirm(t('personas.deleteConfirm', { name: persona.name }))) return;
+    onChange(customPersonas.filter(p => p.id !== persona.id));
+    if (draft?.id === persona.id) setDraft(null);
+  }, [customPersonas, onChange, draft, t]);
+
+  const handleExport = useCallback(() => {
+    const url = URL.createObjectURL(new Blob([exportPersonasJson(customPersonas)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'bhaii-personas.json';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }, [customPersonas]);
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    try {
+      const { personas, imported } = importPersonasJson(await file.text(), customPersonas);
+      onChange(personas);
+      setMessage({ text: t('personas.imported', { count: imported }), isError: false });
+    } catch (err) {
+      setMessage({ text: t(err instanceof PersonaImportError ? IMPORT_ERROR_KEYS[err.code] : 'personas.importFailed'), isError: true });
+    }
+  }, [customPersonas, onChange, t]);
+
+  const renderRow = (persona: Persona) => (
+    <li key={persona.id} className="flex items-center gap-2 py-1">
+      <span className="text-lg" aria-hidden="true">{persona.avatar}</span>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-800 truncate">{persona.name}</p>
+        <p className="text-xs text-gray-500 truncate">{[persona.tone, persona.languageMix].filter(Boolean).join(' · ')}</p>
+      </div>
+      {persona.builtIn ? (
+        <Button
+          onClick={() => setDraft({ ...persona, id: null, name: t('personas.copyName', { name: persona.name }) })}
+          variant="secondary"
+          size="sm"
+          aria-label={`${t('personas.copy')}: ${persona.name}`}
+        >
+          {t('personas.copy')}
+        </Button>
+      ) : (
+        <>
+          <Button onClick={() => setDraft({ ...persona })} variant="secondary" size="sm" aria-label={`${t('personas.edit')}: ${persona.name}`}>{t('personas.edit')}</Button>
+          <Button onClick={() => handleDelete(persona)} variant="danger" size="sm" aria-label={`${t('personas.delete')}: ${persona.name}`}>{t('personas.delete')}</Button>
+        </>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="p-4 border-b border-gray-200 bg-white max-h-[60vh] overflow-y-auto custom-scrollbar" aria-label={t('personas.title')}>
+      <div className="flex items-center gap-2 mb-3">
+        <h3 className="text-base font-semibold text-gray-800 mr-auto">{t('personas.title')}</h3>
+        <Button onClick={() => importInputRef.current?.click()} variant="secondary" size="sm">{t('personas.import')}</Button>
+        <Button onClick={handleExport} variant="secondary" size="sm" disabled={customPersonas.length === 0}>{t('personas.export')}</Button>
+        <Button onClick={onClose} variant="secondary" size="sm">{t('personas.close')}</Button>
+        <input type="file" accept="application/json,.json" className="hidden" ref={importInputRef} onChange={handleImport} />
+      </div>
+
+      {message && (
+        <p className={`text-sm mb-2 ${message.isError ? 'text-red-600' : 'text-green-700'}`} role={message.isError ? 'alert' : 'status'}>
+          {message.text}
+        </p>
+      )}
+
+      <ul className="divide-y divide-gray-100">
+        {BUILT_IN_PERSONAS.map(renderRow)}
+        {customPersonas.map(renderRow)}
+      </ul>
+
+      {draft ? (
+        <div className="mt-3 p-3 border border-gray-200 rounded-lg bg-gray-50 grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <label className="text-sm text-gray-700 flex flex-col gap-1">
+            {t('personas.name')}
+            <input
+              type="text"
+              className="p-2 border border-gray-300 rounded-md text-sm"
+              value={draft.name}
+              maxLength={40}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+            />
+          </label>
+          <label className="text-sm text-gray-700 flex flex-col gap-1">
+            {t('personas.avatar')}
+            <input
+              type="text"
+              className="p-2 border border-gray-300 rounded-md text-sm"
+              value={draft.avatar}
+              maxLength={8}
+              onChange={(e) => updateDraft({ avatar: e.target.value })}
+            />
+          </label>
+          <label className="text-sm text-gray-700 flex flex-col gap-1">
+            {t('personas.tone')}
+            <input
+              type="text"
+              className="p-2 border border-gray-300 rounded-md text-sm"
+              placeholder={t('personas.tonePlaceholder')}
+              value={draft.tone}
+              onChange={(e) => updateDraft({ tone: e.target.value })}
+            />
+          </label>
+          <label className="text-sm text-gray-700 flex flex-col gap-1">
+            {t('personas.languageMix')}
+            <input
+              type="text"
+              className="p-2 border border-gray-300 rounded-md text-sm"
+              placeholder={t('personas.languageMixPlaceholder')}
+              value={draft.languageMix}
+              onChange={(e) => updateDraft({ languageMix: e.target.value })}
+            />
+          </label>
+          <label className="text-sm text-gray-700 flex flex-col gap-1 sm:col-span-2">
+            {t('personas.instruction')}
+            <textarea
+              className="p-2 border border-gray-300 rounded-md text-sm resize-none"
+              rows={4}
+              placeholder={t('personas.instructionPlaceholder')}
+              value={draft.systemInstruction}
+              onChange={(e) => updateDraft({ systemInstruction: e.target.value })}
+            />
+          </label>
+          <div className="flex gap-2 justify-end sm:col-span-2">
+            <Button onClick={() => setDraft(null)} variant="secondary" size="sm">{t('personas.cancel')}</Button>
+            <Button onClick={handleSave} size="sm" disabled={!draft.name.trim() || !draft.systemInstruction.trim()}>
+              {t(draft.id ? 'personas.saveChanges' : 'personas.create')}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button onClick={() => setDraft(EMPTY_DRAFT)} size="sm" className="mt-3">{t('personas.new')}</Button>
+      )}
+    </div>
+  );
+};
+
+export default PersonaManager;
@@ -0,0 +1,287 @@
+import React, { useCallback, useRef } from 'react';
+import { Slide, SlideBackground, SlideFontSize, SlideTransition } from '../types';
+import { MAX_SLIDES } from '../constants';
+import { moveSlide } from '../services/slides';
+import Button from './Button';
+import { useTranslation } from '../services/i18n';
+import { MessageKey } from '../locales';
+
+const TRANSITION_OPTIONS: { value: SlideTransition; labelKey: MessageKey }[] = [
+  { value: 'fade-up', labelKey: 'slideshow.transition.fadeUp' },
+  { value: 'fade', labelKey: 'slideshow.transition.fade' },
+  { value: 'zoom', labelKey: 'slideshow.transition.zoom' },
+  { value: 'slide-left', labelKey: 'slideshow.transition.slideLeft' },
+  { value: 'none', labelKey: 'slideshow.transition.none' },
+];
+
+const FONT_SIZE_OPTIONS: { value: SlideFontSize; labelKey: MessageKey }[] = [
+  { value: 'small', labelKey: 'slideshow.fontSize.small' },
+  { value: 'medium', labelKey: 'slideshow.fontSize.medium' },
+  { value: 'large', labelKey: 'slideshow.fontSize.large' },
+  { value: 'xl', labelKey: 'slideshow.fontSize.xl' },
+];
+
+const backgroundPreview = (background: SlideBackground) =>
+  background.type === 'solid'
+    ? background.color
+    : `linear-gradient(to bottom right, ${background.from}, ${background.to})`;
+
+const readFileAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+
+interface SlideEditorProps {
+  slides: Slide[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  onChange: (slides: Slide[]) => void;
+  onAddSlide: () => void;
+  disabled?: boolean;
+}
+
+const SlideEditor: React.FC<SlideEditorProps> = ({
+  slides,
+  selectedIndex,
+  onSelect,
+  onChange,
+  onAddSlide,
+  disabled = false,
+}) => {
+  const { t } = useTranslation();
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const selectedSlide = slides[selectedIndex];
+
+  const updateSelected = useCallback((update: Partial<Slide>) => {
+    onChange(slides.map((slide, i) => (i === selectedIndex ? { ...slide, ...update } : slide)));
+  }, [slides, selectedIndex, onChange]);
+
+  const handleMove = useCallback((index: number, direction: -1 | 1) => {
+    onChange(moveSlide(slides, index, index + direction));
+    if (index === selectedIndex) {
+      onSelect(Math.max(0, Math.min(slides.length - 1, index + direction)));
+    }
+  }, [slides, selectedIndex, onChange, onSelect]);
+
+  const handleDelete = useCallback((index: number) => {
+    onChange(slides.filter((_, i) => i !== index));
+    if (selectedIndex >= index && selectedIndex > 0) {
+      onSelect(selectedIndex - 1);
+    }
+  }, [slides, selectedIndex, onChange, onSelect]);
+
+  const handleImageChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && file.type.startsWith('image/')) {
+      updateSelected({ imageUrl: await readFileAsDataUrl(file) });
+    }
+    e.target.value = '';
+  }, [updateSelected]);
+
+  const handleBackgroundTypeChange = useCallback((type: SlideBackground['type']) => {
+    if (!selectedSlide || selectedSlide.background.type === type) return;
+    const current = selectedSlide.background;
+    updateSelected({
+      background: type === 'solid'
+        ? { type: 'solid', color: current.type === 'gradient' ? current.from : '#4338ca' }
+        : { type: 'gradient', from: current.type === 'solid' ? current.color : '#a855f7', to: '#4338ca' },
+    });
+  }, [selectedSlide, updateSelected]);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {/* Slide List */}
+      <div className="flex flex-col">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-700">{t('slideshow.slidesHeading', { count: slides.length, max: MAX_SLIDES })}</h3>
+          <Button onClick={onAddSlide} size="sm" variant="secondary" disabled={disabled || slides.length >= MAX_SLIDES}>
+            + {t('slideshow.addSlide')}
+          </Button>
+        </div>
+        <ol className="space-y-1 max-h-72 overflow-y-auto custom-scrollbar" aria-label={t('slideshow.slidesList')}>
+          {slides.map((slide, index) => (
+            <li
+              key={slide.id}
+              className={`flex items-center gap-2 p-2 rounded-md border cursor-pointer transition-colors duration-200
+                ${index === selectedIndex ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+              onClick={() => onSelect(index)}
+            >
+              <span
+                className="w-10 h-6 flex-shrink-0 rounded border border-gray-300"
+                style={{ background: backgroundPreview(slide.background) }}
+                aria-hidden="true"
+              />
+              <span className="flex-1 min-w-0 text-sm text-gray-800 truncate">
+                {index + 1}. {slide.text || t(slide.imageUrl ? 'slideshow.imageOnly' : 'slideshow.emptySlide')}
+              </span>
+              <span className="text-xs text-gray-500">{(slide.durationMs / 1000).toFixed(1)}s</span>
+              <button
+                className="p-1 text-xs text-gray-600 hover:text-blue-600 disabled:opacity-30"
+                onClick={(e) => { e.stopPropagation(); handleMove(index, -1); }}
+                disabled={disabled || index === 0}
+                aria-label={t('slideshow.moveUp', { number: index + 1 })}
+              >
+                ▲
+              </button>
+              <button
+                className="p-1 text-xs text-gray-600 hover:text-blue-600 disabled:opacity-30"
+                onClick={(e) => { e.stopPropagation(); handleMove(index, 1); }}
+                disabled={disabled || index === slides.length - 1}
+                aria-label={t('slideshow.moveDown', { number: index + 1 })}
+              >
+                ▼
+              </button>
+              <button
+                className="p-1 text-xs text-gray-600 hover:text-red-600 disabled:opacity-30"
+                onClick={(e) => { e.stopPropagation(); handleDelete(index); }}
+                disabled={disabled}
+                aria-label={t('slideshow.deleteSlide', { number: index + 1 })}
+              >
+                🗑️
+              </button>
+            </li>
+          ))}
+          {slides.length === 0 && (
+            <li className="text-sm text-gray-500 p-2">{t('slideshow.emptyList')}</li>
+          )}
+        </ol>
+      </div>
+
+      {/* Selected Slide Settings */}
+      {selectedSlide && (
+        <fieldset className="flex flex-col gap-3 p-3 border border-gray-200 rounded-lg" disabled={disabled}>
+          <legend className="text-sm font-medium text-gray-700 px-1">{t('slideshow.slideNumber', { number: selectedIndex + 1 })}</legend>
+
+          <label className="text-sm text-gray-700">
+            {t('slideshow.text')}
+            <textarea
+              className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm resize-none focus:ring-blue-500 focus:border-blue-500"
+              rows={2}
+              value={selectedSlide.text}
+              onChange={(e) => updateSelected({ text: e.target.value })}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700">
+              {t('slideshow.duration')}
+              <input
+                type="number"
+                min={1}
+                max={15}
+                step={0.5}
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+                value={selectedSlide.durationMs / 1000}
+                onChange={(e) => {
+                  const seconds = parseFloat(e.target.value);
+                  if (!Number.isNaN(seconds)) {
+                    updateSelected({ durationMs: Math.round(Math.min(15, Math.max(1, seconds)) * 1000) });
+                  }
+                }}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              {t('slideshow.transitionLabel')}
+              <select
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+                value={selectedSlide.transition}
+                onChange={(e) => updateSelected({ transition: e.target.value as SlideTransition })}
+              >
+                {TRANSITION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              {t('slideshow.fontSizeLabel')}
+              <select
+                className="mt-1 w-full p-2 border border-gray-300 rounded-md text-sm"
+                value={selectedSlide.fontSize}
+                onChange={(e) => updateSelected({ fontSize: e.target.value as SlideFontSize })}
+              >
+                {FONT_SIZE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{t(option.labelKey)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              {t('slideshow.textColor')}
+              <input
+                type="color"
+                className="mt-1 block w-full h-9 border border-gray-300 rounded-md"
+                value={selectedSlide.textColor}
+                onChange={(e) => updateSelected({ textColor: e.target.value })}
+              />
+            </label>
+          </div>
+
+          <div className="text-sm text-gray-700">
+            {t('slideshow.background')}
+            <div className="mt-1 flex items-center gap-2">
+              <select
+                className="p-2 border border-gray-300 rounded-md text-sm"
+                value={selectedSlide.background.type}
+                onChange={(e) => handleBackgroundTypeChange(e.target.value as SlideBackground['type'])}
+                aria-label={t('slideshow.backgroundType')}
+              >
+                <option value="solid">{t('slideshow.solidColor')}</option>
+                <option value="gradient">{t('slideshow.gradient')}</option>
+              </select>
+              {selectedSlide.background.type === 'solid' ? (
+                <input
+                  type="color"
+                  className="h-9 w-12 border border-gray-300 rounded-md"
+                  value={selectedSlide.background.color}
+                  onChange={(e) => updateSelected({ background: { type: 'solid', color: e.target.value } })}
+                  aria-label={t('slideshow.backgroundColor')}
+                />
+              ) : (
+                <>
+                  <input
+                    type="color"
+                    className="h-9 w-12 border border-gray-300 rounded-md"
+                    value={selectedSlide.background.from}
+                    onChange={(e) => selectedSlide.background.type === 'gradient'
+                      && updateSelected({ background: { ...selectedSlide.background, from: e.target.value } })}
+                    aria-label={t('slideshow.gradientStart')}
+                  />
+                  <input
+                    type="color"
+                    className="h-9 w-12 border border-gray-300 rounded-md"
+                    value={selectedSlide.background.to}
+                    onChange={(e) => selectedSlide.background.type === 'gradient'
+                      && updateSelected({ background: { ...selectedSlide.background, to: e.target.value } })}
+                    aria-label={t('slideshow.gradientEnd')}
+                  />
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="text-sm text-gray-700">
+            {t('slideshow.image')}
+            <input type="file" accept="image/*" className="hidden" ref={imageInputRef} onChange={handleImageChange} />
+            <div className="mt-1 flex items-center gap-2">
+              {selectedSlide.imageUrl && (
+                <img src={selectedSlide.imageUrl} alt="" className="h-10 w-16 object-cover rounded border border-gray-200" />
+              )}
+              <Button onClick={() => imageInputRef.current?.click()} variant="secondary" size="sm">
+                {t(selectedSlide.imageUrl ? 'slideshow.changeImage' : 'slideshow.addImage')}
+              </Button>
+              {selectedSlide.imageUrl && (
+                <Button onClick={() => updateSelected({ imageUrl: undefined })} variant="secondary" size="sm">
+                  {t('slideshow.removeImage')}
+                </Button>
+              )}
+            </div>
+          </div>
+        </fieldset>
+      )}
+    </div>
+  );
+};
+
+export default SlideEditor;
@@ -0,0 +1,155 @@
+import React, { useRef, useEffect, useCallback, useMemo } from 'react';
+import { Slide } from '../types';
+import { createSlide, getSlidePosition, getSlideStartTimes, getTotalDurationMs } from '../services/slides';
+import { drawSlideFrame, drawSlideshowAt, loadSlideImages, SlideImages, TRANSITION_MS } from '../services/slideshowRenderer';
+import Button from './Button';
+import { useTranslation } from '../services/i18n';
+
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+
+interface SlidePlayerProps {
+  slides: Slide[];
+  currentIndex: number;
+  onIndexChange: (index: number) => void;
+  isPlaying: boolean;
+  onPlayingChange: (playing: boolean) => void;
+  onFinished?: () => void;
+}
+
+// Canvas preview with play/pause/previous/next. Uses the same renderer as the
+// export, so transitions look identical in the downloaded file.
+const SlidePlayer: React.FC<SlidePlayerProps> = ({
+  slides,
+  currentIndex,
+  onIndexChange,
+  isPlaying,
+  onPlayingChange,
+  onFinished,
+}) => {
+  const { t } = useTranslation();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const timeRef = useRef<number>(0); // Playback position within the whole show
+  const imagesRef = useRef<SlideImages>(new Map());
+
+  // Keep the latest callbacks without restarting the animation loop
+  const callbacksRef = useRef({ onIndexChange, onPlayingChange, onFinished });
+  callbacksRef.current = { onIndexChange, onPlayingChange, onFinished };
+  // Read by the seek below, which must not re-run when playback starts or stops
+  const isPlayingRef = useRef(isPlaying);
+  isPlayingRef.current = isPlaying;
+
+  const placeholderSlide = useMemo(() => createSlide(t('slideshow.placeholder')), [t]);
+
+  const draw = useCallback(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    if (slides.length === 0) {
+      drawSlideFrame(ctx, placeholderSlide, TRANSITION_MS, imagesRef.current);
+    } else {
+      drawSlideshowAt(ctx, slides, timeRef.current, imagesRef.current);
+    }
+  }, [slides, placeholderSlide]);
+
+  // Preload slide images, then redraw with them
+  useEffect(() => {
+    let cancelled = false;
+    loadSlideImages(slides).then(images => {
+      if (!cancelled) {
+        imagesRef.current = images;
+        draw();
+      }
+    });
+    return () => { cancelled = true; };
+  }, [slides, draw]);
+
+  // Seek when the selected slide changes from outside (list click, prev/next)
+  useEffect(() => {
+    if (slides.length === 0) {
+      timeRef.current = 0;
+    } else if (getSlidePosition(slides, timeRef.current).index !== currentIndex) {
+      const start = getSlideStartTimes(slides)[Math.min(currentIndex, slides.length - 1)];
+      // While paused, jump past the transition so the slide is fully visible.
+      timeRef.current = start + (isPlayingRef.current ? 0 : TRANSITION_MS);
+    }
+    draw();
+  }, [currentIndex, slides, draw]);
+
+  // Playback loop
+  useEffect(() => {
+    if (!isPlaying || slides.length === 0) return;
+
+    const totalMs = getTotalDurationMs(slides);
+    if (timeRef.current >= totalMs - 1) {
+      timeRef.current = 0; // Replay from the beginning
+    }
+    let lastTimestamp = performance.now();
+    let frameId = 0;
+
+    const step = (now: number) => {
+      timeRef.current = Math.min(totalMs, timeRef.current + (now - lastTimestamp));
+      lastTimestamp = now;
+      draw();
+
+      const { index } = getSlidePosition(slides, timeRef.current);
+      callbacksRef.current.onIndexChange(index);
+
+      if (timeRef.current >= totalMs) {
+        callbacksRef.current.onPlayingChange(false);
+        callbacksRef.current.onFinished?.();
+        return;
+      }
+      frameId = requestAnimationFrame(step);
+    };
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, slides, draw]);
+
+  const hasSlides = slides.length > 0;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        className="w-full aspect-video rounded-lg shadow-lg bg-gray-200"
+        role="img"
+        aria-label={hasSlides ? t('slideshow.slideLabel', { number: currentIndex + 1, text: slides[currentIndex]?.text ?? '' }) : t('slideshow.preview')}
+      />
+      <div className="flex items-center justify-center gap-2">
+        <Button
+          onClick={() => onIndexChange(Math.max(0, currentIndex - 1))}
+          variant="secondary"
+          size="sm"
+          disabled={!hasSlides || currentIndex === 0}
+          aria-label={t('slideshow.previousSlide')}
+        >
+          ⏮ {t('slideshow.prev')}
+        </Button>
+        <Button
+          onClick={() => onPlayingChange(!isPlaying)}
+          size="sm"
+          disabled={!hasSlides}
+          aria-label={t(isPlaying ? 'slideshow.pauseSlideshow' : 'slideshow.playSlideshow')}
+        >
+          {isPlaying ? `⏸ ${t('slideshow.pause')}` : `▶ ${t('slideshow.play')}`}
+        </Button>
+        <Button
+          onClick={() => onIndexChange(Math.min(slides.length - 1, currentIndex + 1))}
+          variant="secondary"
+          size="sm"
+          disabled={!hasSlides || currentIndex >= slides.length - 1}
+          aria-label={t('slideshow.nextSlide')}
+        >
+          {t('slideshow.next')} ⏭
+        </Button>
+        <span className="text-sm text-gray-600 ml-2" aria-live="polite">
+          {hasSlides ? t('slideshow.position', { number: currentIndex + 1, total: slides.length }) : t('slideshow.noSlides')}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default SlidePlayer;
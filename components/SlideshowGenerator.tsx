@@ -1,129 +1,349 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import Button from './Button';
+import SlideEditor from './SlideEditor';
+import SlidePlayer from './SlidePlayer';
+import { GalleryItemOf, Slide } from '../types';
+import { CHAT_MODEL_NAME, MAX_SLIDES, SLIDESHOW_THEMES } from '../constants';
+import { applyTheme, createSlide, getTotalDurationMs, outlineToSlides } from '../services/slides';
+import { generateHDImageWithGemini, generateSlideOutline } from '../services/geminiService';
+import { exportSlideshow, isWebMRecordingSupported, SlideshowExport } from '../services/slideshowRenderer';
+import { recordGalleryItem } from '../services/gallery';
+import { blobToDataUrl } from '../services/imagePreprocess';
+import { getAIErrorMessage } from '../services/aiErrors';
+import { useTranslation } from '../services/i18n';
 
-const SLIDE_DURATION_MS = 2500; // 2.5 seconds per slide
-const MAX_SLIDES = 6; // To keep total video length around 10-15 seconds
+interface SlideshowGeneratorProps {
+  initialItem?: GalleryItemOf<'slideshow-generator'>; // Gallery item whose slides are being reused
+}
 
-const SlideshowGenerator: React.FC = () => {
+const SlideshowGenerator: React.FC<SlideshowGeneratorProps> = ({ initialItem }) => {
   const [inputText, setInputText] = useState<string>('');
-  const [slides, setSlides] = useState<string[]>([]);
+  const [slides, setSlides] = useState<Slide[]>(initialItem?.settings.slides ?? []);
+  const [themeId, setThemeId] = useState<string>(initialItem?.settings.themeId ?? SLIDESHOW_THEMES[0].id);
   const [currentSlideIndex, setCurrentSlideIndex] = useState<number>(0);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
-  const [loading, setLoading] = useState<boolean>(false); // Used briefly for "Generate" button click
   const [error, setError] = useState<string | null>(null);
-  const [statusMessage, setStatusMessage] = useState<string>('Enter text to create your animated slideshow!');
+  const { t } = useTranslation();
+  const [statusMessage, setStatusMessage] = useState<string>(() => t(initialItem ? 'slideshow.loadedFromGallery' : 'slideshow.ready'));
 
-  const timeoutRef = useRef<number | null>(null);
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [exportProgress, setExportProgress] = useState<number>(0);
+  const [exportResult, setExportResult] = useState<{ url: string; format: SlideshowExport['format'] } | null>(null);
 
-  const startSlideshow = useCallback((newSlides: string[]) => {
-    if (newSlides.length === 0) {
-      setError('No valid slides generated. Please enter some text.');
-      setIsPlaying(false);
-      return;
-    }
+  const [topic, setTopic] = useState<string>('');
+  const [topicSlideCount, setTopicSlideCount] = useState<number>(5);
+  const [illustrate, setIllustrate] = useState<boolean>(false);
+  const [generating, setGenerating] = useState<boolean>(false);
+  // Topic the current slides were generated from; recorded with exports
+  const [sourceTopic, setSourceTopic] = useState<string | null>(
+    initialItem?.model ? initialItem.prompt : null,
+  );
+
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const generateAbortRef = useRef<AbortController | null>(null);
+
+  const theme = SLIDESHOW_THEMES.find(candidate => candidate.id === themeId) || SLIDESHOW_THEMES[0];
+
+  // Cancel an export in progress when leaving the view
+  useEffect(() => {
+    return () => {
+      exportAbortRef.current?.abort();
+      generateAbortRef.current?.abort();
+    };
+  }, []);
+
+  // Release the previous export's object URL when it is replaced
+  useEffect(() => {
+    return () => {
+      if (exportResult) URL.revokeObjectURL(exportResult.url);
+    };
+  }, [exportResult]);
 
+  // Any edit makes an earlier export stale
+  const handleSlidesChange = useCallback((newSlides: Slide[]) => {
     setSlides(newSlides);
-    setCurrentSlideIndex(0);
-    setIsPlaying(true);
-    setStatusMessage('Slideshow playing...');
+    setExportResult(null);
+    setCurrentSlideIndex(index => Math.min(index, Math.max(0, newSlides.length - 1)));
   }, []);
 
-  const stopSlideshow = useCallback(() => {
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-      timeoutRef.current = null;
+  const handleCreateFromText = useCallback(() => {
+    setError(null);
+    setIsPlaying(false);
+
+    const rawLines = inputText.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    if (rawLines.length === 0) {
+      setError(t('slideshow.emptyText'));
+      return;
     }
+
+    const remaining = MAX_SLIDES - slides.length;
+    const newSlides = rawLines.slice(0, remaining).map(line => createSlide(line, theme));
+    handleSlidesChange([...slides, ...newSlides]);
+    setCurrentSlideIndex(slides.length);
+    setInputText('');
+    setStatusMessage(rawLines.length > remaining
+      ? t('slideshow.addedMax', { count: newSlides.length, max: MAX_SLIDES })
+      : t('slideshow.added', { count: newSlides.length }));
+  }, [inputText, slides, theme, handleSlidesChange, t]);
+
+  const handleGenerateFromTopic = useCallback(async () => {
+    if (!topic.trim()) return;
+    if (slides.length > 0 && !window.confirm(t('slideshow.replaceConfirm'))) return;
+
+    const abortController = new AbortController();
+    generateAbortRef.current = abortController;
+    setGenerating(true);
     setIsPlaying(false);
-    setStatusMessage('Slideshow stopped. Ready for new input!');
-  }, []);
+    setError(null);
+    setStatusMessage(t('slideshow.planning'));
 
-  useEffect(() => {
-    if (isPlaying && slides.length > 0) {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
+    try {
+      const response = await generateSlideOutline(topic, { slideCount: topicSlideCount, signal: abortController.signal });
+      if (response.cancelled) {
+        setStatusMessage(t('slideshow.generationCancelled'));
+        return;
+      }
+      if (!response.outline) {
+        setError(getAIErrorMessage(response.error, t));
+        return;
       }
 
-      timeoutRef.current = window.setTimeout(() => {
-        setCurrentSlideIndex((prevIndex) => {
-          if (prevIndex < slides.length - 1) {
-            return prevIndex + 1;
-          } else {
-            // Slideshow finished playing through all slides
-            stopSlideshow();
-            setStatusMessage('Slideshow finished! You can generate another one.');
-            return 0; // Reset index for potential replay
-          }
-        });
-      }, SLIDE_DURATION_MS);
-    } else if (!isPlaying && timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-      timeoutRef.current = null;
-    }
+      const outline = response.outline;
+      const newSlides = outlineToSlides(outline, theme);
+      handleSlidesChange(newSlides);
+      setSourceTopic(topic.trim());
+      setCurrentSlideIndex(0);
+      const fallbackNote = response.usedFallback ? t('slideshow.fallbackNote') : '';
 
-    return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
+      if (!illustrate) {
+        setStatusMessage(t('slideshow.created', { count: newSlides.length, note: fallbackNote }));
+        return;
       }
-    };
-  }, [isPlaying, currentSlideIndex, slides, stopSlideshow]);
 
-  const handleGenerate = useCallback(() => {
-    setLoading(true);
-    setError(null);
-    stopSlideshow(); // Stop any currently playing slideshow
+      // Content slides follow the title slide in the same order as the outline.
+      const offset = newSlides.length - outline.slides.length;
+      let illustrated = 0;
+      for (let i = 0; i < outline.slides.length; i++) {
+        if (abortController.signal.aborted) break;
+        setStatusMessage(t('slideshow.drawing', { current: i + 1, total: outline.slides.length }));
+        const item = outline.slides[i];
+        const { imageUrl, error: imageError } = await generateHDImageWithGemini(item.imagePrompt || item.title, '16:9');
+        if (abortController.signal.aborted) break;
+        if (imageUrl) {
+          const slideId = newSlides[offset + i].id;
+          setSlides(current => current.map(slide => (slide.id === slideId ? { ...slide, imageUrl } : slide)));
+          illustrated++;
+        } else if (imageError?.kind === 'billing' || imageError?.kind === 'auth') {
+          // Every remaining image would fail the same way.
+          setError(getAIErrorMessage(imageError, t));
+          break;
+        }
+      }
+      setStatusMessage(abortController.signal.aborted
+        ? t('slideshow.illustrationsStopped', { count: illustrated })
+        : t('slideshow.createdIllustrated', { count: newSlides.length, illustrated, note: fallbackNote }));
+    } finally {
+      generateAbortRef.current = null;
+      setGenerating(false);
+    }
+  }, [topic, topicSlideCount, illustrate, slides.length, theme, handleSlidesChange, t]);
 
-    const rawLines = inputText.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-    const generatedSlides = rawLines.slice(0, MAX_SLIDES); // Limit to MAX_SLIDES
+  const handleCancelGenerate = useCallback(() => {
+    generateAbortRef.current?.abort();
+  }, []);
 
-    if (generatedSlides.length === 0) {
-      setError('Please enter some text for your slideshow.');
-      setLoading(false);
-      return;
+  const handleAddSlide = useCallback(() => {
+    if (slides.length >= MAX_SLIDES) return;
+    handleSlidesChange([...slides, createSlide(t('slideshow.newSlide'), theme)]);
+    setCurrentSlideIndex(slides.length);
+  }, [slides, theme, handleSlidesChange, t]);
+
+  const handleThemeChange = useCallback((newThemeId: string) => {
+    setThemeId(newThemeId);
+    const newTheme = SLIDESHOW_THEMES.find(candidate => candidate.id === newThemeId);
+    if (newTheme && slides.length > 0) {
+      handleSlidesChange(slides.map(slide => applyTheme(slide, newTheme)));
+    }
+  }, [slides, handleSlidesChange]);
+
+  const handleExport = useCallback(async (preferredFormat: SlideshowExport['format']) => {
+    if (slides.length === 0) return;
+
+    const abortController = new AbortController();
+    exportAbortRef.current = abortController;
+    setIsPlaying(false);
+    setExporting(true);
+    setExportProgress(0);
+    setExportResult(null);
+    setError(null);
+    setStatusMessage(t(preferredFormat === 'webm' && isWebMRecordingSupported() ? 'slideshow.recording' : 'slideshow.renderingGif'));
+
+    try {
+      const result = await exportSlideshow(slides, {}, setExportProgress, abortController.signal, preferredFormat);
+      setExportResult({ url: URL.createObjectURL(result.blob), format: result.format });
+      recordGalleryItem({
+        tool: 'slideshow-generator',
+        mediaUrl: await blobToDataUrl(result.blob),
+        prompt: sourceTopic ?? slides[0].text,
+        model: sourceTopic ? CHAT_MODEL_NAME : '',
+        settings: { themeId, format: result.format, slides },
+      });
+      setStatusMessage(t(result.format === 'webm'
+        ? 'slideshow.videoReady'
+        : preferredFormat === 'webm'
+          ? 'slideshow.gifFallback'
+          : 'slideshow.gifReady'));
+    } catch (err) {
+      if (abortController.signal.aborted) {
+        setStatusMessage(t('slideshow.exportCancelled'));
+      } else {
+        console.error('Slideshow export failed:', err);
+        setError(t('slideshow.exportFailed'));
+      }
+    } finally {
+      exportAbortRef.current = null;
+      setExporting(false);
     }
-    
-    startSlideshow(generatedSlides);
-    setLoading(false);
-  }, [inputText, startSlideshow, stopSlideshow]);
+  }, [slides, sourceTopic, themeId, t]);
+
+  const handleCancelExport = useCallback(() => {
+    exportAbortRef.current?.abort();
+  }, []);
 
   const handleClear = useCallback(() => {
-    stopSlideshow();
+    handleCancelExport();
+    handleCancelGenerate();
+    setIsPlaying(false);
+    setExportResult(null);
     setInputText('');
     setSlides([]);
+    setSourceTopic(null);
     setCurrentSlideIndex(0);
     setError(null);
-    setStatusMessage('Enter text to create your animated slideshow!');
-    setLoading(false);
-  }, [stopSlideshow]);
+    setStatusMessage(t('slideshow.ready'));
+  }, [handleCancelExport, handleCancelGenerate, t]);
 
-  const currentSlideText = slides[currentSlideIndex] || 'Your awesome slideshow will appear here!';
+  const totalSeconds = getTotalDurationMs(slides) / 1000;
 
   return (
     <div className="flex flex-col bg-white p-4">
-      <h2 className="text-xl font-bold mb-4 text-gray-800">Animated Slideshow Generator</h2>
+      <h2 className="text-xl font-bold mb-4 text-gray-800">{t('slideshow.title')}</h2>
       <p className="text-gray-600 text-sm mb-4">
-        Turn your text into a fun, animated slideshow video (10-15 seconds)! Each line of text becomes a slide.
-        No API keys or billing required - completely free and student-friendly!
+        {t('slideshow.description')}
       </p>
 
+      {/* Theme */}
+      <div className="mb-4">
+        <span className="block text-gray-700 text-sm font-medium mb-2">{t('slideshow.themeLabel')}</span>
+        <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={t('slideshow.themeGroup')}>
+          {SLIDESHOW_THEMES.map(option => (
+            <button
+              key={option.id}
+              role="radio"
+              aria-checked={option.id === themeId}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-md border text-sm transition-colors duration-200
+                ${option.id === themeId ? 'border-blue-500 ring-2 ring-blue-200' : 'border-gray-300 hover:border-gray-400'}`}
+              onClick={() => handleThemeChange(option.id)}
+              disabled={exporting || generating}
+            >
+              <span
+                className="w-5 h-5 rounded-full border border-gray-300"
+                style={{ background: option.background.type === 'solid' ? option.background.color : `linear-gradient(to bottom right, ${option.background.from}, ${option.background.to})` }}
+                aria-hidden="true"
+              />
+              {t(option.nameKey)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Generate From Topic */}
+      <div className="mb-4 p-3 border border-purple-200 rounded-lg bg-purple-50">
+        <label htmlFor="slideshowTopic" className="block text-gray-700 text-sm font-medium mb-2">
+          ✨ {t('slideshow.topicLabel')}
+        </label>
+        <input
+          id="slideshowTopic"
+          type="text"
+          className="w-full p-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-sm"
+          placeholder={t('slideshow.topicPlaceholder')}
+          value={topic}
+          onChange={(e) => setTopic(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && !generating && !exporting) handleGenerateFromTopic(); }}
+          disabled={generating || exporting}
+        />
+        <div className="flex flex-wrap items-center gap-3 mt-2">
+          <label className="text-sm text-gray-700 flex items-center gap-2">
+            {t('slideshow.slideCount')}
+            <input
+              type="number"
+              min={2}
+              max={MAX_SLIDES - 1}
+              className="w-16 p-1 border border-gray-300 rounded-md text-sm"
+              value={topicSlideCount}
+              onChange={(e) => {
+                const count = parseInt(e.target.value, 10);
+                if (!Number.isNaN(count)) setTopicSlideCount(Math.min(MAX_SLIDES - 1, Math.max(2, count)));
+              }}
+              disabled={generating || exporting}
+            />
+          </label>
+          <label className="text-sm text-gray-700 flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={illustrate}
+              onChange={(e) => setIllustrate(e.target.checked)}
+              disabled={generating || exporting}
+            />
+            {t('slideshow.illustrate')}
+          </label>
+          {generating ? (
+            <Button onClick={handleCancelGenerate} variant="danger" size="sm" className="ml-auto">
+              {t('slideshow.stop')}
+            </Button>
+          ) : (
+            <Button
+              onClick={handleGenerateFromTopic}
+              disabled={exporting || topic.trim() === ''}
+              size="sm"
+              className="ml-auto"
+            >
+              {t('slideshow.generate')}
+            </Button>
+          )}
+        </div>
+        {illustrate && (
+          <p className="mt-2 text-xs text-gray-500">{t('slideshow.illustrateHelp')}</p>
+        )}
+      </div>
+
       {/* Text Input */}
       <div className="mb-4">
         <label htmlFor="slideshowText" className="block text-gray-700 text-sm font-medium mb-2">
-          Your Slideshow Text (one line per slide, max {MAX_SLIDES} slides for 10-15s):
+          {t('slideshow.textLabel')}
         </label>
         <textarea
           id="slideshowText"
           className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-none text-sm"
-          rows={5}
-          placeholder="Write your amazing story here...
-Each line will be a new slide!
-Keep it short and sweet.
-This is slide number four.
-And finally, the last slide!"
+          rows={4}
+          placeholder={t('slideshow.textPlaceholder')}
           value={inputText}
           onChange={(e) => setInputText(e.target.value)}
-          disabled={isPlaying || loading}
-          aria-label="Text input for slideshow"
+          disabled={exporting || generating}
+          aria-label={t('slideshow.textInputLabel')}
         />
+        <div className="flex gap-2 mt-2 justify-end">
+          <Button onClick={handleClear} variant="secondary" disabled={exporting || (inputText === '' && slides.length === 0 && !generating)} size="sm">
+            {t('slideshow.clearAll')}
+          </Button>
+          <Button
+            onClick={handleCreateFromText}
+            disabled={exporting || generating || inputText.trim() === '' || slides.length >= MAX_SLIDES}
+            size="sm"
+          >
+            {t('slideshow.create')}
+          </Button>
+        </div>
       </div>
 
       {error && (
@@ -131,44 +351,88 @@ And finally, the last slide!"
       )}
 
       {statusMessage && !error && (
-        <p className={`text-sm mb-4 ${isPlaying ? 'text-blue-600' : 'text-gray-600'}`} role="status">
+        <p className={`text-sm mb-4 ${isPlaying || exporting || generating ? 'text-blue-600' : 'text-gray-600'}`} role="status">
           {statusMessage}
         </p>
       )}
 
-      {/* Action Buttons */}
-      <div className="flex gap-2 mb-4 justify-end">
-        <Button onClick={handleClear} variant="secondary" disabled={loading || (inputText === '' && slides.length === 0 && !isPlaying)} size="sm">
-          Clear
-        </Button>
-        <Button
-          onClick={handleGenerate}
-          loading={loading}
-          disabled={isPlaying || loading || inputText.trim() === ''}
-          size="sm"
-          aria-label={loading ? 'Generating slideshow' : 'Generate Slideshow'}
-        >
-          {loading ? 'Generating...' : 'Generate Slideshow'}
-        </Button>
+      {/* Slide List and Settings */}
+      <div className="mb-4">
+        <SlideEditor
+          slides={slides}
+          selectedIndex={currentSlideIndex}
+          onSelect={setCurrentSlideIndex}
+          onChange={handleSlidesChange}
+          onAddSlide={handleAddSlide}
+          disabled={exporting || generating}
+        />
       </div>
 
-      {/* Slideshow Display */}
-      <div className="relative w-full aspect-video bg-gradient-to-br from-purple-500 to-indigo-700 rounded-lg shadow-lg flex items-center justify-center overflow-hidden min-h-[200px] sm:min-h-[300px]">
-        {slides.length > 0 && isPlaying ? (
-          <p className="text-white text-center text-xl sm:text-3xl font-bold p-4 max-w-[90%] slide-text-animation"
-             key={currentSlideIndex} // Key ensures re-render and re-application of animation
-             aria-live="polite"
-             aria-atomic="true">
-            {currentSlideText}
-          </p>
-        ) : (
-          <p className="text-white text-center text-lg sm:text-2xl font-semibold opacity-75 p-4 max-w-[90%]">
-            {currentSlideText}
-          </p>
-        )}
-      </div>
+      {/* Slideshow Preview */}
+      <SlidePlayer
+        slides={slides}
+        currentIndex={currentSlideIndex}
+        onIndexChange={setCurrentSlideIndex}
+        isPlaying={isPlaying}
+        onPlayingChange={setIsPlaying}
+        onFinished={() => setStatusMessage(t('slideshow.finished'))}
+      />
+      {slides.length > 0 && (
+        <p className="mt-1 text-xs text-gray-500 text-center">{t('slideshow.totalLength', { seconds: totalSeconds.toFixed(1) })}</p>
+      )}
+
+      {/* Export */}
+      {slides.length > 0 && (
+        <div className="mt-4 p-3 border border-gray-200 rounded-lg bg-gray-50">
+          <div className="flex flex-wrap items-center gap-2 justify-end">
+            <span className="text-sm text-gray-700 mr-auto">{t('slideshow.exportHint')}</span>
+            {exporting ? (
+              <Button onClick={handleCancelExport} variant="danger" size="sm">
+                {t('slideshow.cancelExport')}
+              </Button>
+            ) : (
+              <>
+                <Button onClick={() => handleExport('gif')} variant="secondary" size="sm" disabled={generating}>
+                  {t('slideshow.exportGif')}
+                </Button>
+                <Button onClick={() => handleExport('webm')} size="sm" disabled={generating}>
+                  {t('slideshow.exportVideo')}
+                </Button>
+              </>
+            )}
+          </div>
+          {exporting && (
+            <div className="mt-3 w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all duration-200"
+                style={{ width: `${Math.round(exportProgress * 100)}%` }}
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(exportProgress * 100)}
+              />
+            </div>
+          )}
+          {exportResult && (
+            <div className="mt-3 flex flex-col items-center">
+              {exportResult.format === 'webm' ? (
+                <video src={exportResult.url} controls className="max-w-full max-h-64 rounded-md shadow-md" aria-label={t('slideshow.exportedVideo')} />
+              ) : (
+                <img src={exportResult.url} alt={t('slideshow.exportedGif')} className="max-w-full max-h-64 rounded-md shadow-md" />
+              )}
+              <a
+                href={exportResult.url}
+                download={`slideshow.${exportResult.format}`}
+                className="mt-2 text-blue-600 hover:underline text-sm"
+              >
+                {t(exportResult.format === 'webm' ? 'slideshow.downloadVideo' : 'slideshow.downloadGif')}
+              </a>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
 
-export default SlideshowGenerator;
\ No newline at end of file
+export default SlideshowGenerator;
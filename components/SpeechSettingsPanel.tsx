@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import Button from './Button';
+import { SPEECH_RATE_RANGE } from '../constants';
+import { SpeechSettings } from '../types';
+import { sortVoicesForLocale, speak, watchSpeechVoices } from '../services/speech';
+import { useTranslation } from '../services/i18n';
+
+interface SpeechSettingsPanelProps {
+  settings: SpeechSettings;
+  onChange: (settings: SpeechSettings) => void;
+  onClose: () => void;
+}
+
+// Voice, speed and auto-read settings for reading Bhaii's replies aloud.
+const SpeechSettingsPanel: React.FC<SpeechSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const { t, locale } = useTranslation();
+
+  useEffect(() => watchSpeechVoices(setVoices), []);
+
+  const sortedVoices = sortVoicesForLocale(voices, locale);
+  const update = (change: Partial<SpeechSettings>) => onChange({ ...settings, ...change });
+
+  return (
+    <div className="p-4 border-b border-gray-200 bg-white" aria-label={t('voice.settingsTitle')}>
+      <div className="flex items-center gap-2 mb-3">
+        <h3 className="text-base font-semibold text-gray-800 mr-auto">{t('voice.settingsTitle')}</h3>
+        <Button
+          onClick={() => speak(t('voice.sample'), { locale, voiceURI: settings.voiceURI, rate: settings.rate })}
+          variant="secondary"
+          size="sm"
+        >
+          {t('voice.test')}
+        </Button>
+        <Button onClick={onClose} variant="secondary" size="sm">{t('voice.close')}</Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="text-sm text-gray-700 flex flex-col gap-1">
+          {t('voice.voiceLabel')}
+          <select
+            className="p-2 border border-gray-300 rounded-md text-sm"
+            value={settings.voiceURI ?? ''}
+            onChange={(e) => update({ voiceURI: e.target.value || null })}
+          >
+            <option value="">{t('voice.automatic')}</option>
+            {sortedVoices.map(voice => (
+              <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700 flex flex-col gap-1">
+          {t('voice.rateLabel', { rate: settings.rate.toFixed(1) })}
+          <input
+            type="range"
+            min={SPEECH_RATE_RANGE.min}
+            max={SPEECH_RATE_RANGE.max}
+            step={SPEECH_RATE_RANGE.step}
+            value={settings.rate}
+            onChange={(e) => update({ rate: Number(e.target.value) })}
+          />
+        </label>
+        <label className="text-sm text-gray-700 flex items-center gap-2 sm:col-span-2 select-none">
+          <input
+            type="checkbox"
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            checked={settings.autoRead}
+            onChange={(e) => update({ autoRead: e.target.checked })}
+          />
+          {t('voice.autoRead')}
+        </label>
+      </div>
+      {voices.length === 0 && (
+        <p className="text-xs text-gray-500 mt-2">{t('voice.noVoices')}</p>
+      )}
+    </div>
+  );
+};
+
+export default SpeechSettingsPanel;
@@ -0,0 +1,312 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import Button from './Button';
+import { generateVideoWithGemini, hasSelectedApiKey, openApiKeySelector, VideoGenerationProgress } from '../services/geminiService';
+import { VideoAspectRatio } from '../types';
+import { getAIErrorMessage } from '../services/aiErrors';
+import { useTranslation } from '../services/i18n';
+import { MessageKey } from '../locales';
+
+// Shown in rotation while the job runs, since Veo rarely reports real progress.
+const WAITING_MESSAGES: MessageKey[] = [
+  'video.waiting1',
+  'video.waiting2',
+  'video.waiting3',
+  'video.waiting4',
+  'video.waiting5',
+];
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const VideoGenerator: React.FC = () => {
+  const [prompt, setPrompt] = useState<string>('');
+  const [aspectRatio, setAspectRatio] = useState<VideoAspectRatio>('16:9');
+  const [referenceImage, setReferenceImage] = useState<File | null>(null);
+  const [referenceImageUrl, setReferenceImageUrl] = useState<string | null>(null);
+  const [video, setVideo] = useState<{ url: string; mimeType: string } | null>(null);
+  const [progress, setProgress] = useState<VideoGenerationProgress | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [statusMessage, setStatusMessage] = useState<MessageKey | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+  const [apiKeySelected, setApiKeySelected] = useState<boolean>(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    // Check API key status on component mount
+    const checkApiKey = async () => {
+      const selected = await hasSelectedApiKey();
+      setApiKeySelected(selected);
+      setStatusMessage(selected ? 'video.ready' : 'video.selectKey');
+    };
+    checkApiKey();
+  }, []);
+
+  // Stop polling when leaving the view
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Release downloaded video blobs when they are replaced or the view unmounts
+  useEffect(() => {
+    return () => {
+      if (video?.url.startsWith('blob:')) {
+        URL.revokeObjectURL(video.url);
+      }
+    };
+  }, [video]);
+
+  useEffect(() => {
+    return () => {
+      if (referenceImageUrl) {
+        URL.revokeObjectURL(referenceImageUrl);
+      }
+    };
+  }, [referenceImageUrl]);
+
+  const handleSelectApiKey = async () => {
+    setStatusMessage('apiKey.opening');
+    await openApiKeySelector();
+    // Assume selection was successful to avoid race condition, actual check happens on API call
+    setApiKeySelected(true);
+    setStatusMessage('video.keySelected');
+  };
+
+  const handleReferenceImageChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && file.type.startsWith('image/')) {
+      setReferenceImage(file);
+      setReferenceImageUrl(URL.createObjectURL(file));
+      setError(null);
+    } else if (file) {
+      setError(t('video.invalidFile'));
+    }
+  }, [t]);
+
+  const handleRemoveReferenceImage = useCallback(() => {
+    setReferenceImage(null);
+    setReferenceImageUrl(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  }, []);
+
+  const handleGenerateVideo = useCallback(async () => {
+    if (!apiKeySelected) {
+      setError(t('apiKey.required'));
+      return;
+    }
+    if (prompt.trim() === '') {
+      setError(t('errors.emptyVideoPrompt'));
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setLoading(true);
+    setError(null);
+    setVideo(null);
+    setProgress(null);
+    setStatusMessage(WAITING_MESSAGES[0]);
+
+    let pollCount = 0;
+    const response = await generateVideoWithGemini(prompt.trim(), aspectRatio, referenceImage, {
+      signal: abortController.signal,
+      onProgress: (update) => {
+        setProgress(update);
+        setStatusMessage(WAITING_MESSAGES[Math.min(pollCount++, WAITING_MESSAGES.length - 1)]);
+      },
+    });
+
+    if (abortController.signal.aborted) {
+      // Cancelled by the user, or the view was closed.
+      setStatusMessage('video.cancelled');
+    } else if (response.video) {
+      setVideo(response.video);
+      setStatusMessage('video.done');
+    } else if (response.error) {
+      setError(getAIErrorMessage(response.error, t));
+      if (response.error.kind === 'auth' || response.error.kind === 'billing') {
+        setApiKeySelected(false); // Reset key selection state
+        setStatusMessage('video.billingRequired');
+      } else {
+        setStatusMessage(null);
+      }
+    }
+    abortControllerRef.current = null;
+    setLoading(false);
+  }, [apiKeySelected, prompt, aspectRatio, referenceImage, t]);
+
+  const handleCancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const handleClear = useCallback(() => {
+    setPrompt('');
+    setAspectRatio('16:9');
+    handleRemoveReferenceImage();
+    setVideo(null);
+    setProgress(null);
+    setError(null);
+    setStatusMessage(apiKeySelected ? 'video.ready' : 'video.selectKey');
+  }, [apiKeySelected, handleRemoveReferenceImage]);
+
+  const isRealVideo = video?.mimeType.startsWith('video/');
+
+  return (
+    <div className="flex flex-col bg-white p-4">
+      <h2 className="text-xl font-bold mb-4 text-gray-800">{t('video.title')}</h2>
+      <p className="text-gray-600 text-sm mb-4">
+        {t('video.description')}
+      </p>
+
+      {!apiKeySelected && (
+        <div className="mb-4 p-4 bg-yellow-100 border border-yellow-400 text-yellow-800 rounded-md" role="alert">
+          {statusMessage && <p className="mb-2">{t(statusMessage)}</p>}
+          <Button onClick={handleSelectApiKey} variant="primary" size="sm">
+            {t('apiKey.select')}
+          </Button>
+          <p className="mt-2 text-xs">
+            {t('apiKey.billingDocsBefore')}<a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{t('apiKey.billingDocsLink')}</a>{t('apiKey.billingDocsAfter')}
+          </p>
+        </div>
+      )}
+
+      {/* Text Prompt */}
+      <div className="mb-4">
+        <label htmlFor="videoPrompt" className="block text-gray-700 text-sm font-medium mb-2">
+          {t('video.promptLabel')}
+        </label>
+        <textarea
+          id="videoPrompt"
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 resize-none text-sm"
+          rows={3}
+          placeholder={t('video.promptPlaceholder')}
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          disabled={loading || !apiKeySelected}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        {/* Aspect Ratio */}
+        <div>
+          <label htmlFor="videoAspectRatio" className="block text-gray-700 text-sm font-medium mb-2">
+            {t('video.aspectRatio')}
+          </label>
+          <select
+            id="videoAspectRatio"
+            className="w-full p-3 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 text-sm"
+            value={aspectRatio}
+            onChange={(e) => setAspectRatio(e.target.value as VideoAspectRatio)}
+            disabled={loading || !apiKeySelected}
+          >
+            <option value="16:9">{t('video.landscape')}</option>
+            <option value="9:16">{t('video.portrait')}</option>
+          </select>
+        </div>
+
+        {/* Optional Reference Image */}
+        <div>
+          <span className="block text-gray-700 text-sm font-medium mb-2">{t('video.referenceImage')}</span>
+          <input
+            type="file"
+            accept="image/*"
+            onChange={handleReferenceImageChange}
+            className="hidden"
+            ref={fileInputRef}
+          />
+          {referenceImageUrl ? (
+            <div className="flex items-center gap-2">
+              <img src={referenceImageUrl} alt={t('video.referenceAlt')} className="h-12 w-12 object-cover rounded-md border border-gray-200" />
+              <span className="text-sm text-gray-700 truncate flex-1">{referenceImage?.name}</span>
+              <Button onClick={handleRemoveReferenceImage} variant="secondary" size="sm" disabled={loading}>
+                {t('video.removeReference')}
+              </Button>
+            </div>
+          ) : (
+            <Button onClick={() => fileInputRef.current?.click()} variant="secondary" size="sm" disabled={loading || !apiKeySelected}>
+              {t('video.chooseImage')}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-red-600 text-sm mb-4" role="alert">{error}</p>
+      )}
+
+      {statusMessage && !error && !video && apiKeySelected && (
+        <p className={`text-sm mb-2 ${loading ? 'text-blue-600' : 'text-gray-600'}`} role="status">{t(statusMessage)}</p>
+      )}
+
+      {/* Progress */}
+      {loading && (
+        <div className="mb-4">
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className={`h-full bg-blue-600 transition-all duration-500 ${progress?.progressPercent === undefined ? 'animate-pulse w-full opacity-50' : ''}`}
+              style={progress?.progressPercent !== undefined ? { width: `${progress.progressPercent}%` } : undefined}
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={progress?.progressPercent}
+            />
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            {progress?.progressPercent !== undefined && `${progress.progressPercent}% · `}
+            {t('video.elapsed', { time: formatElapsed(progress?.elapsedMs ?? 0) })}
+          </p>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div className="flex gap-2 mb-4 justify-end">
+        {loading ? (
+          <Button onClick={handleCancel} variant="danger" size="sm">
+            {t('video.cancel')}
+          </Button>
+        ) : (
+          <Button onClick={handleClear} variant="secondary" size="sm">
+            {t('video.clear')}
+          </Button>
+        )}
+        <Button
+          onClick={handleGenerateVideo}
+          loading={loading}
+          disabled={loading || !apiKeySelected || prompt.trim() === ''}
+          size="sm"
+        >
+          {loading ? t('video.generating') : t('video.generate')}
+        </Button>
+      </div>
+
+      {/* Generated Video */}
+      {video && (
+        <div className="flex flex-col items-center mt-4 border border-gray-200 rounded-lg p-2 bg-gray-50">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">{t('video.result')}</h3>
+          {isRealVideo ? (
+            <video src={video.url} controls autoPlay loop className="max-w-full max-h-96 rounded-md shadow-md" aria-label={t('video.resultLabel')} />
+          ) : (
+            <>
+              <img src={video.url} alt={t('video.previewAlt')} className="max-w-full max-h-96 rounded-md shadow-md" />
+              <p className="mt-1 text-xs text-gray-500">{t('video.offlinePlaceholder')}</p>
+            </>
+          )}
+          <a
+            href={video.url}
+            download={isRealVideo ? 'generated_video.mp4' : 'generated_video_preview.svg'}
+            className="mt-2 text-blue-600 hover:underline text-sm"
+          >
+            {t('video.download')}
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoGenerator;
@@ -0,0 +1,160 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import Button from './Button';
+import { transcribeAudio } from '../services/geminiService';
+import { getAIErrorMessage } from '../services/aiErrors';
+import {
+  AudioRecording,
+  isAudioRecordingSupported,
+  isSpeechRecognitionSupported,
+  SpeechInputError,
+  SpeechSession,
+  startAudioRecording,
+  startSpeechRecognition,
+} from '../services/speech';
+import { useTranslation } from '../services/i18n';
+import { MessageKey } from '../locales';
+
+interface VoiceInputButtonProps {
+  value: string; // Current input text; speech is appended to it
+  onChange: (text: string) => void;
+  onError: (message: string | null) => void;
+  disabled?: boolean;
+}
+
+type VoiceInputState = 'idle' | 'listening' | 'recording' | 'transcribing';
+
+const MAX_RECORDING_MS = 60_000; // Keeps the inline audio sent to Gemini small
+
+const ERROR_KEYS: Record<SpeechInputError['code'], MessageKey> = {
+  'permission-denied': 'voice.permissionDenied',
+  'no-speech': 'voice.noSpeech',
+  'unavailable': 'voice.failed',
+};
+
+// Microphone button for the chat input. Uses the browser's speech recognition
+// where it exists and falls back to recording audio for Gemini to transcribe.
+// Renders nothing when the browser can do neither.
+const VoiceInputButton: React.FC<VoiceInputButtonProps> = ({ value, onChange, onError, disabled }) => {
+  const { t, language, locale } = useTranslation();
+  const [state, setState] = useState<VoiceInputState>('idle');
+  // Set after recognition fails for reasons other than the user (e.g. offline)
+  const [recognitionFailed, setRecognitionFailed] = useState<boolean>(false);
+  const sessionRef = useRef<SpeechSession | null>(null);
+  const recordingRef = useRef<AudioRecording | null>(null);
+  const recordingTimerRef = useRef<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const baseTextRef = useRef<string>(''); // Input text from before speaking started
+
+  const canRecognize = isSpeechRecognitionSupported() && !recognitionFailed;
+  const canRecord = isAudioRecordingSupported();
+
+  const showTranscript = useCallback((transcript: string) => {
+    onChange([baseTextRef.current, transcript].filter(Boolean).join(' '));
+  }, [onChange]);
+
+  const reportError = useCallback((error: unknown) => {
+    onError(t(error instanceof SpeechInputError ? ERROR_KEYS[error.code] : 'voice.failed'));
+  }, [onError, t]);
+
+  const finishRecording = useCallback(async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    if (recordingTimerRef.current !== null) {
+      window.clearTimeout(recordingTimerRef.current);
+      recordingTimerRef.current = null;
+    }
+    setState('transcribing');
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const response = await transcribeAudio(await recording.stop(), { language, signal: abortController.signal });
+    if (response.cancelled) return; // Unmounted mid-transcription
+    abortControllerRef.current = null;
+    setState('idle');
+    if (response.text) {
+      showTranscript(response.text);
+    } else {
+      onError(response.error ? getAIErrorMessage(response.error, t) : t('voice.noSpeech'));
+    }
+  }, [language, showTranscript, onError, t]);
+
+  const handleStart = useCallback(async () => {
+    onError(null);
+    baseTextRef.current = value.trim();
+
+    if (canRecognize) {
+      try {
+        sessionRef.current = startSpeechRecognition(locale, {
+          onTranscript: (transcript) => showTranscript(transcript),
+          onError: (error) => {
+            if (error.code === 'unavailable' && canRecord) setRecognitionFailed(true);
+            reportError(error);
+          },
+          onEnd: () => {
+            sessionRef.current = null;
+            setState('idle');
+          },
+        });
+        setState('listening');
+      } catch (error) {
+        reportError(error);
+      }
+      return;
+    }
+
+    try {
+      recordingRef.current = await startAudioRecording();
+      setState('recording');
+      recordingTimerRef.current = window.setTimeout(finishRecording, MAX_RECORDING_MS);
+    } catch (error) {
+      reportError(error);
+    }
+  }, [value, canRecognize, canRecord, locale, showTranscript, reportError, finishRecording, onError]);
+
+  const handleStop = useCallback(() => {
+    if (state === 'listening') {
+      sessionRef.current?.stop(); // onEnd resets the state once the last words arrive
+    } else if (state === 'recording') {
+      finishRecording();
+    }
+  }, [state, finishRecording]);
+
+  // Release the microphone and drop any pending transcription when unmounting
+  useEffect(() => {
+    return () => {
+      sessionRef.current?.cancel();
+      recordingRef.current?.cancel();
+      if (recordingTimerRef.current !== null) window.clearTimeout(recordingTimerRef.current);
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  if (!canRecognize && !canRecord) return null;
+
+  const isCapturing = state === 'listening' || state === 'recording';
+  const label = t(
+    state === 'listening' ? 'voice.listening'
+      : state === 'recording' ? 'voice.recording'
+      : state === 'transcribing' ? 'voice.transcribing'
+      : 'voice.start',
+  );
+
+  return (
+    <Button
+      type="button"
+      variant={isCapturing ? 'danger' : 'secondary'}
+      onClick={isCapturing ? handleStop : handleStart}
+      loading={state === 'transcribing'}
+      disabled={disabled && !isCapturing}
+      className={`px-4 py-3 rounded-full ${isCapturing ? 'animate-pulse' : ''}`}
+      aria-label={label}
+      aria-pressed={isCapturing}
+      title={label}
+    >
+      {isCapturing ? '⏹' : '🎤'}
+    </Button>
+  );
+};
+
+export default VoiceInputButton;
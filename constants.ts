@@ -1,20 +1,243 @@
 import { Modality } from '@google/genai';
+import { MessageKey } from './locales';
+import { AppLanguage, AppLanguageOption, AppRoute, GalleryTool, HDStylePreset, Persona, SlideshowTheme, SpeechSettings, UserMemory } from './types';
 
 export const CHAT_MODEL_NAME = 'gemini-flash-latest';
 export const IMAGE_EDIT_MODEL_NAME = 'gemini-2.5-flash-image';
 export const HD_IMAGE_GEN_MODEL_NAME = 'imagen-4.0-generate-001'; // NEW
+export const VIDEO_GEN_MODEL_NAME = 'veo-3.1-fast-generate-preview';
 
 export const BHAI_SYSTEM_INSTRUCTION = `You are a supportive, friendly, and helpful elder brother ('bhaii'). 
 You respond quickly with short, clear, and encouraging messages. 
-You use common Hindi/Marathi phrases naturally to add a local touch, for example, "Kya haal hai?", "Theek hai?", "Bilkul!", "Chal ab!", "Koi nahi", "Shabaash!", "Khush raho!".
 Remember the user's name if they've provided it.
 Keep answers concise and to the point.`;
 
-export const WELCOME_MESSAGES = [
-  "Namaste! Kya haal hai, mere bhai/behen? Kaise ho tum?",
-  "Hello there! Everything alright? How are you doing today?",
+export const DEFAULT_PERSONA_ID = 'bhaii';
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: DEFAULT_PERSONA_ID,
+    name: 'Bhaii',
+    avatar: '🤖',
+    tone: 'Supportive, friendly and encouraging',
+    languageMix: 'Common Hindi/Marathi phrases sprinkled in naturally, e.g. "Kya haal hai?", "Theek hai?", "Bilkul!", "Koi nahi", "Shabaash!"',
+    systemInstruction: BHAI_SYSTEM_INSTRUCTION,
+    builtIn: true,
+  },
+  {
+    id: 'study-buddy',
+    name: 'Study-buddy Bhaii',
+    avatar: '📚',
+    tone: 'Patient and curious, like a senior who loves explaining things',
+    languageMix: 'Simple English with a little Hinglish',
+    systemInstruction: `You are 'bhaii', a patient study buddy for a school or college student.
+Explain concepts step by step with small, relatable examples, and check understanding with a quick question at the end.
+When the user asks for homework answers, guide them towards the answer instead of just giving it.
+Keep answers short and well structured.`,
+    builtIn: true,
+  },
+  {
+    id: 'strict-coach',
+    name: 'Strict-coach Bhaii',
+    avatar: '🏋️',
+    tone: 'Direct, no-nonsense and motivating',
+    languageMix: 'Hinglish',
+    systemInstruction: `You are 'bhaii', a strict but caring coach.
+Hold the user accountable: ask what they have done, point out excuses, and end with one clear next step and a deadline.
+Be blunt but never insulting. Celebrate real progress briefly ("Shabaash, ab agla!").
+Keep answers to a few sentences.`,
+    builtIn: true,
+  },
+  {
+    id: 'didi',
+    name: 'Didi',
+    avatar: '👩',
+    tone: 'Warm, caring and practical, like an elder sister',
+    languageMix: 'Hinglish with a few Marathi phrases',
+    systemInstruction: `You are 'Didi', a warm and caring elder sister.
+Listen first, reassure the user, then give practical, down-to-earth advice.
+Use phrases like "Arre, tension mat le", "Sab theek ho jayega", "Kaay zala?" naturally.
+Remember the user's name if they've provided it. Keep answers concise.`,
+    builtIn: true,
+  },
 ];
 
+export const DEFAULT_LANGUAGE: AppLanguage = 'hinglish';
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voiceURI: null,
+  rate: 1,
+  autoRead: false,
+};
+
+export const SPEECH_RATE_RANGE = { min: 0.5, max: 2, step: 0.1 };
+
+export const APP_LANGUAGES: AppLanguageOption[] = [
+  {
+    id: 'en',
+    label: 'English',
+    locale: 'en-IN',
+    replyInstruction: 'Reply in English.',
+  },
+  {
+    id: 'hinglish',
+    label: 'Hinglish',
+    locale: 'en-IN',
+    replyInstruction: 'Reply in Hinglish: conversational Hindi mixed with English, written in the Latin alphabet.',
+  },
+  {
+    id: 'hi',
+    label: 'हिन्दी',
+    locale: 'hi-IN',
+    replyInstruction: 'Reply in Hindi written in Devanagari script. Common English technical words may stay in English.',
+  },
+  {
+    id: 'mr',
+    label: 'मराठी',
+    locale: 'mr-IN',
+    replyInstruction: 'Reply in Marathi written in Devanagari script. Common English technical words may stay in English.',
+  },
+];
+
+// Legacy localStorage key; its contents are imported into IndexedDB on first run.
 export const STORAGE_KEY_USER_PREFS = 'bhaii_ai_user_prefs';
+export const STORAGE_DB_NAME = 'bhaii_ai_studio';
+
+export const IMAGE_RESPONSE_MODALITIES = [Modality.IMAGE];
+export const MAX_EDIT_IMAGES = 3; // Images the edit model can combine in one request
+
+// Chat attachments travel inline with every request, which Gemini caps at 20 MB in total.
+export const MAX_CHAT_ATTACHMENTS = 4; // Per message
+export const MAX_CHAT_DOCUMENT_BYTES = 4 * 1024 * 1024; // PDFs
+export const MAX_CHAT_TEXT_FILE_BYTES = 512 * 1024; // Plain text, code, CSV, ...
+export const CHAT_TEXT_FILE_EXTENSIONS = ['txt', 'md', 'csv', 'json', 'xml', 'html', 'css', 'js', 'ts', 'py', 'java', 'c', 'cpp'];
+
+// Long chats send only their recent turns plus a rolling summary of the rest.
+// Token counts are estimates (see services/chatContext.ts).
+export const CHAT_CONTEXT_TOKEN_BUDGET = 16000; // History sent per turn before older turns are summarized
+export const CHAT_CONTEXT_KEEP_TOKENS = 6000; // Recent history kept word for word after summarizing
+export const CHAT_CONTEXT_MIN_MESSAGES = 4; // Never summarize the last few messages
+export const CHAT_ATTACHMENT_TOKENS = { image: 260, pdf: 2000 }; // Rough cost of an inline file
 
-export const IMAGE_RESPONSE_MODALITIES = [Modality.IMAGE];
\ No newline at end of file
+// Long-term memory about the user, kept only in this browser.
+export const DEFAULT_USER_MEMORY: UserMemory = { enabled: true, entries: [] };
+export const MEMORY_CONTEXT_LIMIT = 12; // Most relevant entries sent with each message
+export const MAX_MEMORY_ENTRY_LENGTH = 200;
+export const MAX_MEMORY_PROPOSALS = 3; // Per reply
+
+export const DEFAULT_SLIDE_DURATION_MS = 2500; // 2.5 seconds per slide
+export const MAX_SLIDES = 20;
+
+const SANS_SERIF = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+
+export const SLIDESHOW_THEMES: SlideshowTheme[] = [
+  {
+    id: 'classic',
+    nameKey: 'slideshow.theme.classic',
+    background: { type: 'gradient', from: '#a855f7', to: '#4338ca' },
+    textColor: '#ffffff',
+    fontFamily: SANS_SERIF,
+    fontSize: 'medium',
+    transition: 'fade-up',
+  },
+  {
+    id: 'sunset',
+    nameKey: 'slideshow.theme.sunset',
+    background: { type: 'gradient', from: '#f97316', to: '#db2777' },
+    textColor: '#ffffff',
+    fontFamily: SANS_SERIF,
+    fontSize: 'large',
+    transition: 'zoom',
+  },
+  {
+    id: 'ocean',
+    nameKey: 'slideshow.theme.ocean',
+    background: { type: 'gradient', from: '#06b6d4', to: '#1e40af' },
+    textColor: '#ffffff',
+    fontFamily: SANS_SERIF,
+    fontSize: 'medium',
+    transition: 'slide-left',
+  },
+  {
+    id: 'chalkboard',
+    nameKey: 'slideshow.theme.chalkboard',
+    background: { type: 'solid', color: '#1f3b2d' },
+    textColor: '#f8fafc',
+    fontFamily: '"Comic Sans MS", "Chalkboard SE", cursive',
+    fontSize: 'medium',
+    transition: 'fade',
+  },
+  {
+    id: 'notebook',
+    nameKey: 'slideshow.theme.notebook',
+    background: { type: 'solid', color: '#fefce8' },
+    textColor: '#1e293b',
+    fontFamily: 'Georgia, "Times New Roman", serif',
+    fontSize: 'medium',
+    transition: 'fade-up',
+  },
+];
+
+export const HD_STYLE_PRESETS: HDStylePreset[] = [
+  { id: 'poster', nameKey: 'hdImages.style.poster', modifiers: 'bold poster design, strong composition, vibrant colors, clean background, high contrast' },
+  { id: 'watercolor', nameKey: 'hdImages.style.watercolor', modifiers: 'soft watercolor painting, visible paper texture, gentle color washes, hand-painted look' },
+  { id: 'diagram', nameKey: 'hdImages.style.diagram', modifiers: 'clear educational diagram, flat vector style, white background, simple shapes, well-spaced labels' },
+  { id: 'photo', nameKey: 'hdImages.style.photo', modifiers: 'realistic photograph, natural lighting, sharp focus, shallow depth of field, 4k detail' },
+  { id: 'cartoon', nameKey: 'hdImages.style.cartoon', modifiers: 'friendly cartoon illustration, thick outlines, cheerful colors, expressive characters' },
+  { id: 'sketch', nameKey: 'hdImages.style.sketch', modifiers: 'detailed pencil sketch, graphite shading, cross-hatching, on off-white paper' },
+  { id: 'infographic', nameKey: 'hdImages.style.infographic', modifiers: 'modern infographic, icons, flat colors, organized layout, minimal clutter' },
+  { id: 'pixel-art', nameKey: 'hdImages.style.pixelArt', modifiers: '16-bit pixel art, limited palette, crisp pixels, retro video game style' },
+];
+
+export const GALLERY_TOOL_LABEL_KEYS: Record<GalleryTool, MessageKey> = {
+  'image-editor': 'gallery.tool.imageEditor',
+  'hd-image-generator': 'gallery.tool.hdImages',
+  'slideshow-generator': 'gallery.tool.slideshow',
+};
+
+// The single list of views: drives the sidebar, the home page cards and the hash router.
+export const APP_ROUTES: AppRoute[] = [
+  { view: 'home', path: '', labelKey: 'nav.home', icon: '🏠' },
+  {
+    view: 'chat',
+    path: 'chat',
+    labelKey: 'nav.chat',
+    icon: '💬',
+    card: { titleKey: 'home.chat.title', descriptionKey: 'home.chat.description', gradient: 'bg-gradient-to-br from-blue-500 to-purple-600' },
+  },
+  {
+    view: 'image-editor',
+    path: 'image-editor',
+    labelKey: 'nav.imageEditor',
+    icon: '📸',
+    card: { titleKey: 'home.imageEditor.title', descriptionKey: 'home.imageEditor.description', gradient: 'bg-gradient-to-br from-green-500 to-teal-600' },
+  },
+  {
+    view: 'slideshow-generator',
+    path: 'slideshow',
+    labelKey: 'nav.slideshow',
+    icon: '🎞️',
+    card: { titleKey: 'home.slideshow.title', descriptionKey: 'home.slideshow.description', gradient: 'bg-gradient-to-br from-pink-500 to-indigo-600' },
+  },
+  {
+    view: 'hd-image-generator',
+    path: 'hd-images',
+    labelKey: 'nav.hdImages',
+    icon: '🖼️',
+    card: { titleKey: 'home.hdImages.title', descriptionKey: 'home.hdImages.description', gradient: 'bg-gradient-to-br from-yellow-400 to-orange-500' },
+  },
+  {
+    view: 'video-generator',
+    path: 'video',
+    labelKey: 'nav.video',
+    icon: '🎬',
+    card: { titleKey: 'home.video.title', descriptionKey: 'home.video.description', gradient: 'bg-gradient-to-br from-red-500 to-pink-600' },
+  },
+  {
+    view: 'gallery',
+    path: 'gallery',
+    labelKey: 'nav.gallery',
+    icon: '🗂️',
+    card: { titleKey: 'home.gallery.title', descriptionKey: 'home.gallery.description', gradient: 'bg-gradient-to-br from-slate-500 to-gray-700' },
+  },
+];
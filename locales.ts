@@ -0,0 +1,2064 @@
+import { AppLanguage } from './types';
+
+// UI message catalog. English is the reference: every key must exist here, and
+// the other languages fall back to it for anything they leave out.
+// "{name}"-style placeholders are filled in by `t()` in services/i18n.ts.
+const en = {
+  'app.languageLabel': 'Language',
+
+  'nav.home': 'Home',
+  'nav.chat': 'Bhaii Chat',
+  'nav.imageEditor': 'Image Editor',
+  'nav.slideshow': 'Animated Slideshow',
+  'nav.hdImages': 'HD Image Generator',
+  'nav.video': 'Video Generator',
+  'nav.gallery': 'My Creations',
+
+  'home.title': 'Welcome to Bhaii AI Studio!',
+  'home.subtitle': 'Your personal space for creative AI interactions. Choose a feature below to get started!',
+  'home.launch': 'Launch',
+  'home.chat.title': 'Bhaii Chat',
+  'home.chat.description': 'Chat with your supportive AI brother, Bhaii! Get quick, friendly advice and encouraging words with a local touch.',
+  'home.imageEditor.title': 'Gemini Image Editor',
+  'home.imageEditor.description': 'Unleash your creativity! Upload an image and use text prompts to edit it with the power of Gemini 2.5 Flash Image. Add a filter, remove objects, and more!',
+  'home.slideshow.title': 'Animated Slideshow',
+  'home.slideshow.description': 'Create a short, fun animated slideshow from your text! Perfect for quick demos and student projects, no API key needed!',
+  'home.hdImages.title': 'HD Image Generator',
+  'home.hdImages.description': 'Generate high-quality, clear, and detailed images from text prompts. Ideal for school projects, posters, and presentations!',
+  'home.video.title': 'Video Generator',
+  'home.video.description': 'Turn a text prompt (and an optional reference image) into a short video clip with Veo. Great for project intros and creative storytelling!',
+  'home.gallery.title': 'My Creations',
+  'home.gallery.description': 'Every image you edit or generate and every slideshow you export, saved in one place. Search, download as a ZIP, or reuse the settings!',
+
+  'chat.nameLabel': 'Your name:',
+  'chat.namePlaceholder': 'Enter your name',
+  'chat.rememberMe': 'Remember me',
+  'chat.personaLabel': 'Persona:',
+  'chat.managePersonas': 'Manage',
+  'chat.welcome': 'Hello! How are you doing today?',
+  'chat.welcomeNamed': 'Hello {name}! How are you doing today?',
+  'chat.typing': '{name} is typing...',
+  'chat.stopped': '(stopped)',
+  'chat.summarizing': 'Summarizing earlier messages...',
+  'chat.summaryNotice': '{count} earlier messages are summarized so {name} can keep up with this long chat.',
+  'chat.showSummary': 'Show summary',
+  'chat.hideSummary': 'Hide summary',
+  'chat.inputPlaceholder': 'Type your message...',
+  'chat.send': 'Send',
+  'chat.stop': 'Stop',
+  'chat.stopAria': 'Stop the reply',
+  'chat.replyFailed': 'Oops, something went wrong.',
+  'chat.sendFailed': 'Something went wrong on my side. Please try again.',
+
+  'voice.start': 'Speak your message',
+  'voice.listening': 'Listening... tap to stop',
+  'voice.recording': 'Recording... tap to stop',
+  'voice.transcribing': 'Transcribing...',
+  'voice.permissionDenied': 'Microphone access is blocked. Allow it in your browser settings to speak to Bhaii.',
+  'voice.noSpeech': "Didn't catch that. Please try again.",
+  'voice.failed': 'Voice input did not work. Please type your message instead.',
+  'voice.readAloud': 'Read aloud',
+  'voice.stopReading': 'Stop reading',
+  'voice.settings': 'Voice',
+  'voice.settingsTitle': 'Read-aloud settings',
+  'voice.test': 'Test voice',
+  'voice.sample': 'Hello! This is how I will sound.',
+  'voice.close': 'Close',
+  'voice.voiceLabel': 'Voice',
+  'voice.automatic': 'Automatic',
+  'voice.rateLabel': 'Speed ({rate}x)',
+  'voice.autoRead': 'Read new replies aloud automatically',
+  'voice.noVoices': 'No voices are installed in this browser yet. Your device may add them later.',
+
+  'attachments.add': 'Attach a photo or file',
+  'attachments.listLabel': 'Attachments',
+  'attachments.remove': 'Remove {name}',
+  'attachments.tooMany': 'You can attach up to {count} files per message.',
+  'attachments.unsupported': '{name}: only photos, PDFs and text files can be attached.',
+  'attachments.tooLarge': '{name} is too large to send (PDFs up to 4 MB, text files up to 512 KB).',
+  'attachments.unreadable': '{name} could not be read.',
+
+  'markdown.code': 'code',
+  'markdown.copy': 'Copy',
+  'markdown.copied': 'Copied!',
+
+  'messages.copy': 'Copy',
+  'messages.copied': 'Copied!',
+  'messages.edit': 'Edit and resend',
+  'messages.editLabel': 'Edit your message',
+  'messages.resend': 'Save & send',
+  'messages.cancelEdit': 'Cancel',
+  'messages.resendHint': 'Messages after this one will be replaced by the new reply.',
+  'messages.regenerate': 'Regenerate reply',
+  'messages.versions': 'Reply versions',
+  'messages.versionCount': '{current}/{total}',
+  'messages.previousVersion': 'Previous version',
+  'messages.nextVersion': 'Next version',
+  'messages.goodReply': 'Good reply',
+  'messages.badReply': 'Bad reply',
+  'messages.delete': 'Delete message',
+  'messages.deleteConfirm': 'Delete this message?',
+
+  'conversations.new': '+ New Chat',
+  'conversations.listLabel': 'Conversations',
+  'conversations.pinned': 'Pinned',
+  'conversations.pin': 'Pin',
+  'conversations.unpin': 'Unpin',
+  'conversations.pinAria': 'Pin conversation',
+  'conversations.unpinAria': 'Unpin conversation',
+  'conversations.rename': 'Rename',
+  'conversations.renameAria': 'Rename conversation',
+  'conversations.titleAria': 'Conversation title',
+  'conversations.delete': 'Delete',
+  'conversations.deleteAria': 'Delete conversation',
+  'conversations.deleteConfirm': 'Delete "{title}"? This cannot be undone.',
+
+  'personas.title': 'Personas',
+  'personas.import': 'Import JSON',
+  'personas.export': 'Export JSON',
+  'personas.close': 'Close',
+  'personas.copy': 'Copy',
+  'personas.copyName': '{name} (copy)',
+  'personas.edit': 'Edit',
+  'personas.delete': 'Delete',
+  'personas.deleteConfirm': 'Delete the persona "{name}"? Chats using it will switch back to Bhaii.',
+  'personas.saved': 'Saved "{name}".',
+  'personas.imported': 'Imported {count} persona(s).',
+  'personas.importFailed': 'Could not import that file.',
+  'personas.invalidJson': 'That file is not valid JSON.',
+  'personas.noPersonas': 'No personas found in that file.',
+  'personas.name': 'Name',
+  'personas.avatar': 'Avatar (emoji)',
+  'personas.tone': 'Tone',
+  'personas.tonePlaceholder': 'e.g. Calm and encouraging',
+  'personas.languageMix': 'Language mix',
+  'personas.languageMixPlaceholder': 'e.g. Hinglish with some Marathi',
+  'personas.instruction': 'System instruction',
+  'personas.instructionPlaceholder': 'Describe who this persona is and how it should answer...',
+  'personas.cancel': 'Cancel',
+  'personas.saveChanges': 'Save changes',
+  'personas.create': 'Create persona',
+  'personas.new': '+ New persona',
+  'memory.button': 'Memory',
+  'memory.title': 'What Bhaii remembers about you',
+  'memory.close': 'Close',
+  'memory.enabled': 'Use saved memories in chats and suggest new ones',
+  'memory.localOnly': 'Memories are saved only in this browser. The ones relevant to a chat are sent along with your messages.',
+  'memory.notPersisted': 'Turn on "Remember me" to keep memories after you close Bhaii.',
+  'memory.empty': 'Nothing saved yet. When you share something worth remembering, Bhaii will ask before saving it.',
+  'memory.addLabel': 'New memory',
+  'memory.addPlaceholder': 'e.g. My board exams start on 1 March',
+  'memory.add': 'Add',
+  'memory.edit': 'Edit',
+  'memory.editLabel': 'Edit memory',
+  'memory.save': 'Save',
+  'memory.cancel': 'Cancel',
+  'memory.delete': 'Forget',
+  'memory.deleteConfirm': 'Forget "{text}"?',
+  'memory.clearAll': 'Forget everything',
+  'memory.clearAllConfirm': 'Delete all {count} memories? This cannot be undone.',
+  'memory.proposal': 'Remember this?',
+  'memory.accept': 'Save',
+  'memory.dismiss': 'No thanks',
+  'memory.saved': 'Saved to memory',
+
+  'errors.auth': 'API key issue. Please select your API key again from the dialog.',
+  'errors.billing': 'API key issue: this feature requires billing. Please ensure your API key is enabled for billing and re-select it.',
+  'errors.rateLimit': 'Too many requests right now. Thoda ruk ke try karo.',
+  'errors.safetyBlocked': 'This request was blocked by the safety filters. Please try a different prompt.',
+  'errors.network': 'Network issue. Please check your connection and try again.',
+  'errors.invalidInput': 'The request was not accepted. Please check your input and try again.',
+  'errors.noOutput': 'No result came back. Please try a different prompt.',
+  'errors.unknown': 'Sorry, kuch gadbad ho gayi. Can you please try again?',
+  'errors.missingApiKey': 'No API key is configured for this app. Please set API_KEY in your environment.',
+  'errors.emptyMessage': 'Please type a message or attach a file.',
+  'errors.noEditImage': 'Please add an image to edit.',
+  'errors.tooManyEditImages': 'You can combine at most {count} images in one edit.',
+  'errors.emptyImagePrompt': 'Please provide a text prompt for image generation.',
+  'errors.emptyEnhancePrompt': 'Please write a short idea to enhance.',
+  'errors.emptyRecording': 'The recording is empty. Please try again.',
+  'errors.emptySlideshowTopic': 'Please enter a topic for your slideshow.',
+  'errors.emptyVideoPrompt': 'Please describe the video you want to generate.',
+  'errors.noEditedImage': 'Could not generate edited image. Please try a different prompt.',
+  'errors.noHdImage': 'Could not generate HD image. Please try a different prompt.',
+  'errors.noEnhancedPrompt': 'Could not enhance this prompt. Please try again.',
+  'errors.noSlides': 'Could not build slides for this topic. Please try rephrasing it.',
+  'errors.noVideo': 'The video finished without any output. Please try a different prompt.',
+  'errors.unsupportedImageFormat': 'This browser cannot read that image format (e.g. HEIC or TIFF). Please convert it to JPEG or PNG first.',
+  'errors.unreadableImage': 'Could not read that image.',
+
+  'gallery.loadFailed': 'Could not load your gallery.',
+  'gallery.deleteFailed': 'Could not delete those items. Please try again.',
+  'gallery.title': 'My Creations',
+  'gallery.description': 'Everything you make in the Image Editor, HD Image Generator and Slideshow is saved here on this device.',
+  'gallery.search': 'Search gallery',
+  'gallery.searchPlaceholder': 'Search prompts...',
+  'gallery.filterByTool': 'Filter by tool',
+  'gallery.allTools': 'All tools',
+  'gallery.tool.imageEditor': 'Image Editor',
+  'gallery.tool.hdImages': 'HD Image Generator',
+  'gallery.tool.slideshow': 'Slideshow',
+  'gallery.selectAll': 'Select all',
+  'gallery.selectedCount': '{count} selected',
+  'gallery.deleteSelected': 'Delete selected',
+  'gallery.downloadSelected': 'Download selected (ZIP)',
+  'gallery.downloadAll': 'Download all (ZIP)',
+  'gallery.deleteOneConfirm': 'Delete this item from your gallery?',
+  'gallery.deleteManyConfirm': 'Delete {count} items from your gallery?',
+  'gallery.itemMissing': 'That item is no longer in your gallery.',
+  'gallery.itemDetails': 'Gallery item details',
+  'gallery.noPrompt': 'No prompt',
+  'gallery.noModel': 'No AI model',
+  'gallery.reuse': 'Reuse settings',
+  'gallery.download': 'Download',
+  'gallery.delete': 'Delete',
+  'gallery.close': 'Close',
+  'gallery.loading': 'Loading your gallery...',
+  'gallery.empty': 'Nothing here yet. Your edits, HD images and slideshow exports will show up here!',
+  'gallery.noMatches': 'No items match your search.',
+  'gallery.items': 'Gallery items',
+  'gallery.openItem': 'Open: {name}',
+  'gallery.selectItem': 'Select: {name}',
+  'gallery.settings.selectedArea': 'Selected area only',
+  'gallery.settings.wholeImage': 'Whole image',
+  'gallery.settings.referenceImage': '+{count} reference image',
+  'gallery.settings.referenceImages': '+{count} reference images',
+  'gallery.settings.aspectRatio': 'Aspect ratio {ratio}',
+  'gallery.settings.style': 'Style: {style}',
+  'gallery.settings.avoid': 'Avoid: {text}',
+  'gallery.settings.seed': 'Seed {seed}',
+  'gallery.settings.people': 'People: {value}',
+  'gallery.settings.safety': 'Safety: {value}',
+  'gallery.settings.slide': '{count} slide',
+  'gallery.settings.slides': '{count} slides',
+  'gallery.settings.theme': 'Theme: {theme}',
+  'gallery.settings.webm': 'Video (.webm)',
+  'gallery.settings.gif': 'Animated GIF',
+
+  'imageEditor.title': 'Image Editor (Nano Banana Powered)',
+  'imageEditor.galleryImage': 'image from your gallery',
+  'imageEditor.editing': 'Editing:',
+  'imageEditor.addMore': 'Drop, paste or click to add more images to combine (up to {count}).',
+  'imageEditor.dropHint': 'Drag & drop, paste or click to upload an image',
+  'imageEditor.invalidFile': 'Please select a valid image file (jpeg, png, gif, webp).',
+  'imageEditor.tooManyImages': 'You can combine at most {count} images.',
+  'imageEditor.someLeftOut': 'You can combine at most {count} images, so some were left out.',
+  'imageEditor.missingInput': 'Please upload an image and provide an editing prompt.',
+  'imageEditor.preparing': 'Preparing image...',
+  'imageEditor.uploadSummary': 'Upload size before and after',
+  'imageEditor.rotatedUpright': 'rotated upright',
+  'imageEditor.promptLabel': 'Editing Prompt (e.g., "Add a retro filter", "Remove the person"):',
+  'imageEditor.combinePromptLabel': 'Editing Prompt (e.g., "Put the person from image 1 into the background of image 2"):',
+  'imageEditor.refinePromptLabel': 'Keep refining {version} (e.g., "Make the sky pinker"):',
+  'imageEditor.promptPlaceholder': 'Describe how you want to edit the image...',
+  'imageEditor.maskMode': 'Edit only a selected area',
+  'imageEditor.undo': 'Undo',
+  'imageEditor.undoLabel': 'Undo edit',
+  'imageEditor.redo': 'Redo',
+  'imageEditor.redoLabel': 'Redo edit',
+  'imageEditor.clear': 'Clear',
+  'imageEditor.submit': 'Edit Image',
+  'imageEditor.submitting': 'Editing...',
+  'imageEditor.noteSelectedArea': 'selected area',
+  'imageEditor.noteImages': '+{count} images',
+  'imageEditor.compare': 'Compare',
+  'imageEditor.compareWith': 'with',
+  'imageEditor.compareFirst': 'First version to compare',
+  'imageEditor.compareSecond': 'Second version to compare',
+  'imageEditor.compareView': 'Comparison view',
+  'imageEditor.sideBySide': 'Side by side',
+  'imageEditor.slider': 'Slider',
+  'imageEditor.compareSlider': 'Slide to compare {before} and {after}',
+  'imageEditor.original': 'Original',
+  'imageEditor.originalImage': 'Original Image',
+  'imageEditor.download': 'Download {version}',
+  'imageEditor.versions': 'Versions',
+  'imageEditor.versionsLabel': 'Image versions',
+  'imageEditor.newBranch': 'New branch',
+  'imageEditor.branchHint': 'Pick any version to keep editing from it - later edits are kept as a separate branch.',
+  'imageEditor.empty': 'Upload an image to get started!',
+  'imageEditor.uploadSettings': 'Upload settings',
+  'imageEditor.uploadSettingsHelp': 'Photos are turned upright and location/camera details are removed before upload. Changes apply to the next images you add.',
+  'imageEditor.maxSize': 'Max size (longest side)',
+  'imageEditor.pixels': '{count} px',
+  'imageEditor.originalSize': 'Original size',
+  'imageEditor.format': 'Format',
+  'imageEditor.formatJpeg': 'JPEG',
+  'imageEditor.formatWebp': 'WebP',
+  'imageEditor.formatPng': 'PNG (lossless)',
+  'imageEditor.quality': 'Quality: {percent}%',
+  'imageEditor.inputsTitle': 'Images for this edit ({count}/{max})',
+  'imageEditor.inputsLabel': 'Images for this edit',
+  'imageEditor.imageNumber': 'Image {number}',
+  'imageEditor.beingEdited': 'Being edited',
+  'imageEditor.moveEarlier': 'Move image {number} earlier',
+  'imageEditor.moveLater': 'Move image {number} later',
+  'imageEditor.removeImage': 'Remove image {number}',
+  'imageEditor.labelPlaceholder': 'Label (optional)',
+  'imageEditor.labelFor': 'Label for image {number}',
+  'imageEditor.maskTool': 'Mask tool',
+  'imageEditor.maskBrush': 'Brush',
+  'imageEditor.maskEraser': 'Eraser',
+  'imageEditor.maskLasso': 'Lasso',
+  'imageEditor.brushSizeShort': 'Size',
+  'imageEditor.brushSize': 'Brush size',
+  'imageEditor.invertMask': 'Invert',
+  'imageEditor.clearMask': 'Clear Mask',
+  'imageEditor.maskImageAlt': 'Image to mask',
+  'imageEditor.maskCanvasLabel': 'Paint the area to edit',
+  'imageEditor.maskHelp': 'Paint over the area you want to change. Everything else stays exactly as it is.',
+
+  'apiKey.select': 'Select API Key',
+  'apiKey.opening': 'Opening API key selection dialog...',
+  'apiKey.required': 'Please select your API key first.',
+  'apiKey.billingDocsBefore': 'A link to the billing documentation can be found ',
+  'apiKey.billingDocsLink': 'here',
+  'apiKey.billingDocsAfter': '.',
+  'video.title': 'Video Generator',
+  'video.description': "Describe a scene and get a short video clip. Add a reference image to guide the look or use it as the first frame. This feature uses Google's Veo model and requires an API key with billing enabled.",
+  'video.ready': 'Ready to generate videos!',
+  'video.selectKey': 'Please select your API key for video generation (billing required).',
+  'video.keySelected': 'API key selected. You can now generate videos.',
+  'video.billingRequired': 'API key issue: video generation requires billing. Please ensure your API key is enabled for billing and re-select it.',
+  'video.invalidFile': 'Please select a valid image file (jpeg, png, webp).',
+  'video.promptLabel': 'Video Prompt:',
+  'video.promptPlaceholder': "Describe your video (e.g., 'A paper boat sailing down a rainy street, cinematic, slow motion')...",
+  'video.aspectRatio': 'Aspect Ratio:',
+  'video.landscape': '16:9 (Landscape)',
+  'video.portrait': '9:16 (Portrait / Reels)',
+  'video.referenceImage': 'Reference Image (optional):',
+  'video.referenceAlt': 'Reference',
+  'video.removeReference': 'Remove',
+  'video.chooseImage': 'Choose Image',
+  'video.waiting1': 'Warming up the cameras...',
+  'video.waiting2': 'Setting the scene...',
+  'video.waiting3': 'Rendering frames... this usually takes a few minutes.',
+  'video.waiting4': 'Adding the final touches...',
+  'video.waiting5': 'Almost there, thoda sabar rakho!',
+  'video.elapsed': 'Elapsed {time}',
+  'video.cancel': 'Cancel',
+  'video.clear': 'Clear',
+  'video.generate': 'Generate Video',
+  'video.generating': 'Generating...',
+  'video.cancelled': 'Video generation cancelled.',
+  'video.done': 'Video generated successfully!',
+  'video.result': 'Generated Video',
+  'video.resultLabel': 'Generated video',
+  'video.previewAlt': 'Video preview',
+  'video.offlinePlaceholder': 'Offline mode: showing a placeholder instead of a real video.',
+  'video.download': 'Download Video',
+
+  'hdImages.title': 'HD Image Generator',
+  'hdImages.description': "Generate high-quality, clear, sharp, and detailed images from text prompts. Perfect for school demos, posters, and presentations! This feature uses Google Gemini's image generation capabilities and requires an API key with billing enabled.",
+  'hdImages.ready': 'Ready to generate HD images!',
+  'hdImages.selectKey': 'Please select your API key for HD image generation (billing required).',
+  'hdImages.keySelected': 'API key selected. You can now generate HD images.',
+  'hdImages.billingRequired': 'API key issue: HD image generation requires billing. Please ensure your API key is enabled for billing and re-select it.',
+  'hdImages.generating': 'Generating HD images... This may take a moment.',
+  'hdImages.invalidSeed': 'Seed must be a whole number between 0 and {max}.',
+  'hdImages.promptLabel': 'Image Prompt:',
+  'hdImages.enhance': 'Enhance prompt',
+  'hdImages.promptPlaceholder': "Describe the image you want to generate (e.g., 'A vibrant watercolor painting of a whimsical treehouse in a magical forest')...",
+  'hdImages.promptHelp': 'Be descriptive for best results! You can queue more prompts while one is generating.',
+  'hdImages.suggestedPrompt': 'Suggested prompt - review or tweak it before using:',
+  'hdImages.discard': 'Discard',
+  'hdImages.usePrompt': 'Use This Prompt',
+  'hdImages.style': 'Style:',
+  'hdImages.stylePreset': 'Style preset',
+  'hdImages.style.none': 'None',
+  'hdImages.style.poster': 'Poster',
+  'hdImages.style.watercolor': 'Watercolor',
+  'hdImages.style.diagram': 'Diagram',
+  'hdImages.style.photo': 'Photo',
+  'hdImages.style.cartoon': 'Cartoon',
+  'hdImages.style.sketch': 'Pencil sketch',
+  'hdImages.style.infographic': 'Infographic',
+  'hdImages.style.pixelArt': 'Pixel art',
+  'hdImages.aspectRatio': 'Aspect Ratio:',
+  'hdImages.aspectRatioLabel': 'Select image aspect ratio',
+  'hdImages.aspect.square': '1:1 (Square)',
+  'hdImages.aspect.portrait': '3:4 (Portrait)',
+  'hdImages.aspect.landscape': '4:3 (Landscape)',
+  'hdImages.aspect.tallPortrait': '9:16 (Tall Portrait)',
+  'hdImages.aspect.wideLandscape': '16:9 (Wide Landscape)',
+  'hdImages.variations': 'Variations:',
+  'hdImages.variationsLabel': 'Number of variations',
+  'hdImages.format': 'Format:',
+  'hdImages.formatJpeg': 'JPEG (smaller files)',
+  'hdImages.formatPng': 'PNG (lossless)',
+  'hdImages.advanced': 'Advanced settings',
+  'hdImages.negativePrompt': 'Negative prompt (things to leave out)',
+  'hdImages.negativePromptPlaceholder': 'e.g. text, watermark, blurry',
+  'hdImages.seed': 'Seed',
+  'hdImages.seedRandom': 'Random',
+  'hdImages.randomSeed': 'Pick a random seed',
+  'hdImages.seedHelp': 'Reuse a seed with the same settings to get the same picture.',
+  'hdImages.people': 'People in images',
+  'hdImages.people.none': 'No people',
+  'hdImages.people.adults': 'Adults only',
+  'hdImages.people.all': 'Adults and children',
+  'hdImages.safety': 'Safety filter',
+  'hdImages.safety.strict': 'Strict',
+  'hdImages.safety.balanced': 'Balanced',
+  'hdImages.safety.relaxed': 'Relaxed',
+  'hdImages.default': 'Default',
+  'hdImages.clear': 'Clear',
+  'hdImages.generate': 'Generate Image',
+  'hdImages.addToQueue': 'Add to Queue',
+  'hdImages.inProgress': '{count} in progress',
+  'hdImages.allDone': 'All done',
+  'hdImages.favoritesOnly': 'Favorites only',
+  'hdImages.queue': 'Generation queue',
+  'hdImages.status.queued': 'Queued',
+  'hdImages.status.running': 'Generating',
+  'hdImages.status.done': 'Done',
+  'hdImages.status.error': 'Failed',
+  'hdImages.status.cancelled': 'Cancelled',
+  'hdImages.oneImage': '1 image',
+  'hdImages.variationCount': '{count} variations',
+  'hdImages.seedValue': 'seed {seed}',
+  'hdImages.cancel': 'Cancel',
+  'hdImages.cancelJob': 'Cancel job {position}',
+  'hdImages.remove': 'Remove',
+  'hdImages.removeJob': 'Remove job {position}',
+  'hdImages.generatingJob': 'Generating job {position}',
+  'hdImages.variationAlt': 'Variation {number} of: {prompt}',
+  'hdImages.favorite': 'Add to favorites',
+  'hdImages.unfavorite': 'Remove from favorites',
+  'hdImages.download': 'Download',
+
+  'slideshow.title': 'Animated Slideshow Generator',
+  'slideshow.description': "Turn your text into a fun, animated slideshow video - or let Bhaii write the slides from a topic! Pick a theme, tweak each slide's timing, colors, images and transitions, then download it as a video. Making slides by hand needs no API key - completely free and student-friendly!",
+  'slideshow.ready': 'Enter text to create your animated slideshow!',
+  'slideshow.loadedFromGallery': 'Slides loaded from your gallery. Edit them, then export again!',
+  'slideshow.emptyText': 'Please enter some text for your slideshow.',
+  'slideshow.added': 'Added {count} slides. Press Play to preview!',
+  'slideshow.addedMax': 'Added {count} slides (max {max}). Press Play to preview!',
+  'slideshow.replaceConfirm': 'Replace your current slides with AI-generated ones?',
+  'slideshow.planning': 'Bhaii is planning your slides...',
+  'slideshow.generationCancelled': 'Generation cancelled.',
+  'slideshow.fallbackNote': ' (the reply was a bit messy, so please check the slides)',
+  'slideshow.created': 'Created {count} slides{note}. Edit anything you like, then press Play!',
+  'slideshow.drawing': 'Drawing illustration {current} of {total}...',
+  'slideshow.illustrationsStopped': 'Stopped after {count} illustrations. Your slides are ready!',
+  'slideshow.createdIllustrated': 'Created {count} slides with {illustrated} illustrations{note}. Press Play to preview!',
+  'slideshow.newSlide': 'New slide',
+  'slideshow.recording': 'Recording your video... this takes as long as the slideshow.',
+  'slideshow.renderingGif': 'Rendering your GIF...',
+  'slideshow.videoReady': 'Video ready! Download it below.',
+  'slideshow.gifFallback': 'Your browser cannot record video, so we made an animated GIF instead. Download it below.',
+  'slideshow.gifReady': 'GIF ready! Download it below.',
+  'slideshow.exportCancelled': 'Export cancelled.',
+  'slideshow.exportFailed': 'Could not export the slideshow. Please try again.',
+  'slideshow.finished': 'Slideshow finished! Press Play to watch again.',
+  'slideshow.themeLabel': 'Theme:',
+  'slideshow.themeGroup': 'Slideshow theme',
+  'slideshow.theme.classic': 'Classic Purple',
+  'slideshow.theme.sunset': 'Sunset',
+  'slideshow.theme.ocean': 'Ocean',
+  'slideshow.theme.chalkboard': 'Chalkboard',
+  'slideshow.theme.notebook': 'Notebook',
+  'slideshow.topicLabel': 'Generate from a topic:',
+  'slideshow.topicPlaceholder': "e.g. Photosynthesis, The Mughal Empire, Newton's laws of motion",
+  'slideshow.slideCount': 'Slides',
+  'slideshow.illustrate': 'Illustrate with AI images',
+  'slideshow.stop': 'Stop',
+  'slideshow.generate': 'Generate Slides',
+  'slideshow.illustrateHelp': 'Illustrations use HD image generation, which needs an API key with billing enabled.',
+  'slideshow.textLabel': 'Quick start: your slideshow text (one line per slide):',
+  'slideshow.textPlaceholder': 'Write your amazing story here...\nEach line will be a new slide!\nKeep it short and sweet.',
+  'slideshow.textInputLabel': 'Text input for slideshow',
+  'slideshow.clearAll': 'Clear All',
+  'slideshow.create': 'Create Slides',
+  'slideshow.totalLength': 'Total length: {seconds} seconds',
+  'slideshow.exportHint': 'Download your slideshow as a file to submit or share.',
+  'slideshow.cancelExport': 'Cancel Export',
+  'slideshow.exportGif': 'Export GIF',
+  'slideshow.exportVideo': 'Export Video',
+  'slideshow.exportedVideo': 'Exported slideshow video',
+  'slideshow.exportedGif': 'Exported slideshow GIF',
+  'slideshow.downloadVideo': 'Download Video (.webm)',
+  'slideshow.downloadGif': 'Download GIF',
+  'slideshow.placeholder': 'Your awesome slideshow will appear here!',
+  'slideshow.preview': 'Slideshow preview',
+  'slideshow.slideLabel': 'Slide {number}: {text}',
+  'slideshow.previousSlide': 'Previous slide',
+  'slideshow.prev': 'Prev',
+  'slideshow.nextSlide': 'Next slide',
+  'slideshow.next': 'Next',
+  'slideshow.playSlideshow': 'Play slideshow',
+  'slideshow.pauseSlideshow': 'Pause slideshow',
+  'slideshow.play': 'Play',
+  'slideshow.pause': 'Pause',
+  'slideshow.position': 'Slide {number} / {total}',
+  'slideshow.noSlides': 'No slides yet',
+  'slideshow.slidesHeading': 'Slides ({count}/{max})',
+  'slideshow.addSlide': 'Add Slide',
+  'slideshow.slidesList': 'Slides',
+  'slideshow.imageOnly': '(image)',
+  'slideshow.emptySlide': '(empty)',
+  'slideshow.moveUp': 'Move slide {number} up',
+  'slideshow.moveDown': 'Move slide {number} down',
+  'slideshow.deleteSlide': 'Delete slide {number}',
+  'slideshow.emptyList': 'No slides yet. Add one or create them from text below.',
+  'slideshow.slideNumber': 'Slide {number}',
+  'slideshow.text': 'Text',
+  'slideshow.duration': 'Duration (seconds)',
+  'slideshow.transitionLabel': 'Transition',
+  'slideshow.transition.fadeUp': 'Fade up',
+  'slideshow.transition.fade': 'Cross-fade',
+  'slideshow.transition.zoom': 'Zoom in',
+  'slideshow.transition.slideLeft': 'Slide left',
+  'slideshow.transition.none': 'None',
+  'slideshow.fontSizeLabel': 'Font size',
+  'slideshow.fontSize.small': 'Small',
+  'slideshow.fontSize.medium': 'Medium',
+  'slideshow.fontSize.large': 'Large',
+  'slideshow.fontSize.xl': 'Extra large',
+  'slideshow.textColor': 'Text color',
+  'slideshow.background': 'Background',
+  'slideshow.backgroundType': 'Background type',
+  'slideshow.solidColor': 'Solid color',
+  'slideshow.gradient': 'Gradient',
+  'slideshow.backgroundColor': 'Background color',
+  'slideshow.gradientStart': 'Gradient start color',
+  'slideshow.gradientEnd': 'Gradient end color',
+  'slideshow.image': 'Image',
+  'slideshow.addImage': 'Add Image',
+  'slideshow.changeImage': 'Change Image',
+  'slideshow.removeImage': 'Remove',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type MessageCatalog = Record<MessageKey, string>;
+
+const hinglish: Partial<MessageCatalog> = {
+  'app.languageLabel': 'Bhasha',
+
+  'home.title': 'Bhaii AI Studio mein swagat hai!',
+  'home.subtitle': 'Creative AI ke liye aapki apni jagah. Neeche koi bhi feature chuno aur shuru karo!',
+  'home.launch': 'Chalo',
+  'home.chat.description': 'Apne supportive AI bhai, Bhaii, se baat karo! Jaldi, dost jaisi salah aur hausla milega. Kya haal hai?',
+
+  'chat.nameLabel': 'Aapka naam:',
+  'chat.namePlaceholder': 'Apna naam likho',
+  'chat.rememberMe': 'Mujhe yaad rakho (Remember me)',
+  'chat.personaLabel': 'Persona:',
+  'chat.managePersonas': 'Manage',
+  'chat.welcome': 'Namaste! Kya haal hai, mere bhai/behen? Kaise ho tum?',
+  'chat.welcomeNamed': 'Namaste {name}! Kya haal hai, mere bhai/behen? Kaise ho tum?',
+  'chat.typing': '{name} likh rahe hain...',
+  'chat.stopped': '(ruk gaya)',
+  'chat.summarizing': 'Purane messages ka summary bana rahe hain...',
+  'chat.summaryNotice': '{count} purane messages ka summary bana diya hai, taaki {name} is lambi chat ko yaad rakh sakein.',
+  'chat.showSummary': 'Summary dekho',
+  'chat.hideSummary': 'Summary chhupao',
+  'chat.inputPlaceholder': 'Apna message likho, mere bhai/behen...',
+  'chat.send': 'Bhejo',
+  'chat.stop': 'Roko',
+  'chat.stopAria': 'Jawab roko',
+  'chat.replyFailed': 'Oops, kuch error ho gaya.',
+  'chat.sendFailed': 'Bhaii ko kuch dikkat ho gayi. Dobara try karo na.',
+
+  'voice.start': 'Bol ke message likho',
+  'voice.listening': 'Sun rahe hain... rokne ke liye tap karo',
+  'voice.recording': 'Recording chal rahi hai... rokne ke liye tap karo',
+  'voice.transcribing': 'Likh rahe hain...',
+  'voice.permissionDenied': 'Mic ka access blocked hai. Browser settings mein allow karo, phir Bhaii se bolo.',
+  'voice.noSpeech': 'Kuch sunai nahi diya. Ek baar aur bolo?',
+  'voice.failed': 'Voice input nahi chala. Message type kar do na.',
+  'voice.readAloud': 'Sunao',
+  'voice.stopReading': 'Sunana roko',
+  'voice.settings': 'Awaaz',
+  'voice.settingsTitle': 'Padh ke sunane ki settings',
+  'voice.test': 'Awaaz test karo',
+  'voice.sample': 'Namaste! Meri awaaz aisi sunai degi.',
+  'voice.close': 'Band karo',
+  'voice.voiceLabel': 'Awaaz',
+  'voice.automatic': 'Automatic',
+  'voice.rateLabel': 'Speed ({rate}x)',
+  'voice.autoRead': 'Naye jawab apne aap padh ke sunao',
+  'voice.noVoices': 'Is browser mein abhi koi awaaz installed nahi hai. Device baad mein add kar sakta hai.',
+
+  'attachments.add': 'Photo ya file lagao',
+  'attachments.listLabel': 'Attachments',
+  'attachments.remove': '{name} hatao',
+  'attachments.tooMany': 'Ek message mein zyada se zyada {count} files laga sakte ho.',
+  'attachments.unsupported': '{name}: sirf photos, PDF aur text files lag sakti hain.',
+  'attachments.tooLarge': '{name} bahut badi hai (PDF 4 MB tak, text files 512 KB tak).',
+  'attachments.unreadable': '{name} khul nahi payi.',
+
+  'markdown.copy': 'Copy karo',
+  'markdown.copied': 'Copy ho gaya!',
+
+  'messages.copy': 'Copy karo',
+  'messages.copied': 'Copy ho gaya!',
+  'messages.edit': 'Edit karke dobara bhejo',
+  'messages.editLabel': 'Apna message edit karo',
+  'messages.resend': 'Save karke bhejo',
+  'messages.cancelEdit': 'Rehne do',
+  'messages.resendHint': 'Iske baad ke messages naye jawab se badal jayenge.',
+  'messages.regenerate': 'Naya jawab lao',
+  'messages.versions': 'Jawab ke versions',
+  'messages.previousVersion': 'Pichhla version',
+  'messages.nextVersion': 'Agla version',
+  'messages.goodReply': 'Achha jawab',
+  'messages.badReply': 'Bekaar jawab',
+  'messages.delete': 'Message delete karo',
+  'messages.deleteConfirm': 'Yeh message delete karein?',
+
+  'conversations.new': '+ Nayi Chat',
+  'conversations.deleteConfirm': '"{title}" delete karein? Yeh wapas nahi aayega.',
+
+  'personas.deleteConfirm': '"{name}" persona delete karein? Isse use karne wali chats Bhaii par wapas aa jayengi.',
+  'personas.saved': '"{name}" save ho gaya.',
+  'personas.imported': '{count} persona import ho gaye.',
+  'personas.importFailed': 'Yeh file import nahi ho payi.',
+  'personas.invalidJson': 'Yeh file sahi JSON nahi hai.',
+  'personas.noPersonas': 'Is file mein koi persona nahi mila.',
+  'personas.instructionPlaceholder': 'Batao yeh persona kaun hai aur kaise jawab dega...',
+  'personas.new': '+ Naya persona',
+  'memory.button': 'Yaadein',
+  'memory.title': 'Bhaii tumhare baare mein kya yaad rakhte hain',
+  'memory.close': 'Band karo',
+  'memory.enabled': 'Chat mein yaadein use karo aur nayi yaadein suggest karo',
+  'memory.localOnly': 'Yaadein sirf isi browser mein save hoti hain. Chat se judi yaadein tumhare messages ke saath bheji jaati hain.',
+  'memory.notPersisted': 'Bhaii band karne ke baad bhi yaadein rakhni hain toh "Remember me" on karo.',
+  'memory.empty': 'Abhi kuch save nahi hai. Tum kuch yaad rakhne layak batao, toh Bhaii save karne se pehle poochenge.',
+  'memory.addLabel': 'Nayi yaad',
+  'memory.addPlaceholder': 'jaise: Mere board exams 1 March se hain',
+  'memory.add': 'Jodo',
+  'memory.edit': 'Badlo',
+  'memory.editLabel': 'Yaad badlo',
+  'memory.save': 'Save karo',
+  'memory.cancel': 'Rehne do',
+  'memory.delete': 'Bhool jao',
+  'memory.deleteConfirm': '"{text}" bhool jaayein?',
+  'memory.clearAll': 'Sab bhool jao',
+  'memory.clearAllConfirm': 'Saari {count} yaadein delete karein? Yeh wapas nahi hoga.',
+  'memory.proposal': 'Yeh yaad rakhein?',
+  'memory.accept': 'Save karo',
+  'memory.dismiss': 'Nahi, rehne do',
+  'memory.saved': 'Yaad mein save ho gaya',
+
+  'errors.auth': 'API key mein problem hai. Dialog se API key dobara select karo.',
+  'errors.billing': 'API key mein problem: is feature ke liye billing chahiye. API key par billing on karke use dobara select karo.',
+  'errors.rateLimit': 'Abhi bahut saari requests aa gayi hain. Thoda ruk ke try karo.',
+  'errors.safetyBlocked': 'Safety filters ne yeh request rok di. Koi aur prompt try karo.',
+  'errors.network': 'Network mein problem hai. Connection check karke dobara try karo.',
+  'errors.invalidInput': 'Yeh request accept nahi hui. Input check karke dobara try karo.',
+  'errors.noOutput': 'Koi result nahi aaya. Koi aur prompt try karo.',
+  'errors.unknown': 'Sorry, kuch gadbad ho gayi. Ek baar aur try karoge?',
+  'errors.missingApiKey': 'Is app mein koi API key set nahi hai. Environment mein API_KEY set karo.',
+  'errors.emptyMessage': 'Message likho ya koi file lagao.',
+  'errors.noEditImage': 'Edit karne ke liye ek image lagao.',
+  'errors.tooManyEditImages': 'Ek edit mein zyada se zyada {count} images mila sakte ho.',
+  'errors.emptyImagePrompt': 'Image banane ke liye prompt likho.',
+  'errors.emptyEnhancePrompt': 'Enhance karne ke liye chhota sa idea likho.',
+  'errors.emptyRecording': 'Recording khaali hai. Ek baar aur try karo.',
+  'errors.emptySlideshowTopic': 'Slideshow ka topic likho.',
+  'errors.emptyVideoPrompt': 'Batao kaisa video banana hai.',
+  'errors.noEditedImage': 'Edited image nahi ban payi. Koi aur prompt try karo.',
+  'errors.noHdImage': 'HD image nahi ban payi. Koi aur prompt try karo.',
+  'errors.noEnhancedPrompt': 'Yeh prompt enhance nahi ho paya. Dobara try karo.',
+  'errors.noSlides': 'Is topic ki slides nahi ban payi. Topic thoda alag tarah se likh ke dekho.',
+  'errors.noVideo': 'Video poora hua par kuch output nahi aaya. Koi aur prompt try karo.',
+  'errors.unsupportedImageFormat': 'Yeh browser is image format (jaise HEIC ya TIFF) ko nahi padh sakta. Pehle JPEG ya PNG mein convert karo.',
+  'errors.unreadableImage': 'Yeh image khul nahi payi.',
+
+  'gallery.loadFailed': 'Gallery load nahi ho payi.',
+  'gallery.deleteFailed': 'Yeh items delete nahi ho paye. Dobara try karo.',
+  'gallery.title': 'Meri Creations',
+  'gallery.description': 'Image Editor, HD Image Generator aur Slideshow mein jo bhi banate ho, sab isi device par yahan save hota hai.',
+  'gallery.search': 'Gallery mein search karo',
+  'gallery.searchPlaceholder': 'Prompts search karo...',
+  'gallery.filterByTool': 'Tool se filter karo',
+  'gallery.allTools': 'Saare tools',
+  'gallery.tool.imageEditor': 'Image Editor',
+  'gallery.tool.hdImages': 'HD Image Generator',
+  'gallery.tool.slideshow': 'Slideshow',
+  'gallery.selectAll': 'Sab select karo',
+  'gallery.selectedCount': '{count} selected',
+  'gallery.deleteSelected': 'Selected delete karo',
+  'gallery.downloadSelected': 'Selected download karo (ZIP)',
+  'gallery.downloadAll': 'Sab download karo (ZIP)',
+  'gallery.deleteOneConfirm': 'Yeh item gallery se delete karna hai?',
+  'gallery.deleteManyConfirm': '{count} items gallery se delete karne hain?',
+  'gallery.itemMissing': 'Yeh item ab gallery mein nahi hai.',
+  'gallery.itemDetails': 'Gallery item ki details',
+  'gallery.noPrompt': 'Koi prompt nahi',
+  'gallery.noModel': 'Koi AI model nahi',
+  'gallery.reuse': 'Settings dobara use karo',
+  'gallery.download': 'Download',
+  'gallery.delete': 'Delete',
+  'gallery.close': 'Band karo',
+  'gallery.loading': 'Gallery load ho rahi hai...',
+  'gallery.empty': 'Abhi yahan kuch nahi hai. Tumhare edits, HD images aur slideshow exports yahan dikhenge!',
+  'gallery.noMatches': 'Search se koi item match nahi hua.',
+  'gallery.items': 'Gallery items',
+  'gallery.openItem': 'Kholo: {name}',
+  'gallery.selectItem': 'Select karo: {name}',
+  'gallery.settings.selectedArea': 'Sirf selected area',
+  'gallery.settings.wholeImage': 'Poori image',
+  'gallery.settings.referenceImage': '+{count} reference image',
+  'gallery.settings.referenceImages': '+{count} reference images',
+  'gallery.settings.aspectRatio': 'Aspect ratio {ratio}',
+  'gallery.settings.style': 'Style: {style}',
+  'gallery.settings.avoid': 'Avoid: {text}',
+  'gallery.settings.seed': 'Seed {seed}',
+  'gallery.settings.people': 'Log: {value}',
+  'gallery.settings.safety': 'Safety: {value}',
+  'gallery.settings.slide': '{count} slide',
+  'gallery.settings.slides': '{count} slides',
+  'gallery.settings.theme': 'Theme: {theme}',
+  'gallery.settings.webm': 'Video (.webm)',
+  'gallery.settings.gif': 'Animated GIF',
+
+  'imageEditor.title': 'Image Editor (Nano Banana Powered)',
+  'imageEditor.galleryImage': 'gallery wali image',
+  'imageEditor.editing': 'Edit ho rahi hai:',
+  'imageEditor.addMore': 'Aur images milane ke liye drop, paste ya click karo ({count} tak).',
+  'imageEditor.dropHint': 'Image upload karne ke liye drag & drop, paste ya click karo',
+  'imageEditor.invalidFile': 'Sahi image file chuno (jpeg, png, gif, webp).',
+  'imageEditor.tooManyImages': 'Zyada se zyada {count} images mila sakte ho.',
+  'imageEditor.someLeftOut': 'Zyada se zyada {count} images mila sakte ho, isliye kuch chhod di gayi.',
+  'imageEditor.missingInput': 'Image upload karo aur edit ka prompt likho.',
+  'imageEditor.preparing': 'Image taiyaar ho rahi hai...',
+  'imageEditor.uploadSummary': 'Upload se pehle aur baad ka size',
+  'imageEditor.rotatedUpright': 'seedhi kar di',
+  'imageEditor.promptLabel': 'Edit prompt (jaise "Retro filter lagao", "Insaan ko hatao"):',
+  'imageEditor.combinePromptLabel': 'Edit prompt (jaise "Image 1 wale insaan ko image 2 ke background mein daalo"):',
+  'imageEditor.refinePromptLabel': '{version} ko aur behtar karo (jaise "Aasmaan thoda aur pink karo"):',
+  'imageEditor.promptPlaceholder': 'Batao image mein kya badalna hai...',
+  'imageEditor.maskMode': 'Sirf chuna hua hissa edit karo',
+  'imageEditor.undo': 'Undo',
+  'imageEditor.undoLabel': 'Edit undo karo',
+  'imageEditor.redo': 'Redo',
+  'imageEditor.redoLabel': 'Edit redo karo',
+  'imageEditor.clear': 'Saaf karo',
+  'imageEditor.submit': 'Image edit karo',
+  'imageEditor.submitting': 'Edit ho rahi hai...',
+  'imageEditor.noteSelectedArea': 'chuna hua hissa',
+  'imageEditor.noteImages': '+{count} images',
+  'imageEditor.compare': 'Compare karo',
+  'imageEditor.compareWith': 'aur',
+  'imageEditor.compareFirst': 'Compare ke liye pehla version',
+  'imageEditor.compareSecond': 'Compare ke liye doosra version',
+  'imageEditor.compareView': 'Compare ka tareeka',
+  'imageEditor.sideBySide': 'Saath-saath',
+  'imageEditor.slider': 'Slider',
+  'imageEditor.compareSlider': '{before} aur {after} compare karne ke liye slide karo',
+  'imageEditor.original': 'Original',
+  'imageEditor.originalImage': 'Original image',
+  'imageEditor.download': '{version} download karo',
+  'imageEditor.versions': 'Versions',
+  'imageEditor.versionsLabel': 'Image ke versions',
+  'imageEditor.newBranch': 'Nayi branch',
+  'imageEditor.branchHint': 'Kisi bhi version se editing jaari rakho - aage ke edits alag branch mein rahenge.',
+  'imageEditor.empty': 'Shuru karne ke liye ek image upload karo!',
+  'imageEditor.uploadSettings': 'Upload settings',
+  'imageEditor.uploadSettingsHelp': 'Upload se pehle photos seedhi ki jaati hain aur location/camera ki details hata di jaati hain. Badlav agli images par lagenge.',
+  'imageEditor.maxSize': 'Max size (lambi side)',
+  'imageEditor.pixels': '{count} px',
+  'imageEditor.originalSize': 'Original size',
+  'imageEditor.format': 'Format',
+  'imageEditor.formatJpeg': 'JPEG',
+  'imageEditor.formatWebp': 'WebP',
+  'imageEditor.formatPng': 'PNG (quality loss nahi)',
+  'imageEditor.quality': 'Quality: {percent}%',
+  'imageEditor.inputsTitle': 'Is edit ki images ({count}/{max})',
+  'imageEditor.inputsLabel': 'Is edit ki images',
+  'imageEditor.imageNumber': 'Image {number}',
+  'imageEditor.beingEdited': 'Edit ho rahi hai',
+  'imageEditor.moveEarlier': 'Image {number} ko pehle lao',
+  'imageEditor.moveLater': 'Image {number} ko baad mein bhejo',
+  'imageEditor.removeImage': 'Image {number} hatao',
+  'imageEditor.labelPlaceholder': 'Label (optional)',
+  'imageEditor.labelFor': 'Image {number} ka label',
+  'imageEditor.maskTool': 'Mask tool',
+  'imageEditor.maskBrush': 'Brush',
+  'imageEditor.maskEraser': 'Rubber',
+  'imageEditor.maskLasso': 'Lasso',
+  'imageEditor.brushSizeShort': 'Size',
+  'imageEditor.brushSize': 'Brush ka size',
+  'imageEditor.invertMask': 'Ulta karo',
+  'imageEditor.clearMask': 'Mask saaf karo',
+  'imageEditor.maskImageAlt': 'Mask lagane wali image',
+  'imageEditor.maskCanvasLabel': 'Edit karne wala hissa paint karo',
+  'imageEditor.maskHelp': 'Jo hissa badalna hai us par paint karo. Baaki sab bilkul waisa hi rahega.',
+
+  'apiKey.select': 'API key select karo',
+  'apiKey.opening': 'API key chunne ka dialog khul raha hai...',
+  'apiKey.required': 'Pehle apni API key select karo.',
+  'apiKey.billingDocsBefore': 'Billing documentation ka link ',
+  'apiKey.billingDocsLink': 'yahan',
+  'apiKey.billingDocsAfter': ' hai.',
+  'video.title': 'Video Generator',
+  'video.description': 'Ek scene batao aur chhota sa video clip pao. Look guide karne ke liye ya pehle frame ke roop mein reference image laga sakte ho. Yeh feature Google ka Veo model use karta hai aur iske liye billing wali API key chahiye.',
+  'video.ready': 'Video banane ke liye ready!',
+  'video.selectKey': 'Video banane ke liye apni API key select karo (billing zaroori hai).',
+  'video.keySelected': 'API key select ho gayi. Ab video bana sakte ho.',
+  'video.billingRequired': 'API key mein problem: video banane ke liye billing chahiye. API key par billing on karke use dobara select karo.',
+  'video.invalidFile': 'Sahi image file chuno (jpeg, png, webp).',
+  'video.promptLabel': 'Video prompt:',
+  'video.promptPlaceholder': "Apna video batao (jaise 'Baarish wali sadak par tairti kaagaz ki naav, cinematic, slow motion')...",
+  'video.aspectRatio': 'Aspect ratio:',
+  'video.landscape': '16:9 (Landscape)',
+  'video.portrait': '9:16 (Portrait / Reels)',
+  'video.referenceImage': 'Reference image (optional):',
+  'video.referenceAlt': 'Reference',
+  'video.removeReference': 'Hatao',
+  'video.chooseImage': 'Image chuno',
+  'video.waiting1': 'Camere garam ho rahe hain...',
+  'video.waiting2': 'Scene set ho raha hai...',
+  'video.waiting3': 'Frames ban rahe hain... isme aam taur par kuch minute lagte hain.',
+  'video.waiting4': 'Aakhri touches lag rahe hain...',
+  'video.waiting5': 'Bas ho gaya, thoda sabar rakho!',
+  'video.elapsed': '{time} ho gaye',
+  'video.cancel': 'Roko',
+  'video.clear': 'Saaf karo',
+  'video.generate': 'Video banao',
+  'video.generating': 'Ban raha hai...',
+  'video.cancelled': 'Video banana cancel ho gaya.',
+  'video.done': 'Video ban gaya!',
+  'video.result': 'Bana hua video',
+  'video.resultLabel': 'Bana hua video',
+  'video.previewAlt': 'Video preview',
+  'video.offlinePlaceholder': 'Offline mode: asli video ki jagah placeholder dikh raha hai.',
+  'video.download': 'Video download karo',
+
+  'hdImages.title': 'HD Image Generator',
+  'hdImages.description': 'Text prompt se high-quality, saaf aur detailed images banao. School demos, posters aur presentations ke liye perfect! Yeh feature Google Gemini ki image generation use karta hai aur iske liye billing wali API key chahiye.',
+  'hdImages.ready': 'HD images banane ke liye ready!',
+  'hdImages.selectKey': 'HD images banane ke liye apni API key select karo (billing zaroori hai).',
+  'hdImages.keySelected': 'API key select ho gayi. Ab HD images bana sakte ho.',
+  'hdImages.billingRequired': 'API key mein problem: HD images ke liye billing chahiye. API key par billing on karke use dobara select karo.',
+  'hdImages.generating': 'HD images ban rahi hain... thoda time lag sakta hai.',
+  'hdImages.invalidSeed': 'Seed 0 se {max} ke beech ka poora number hona chahiye.',
+  'hdImages.promptLabel': 'Image prompt:',
+  'hdImages.enhance': 'Prompt behtar karo',
+  'hdImages.promptPlaceholder': "Batao kaisi image chahiye (jaise 'Jaadui jungle mein ek mazedaar treehouse ki rangeen watercolor painting')...",
+  'hdImages.promptHelp': 'Jitna detail doge, utna accha result! Ek image banne ke dauraan aur prompts queue mein daal sakte ho.',
+  'hdImages.suggestedPrompt': 'Suggested prompt - use karne se pehle dekh lo ya badal lo:',
+  'hdImages.discard': 'Rehne do',
+  'hdImages.usePrompt': 'Yeh prompt use karo',
+  'hdImages.style': 'Style:',
+  'hdImages.stylePreset': 'Style preset',
+  'hdImages.style.none': 'Koi nahi',
+  'hdImages.style.poster': 'Poster',
+  'hdImages.style.watercolor': 'Watercolor',
+  'hdImages.style.diagram': 'Diagram',
+  'hdImages.style.photo': 'Photo',
+  'hdImages.style.cartoon': 'Cartoon',
+  'hdImages.style.sketch': 'Pencil sketch',
+  'hdImages.style.infographic': 'Infographic',
+  'hdImages.style.pixelArt': 'Pixel art',
+  'hdImages.aspectRatio': 'Aspect ratio:',
+  'hdImages.aspectRatioLabel': 'Image ka aspect ratio chuno',
+  'hdImages.aspect.square': '1:1 (Square)',
+  'hdImages.aspect.portrait': '3:4 (Portrait)',
+  'hdImages.aspect.landscape': '4:3 (Landscape)',
+  'hdImages.aspect.tallPortrait': '9:16 (Lamba portrait)',
+  'hdImages.aspect.wideLandscape': '16:9 (Chauda landscape)',
+  'hdImages.variations': 'Variations:',
+  'hdImages.variationsLabel': 'Kitni variations',
+  'hdImages.format': 'Format:',
+  'hdImages.formatJpeg': 'JPEG (chhoti files)',
+  'hdImages.formatPng': 'PNG (quality loss nahi)',
+  'hdImages.advanced': 'Advanced settings',
+  'hdImages.negativePrompt': 'Negative prompt (kya nahi chahiye)',
+  'hdImages.negativePromptPlaceholder': 'jaise text, watermark, blurry',
+  'hdImages.seed': 'Seed',
+  'hdImages.seedRandom': 'Random',
+  'hdImages.randomSeed': 'Random seed chuno',
+  'hdImages.seedHelp': 'Same settings ke saath wahi seed doge toh wahi picture milegi.',
+  'hdImages.people': 'Images mein log',
+  'hdImages.people.none': 'Koi log nahi',
+  'hdImages.people.adults': 'Sirf bade log',
+  'hdImages.people.all': 'Bade aur bachche',
+  'hdImages.safety': 'Safety filter',
+  'hdImages.safety.strict': 'Strict',
+  'hdImages.safety.balanced': 'Balanced',
+  'hdImages.safety.relaxed': 'Relaxed',
+  'hdImages.default': 'Default',
+  'hdImages.clear': 'Saaf karo',
+  'hdImages.generate': 'Image banao',
+  'hdImages.addToQueue': 'Queue mein daalo',
+  'hdImages.inProgress': '{count} ban rahi hain',
+  'hdImages.allDone': 'Sab ho gaya',
+  'hdImages.favoritesOnly': 'Sirf favorites',
+  'hdImages.queue': 'Generation queue',
+  'hdImages.status.queued': 'Queue mein',
+  'hdImages.status.running': 'Ban rahi hai',
+  'hdImages.status.done': 'Ho gaya',
+  'hdImages.status.error': 'Fail ho gaya',
+  'hdImages.status.cancelled': 'Cancel ho gaya',
+  'hdImages.oneImage': '1 image',
+  'hdImages.variationCount': '{count} variations',
+  'hdImages.seedValue': 'seed {seed}',
+  'hdImages.cancel': 'Roko',
+  'hdImages.cancelJob': 'Job {position} roko',
+  'hdImages.remove': 'Hatao',
+  'hdImages.removeJob': 'Job {position} hatao',
+  'hdImages.generatingJob': 'Job {position} ban raha hai',
+  'hdImages.variationAlt': 'Variation {number}: {prompt}',
+  'hdImages.favorite': 'Favorites mein daalo',
+  'hdImages.unfavorite': 'Favorites se hatao',
+  'hdImages.download': 'Download',
+
+  'slideshow.title': 'Animated Slideshow Generator',
+  'slideshow.description': 'Apne text ko ek mazedaar animated slideshow video mein badlo - ya Bhaii se kisi topic par slides likhwao! Theme chuno, har slide ka timing, colors, images aur transitions set karo, phir video download karo. Haath se slides banane ke liye API key nahi chahiye - bilkul free aur student-friendly!',
+  'slideshow.ready': 'Animated slideshow banane ke liye text likho!',
+  'slideshow.loadedFromGallery': 'Gallery se slides load ho gayi. Edit karo, phir dobara export karo!',
+  'slideshow.emptyText': 'Slideshow ke liye kuch text likho.',
+  'slideshow.added': '{count} slides add ho gayi. Preview ke liye Play dabao!',
+  'slideshow.addedMax': '{count} slides add ho gayi (max {max}). Preview ke liye Play dabao!',
+  'slideshow.replaceConfirm': 'Abhi ki slides hata ke AI wali slides lagani hain?',
+  'slideshow.planning': 'Bhaii slides plan kar raha hai...',
+  'slideshow.generationCancelled': 'Generation cancel ho gaya.',
+  'slideshow.fallbackNote': ' (reply thoda messy tha, slides ek baar check kar lo)',
+  'slideshow.created': '{count} slides ban gayi{note}. Jo chaho edit karo, phir Play dabao!',
+  'slideshow.drawing': 'Illustration {current} / {total} ban raha hai...',
+  'slideshow.illustrationsStopped': '{count} illustrations ke baad ruk gaye. Slides ready hain!',
+  'slideshow.createdIllustrated': '{count} slides aur {illustrated} illustrations ban gaye{note}. Preview ke liye Play dabao!',
+  'slideshow.newSlide': 'Nayi slide',
+  'slideshow.recording': 'Video record ho raha hai... jitni lambi slideshow, utna time lagega.',
+  'slideshow.renderingGif': 'GIF ban raha hai...',
+  'slideshow.videoReady': 'Video ready hai! Neeche se download karo.',
+  'slideshow.gifFallback': 'Browser video record nahi kar sakta, isliye animated GIF bana diya. Neeche se download karo.',
+  'slideshow.gifReady': 'GIF ready hai! Neeche se download karo.',
+  'slideshow.exportCancelled': 'Export cancel ho gaya.',
+  'slideshow.exportFailed': 'Slideshow export nahi ho payi. Dobara try karo.',
+  'slideshow.finished': 'Slideshow khatam! Dobara dekhne ke liye Play dabao.',
+  'slideshow.themeLabel': 'Theme:',
+  'slideshow.themeGroup': 'Slideshow theme',
+  'slideshow.theme.classic': 'Classic Purple',
+  'slideshow.theme.sunset': 'Sunset',
+  'slideshow.theme.ocean': 'Ocean',
+  'slideshow.theme.chalkboard': 'Chalkboard',
+  'slideshow.theme.notebook': 'Notebook',
+  'slideshow.topicLabel': 'Topic se slides banao:',
+  'slideshow.topicPlaceholder': 'jaise Photosynthesis, Mughal Empire, Newton ke laws of motion',
+  'slideshow.slideCount': 'Slides',
+  'slideshow.illustrate': 'AI images se illustrate karo',
+  'slideshow.stop': 'Roko',
+  'slideshow.generate': 'Slides Banao',
+  'slideshow.illustrateHelp': 'Illustrations HD image generation se bante hain, jiske liye billing wali API key chahiye.',
+  'slideshow.textLabel': 'Quick start: slideshow ka text (har line ek slide):',
+  'slideshow.textPlaceholder': 'Apni amazing story yahan likho...\nHar line ek nayi slide banegi!\nChhota aur sweet rakho.',
+  'slideshow.textInputLabel': 'Slideshow ka text',
+  'slideshow.clearAll': 'Sab Clear Karo',
+  'slideshow.create': 'Slides Banao',
+  'slideshow.totalLength': 'Total length: {seconds} seconds',
+  'slideshow.exportHint': 'Submit ya share karne ke liye slideshow file download karo.',
+  'slideshow.cancelExport': 'Export Cancel Karo',
+  'slideshow.exportGif': 'GIF Export Karo',
+  'slideshow.exportVideo': 'Video Export Karo',
+  'slideshow.exportedVideo': 'Export kiya hua slideshow video',
+  'slideshow.exportedGif': 'Export kiya hua slideshow GIF',
+  'slideshow.downloadVideo': 'Video Download Karo (.webm)',
+  'slideshow.downloadGif': 'GIF Download Karo',
+  'slideshow.placeholder': 'Tumhari awesome slideshow yahan dikhegi!',
+  'slideshow.preview': 'Slideshow preview',
+  'slideshow.slideLabel': 'Slide {number}: {text}',
+  'slideshow.previousSlide': 'Pichhli slide',
+  'slideshow.prev': 'Pichhla',
+  'slideshow.nextSlide': 'Agli slide',
+  'slideshow.next': 'Agla',
+  'slideshow.playSlideshow': 'Slideshow play karo',
+  'slideshow.pauseSlideshow': 'Slideshow pause karo',
+  'slideshow.play': 'Play',
+  'slideshow.pause': 'Pause',
+  'slideshow.position': 'Slide {number} / {total}',
+  'slideshow.noSlides': 'Abhi koi slide nahi',
+  'slideshow.slidesHeading': 'Slides ({count}/{max})',
+  'slideshow.addSlide': 'Slide Add Karo',
+  'slideshow.slidesList': 'Slides',
+  'slideshow.imageOnly': '(image)',
+  'slideshow.emptySlide': '(khaali)',
+  'slideshow.moveUp': 'Slide {number} upar karo',
+  'slideshow.moveDown': 'Slide {number} neeche karo',
+  'slideshow.deleteSlide': 'Slide {number} delete karo',
+  'slideshow.emptyList': 'Abhi koi slide nahi. Ek add karo ya neeche text se banao.',
+  'slideshow.slideNumber': 'Slide {number}',
+  'slideshow.text': 'Text',
+  'slideshow.duration': 'Duration (seconds)',
+  'slideshow.transitionLabel': 'Transition',
+  'slideshow.transition.fadeUp': 'Fade up',
+  'slideshow.transition.fade': 'Cross-fade',
+  'slideshow.transition.zoom': 'Zoom in',
+  'slideshow.transition.slideLeft': 'Slide left',
+  'slideshow.transition.none': 'Koi nahi',
+  'slideshow.fontSizeLabel': 'Font size',
+  'slideshow.fontSize.small': 'Chhota',
+  'slideshow.fontSize.medium': 'Medium',
+  'slideshow.fontSize.large': 'Bada',
+  'slideshow.fontSize.xl': 'Bahut bada',
+  'slideshow.textColor': 'Text ka color',
+  'slideshow.background': 'Background',
+  'slideshow.backgroundType': 'Background type',
+  'slideshow.solidColor': 'Solid color',
+  'slideshow.gradient': 'Gradient',
+  'slideshow.backgroundColor': 'Background color',
+  'slideshow.gradientStart': 'Gradient ka shuru wala color',
+  'slideshow.gradientEnd': 'Gradient ka aakhri color',
+  'slideshow.image': 'Image',
+  'slideshow.addImage': 'Image Lagao',
+  'slideshow.changeImage': 'Image Badlo',
+  'slideshow.removeImage': 'Hatao',
+};
+
+const hi: Partial<MessageCatalog> = {
+  'app.languageLabel': 'भाषा',
+
+  'nav.home': 'होम',
+  'nav.chat': 'भाई चैट',
+  'nav.imageEditor': 'इमेज एडिटर',
+  'nav.slideshow': 'एनिमेटेड स्लाइडशो',
+  'nav.hdImages': 'HD इमेज जनरेटर',
+  'nav.video': 'वीडियो जनरेटर',
+  'nav.gallery': 'मेरी रचनाएँ',
+
+  'home.title': 'भाई AI स्टूडियो में आपका स्वागत है!',
+  'home.subtitle': 'क्रिएटिव AI के लिए आपकी अपनी जगह। शुरू करने के लिए नीचे कोई फ़ीचर चुनें!',
+  'home.launch': 'खोलें',
+  'home.chat.title': 'भाई चैट',
+  'home.chat.description': 'अपने मददगार AI भाई से बात करें! जल्दी, दोस्ताना सलाह और हौसला बढ़ाने वाली बातें पाएँ।',
+  'home.imageEditor.title': 'Gemini इमेज एडिटर',
+  'home.imageEditor.description': 'अपनी रचनात्मकता दिखाएँ! कोई इमेज अपलोड करें और टेक्स्ट लिखकर उसे Gemini 2.5 Flash Image से एडिट करें। फ़िल्टर लगाएँ, चीज़ें हटाएँ और भी बहुत कुछ!',
+  'home.slideshow.title': 'एनिमेटेड स्लाइडशो',
+  'home.slideshow.description': 'अपने टेक्स्ट से छोटा, मज़ेदार एनिमेटेड स्लाइडशो बनाएँ! डेमो और स्कूल प्रोजेक्ट के लिए बढ़िया, API की की ज़रूरत नहीं!',
+  'home.hdImages.title': 'HD इमेज जनरेटर',
+  'home.hdImages.description': 'टेक्स्ट से साफ़ और बारीक, हाई-क्वालिटी इमेज बनाएँ। स्कूल प्रोजेक्ट, पोस्टर और प्रेज़ेंटेशन के लिए बढ़िया!',
+  'home.video.title': 'वीडियो जनरेटर',
+  'home.video.description': 'टेक्स्ट (और चाहें तो एक रेफ़रेंस इमेज) से Veo की मदद से छोटी वीडियो क्लिप बनाएँ।',
+  'home.gallery.title': 'मेरी रचनाएँ',
+  'home.gallery.description': 'आपकी हर एडिट की गई या बनाई गई इमेज और हर स्लाइडशो एक ही जगह। खोजें, ZIP में डाउनलोड करें या सेटिंग्स दोबारा इस्तेमाल करें!',
+
+  'chat.nameLabel': 'आपका नाम:',
+  'chat.namePlaceholder': 'अपना नाम लिखें',
+  'chat.rememberMe': 'मुझे याद रखो',
+  'chat.personaLabel': 'पर्सोना:',
+  'chat.managePersonas': 'बदलें',
+  'chat.welcome': 'नमस्ते! क्या हाल है? आप कैसे हैं?',
+  'chat.welcomeNamed': 'नमस्ते {name}! क्या हाल है? आप कैसे हैं?',
+  'chat.typing': '{name} लिख रहे हैं...',
+  'chat.stopped': '(रोका गया)',
+  'chat.summarizing': 'पुराने संदेशों का सारांश बना रहे हैं...',
+  'chat.summaryNotice': '{count} पुराने संदेशों का सारांश बना दिया गया है, ताकि {name} इस लंबी चैट को याद रख सकें।',
+  'chat.showSummary': 'सारांश देखें',
+  'chat.hideSummary': 'सारांश छिपाएँ',
+  'chat.inputPlaceholder': 'अपना संदेश लिखें...',
+  'chat.send': 'भेजें',
+  'chat.stop': 'रोकें',
+  'chat.stopAria': 'जवाब रोकें',
+  'chat.replyFailed': 'उफ़, कुछ गड़बड़ हो गई।',
+  'chat.sendFailed': 'भाई को कुछ दिक्कत हो गई। कृपया दोबारा कोशिश करें।',
+
+  'voice.start': 'बोलकर संदेश लिखें',
+  'voice.listening': 'सुन रहे हैं... रोकने के लिए दबाएँ',
+  'voice.recording': 'रिकॉर्ड हो रहा है... रोकने के लिए दबाएँ',
+  'voice.transcribing': 'लिखा जा रहा है...',
+  'voice.permissionDenied': 'माइक्रोफ़ोन की अनुमति बंद है। भाई से बोलने के लिए ब्राउज़र सेटिंग में इसे चालू करें।',
+  'voice.noSpeech': 'कुछ सुनाई नहीं दिया। कृपया फिर से बोलें।',
+  'voice.failed': 'वॉइस इनपुट काम नहीं किया। कृपया संदेश टाइप करें।',
+  'voice.readAloud': 'पढ़कर सुनाएँ',
+  'voice.stopReading': 'सुनाना रोकें',
+  'voice.settings': 'आवाज़',
+  'voice.settingsTitle': 'पढ़कर सुनाने की सेटिंग',
+  'voice.test': 'आवाज़ जाँचें',
+  'voice.sample': 'नमस्ते! मेरी आवाज़ ऐसी सुनाई देगी।',
+  'voice.close': 'बंद करें',
+  'voice.voiceLabel': 'आवाज़',
+  'voice.automatic': 'अपने आप',
+  'voice.rateLabel': 'गति ({rate}x)',
+  'voice.autoRead': 'नए जवाब अपने आप पढ़कर सुनाएँ',
+  'voice.noVoices': 'इस ब्राउज़र में अभी कोई आवाज़ इंस्टॉल नहीं है। आपका डिवाइस बाद में इन्हें जोड़ सकता है।',
+
+  'attachments.add': 'फ़ोटो या फ़ाइल जोड़ें',
+  'attachments.listLabel': 'संलग्न फ़ाइलें',
+  'attachments.remove': '{name} हटाएँ',
+  'attachments.tooMany': 'एक संदेश में ज़्यादा से ज़्यादा {count} फ़ाइलें जोड़ी जा सकती हैं।',
+  'attachments.unsupported': '{name}: सिर्फ़ फ़ोटो, PDF और टेक्स्ट फ़ाइलें जोड़ी जा सकती हैं।',
+  'attachments.tooLarge': '{name} भेजने के लिए बहुत बड़ी है (PDF 4 MB तक, टेक्स्ट फ़ाइलें 512 KB तक)।',
+  'attachments.unreadable': '{name} पढ़ी नहीं जा सकी।',
+
+  'markdown.code': 'कोड',
+  'markdown.copy': 'कॉपी करें',
+  'markdown.copied': 'कॉपी हो गया!',
+
+  'messages.copy': 'कॉपी करें',
+  'messages.copied': 'कॉपी हो गया!',
+  'messages.edit': 'बदलकर दोबारा भेजें',
+  'messages.editLabel': 'अपना संदेश बदलें',
+  'messages.resend': 'सहेजें और भेजें',
+  'messages.cancelEdit': 'रद्द करें',
+  'messages.resendHint': 'इसके बाद के संदेश नए जवाब से बदल जाएँगे।',
+  'messages.regenerate': 'नया जवाब बनाएँ',
+  'messages.versions': 'जवाब के संस्करण',
+  'messages.previousVersion': 'पिछला संस्करण',
+  'messages.nextVersion': 'अगला संस्करण',
+  'messages.goodReply': 'अच्छा जवाब',
+  'messages.badReply': 'खराब जवाब',
+  'messages.delete': 'संदेश हटाएँ',
+  'messages.deleteConfirm': 'यह संदेश हटाएँ?',
+
+  'conversations.new': '+ नई चैट',
+  'conversations.listLabel': 'बातचीत',
+  'conversations.pinned': 'पिन की गई',
+  'conversations.pin': 'पिन करें',
+  'conversations.unpin': 'पिन हटाएँ',
+  'conversations.pinAria': 'बातचीत पिन करें',
+  'conversations.unpinAria': 'बातचीत से पिन हटाएँ',
+  'conversations.rename': 'नाम बदलें',
+  'conversations.renameAria': 'बातचीत का नाम बदलें',
+  'conversations.titleAria': 'बातचीत का शीर्षक',
+  'conversations.delete': 'हटाएँ',
+  'conversations.deleteAria': 'बातचीत हटाएँ',
+  'conversations.deleteConfirm': '"{title}" हटाएँ? इसे वापस नहीं लाया जा सकता।',
+
+  'personas.title': 'पर्सोना',
+  'personas.import': 'JSON इम्पोर्ट करें',
+  'personas.export': 'JSON एक्सपोर्ट करें',
+  'personas.close': 'बंद करें',
+  'personas.copy': 'कॉपी करें',
+  'personas.copyName': '{name} (कॉपी)',
+  'personas.edit': 'बदलें',
+  'personas.delete': 'हटाएँ',
+  'personas.deleteConfirm': '"{name}" पर्सोना हटाएँ? इसका इस्तेमाल करने वाली चैट फिर से भाई पर आ जाएँगी।',
+  'personas.saved': '"{name}" सेव हो गया।',
+  'personas.imported': '{count} पर्सोना इम्पोर्ट हुए।',
+  'personas.importFailed': 'यह फ़ाइल इम्पोर्ट नहीं हो सकी।',
+  'personas.invalidJson': 'यह फ़ाइल सही JSON नहीं है।',
+  'personas.noPersonas': 'इस फ़ाइल में कोई पर्सोना नहीं मिला।',
+  'personas.name': 'नाम',
+  'personas.avatar': 'अवतार (इमोजी)',
+  'personas.tone': 'अंदाज़',
+  'personas.tonePlaceholder': 'जैसे: शांत और हौसला बढ़ाने वाला',
+  'personas.languageMix': 'भाषा का मेल',
+  'personas.languageMixPlaceholder': 'जैसे: हिंग्लिश और थोड़ी मराठी',
+  'personas.instruction': 'सिस्टम निर्देश',
+  'personas.instructionPlaceholder': 'बताएँ कि यह पर्सोना कौन है और कैसे जवाब देगा...',
+  'personas.cancel': 'रद्द करें',
+  'personas.saveChanges': 'बदलाव सेव करें',
+  'personas.create': 'पर्सोना बनाएँ',
+  'personas.new': '+ नया पर्सोना',
+  'memory.button': 'यादें',
+  'memory.title': 'Bhaii को आपके बारे में क्या याद है',
+  'memory.close': 'बंद करें',
+  'memory.enabled': 'चैट में सहेजी यादें इस्तेमाल करें और नई यादें सुझाएँ',
+  'memory.localOnly': 'यादें सिर्फ़ इसी ब्राउज़र में सहेजी जाती हैं। चैट से जुड़ी यादें आपके संदेशों के साथ भेजी जाती हैं।',
+  'memory.notPersisted': 'Bhaii बंद करने के बाद भी यादें रखने के लिए "मुझे याद रखो" चालू करें।',
+  'memory.empty': 'अभी कुछ सहेजा नहीं गया है। जब आप कुछ याद रखने लायक बताएँगे, तो Bhaii सहेजने से पहले पूछेंगे।',
+  'memory.addLabel': 'नई याद',
+  'memory.addPlaceholder': 'जैसे: मेरी बोर्ड परीक्षा 1 मार्च से है',
+  'memory.add': 'जोड़ें',
+  'memory.edit': 'बदलें',
+  'memory.editLabel': 'याद बदलें',
+  'memory.save': 'सहेजें',
+  'memory.cancel': 'रद्द करें',
+  'memory.delete': 'भूल जाएँ',
+  'memory.deleteConfirm': '"{text}" भूल जाएँ?',
+  'memory.clearAll': 'सब भूल जाएँ',
+  'memory.clearAllConfirm': 'सभी {count} यादें हटाएँ? यह वापस नहीं होगा।',
+  'memory.proposal': 'क्या यह याद रखें?',
+  'memory.accept': 'सहेजें',
+  'memory.dismiss': 'नहीं, रहने दें',
+  'memory.saved': 'याद में सहेजा गया',
+
+  'errors.auth': 'API कुंजी में समस्या है। कृपया डायलॉग से अपनी API कुंजी फिर से चुनें।',
+  'errors.billing': 'API कुंजी में समस्या: इस सुविधा के लिए बिलिंग ज़रूरी है। अपनी API कुंजी पर बिलिंग चालू करके उसे फिर से चुनें।',
+  'errors.rateLimit': 'अभी बहुत ज़्यादा अनुरोध आ रहे हैं। थोड़ा रुककर फिर कोशिश करें।',
+  'errors.safetyBlocked': 'सुरक्षा फ़िल्टर ने यह अनुरोध रोक दिया। कृपया कोई दूसरा प्रॉम्प्ट आज़माएँ।',
+  'errors.network': 'नेटवर्क में समस्या है। अपना कनेक्शन जाँचकर फिर कोशिश करें।',
+  'errors.invalidInput': 'यह अनुरोध स्वीकार नहीं हुआ। अपना इनपुट जाँचकर फिर कोशिश करें।',
+  'errors.noOutput': 'कोई नतीजा नहीं मिला। कृपया कोई दूसरा प्रॉम्प्ट आज़माएँ।',
+  'errors.unknown': 'माफ़ कीजिए, कुछ गड़बड़ हो गई। कृपया फिर से कोशिश करें।',
+  'errors.missingApiKey': 'इस ऐप के लिए कोई API कुंजी सेट नहीं है। कृपया अपने एनवायरनमेंट में API_KEY सेट करें।',
+  'errors.emptyMessage': 'कृपया संदेश लिखें या कोई फ़ाइल जोड़ें।',
+  'errors.noEditImage': 'एडिट करने के लिए कृपया एक इमेज जोड़ें।',
+  'errors.tooManyEditImages': 'एक एडिट में ज़्यादा से ज़्यादा {count} इमेज जोड़ी जा सकती हैं।',
+  'errors.emptyImagePrompt': 'इमेज बनाने के लिए कृपया प्रॉम्प्ट लिखें।',
+  'errors.emptyEnhancePrompt': 'बेहतर बनाने के लिए कृपया एक छोटा-सा आइडिया लिखें।',
+  'errors.emptyRecording': 'रिकॉर्डिंग खाली है। कृपया फिर से कोशिश करें।',
+  'errors.emptySlideshowTopic': 'कृपया स्लाइड शो का विषय लिखें।',
+  'errors.emptyVideoPrompt': 'कृपया बताएँ कि आप कैसा वीडियो बनाना चाहते हैं।',
+  'errors.noEditedImage': 'एडिट की हुई इमेज नहीं बन सकी। कृपया कोई दूसरा प्रॉम्प्ट आज़माएँ।',
+  'errors.noHdImage': 'HD इमेज नहीं बन सकी। कृपया कोई दूसरा प्रॉम्प्ट आज़माएँ।',
+  'errors.noEnhancedPrompt': 'यह प्रॉम्प्ट बेहतर नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'errors.noSlides': 'इस विषय पर स्लाइड नहीं बन सकीं। कृपया विषय को दूसरे शब्दों में लिखें।',
+  'errors.noVideo': 'वीडियो पूरा हुआ, पर कोई आउटपुट नहीं मिला। कृपया कोई दूसरा प्रॉम्प्ट आज़माएँ।',
+  'errors.unsupportedImageFormat': 'यह ब्राउज़र इस इमेज फ़ॉर्मैट (जैसे HEIC या TIFF) को नहीं पढ़ सकता। कृपया पहले इसे JPEG या PNG में बदलें।',
+  'errors.unreadableImage': 'यह इमेज पढ़ी नहीं जा सकी।',
+
+  'gallery.loadFailed': 'आपकी गैलरी लोड नहीं हो सकी।',
+  'gallery.deleteFailed': 'ये आइटम हटाए नहीं जा सके। कृपया फिर से कोशिश करें।',
+  'gallery.title': 'मेरी रचनाएँ',
+  'gallery.description': 'इमेज एडिटर, HD इमेज जनरेटर और स्लाइडशो में आप जो भी बनाते हैं, वह इसी डिवाइस पर यहाँ सहेजा जाता है।',
+  'gallery.search': 'गैलरी में खोजें',
+  'gallery.searchPlaceholder': 'प्रॉम्प्ट खोजें...',
+  'gallery.filterByTool': 'टूल के अनुसार छाँटें',
+  'gallery.allTools': 'सभी टूल',
+  'gallery.tool.imageEditor': 'इमेज एडिटर',
+  'gallery.tool.hdImages': 'HD इमेज जनरेटर',
+  'gallery.tool.slideshow': 'स्लाइडशो',
+  'gallery.selectAll': 'सभी चुनें',
+  'gallery.selectedCount': '{count} चुने गए',
+  'gallery.deleteSelected': 'चुने हुए हटाएँ',
+  'gallery.downloadSelected': 'चुने हुए डाउनलोड करें (ZIP)',
+  'gallery.downloadAll': 'सभी डाउनलोड करें (ZIP)',
+  'gallery.deleteOneConfirm': 'क्या यह आइटम आपकी गैलरी से हटाना है?',
+  'gallery.deleteManyConfirm': 'क्या {count} आइटम आपकी गैलरी से हटाने हैं?',
+  'gallery.itemMissing': 'यह आइटम अब आपकी गैलरी में नहीं है।',
+  'gallery.itemDetails': 'गैलरी आइटम का विवरण',
+  'gallery.noPrompt': 'कोई प्रॉम्प्ट नहीं',
+  'gallery.noModel': 'कोई AI मॉडल नहीं',
+  'gallery.reuse': 'सेटिंग्स दोबारा इस्तेमाल करें',
+  'gallery.download': 'डाउनलोड करें',
+  'gallery.delete': 'हटाएँ',
+  'gallery.close': 'बंद करें',
+  'gallery.loading': 'आपकी गैलरी लोड हो रही है...',
+  'gallery.empty': 'अभी यहाँ कुछ नहीं है। आपके संपादन, HD चित्र और स्लाइडशो एक्सपोर्ट यहाँ दिखेंगे!',
+  'gallery.noMatches': 'आपकी खोज से कोई आइटम मेल नहीं खाता।',
+  'gallery.items': 'गैलरी आइटम',
+  'gallery.openItem': 'खोलें: {name}',
+  'gallery.selectItem': 'चुनें: {name}',
+  'gallery.settings.selectedArea': 'केवल चुना हुआ हिस्सा',
+  'gallery.settings.wholeImage': 'पूरा चित्र',
+  'gallery.settings.referenceImage': '+{count} संदर्भ चित्र',
+  'gallery.settings.referenceImages': '+{count} संदर्भ चित्र',
+  'gallery.settings.aspectRatio': 'आस्पेक्ट रेशियो {ratio}',
+  'gallery.settings.style': 'शैली: {style}',
+  'gallery.settings.avoid': 'इनसे बचें: {text}',
+  'gallery.settings.seed': 'सीड {seed}',
+  'gallery.settings.people': 'लोग: {value}',
+  'gallery.settings.safety': 'सुरक्षा: {value}',
+  'gallery.settings.slide': '{count} स्लाइड',
+  'gallery.settings.slides': '{count} स्लाइड',
+  'gallery.settings.theme': 'थीम: {theme}',
+  'gallery.settings.webm': 'वीडियो (.webm)',
+  'gallery.settings.gif': 'एनिमेटेड GIF',
+
+  'imageEditor.title': 'इमेज एडिटर (Nano Banana पर आधारित)',
+  'imageEditor.galleryImage': 'आपकी गैलरी की इमेज',
+  'imageEditor.editing': 'एडिट हो रही है:',
+  'imageEditor.addMore': 'और इमेज जोड़ने के लिए ड्रॉप, पेस्ट या क्लिक करें ({count} तक)।',
+  'imageEditor.dropHint': 'इमेज अपलोड करने के लिए ड्रैग और ड्रॉप, पेस्ट या क्लिक करें',
+  'imageEditor.invalidFile': 'कृपया सही इमेज फ़ाइल चुनें (jpeg, png, gif, webp)।',
+  'imageEditor.tooManyImages': 'ज़्यादा से ज़्यादा {count} इमेज जोड़ी जा सकती हैं।',
+  'imageEditor.someLeftOut': 'ज़्यादा से ज़्यादा {count} इमेज जोड़ी जा सकती हैं, इसलिए कुछ छोड़ दी गईं।',
+  'imageEditor.missingInput': 'कृपया इमेज अपलोड करें और एडिट का प्रॉम्प्ट लिखें।',
+  'imageEditor.preparing': 'इमेज तैयार हो रही है...',
+  'imageEditor.uploadSummary': 'अपलोड से पहले और बाद का साइज़',
+  'imageEditor.rotatedUpright': 'सीधी की गई',
+  'imageEditor.promptLabel': 'एडिट प्रॉम्प्ट (जैसे "रेट्रो फ़िल्टर लगाएँ", "व्यक्ति को हटाएँ"):',
+  'imageEditor.combinePromptLabel': 'एडिट प्रॉम्प्ट (जैसे "इमेज 1 के व्यक्ति को इमेज 2 के बैकग्राउंड में रखें"):',
+  'imageEditor.refinePromptLabel': '{version} को और बेहतर करें (जैसे "आसमान को थोड़ा और गुलाबी करें"):',
+  'imageEditor.promptPlaceholder': 'बताएँ कि आप इमेज में क्या बदलना चाहते हैं...',
+  'imageEditor.maskMode': 'सिर्फ़ चुना हुआ हिस्सा एडिट करें',
+  'imageEditor.undo': 'पहले जैसा करें',
+  'imageEditor.undoLabel': 'एडिट वापस लें',
+  'imageEditor.redo': 'फिर से करें',
+  'imageEditor.redoLabel': 'एडिट फिर से करें',
+  'imageEditor.clear': 'साफ़ करें',
+  'imageEditor.submit': 'इमेज एडिट करें',
+  'imageEditor.submitting': 'एडिट हो रही है...',
+  'imageEditor.noteSelectedArea': 'चुना हुआ हिस्सा',
+  'imageEditor.noteImages': '+{count} इमेज',
+  'imageEditor.compare': 'तुलना करें',
+  'imageEditor.compareWith': 'और',
+  'imageEditor.compareFirst': 'तुलना के लिए पहला वर्ज़न',
+  'imageEditor.compareSecond': 'तुलना के लिए दूसरा वर्ज़न',
+  'imageEditor.compareView': 'तुलना का तरीका',
+  'imageEditor.sideBySide': 'साथ-साथ',
+  'imageEditor.slider': 'स्लाइडर',
+  'imageEditor.compareSlider': '{before} और {after} की तुलना के लिए स्लाइड करें',
+  'imageEditor.original': 'मूल',
+  'imageEditor.originalImage': 'मूल इमेज',
+  'imageEditor.download': '{version} डाउनलोड करें',
+  'imageEditor.versions': 'वर्ज़न',
+  'imageEditor.versionsLabel': 'इमेज के वर्ज़न',
+  'imageEditor.newBranch': 'नई शाखा',
+  'imageEditor.branchHint': 'किसी भी वर्ज़न से एडिट जारी रखें - आगे के एडिट अलग शाखा में रहेंगे।',
+  'imageEditor.empty': 'शुरू करने के लिए एक इमेज अपलोड करें!',
+  'imageEditor.uploadSettings': 'अपलोड सेटिंग्स',
+  'imageEditor.uploadSettingsHelp': 'अपलोड से पहले फ़ोटो सीधी की जाती हैं और लोकेशन/कैमरा की जानकारी हटा दी जाती है। बदलाव अगली जोड़ी गई इमेज पर लागू होंगे।',
+  'imageEditor.maxSize': 'अधिकतम साइज़ (लंबी भुजा)',
+  'imageEditor.pixels': '{count} px',
+  'imageEditor.originalSize': 'मूल साइज़',
+  'imageEditor.format': 'फ़ॉर्मैट',
+  'imageEditor.formatJpeg': 'JPEG',
+  'imageEditor.formatWebp': 'WebP',
+  'imageEditor.formatPng': 'PNG (बिना क्वालिटी खोए)',
+  'imageEditor.quality': 'क्वालिटी: {percent}%',
+  'imageEditor.inputsTitle': 'इस एडिट की इमेज ({count}/{max})',
+  'imageEditor.inputsLabel': 'इस एडिट की इमेज',
+  'imageEditor.imageNumber': 'इमेज {number}',
+  'imageEditor.beingEdited': 'एडिट हो रही है',
+  'imageEditor.moveEarlier': 'इमेज {number} को पहले करें',
+  'imageEditor.moveLater': 'इमेज {number} को बाद में करें',
+  'imageEditor.removeImage': 'इमेज {number} हटाएँ',
+  'imageEditor.labelPlaceholder': 'लेबल (वैकल्पिक)',
+  'imageEditor.labelFor': 'इमेज {number} का लेबल',
+  'imageEditor.maskTool': 'मास्क टूल',
+  'imageEditor.maskBrush': 'ब्रश',
+  'imageEditor.maskEraser': 'रबर',
+  'imageEditor.maskLasso': 'लासो',
+  'imageEditor.brushSizeShort': 'साइज़',
+  'imageEditor.brushSize': 'ब्रश का साइज़',
+  'imageEditor.invertMask': 'उलटें',
+  'imageEditor.clearMask': 'मास्क साफ़ करें',
+  'imageEditor.maskImageAlt': 'मास्क लगाने वाली इमेज',
+  'imageEditor.maskCanvasLabel': 'एडिट करने वाले हिस्से पर पेंट करें',
+  'imageEditor.maskHelp': 'जिस हिस्से को बदलना है उस पर पेंट करें। बाकी सब बिल्कुल वैसा ही रहेगा।',
+
+  'apiKey.select': 'API कुंजी चुनें',
+  'apiKey.opening': 'API कुंजी चुनने का डायलॉग खुल रहा है...',
+  'apiKey.required': 'कृपया पहले अपनी API कुंजी चुनें।',
+  'apiKey.billingDocsBefore': 'बिलिंग से जुड़ी जानकारी का लिंक ',
+  'apiKey.billingDocsLink': 'यहाँ',
+  'apiKey.billingDocsAfter': ' है।',
+  'video.title': 'वीडियो जनरेटर',
+  'video.description': 'कोई दृश्य बताएँ और एक छोटा वीडियो क्लिप पाएँ। लुक तय करने या पहले फ़्रेम के रूप में इस्तेमाल करने के लिए रेफ़रेंस इमेज जोड़ें। यह सुविधा Google के Veo मॉडल का उपयोग करती है और इसके लिए बिलिंग वाली API कुंजी ज़रूरी है।',
+  'video.ready': 'वीडियो बनाने के लिए तैयार!',
+  'video.selectKey': 'वीडियो बनाने के लिए कृपया अपनी API कुंजी चुनें (बिलिंग ज़रूरी है)।',
+  'video.keySelected': 'API कुंजी चुन ली गई। अब आप वीडियो बना सकते हैं।',
+  'video.billingRequired': 'API कुंजी में समस्या: वीडियो बनाने के लिए बिलिंग ज़रूरी है। अपनी API कुंजी पर बिलिंग चालू करके उसे फिर से चुनें।',
+  'video.invalidFile': 'कृपया सही इमेज फ़ाइल चुनें (jpeg, png, webp)।',
+  'video.promptLabel': 'वीडियो प्रॉम्प्ट:',
+  'video.promptPlaceholder': "अपना वीडियो बताएँ (जैसे 'बारिश वाली सड़क पर तैरती कागज़ की नाव, सिनेमैटिक, स्लो मोशन')...",
+  'video.aspectRatio': 'आस्पेक्ट रेशियो:',
+  'video.landscape': '16:9 (लैंडस्केप)',
+  'video.portrait': '9:16 (पोर्ट्रेट / रील्स)',
+  'video.referenceImage': 'रेफ़रेंस इमेज (वैकल्पिक):',
+  'video.referenceAlt': 'रेफ़रेंस',
+  'video.removeReference': 'हटाएँ',
+  'video.chooseImage': 'इमेज चुनें',
+  'video.waiting1': 'कैमरे तैयार हो रहे हैं...',
+  'video.waiting2': 'दृश्य सजाया जा रहा है...',
+  'video.waiting3': 'फ़्रेम बन रहे हैं... इसमें आमतौर पर कुछ मिनट लगते हैं।',
+  'video.waiting4': 'आख़िरी बदलाव हो रहे हैं...',
+  'video.waiting5': 'बस हो ही गया, थोड़ा धीरज रखें!',
+  'video.elapsed': 'बीता समय {time}',
+  'video.cancel': 'रद्द करें',
+  'video.clear': 'साफ़ करें',
+  'video.generate': 'वीडियो बनाएँ',
+  'video.generating': 'बन रहा है...',
+  'video.cancelled': 'वीडियो बनाना रद्द किया गया।',
+  'video.done': 'वीडियो बन गया!',
+  'video.result': 'बना हुआ वीडियो',
+  'video.resultLabel': 'बना हुआ वीडियो',
+  'video.previewAlt': 'वीडियो प्रीव्यू',
+  'video.offlinePlaceholder': 'ऑफ़लाइन मोड: असली वीडियो की जगह प्लेसहोल्डर दिख रहा है।',
+  'video.download': 'वीडियो डाउनलोड करें',
+
+  'hdImages.title': 'HD इमेज जनरेटर',
+  'hdImages.description': 'टेक्स्ट प्रॉम्प्ट से उच्च-गुणवत्ता वाली, साफ़ और विस्तृत इमेज बनाएँ। स्कूल डेमो, पोस्टर और प्रेज़ेंटेशन के लिए बढ़िया! यह सुविधा Google Gemini की इमेज बनाने की क्षमता का उपयोग करती है और इसके लिए बिलिंग वाली API कुंजी ज़रूरी है।',
+  'hdImages.ready': 'HD इमेज बनाने के लिए तैयार!',
+  'hdImages.selectKey': 'HD इमेज बनाने के लिए कृपया अपनी API कुंजी चुनें (बिलिंग ज़रूरी है)।',
+  'hdImages.keySelected': 'API कुंजी चुन ली गई। अब आप HD इमेज बना सकते हैं।',
+  'hdImages.billingRequired': 'API कुंजी में समस्या: HD इमेज के लिए बिलिंग ज़रूरी है। अपनी API कुंजी पर बिलिंग चालू करके उसे फिर से चुनें।',
+  'hdImages.generating': 'HD इमेज बन रही हैं... इसमें थोड़ा समय लग सकता है।',
+  'hdImages.invalidSeed': 'सीड 0 से {max} के बीच की पूर्ण संख्या होनी चाहिए।',
+  'hdImages.promptLabel': 'इमेज प्रॉम्प्ट:',
+  'hdImages.enhance': 'प्रॉम्प्ट बेहतर करें',
+  'hdImages.promptPlaceholder': "बताएँ कि आपको कैसी इमेज चाहिए (जैसे 'जादुई जंगल में एक अनोखे ट्री-हाउस की रंगीन वॉटरकलर पेंटिंग')...",
+  'hdImages.promptHelp': 'जितना विस्तार से लिखेंगे, नतीजा उतना अच्छा होगा! एक इमेज बनते समय आप और प्रॉम्प्ट कतार में जोड़ सकते हैं।',
+  'hdImages.suggestedPrompt': 'सुझाया गया प्रॉम्प्ट - इस्तेमाल से पहले देख लें या बदल लें:',
+  'hdImages.discard': 'छोड़ें',
+  'hdImages.usePrompt': 'यह प्रॉम्प्ट इस्तेमाल करें',
+  'hdImages.style': 'स्टाइल:',
+  'hdImages.stylePreset': 'स्टाइल प्रीसेट',
+  'hdImages.style.none': 'कोई नहीं',
+  'hdImages.style.poster': 'पोस्टर',
+  'hdImages.style.watercolor': 'वॉटरकलर',
+  'hdImages.style.diagram': 'आरेख',
+  'hdImages.style.photo': 'फ़ोटो',
+  'hdImages.style.cartoon': 'कार्टून',
+  'hdImages.style.sketch': 'पेंसिल स्केच',
+  'hdImages.style.infographic': 'इन्फ़ोग्राफ़िक',
+  'hdImages.style.pixelArt': 'पिक्सल आर्ट',
+  'hdImages.aspectRatio': 'आस्पेक्ट रेशियो:',
+  'hdImages.aspectRatioLabel': 'इमेज का आस्पेक्ट रेशियो चुनें',
+  'hdImages.aspect.square': '1:1 (वर्गाकार)',
+  'hdImages.aspect.portrait': '3:4 (पोर्ट्रेट)',
+  'hdImages.aspect.landscape': '4:3 (लैंडस्केप)',
+  'hdImages.aspect.tallPortrait': '9:16 (लंबा पोर्ट्रेट)',
+  'hdImages.aspect.wideLandscape': '16:9 (चौड़ा लैंडस्केप)',
+  'hdImages.variations': 'वेरिएशन:',
+  'hdImages.variationsLabel': 'वेरिएशन की संख्या',
+  'hdImages.format': 'फ़ॉर्मैट:',
+  'hdImages.formatJpeg': 'JPEG (छोटी फ़ाइलें)',
+  'hdImages.formatPng': 'PNG (बिना क्वालिटी खोए)',
+  'hdImages.advanced': 'उन्नत सेटिंग्स',
+  'hdImages.negativePrompt': 'नेगेटिव प्रॉम्प्ट (क्या नहीं चाहिए)',
+  'hdImages.negativePromptPlaceholder': 'जैसे टेक्स्ट, वॉटरमार्क, धुंधलापन',
+  'hdImages.seed': 'सीड',
+  'hdImages.seedRandom': 'रैंडम',
+  'hdImages.randomSeed': 'रैंडम सीड चुनें',
+  'hdImages.seedHelp': 'वही सेटिंग्स और वही सीड दोबारा देने पर वही तस्वीर मिलेगी।',
+  'hdImages.people': 'इमेज में लोग',
+  'hdImages.people.none': 'कोई व्यक्ति नहीं',
+  'hdImages.people.adults': 'सिर्फ़ वयस्क',
+  'hdImages.people.all': 'वयस्क और बच्चे',
+  'hdImages.safety': 'सुरक्षा फ़िल्टर',
+  'hdImages.safety.strict': 'सख़्त',
+  'hdImages.safety.balanced': 'संतुलित',
+  'hdImages.safety.relaxed': 'ढीला',
+  'hdImages.default': 'डिफ़ॉल्ट',
+  'hdImages.clear': 'साफ़ करें',
+  'hdImages.generate': 'इमेज बनाएँ',
+  'hdImages.addToQueue': 'कतार में जोड़ें',
+  'hdImages.inProgress': '{count} बन रही हैं',
+  'hdImages.allDone': 'सब पूरा हुआ',
+  'hdImages.favoritesOnly': 'सिर्फ़ पसंदीदा',
+  'hdImages.queue': 'इमेज बनाने की कतार',
+  'hdImages.status.queued': 'कतार में',
+  'hdImages.status.running': 'बन रही है',
+  'hdImages.status.done': 'पूरा',
+  'hdImages.status.error': 'विफल',
+  'hdImages.status.cancelled': 'रद्द',
+  'hdImages.oneImage': '1 इमेज',
+  'hdImages.variationCount': '{count} वेरिएशन',
+  'hdImages.seedValue': 'सीड {seed}',
+  'hdImages.cancel': 'रद्द करें',
+  'hdImages.cancelJob': 'काम {position} रद्द करें',
+  'hdImages.remove': 'हटाएँ',
+  'hdImages.removeJob': 'काम {position} हटाएँ',
+  'hdImages.generatingJob': 'काम {position} बन रहा है',
+  'hdImages.variationAlt': 'वेरिएशन {number}: {prompt}',
+  'hdImages.favorite': 'पसंदीदा में जोड़ें',
+  'hdImages.unfavorite': 'पसंदीदा से हटाएँ',
+  'hdImages.download': 'डाउनलोड',
+
+  'slideshow.title': 'एनिमेटेड स्लाइडशो जनरेटर',
+  'slideshow.description': 'अपने टेक्स्ट को एक मज़ेदार एनिमेटेड स्लाइडशो वीडियो में बदलें - या भाई से किसी विषय पर स्लाइड लिखवाएँ! थीम चुनें, हर स्लाइड का समय, रंग, चित्र और ट्रांज़िशन सेट करें, फिर इसे वीडियो के रूप में डाउनलोड करें। हाथ से स्लाइड बनाने के लिए API कुंजी की ज़रूरत नहीं - पूरी तरह मुफ़्त और विद्यार्थियों के लिए आसान!',
+  'slideshow.ready': 'अपना एनिमेटेड स्लाइडशो बनाने के लिए टेक्स्ट लिखें!',
+  'slideshow.loadedFromGallery': 'आपकी गैलरी से स्लाइड लोड हो गईं। इन्हें संपादित करें, फिर दोबारा एक्सपोर्ट करें!',
+  'slideshow.emptyText': 'कृपया अपने स्लाइडशो के लिए कुछ टेक्स्ट लिखें।',
+  'slideshow.added': '{count} स्लाइड जोड़ी गईं। पूर्वावलोकन के लिए चलाएँ दबाएँ!',
+  'slideshow.addedMax': '{count} स्लाइड जोड़ी गईं (अधिकतम {max})। पूर्वावलोकन के लिए चलाएँ दबाएँ!',
+  'slideshow.replaceConfirm': 'क्या अपनी मौजूदा स्लाइड की जगह AI से बनी स्लाइड लगानी हैं?',
+  'slideshow.planning': 'भाई आपकी स्लाइड की योजना बना रहा है...',
+  'slideshow.generationCancelled': 'जनरेशन रद्द किया गया।',
+  'slideshow.fallbackNote': ' (जवाब थोड़ा अस्त-व्यस्त था, इसलिए कृपया स्लाइड जाँच लें)',
+  'slideshow.created': '{count} स्लाइड बनाई गईं{note}। जो चाहें संपादित करें, फिर चलाएँ दबाएँ!',
+  'slideshow.drawing': '{total} में से चित्र {current} बनाया जा रहा है...',
+  'slideshow.illustrationsStopped': '{count} चित्रों के बाद रोका गया। आपकी स्लाइड तैयार हैं!',
+  'slideshow.createdIllustrated': '{illustrated} चित्रों के साथ {count} स्लाइड बनाई गईं{note}। पूर्वावलोकन के लिए चलाएँ दबाएँ!',
+  'slideshow.newSlide': 'नई स्लाइड',
+  'slideshow.recording': 'आपका वीडियो रिकॉर्ड हो रहा है... इसमें स्लाइडशो जितना ही समय लगेगा।',
+  'slideshow.renderingGif': 'आपका GIF बन रहा है...',
+  'slideshow.videoReady': 'वीडियो तैयार है! इसे नीचे से डाउनलोड करें।',
+  'slideshow.gifFallback': 'आपका ब्राउज़र वीडियो रिकॉर्ड नहीं कर सकता, इसलिए हमने एनिमेटेड GIF बनाया है। इसे नीचे से डाउनलोड करें।',
+  'slideshow.gifReady': 'GIF तैयार है! इसे नीचे से डाउनलोड करें।',
+  'slideshow.exportCancelled': 'एक्सपोर्ट रद्द किया गया।',
+  'slideshow.exportFailed': 'स्लाइडशो एक्सपोर्ट नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'slideshow.finished': 'स्लाइडशो समाप्त! दोबारा देखने के लिए चलाएँ दबाएँ।',
+  'slideshow.themeLabel': 'थीम:',
+  'slideshow.themeGroup': 'स्लाइडशो थीम',
+  'slideshow.theme.classic': 'क्लासिक बैंगनी',
+  'slideshow.theme.sunset': 'सूर्यास्त',
+  'slideshow.theme.ocean': 'समुद्र',
+  'slideshow.theme.chalkboard': 'चॉकबोर्ड',
+  'slideshow.theme.notebook': 'नोटबुक',
+  'slideshow.topicLabel': 'किसी विषय से बनाएँ:',
+  'slideshow.topicPlaceholder': 'जैसे प्रकाश संश्लेषण, मुग़ल साम्राज्य, न्यूटन के गति के नियम',
+  'slideshow.slideCount': 'स्लाइड',
+  'slideshow.illustrate': 'AI चित्रों से सजाएँ',
+  'slideshow.stop': 'रोकें',
+  'slideshow.generate': 'स्लाइड बनाएँ',
+  'slideshow.illustrateHelp': 'चित्र HD इमेज जनरेशन से बनते हैं, जिसके लिए बिलिंग वाली API कुंजी चाहिए।',
+  'slideshow.textLabel': 'जल्दी शुरू करें: आपके स्लाइडशो का टेक्स्ट (हर पंक्ति एक स्लाइड):',
+  'slideshow.textPlaceholder': 'अपनी शानदार कहानी यहाँ लिखें...\nहर पंक्ति एक नई स्लाइड बनेगी!\nइसे छोटा और प्यारा रखें।',
+  'slideshow.textInputLabel': 'स्लाइडशो का टेक्स्ट',
+  'slideshow.clearAll': 'सब साफ़ करें',
+  'slideshow.create': 'स्लाइड बनाएँ',
+  'slideshow.totalLength': 'कुल अवधि: {seconds} सेकंड',
+  'slideshow.exportHint': 'जमा करने या शेयर करने के लिए अपना स्लाइडशो फ़ाइल के रूप में डाउनलोड करें।',
+  'slideshow.cancelExport': 'एक्सपोर्ट रद्द करें',
+  'slideshow.exportGif': 'GIF एक्सपोर्ट करें',
+  'slideshow.exportVideo': 'वीडियो एक्सपोर्ट करें',
+  'slideshow.exportedVideo': 'एक्सपोर्ट किया गया स्लाइडशो वीडियो',
+  'slideshow.exportedGif': 'एक्सपोर्ट किया गया स्लाइडशो GIF',
+  'slideshow.downloadVideo': 'वीडियो डाउनलोड करें (.webm)',
+  'slideshow.downloadGif': 'GIF डाउनलोड करें',
+  'slideshow.placeholder': 'आपका शानदार स्लाइडशो यहाँ दिखेगा!',
+  'slideshow.preview': 'स्लाइडशो पूर्वावलोकन',
+  'slideshow.slideLabel': 'स्लाइड {number}: {text}',
+  'slideshow.previousSlide': 'पिछली स्लाइड',
+  'slideshow.prev': 'पिछली',
+  'slideshow.nextSlide': 'अगली स्लाइड',
+  'slideshow.next': 'अगली',
+  'slideshow.playSlideshow': 'स्लाइडशो चलाएँ',
+  'slideshow.pauseSlideshow': 'स्लाइडशो रोकें',
+  'slideshow.play': 'चलाएँ',
+  'slideshow.pause': 'रोकें',
+  'slideshow.position': 'स्लाइड {number} / {total}',
+  'slideshow.noSlides': 'अभी कोई स्लाइड नहीं',
+  'slideshow.slidesHeading': 'स्लाइड ({count}/{max})',
+  'slideshow.addSlide': 'स्लाइड जोड़ें',
+  'slideshow.slidesList': 'स्लाइड',
+  'slideshow.imageOnly': '(चित्र)',
+  'slideshow.emptySlide': '(खाली)',
+  'slideshow.moveUp': 'स्लाइड {number} ऊपर ले जाएँ',
+  'slideshow.moveDown': 'स्लाइड {number} नीचे ले जाएँ',
+  'slideshow.deleteSlide': 'स्लाइड {number} हटाएँ',
+  'slideshow.emptyList': 'अभी कोई स्लाइड नहीं। एक जोड़ें या नीचे दिए टेक्स्ट से बनाएँ।',
+  'slideshow.slideNumber': 'स्लाइड {number}',
+  'slideshow.text': 'टेक्स्ट',
+  'slideshow.duration': 'अवधि (सेकंड)',
+  'slideshow.transitionLabel': 'ट्रांज़िशन',
+  'slideshow.transition.fadeUp': 'ऊपर की ओर फ़ेड',
+  'slideshow.transition.fade': 'क्रॉस-फ़ेड',
+  'slideshow.transition.zoom': 'ज़ूम इन',
+  'slideshow.transition.slideLeft': 'बाईं ओर खिसकाएँ',
+  'slideshow.transition.none': 'कोई नहीं',
+  'slideshow.fontSizeLabel': 'फ़ॉन्ट आकार',
+  'slideshow.fontSize.small': 'छोटा',
+  'slideshow.fontSize.medium': 'मध्यम',
+  'slideshow.fontSize.large': 'बड़ा',
+  'slideshow.fontSize.xl': 'बहुत बड़ा',
+  'slideshow.textColor': 'टेक्स्ट का रंग',
+  'slideshow.background': 'पृष्ठभूमि',
+  'slideshow.backgroundType': 'पृष्ठभूमि का प्रकार',
+  'slideshow.solidColor': 'एक रंग',
+  'slideshow.gradient': 'ग्रेडिएंट',
+  'slideshow.backgroundColor': 'पृष्ठभूमि का रंग',
+  'slideshow.gradientStart': 'ग्रेडिएंट का शुरुआती रंग',
+  'slideshow.gradientEnd': 'ग्रेडिएंट का अंतिम रंग',
+  'slideshow.image': 'चित्र',
+  'slideshow.addImage': 'चित्र जोड़ें',
+  'slideshow.changeImage': 'चित्र बदलें',
+  'slideshow.removeImage': 'हटाएँ',
+};
+
+const mr: Partial<MessageCatalog> = {
+  'app.languageLabel': 'भाषा',
+
+  'nav.home': 'होम',
+  'nav.chat': 'भाई चॅट',
+  'nav.imageEditor': 'इमेज एडिटर',
+  'nav.slideshow': 'ॲनिमेटेड स्लाइडशो',
+  'nav.hdImages': 'HD इमेज जनरेटर',
+  'nav.video': 'व्हिडिओ जनरेटर',
+  'nav.gallery': 'माझ्या निर्मिती',
+
+  'home.title': 'भाई AI स्टुडिओमध्ये तुमचे स्वागत आहे!',
+  'home.subtitle': 'क्रिएटिव्ह AI साठी तुमची स्वतःची जागा. सुरू करण्यासाठी खालीलपैकी एक फीचर निवडा!',
+  'home.launch': 'उघडा',
+  'home.chat.title': 'भाई चॅट',
+  'home.chat.description': 'तुमच्या मदतीला धावून येणाऱ्या AI भावाशी गप्पा मारा! झटपट, मैत्रीपूर्ण सल्ला आणि प्रोत्साहन मिळवा.',
+  'home.imageEditor.title': 'Gemini इमेज एडिटर',
+  'home.imageEditor.description': 'तुमची कल्पकता दाखवा! एखादी इमेज अपलोड करा आणि मजकूर लिहून Gemini 2.5 Flash Image ने ती एडिट करा.',
+  'home.slideshow.title': 'ॲनिमेटेड स्लाइडशो',
+  'home.slideshow.description': 'तुमच्या मजकुरातून छोटा, मजेदार ॲनिमेटेड स्लाइडशो बनवा! शाळेच्या प्रोजेक्टसाठी उत्तम, API कीची गरज नाही!',
+  'home.hdImages.title': 'HD इमेज जनरेटर',
+  'home.hdImages.description': 'मजकुरातून स्पष्ट आणि बारकाईने भरलेल्या, उच्च दर्जाच्या इमेज तयार करा. प्रोजेक्ट, पोस्टर आणि प्रेझेंटेशनसाठी उत्तम!',
+  'home.video.title': 'व्हिडिओ जनरेटर',
+  'home.video.description': 'मजकूर (आणि हवी असल्यास एक रेफरन्स इमेज) वापरून Veo ने छोटी व्हिडिओ क्लिप बनवा.',
+  'home.gallery.title': 'माझ्या निर्मिती',
+  'home.gallery.description': 'तुम्ही एडिट केलेली किंवा बनवलेली प्रत्येक इमेज आणि प्रत्येक स्लाइडशो एकाच ठिकाणी. शोधा, ZIP म्हणून डाउनलोड करा किंवा सेटिंग्ज पुन्हा वापरा!',
+
+  'chat.nameLabel': 'तुमचे नाव:',
+  'chat.namePlaceholder': 'तुमचे नाव लिहा',
+  'chat.rememberMe': 'मला लक्षात ठेवा',
+  'chat.personaLabel': 'पर्सोना:',
+  'chat.managePersonas': 'बदला',
+  'chat.welcome': 'नमस्कार! काय म्हणतोस? कसा आहेस?',
+  'chat.welcomeNamed': 'नमस्कार {name}! काय म्हणतोस? कसा आहेस?',
+  'chat.typing': '{name} लिहित आहे...',
+  'chat.stopped': '(थांबवले)',
+  'chat.summarizing': 'जुन्या संदेशांचा सारांश तयार करत आहे...',
+  'chat.summaryNotice': '{count} जुन्या संदेशांचा सारांश तयार केला आहे, जेणेकरून {name} ला ही मोठी चॅट लक्षात राहील.',
+  'chat.showSummary': 'सारांश दाखवा',
+  'chat.hideSummary': 'सारांश लपवा',
+  'chat.inputPlaceholder': 'तुमचा संदेश लिहा...',
+  'chat.send': 'पाठवा',
+  'chat.stop': 'थांबवा',
+  'chat.stopAria': 'उत्तर थांबवा',
+  'chat.replyFailed': 'अरेरे, काहीतरी चुकले.',
+  'chat.sendFailed': 'भाईला काहीतरी अडचण आली. कृपया पुन्हा प्रयत्न करा.',
+
+  'voice.start': 'बोलून संदेश लिहा',
+  'voice.listening': 'ऐकत आहे... थांबवण्यासाठी दाबा',
+  'voice.recording': 'रेकॉर्डिंग सुरू आहे... थांबवण्यासाठी दाबा',
+  'voice.transcribing': 'लिहित आहे...',
+  'voice.permissionDenied': 'मायक्रोफोनची परवानगी बंद आहे. भाईशी बोलण्यासाठी ब्राउझर सेटिंग्जमध्ये ती सुरू करा.',
+  'voice.noSpeech': 'काही ऐकू आले नाही. कृपया पुन्हा बोला.',
+  'voice.failed': 'व्हॉइस इनपुट चालले नाही. कृपया संदेश टाइप करा.',
+  'voice.readAloud': 'वाचून दाखवा',
+  'voice.stopReading': 'वाचन थांबवा',
+  'voice.settings': 'आवाज',
+  'voice.settingsTitle': 'वाचून दाखवण्याची सेटिंग्ज',
+  'voice.test': 'आवाज तपासा',
+  'voice.sample': 'नमस्कार! माझा आवाज असा ऐकू येईल.',
+  'voice.close': 'बंद करा',
+  'voice.voiceLabel': 'आवाज',
+  'voice.automatic': 'आपोआप',
+  'voice.rateLabel': 'वेग ({rate}x)',
+  'voice.autoRead': 'नवीन उत्तरे आपोआप वाचून दाखवा',
+  'voice.noVoices': 'या ब्राउझरमध्ये अजून कोणताही आवाज इन्स्टॉल केलेला नाही. तुमचे डिव्हाइस ते नंतर जोडू शकते.',
+
+  'attachments.add': 'फोटो किंवा फाइल जोडा',
+  'attachments.listLabel': 'जोडलेल्या फाइल्स',
+  'attachments.remove': '{name} काढा',
+  'attachments.tooMany': 'एका संदेशात जास्तीत जास्त {count} फाइल्स जोडता येतात.',
+  'attachments.unsupported': '{name}: फक्त फोटो, PDF आणि टेक्स्ट फाइल्स जोडता येतात.',
+  'attachments.tooLarge': '{name} पाठवण्यासाठी खूप मोठी आहे (PDF 4 MB पर्यंत, टेक्स्ट फाइल्स 512 KB पर्यंत).',
+  'attachments.unreadable': '{name} वाचता आली नाही.',
+
+  'markdown.code': 'कोड',
+  'markdown.copy': 'कॉपी करा',
+  'markdown.copied': 'कॉपी झाले!',
+
+  'messages.copy': 'कॉपी करा',
+  'messages.copied': 'कॉपी झाले!',
+  'messages.edit': 'बदलून पुन्हा पाठवा',
+  'messages.editLabel': 'तुमचा संदेश बदला',
+  'messages.resend': 'जतन करून पाठवा',
+  'messages.cancelEdit': 'रद्द करा',
+  'messages.resendHint': 'यानंतरचे संदेश नवीन उत्तराने बदलले जातील.',
+  'messages.regenerate': 'नवीन उत्तर तयार करा',
+  'messages.versions': 'उत्तराच्या आवृत्त्या',
+  'messages.previousVersion': 'मागील आवृत्ती',
+  'messages.nextVersion': 'पुढील आवृत्ती',
+  'messages.goodReply': 'चांगले उत्तर',
+  'messages.badReply': 'वाईट उत्तर',
+  'messages.delete': 'संदेश हटवा',
+  'messages.deleteConfirm': 'हा संदेश हटवायचा?',
+
+  'conversations.new': '+ नवीन चॅट',
+  'conversations.listLabel': 'संभाषणे',
+  'conversations.pinned': 'पिन केलेले',
+  'conversations.pin': 'पिन करा',
+  'conversations.unpin': 'पिन काढा',
+  'conversations.pinAria': 'संभाषण पिन करा',
+  'conversations.unpinAria': 'संभाषणाचा पिन काढा',
+  'conversations.rename': 'नाव बदला',
+  'conversations.renameAria': 'संभाषणाचे नाव बदला',
+  'conversations.titleAria': 'संभाषणाचे शीर्षक',
+  'conversations.delete': 'हटवा',
+  'conversations.deleteAria': 'संभाषण हटवा',
+  'conversations.deleteConfirm': '"{title}" हटवायचे? हे परत आणता येणार नाही.',
+
+  'personas.title': 'पर्सोना',
+  'personas.import': 'JSON इम्पोर्ट करा',
+  'personas.export': 'JSON एक्सपोर्ट करा',
+  'personas.close': 'बंद करा',
+  'personas.copy': 'कॉपी करा',
+  'personas.copyName': '{name} (कॉपी)',
+  'personas.edit': 'बदला',
+  'personas.delete': 'हटवा',
+  'personas.deleteConfirm': '"{name}" पर्सोना हटवायचा? तो वापरणाऱ्या चॅट पुन्हा भाईकडे जातील.',
+  'personas.saved': '"{name}" सेव्ह झाले.',
+  'personas.imported': '{count} पर्सोना इम्पोर्ट झाले.',
+  'personas.importFailed': 'ही फाइल इम्पोर्ट करता आली नाही.',
+  'personas.invalidJson': 'ही फाइल योग्य JSON नाही.',
+  'personas.noPersonas': 'या फाइलमध्ये कोणताही पर्सोना सापडला नाही.',
+  'personas.name': 'नाव',
+  'personas.avatar': 'अवतार (इमोजी)',
+  'personas.tone': 'शैली',
+  'personas.tonePlaceholder': 'उदा. शांत आणि प्रोत्साहन देणारा',
+  'personas.languageMix': 'भाषेचे मिश्रण',
+  'personas.languageMixPlaceholder': 'उदा. हिंग्लिश आणि थोडी मराठी',
+  'personas.instruction': 'सिस्टम सूचना',
+  'personas.instructionPlaceholder': 'हा पर्सोना कोण आहे आणि कसे उत्तर देईल ते लिहा...',
+  'personas.cancel': 'रद्द करा',
+  'personas.saveChanges': 'बदल सेव्ह करा',
+  'personas.create': 'पर्सोना तयार करा',
+  'personas.new': '+ नवीन पर्सोना',
+  'memory.button': 'आठवणी',
+  'memory.title': 'Bhaii ला तुमच्याबद्दल काय आठवते',
+  'memory.close': 'बंद करा',
+  'memory.enabled': 'चॅटमध्ये जतन केलेल्या आठवणी वापरा आणि नवीन सुचवा',
+  'memory.localOnly': 'आठवणी फक्त याच ब्राउझरमध्ये जतन होतात. चॅटशी संबंधित आठवणी तुमच्या संदेशांसोबत पाठवल्या जातात.',
+  'memory.notPersisted': 'Bhaii बंद केल्यानंतरही आठवणी ठेवायच्या असतील तर "मला लक्षात ठेवा" चालू करा.',
+  'memory.empty': 'अजून काही जतन केलेले नाही. तुम्ही लक्षात ठेवण्यासारखे काही सांगितल्यास Bhaii जतन करण्याआधी विचारेल.',
+  'memory.addLabel': 'नवीन आठवण',
+  'memory.addPlaceholder': 'उदा. माझ्या बोर्ड परीक्षा 1 मार्चपासून आहेत',
+  'memory.add': 'जोडा',
+  'memory.edit': 'बदला',
+  'memory.editLabel': 'आठवण बदला',
+  'memory.save': 'जतन करा',
+  'memory.cancel': 'रद्द करा',
+  'memory.delete': 'विसरा',
+  'memory.deleteConfirm': '"{text}" विसरायचे?',
+  'memory.clearAll': 'सर्व विसरा',
+  'memory.clearAllConfirm': 'सर्व {count} आठवणी हटवायच्या? हे परत आणता येणार नाही.',
+  'memory.proposal': 'हे लक्षात ठेवायचे?',
+  'memory.accept': 'जतन करा',
+  'memory.dismiss': 'नको',
+  'memory.saved': 'आठवणीत जतन केले',
+
+  'errors.auth': 'API की मध्ये अडचण आहे. कृपया डायलॉगमधून तुमची API की पुन्हा निवडा.',
+  'errors.billing': 'API की मध्ये अडचण: या सुविधेसाठी बिलिंग आवश्यक आहे. तुमच्या API की वर बिलिंग सुरू करून ती पुन्हा निवडा.',
+  'errors.rateLimit': 'सध्या खूप विनंत्या येत आहेत. थोडे थांबून पुन्हा प्रयत्न करा.',
+  'errors.safetyBlocked': 'सुरक्षा फिल्टरने ही विनंती थांबवली. कृपया दुसरा प्रॉम्प्ट वापरून पहा.',
+  'errors.network': 'नेटवर्कमध्ये अडचण आहे. तुमचे कनेक्शन तपासून पुन्हा प्रयत्न करा.',
+  'errors.invalidInput': 'ही विनंती स्वीकारली गेली नाही. तुमचा इनपुट तपासून पुन्हा प्रयत्न करा.',
+  'errors.noOutput': 'कोणताही निकाल मिळाला नाही. कृपया दुसरा प्रॉम्प्ट वापरून पहा.',
+  'errors.unknown': 'माफ करा, काहीतरी चुकले. कृपया पुन्हा प्रयत्न करा.',
+  'errors.missingApiKey': 'या अ‍ॅपसाठी कोणतीही API की सेट केलेली नाही. कृपया तुमच्या एन्व्हायर्नमेंटमध्ये API_KEY सेट करा.',
+  'errors.emptyMessage': 'कृपया संदेश लिहा किंवा फाइल जोडा.',
+  'errors.noEditImage': 'एडिट करण्यासाठी कृपया एक इमेज जोडा.',
+  'errors.tooManyEditImages': 'एका एडिटमध्ये जास्तीत जास्त {count} इमेज एकत्र करता येतात.',
+  'errors.emptyImagePrompt': 'इमेज तयार करण्यासाठी कृपया प्रॉम्प्ट लिहा.',
+  'errors.emptyEnhancePrompt': 'सुधारण्यासाठी कृपया एक छोटी कल्पना लिहा.',
+  'errors.emptyRecording': 'रेकॉर्डिंग रिकामे आहे. कृपया पुन्हा प्रयत्न करा.',
+  'errors.emptySlideshowTopic': 'कृपया स्लाइड शोचा विषय लिहा.',
+  'errors.emptyVideoPrompt': 'कृपया तुम्हाला कसा व्हिडिओ हवा आहे ते सांगा.',
+  'errors.noEditedImage': 'एडिट केलेली इमेज तयार झाली नाही. कृपया दुसरा प्रॉम्प्ट वापरून पहा.',
+  'errors.noHdImage': 'HD इमेज तयार झाली नाही. कृपया दुसरा प्रॉम्प्ट वापरून पहा.',
+  'errors.noEnhancedPrompt': 'हा प्रॉम्प्ट सुधारता आला नाही. कृपया पुन्हा प्रयत्न करा.',
+  'errors.noSlides': 'या विषयावर स्लाइड तयार झाल्या नाहीत. कृपया विषय वेगळ्या शब्दांत लिहा.',
+  'errors.noVideo': 'व्हिडिओ पूर्ण झाला, पण काहीही आउटपुट मिळाले नाही. कृपया दुसरा प्रॉम्प्ट वापरून पहा.',
+  'errors.unsupportedImageFormat': 'हा ब्राउझर हा इमेज फॉरमॅट (उदा. HEIC किंवा TIFF) वाचू शकत नाही. कृपया आधी तो JPEG किंवा PNG मध्ये बदला.',
+  'errors.unreadableImage': 'ही इमेज वाचता आली नाही.',
+
+  'gallery.loadFailed': 'तुमची गॅलरी लोड झाली नाही.',
+  'gallery.deleteFailed': 'हे आयटम हटवता आले नाहीत. कृपया पुन्हा प्रयत्न करा.',
+  'gallery.title': 'माझ्या निर्मिती',
+  'gallery.description': 'इमेज एडिटर, HD इमेज जनरेटर आणि स्लाइडशोमध्ये तुम्ही जे काही बनवता ते याच डिव्हाइसवर इथे जतन होते.',
+  'gallery.search': 'गॅलरीत शोधा',
+  'gallery.searchPlaceholder': 'प्रॉम्प्ट शोधा...',
+  'gallery.filterByTool': 'टूलनुसार गाळा',
+  'gallery.allTools': 'सर्व टूल',
+  'gallery.tool.imageEditor': 'इमेज एडिटर',
+  'gallery.tool.hdImages': 'HD इमेज जनरेटर',
+  'gallery.tool.slideshow': 'स्लाइडशो',
+  'gallery.selectAll': 'सर्व निवडा',
+  'gallery.selectedCount': '{count} निवडले',
+  'gallery.deleteSelected': 'निवडलेले हटवा',
+  'gallery.downloadSelected': 'निवडलेले डाउनलोड करा (ZIP)',
+  'gallery.downloadAll': 'सर्व डाउनलोड करा (ZIP)',
+  'gallery.deleteOneConfirm': 'हा आयटम तुमच्या गॅलरीतून हटवायचा?',
+  'gallery.deleteManyConfirm': '{count} आयटम तुमच्या गॅलरीतून हटवायचे?',
+  'gallery.itemMissing': 'हा आयटम आता तुमच्या गॅलरीत नाही.',
+  'gallery.itemDetails': 'गॅलरी आयटमचा तपशील',
+  'gallery.noPrompt': 'प्रॉम्प्ट नाही',
+  'gallery.noModel': 'AI मॉडेल नाही',
+  'gallery.reuse': 'सेटिंग्ज पुन्हा वापरा',
+  'gallery.download': 'डाउनलोड करा',
+  'gallery.delete': 'हटवा',
+  'gallery.close': 'बंद करा',
+  'gallery.loading': 'तुमची गॅलरी लोड होत आहे...',
+  'gallery.empty': 'इथे अजून काही नाही. तुमची संपादने, HD चित्रे आणि स्लाइडशो एक्सपोर्ट इथे दिसतील!',
+  'gallery.noMatches': 'तुमच्या शोधाशी कोणताही आयटम जुळत नाही.',
+  'gallery.items': 'गॅलरी आयटम',
+  'gallery.openItem': 'उघडा: {name}',
+  'gallery.selectItem': 'निवडा: {name}',
+  'gallery.settings.selectedArea': 'फक्त निवडलेला भाग',
+  'gallery.settings.wholeImage': 'संपूर्ण चित्र',
+  'gallery.settings.referenceImage': '+{count} संदर्भ चित्र',
+  'gallery.settings.referenceImages': '+{count} संदर्भ चित्रे',
+  'gallery.settings.aspectRatio': 'आस्पेक्ट रेशो {ratio}',
+  'gallery.settings.style': 'शैली: {style}',
+  'gallery.settings.avoid': 'टाळा: {text}',
+  'gallery.settings.seed': 'सीड {seed}',
+  'gallery.settings.people': 'लोक: {value}',
+  'gallery.settings.safety': 'सुरक्षा: {value}',
+  'gallery.settings.slide': '{count} स्लाइड',
+  'gallery.settings.slides': '{count} स्लाइड',
+  'gallery.settings.theme': 'थीम: {theme}',
+  'gallery.settings.webm': 'व्हिडिओ (.webm)',
+  'gallery.settings.gif': 'ॲनिमेटेड GIF',
+
+  'imageEditor.title': 'इमेज एडिटर (Nano Banana वर आधारित)',
+  'imageEditor.galleryImage': 'तुमच्या गॅलरीतील इमेज',
+  'imageEditor.editing': 'एडिट होत आहे:',
+  'imageEditor.addMore': 'आणखी इमेज जोडण्यासाठी ड्रॉप, पेस्ट किंवा क्लिक करा ({count} पर्यंत).',
+  'imageEditor.dropHint': 'इमेज अपलोड करण्यासाठी ड्रॅग आणि ड्रॉप, पेस्ट किंवा क्लिक करा',
+  'imageEditor.invalidFile': 'कृपया योग्य इमेज फाइल निवडा (jpeg, png, gif, webp).',
+  'imageEditor.tooManyImages': 'जास्तीत जास्त {count} इमेज एकत्र करता येतात.',
+  'imageEditor.someLeftOut': 'जास्तीत जास्त {count} इमेज एकत्र करता येतात, म्हणून काही वगळल्या.',
+  'imageEditor.missingInput': 'कृपया इमेज अपलोड करा आणि एडिटचा प्रॉम्प्ट लिहा.',
+  'imageEditor.preparing': 'इमेज तयार होत आहे...',
+  'imageEditor.uploadSummary': 'अपलोडच्या आधीचा आणि नंतरचा आकार',
+  'imageEditor.rotatedUpright': 'सरळ केली',
+  'imageEditor.promptLabel': 'एडिट प्रॉम्प्ट (उदा. "रेट्रो फिल्टर लावा", "व्यक्तीला काढा"):',
+  'imageEditor.combinePromptLabel': 'एडिट प्रॉम्प्ट (उदा. "इमेज 1 मधील व्यक्तीला इमेज 2 च्या पार्श्वभूमीत ठेवा"):',
+  'imageEditor.refinePromptLabel': '{version} आणखी सुधारा (उदा. "आकाश थोडे अधिक गुलाबी करा"):',
+  'imageEditor.promptPlaceholder': 'इमेजमध्ये काय बदलायचे ते सांगा...',
+  'imageEditor.maskMode': 'फक्त निवडलेला भाग एडिट करा',
+  'imageEditor.undo': 'पूर्ववत करा',
+  'imageEditor.undoLabel': 'एडिट पूर्ववत करा',
+  'imageEditor.redo': 'पुन्हा करा',
+  'imageEditor.redoLabel': 'एडिट पुन्हा करा',
+  'imageEditor.clear': 'साफ करा',
+  'imageEditor.submit': 'इमेज एडिट करा',
+  'imageEditor.submitting': 'एडिट होत आहे...',
+  'imageEditor.noteSelectedArea': 'निवडलेला भाग',
+  'imageEditor.noteImages': '+{count} इमेज',
+  'imageEditor.compare': 'तुलना करा',
+  'imageEditor.compareWith': 'आणि',
+  'imageEditor.compareFirst': 'तुलनेसाठी पहिली आवृत्ती',
+  'imageEditor.compareSecond': 'तुलनेसाठी दुसरी आवृत्ती',
+  'imageEditor.compareView': 'तुलनेची पद्धत',
+  'imageEditor.sideBySide': 'शेजारी शेजारी',
+  'imageEditor.slider': 'स्लाइडर',
+  'imageEditor.compareSlider': '{before} आणि {after} यांची तुलना करण्यासाठी स्लाइड करा',
+  'imageEditor.original': 'मूळ',
+  'imageEditor.originalImage': 'मूळ इमेज',
+  'imageEditor.download': '{version} डाउनलोड करा',
+  'imageEditor.versions': 'आवृत्त्या',
+  'imageEditor.versionsLabel': 'इमेजच्या आवृत्त्या',
+  'imageEditor.newBranch': 'नवी शाखा',
+  'imageEditor.branchHint': 'कोणत्याही आवृत्तीपासून एडिट सुरू ठेवा - पुढचे एडिट वेगळ्या शाखेत राहतील.',
+  'imageEditor.empty': 'सुरू करण्यासाठी एक इमेज अपलोड करा!',
+  'imageEditor.uploadSettings': 'अपलोड सेटिंग्ज',
+  'imageEditor.uploadSettingsHelp': 'अपलोडपूर्वी फोटो सरळ केले जातात आणि लोकेशन/कॅमेऱ्याची माहिती काढली जाते. बदल पुढे जोडलेल्या इमेजवर लागू होतील.',
+  'imageEditor.maxSize': 'कमाल आकार (लांब बाजू)',
+  'imageEditor.pixels': '{count} px',
+  'imageEditor.originalSize': 'मूळ आकार',
+  'imageEditor.format': 'फॉरमॅट',
+  'imageEditor.formatJpeg': 'JPEG',
+  'imageEditor.formatWebp': 'WebP',
+  'imageEditor.formatPng': 'PNG (गुणवत्ता न गमावता)',
+  'imageEditor.quality': 'गुणवत्ता: {percent}%',
+  'imageEditor.inputsTitle': 'या एडिटच्या इमेज ({count}/{max})',
+  'imageEditor.inputsLabel': 'या एडिटच्या इमेज',
+  'imageEditor.imageNumber': 'इमेज {number}',
+  'imageEditor.beingEdited': 'एडिट होत आहे',
+  'imageEditor.moveEarlier': 'इमेज {number} आधी आणा',
+  'imageEditor.moveLater': 'इमेज {number} नंतर न्या',
+  'imageEditor.removeImage': 'इमेज {number} काढा',
+  'imageEditor.labelPlaceholder': 'लेबल (ऐच्छिक)',
+  'imageEditor.labelFor': 'इमेज {number} चे लेबल',
+  'imageEditor.maskTool': 'मास्क टूल',
+  'imageEditor.maskBrush': 'ब्रश',
+  'imageEditor.maskEraser': 'खोडरबर',
+  'imageEditor.maskLasso': 'लासो',
+  'imageEditor.brushSizeShort': 'आकार',
+  'imageEditor.brushSize': 'ब्रशचा आकार',
+  'imageEditor.invertMask': 'उलटा करा',
+  'imageEditor.clearMask': 'मास्क साफ करा',
+  'imageEditor.maskImageAlt': 'मास्क लावायची इमेज',
+  'imageEditor.maskCanvasLabel': 'एडिट करायचा भाग रंगवा',
+  'imageEditor.maskHelp': 'जो भाग बदलायचा आहे त्यावर रंगवा. बाकी सर्व जसेच्या तसे राहील.',
+
+  'apiKey.select': 'API की निवडा',
+  'apiKey.opening': 'API की निवडण्याचा डायलॉग उघडत आहे...',
+  'apiKey.required': 'कृपया आधी तुमची API की निवडा.',
+  'apiKey.billingDocsBefore': 'बिलिंगच्या माहितीची लिंक ',
+  'apiKey.billingDocsLink': 'इथे',
+  'apiKey.billingDocsAfter': ' आहे.',
+  'video.title': 'व्हिडिओ जनरेटर',
+  'video.description': 'एखादे दृश्य सांगा आणि छोटी व्हिडिओ क्लिप मिळवा. लूक ठरवण्यासाठी किंवा पहिली फ्रेम म्हणून वापरण्यासाठी संदर्भ इमेज जोडा. ही सुविधा Google चे Veo मॉडेल वापरते आणि तिच्यासाठी बिलिंग असलेली API की आवश्यक आहे.',
+  'video.ready': 'व्हिडिओ तयार करण्यासाठी सज्ज!',
+  'video.selectKey': 'व्हिडिओ तयार करण्यासाठी कृपया तुमची API की निवडा (बिलिंग आवश्यक).',
+  'video.keySelected': 'API की निवडली. आता तुम्ही व्हिडिओ तयार करू शकता.',
+  'video.billingRequired': 'API की मध्ये अडचण: व्हिडिओ तयार करण्यासाठी बिलिंग आवश्यक आहे. तुमच्या API की वर बिलिंग सुरू करून ती पुन्हा निवडा.',
+  'video.invalidFile': 'कृपया योग्य इमेज फाइल निवडा (jpeg, png, webp).',
+  'video.promptLabel': 'व्हिडिओ प्रॉम्प्ट:',
+  'video.promptPlaceholder': "तुमचा व्हिडिओ सांगा (उदा. 'पावसाळी रस्त्यावर तरंगणारी कागदी होडी, सिनेमॅटिक, स्लो मोशन')...",
+  'video.aspectRatio': 'आस्पेक्ट रेशो:',
+  'video.landscape': '16:9 (लँडस्केप)',
+  'video.portrait': '9:16 (पोर्ट्रेट / रील्स)',
+  'video.referenceImage': 'संदर्भ इमेज (ऐच्छिक):',
+  'video.referenceAlt': 'संदर्भ',
+  'video.removeReference': 'काढा',
+  'video.chooseImage': 'इमेज निवडा',
+  'video.waiting1': 'कॅमेरे तयार होत आहेत...',
+  'video.waiting2': 'दृश्य मांडले जात आहे...',
+  'video.waiting3': 'फ्रेम तयार होत आहेत... याला साधारण काही मिनिटे लागतात.',
+  'video.waiting4': 'शेवटचे बदल होत आहेत...',
+  'video.waiting5': 'जवळजवळ झाले, थोडा धीर धरा!',
+  'video.elapsed': 'गेलेला वेळ {time}',
+  'video.cancel': 'रद्द करा',
+  'video.clear': 'साफ करा',
+  'video.generate': 'व्हिडिओ तयार करा',
+  'video.generating': 'तयार होत आहे...',
+  'video.cancelled': 'व्हिडिओ तयार करणे रद्द केले.',
+  'video.done': 'व्हिडिओ तयार झाला!',
+  'video.result': 'तयार झालेला व्हिडिओ',
+  'video.resultLabel': 'तयार झालेला व्हिडिओ',
+  'video.previewAlt': 'व्हिडिओ प्रिव्ह्यू',
+  'video.offlinePlaceholder': 'ऑफलाइन मोड: खऱ्या व्हिडिओऐवजी प्लेसहोल्डर दाखवत आहे.',
+  'video.download': 'व्हिडिओ डाउनलोड करा',
+
+  'hdImages.title': 'HD इमेज जनरेटर',
+  'hdImages.description': 'टेक्स्ट प्रॉम्प्टवरून उच्च दर्जाच्या, स्पष्ट आणि तपशीलवार इमेज तयार करा. शाळेतील डेमो, पोस्टर आणि सादरीकरणांसाठी उत्तम! ही सुविधा Google Gemini ची इमेज निर्मिती वापरते आणि तिच्यासाठी बिलिंग असलेली API की आवश्यक आहे.',
+  'hdImages.ready': 'HD इमेज तयार करण्यासाठी सज्ज!',
+  'hdImages.selectKey': 'HD इमेज तयार करण्यासाठी कृपया तुमची API की निवडा (बिलिंग आवश्यक).',
+  'hdImages.keySelected': 'API की निवडली. आता तुम्ही HD इमेज तयार करू शकता.',
+  'hdImages.billingRequired': 'API की मध्ये अडचण: HD इमेजसाठी बिलिंग आवश्यक आहे. तुमच्या API की वर बिलिंग सुरू करून ती पुन्हा निवडा.',
+  'hdImages.generating': 'HD इमेज तयार होत आहेत... याला थोडा वेळ लागू शकतो.',
+  'hdImages.invalidSeed': 'सीड 0 ते {max} मधील पूर्ण संख्या असावी.',
+  'hdImages.promptLabel': 'इमेज प्रॉम्प्ट:',
+  'hdImages.enhance': 'प्रॉम्प्ट सुधारा',
+  'hdImages.promptPlaceholder': "तुम्हाला कशी इमेज हवी ते सांगा (उदा. 'जादुई जंगलातील एका गमतीदार ट्री-हाउसचे रंगीत वॉटरकलर चित्र')...",
+  'hdImages.promptHelp': 'जितके तपशील द्याल तितका निकाल चांगला! एक इमेज तयार होत असताना तुम्ही आणखी प्रॉम्प्ट रांगेत टाकू शकता.',
+  'hdImages.suggestedPrompt': 'सुचवलेला प्रॉम्प्ट - वापरण्यापूर्वी तपासा किंवा बदला:',
+  'hdImages.discard': 'टाकून द्या',
+  'hdImages.usePrompt': 'हा प्रॉम्प्ट वापरा',
+  'hdImages.style': 'शैली:',
+  'hdImages.stylePreset': 'शैली प्रीसेट',
+  'hdImages.style.none': 'काहीही नाही',
+  'hdImages.style.poster': 'पोस्टर',
+  'hdImages.style.watercolor': 'जलरंग',
+  'hdImages.style.diagram': 'आकृती',
+  'hdImages.style.photo': 'फोटो',
+  'hdImages.style.cartoon': 'कार्टून',
+  'hdImages.style.sketch': 'पेन्सिल स्केच',
+  'hdImages.style.infographic': 'इन्फोग्राफिक',
+  'hdImages.style.pixelArt': 'पिक्सेल आर्ट',
+  'hdImages.aspectRatio': 'आस्पेक्ट रेशो:',
+  'hdImages.aspectRatioLabel': 'इमेजचा आस्पेक्ट रेशो निवडा',
+  'hdImages.aspect.square': '1:1 (चौरस)',
+  'hdImages.aspect.portrait': '3:4 (पोर्ट्रेट)',
+  'hdImages.aspect.landscape': '4:3 (लँडस्केप)',
+  'hdImages.aspect.tallPortrait': '9:16 (उंच पोर्ट्रेट)',
+  'hdImages.aspect.wideLandscape': '16:9 (रुंद लँडस्केप)',
+  'hdImages.variations': 'प्रकार:',
+  'hdImages.variationsLabel': 'प्रकारांची संख्या',
+  'hdImages.format': 'फॉरमॅट:',
+  'hdImages.formatJpeg': 'JPEG (लहान फाइल्स)',
+  'hdImages.formatPng': 'PNG (गुणवत्ता न गमावता)',
+  'hdImages.advanced': 'प्रगत सेटिंग्ज',
+  'hdImages.negativePrompt': 'निगेटिव्ह प्रॉम्प्ट (काय नको)',
+  'hdImages.negativePromptPlaceholder': 'उदा. मजकूर, वॉटरमार्क, धूसरपणा',
+  'hdImages.seed': 'सीड',
+  'hdImages.seedRandom': 'यादृच्छिक',
+  'hdImages.randomSeed': 'यादृच्छिक सीड निवडा',
+  'hdImages.seedHelp': 'त्याच सेटिंग्जसह तोच सीड वापरल्यास तेच चित्र मिळेल.',
+  'hdImages.people': 'इमेजमधील व्यक्ती',
+  'hdImages.people.none': 'कोणीही व्यक्ती नको',
+  'hdImages.people.adults': 'फक्त प्रौढ',
+  'hdImages.people.all': 'प्रौढ आणि मुले',
+  'hdImages.safety': 'सुरक्षा फिल्टर',
+  'hdImages.safety.strict': 'कडक',
+  'hdImages.safety.balanced': 'संतुलित',
+  'hdImages.safety.relaxed': 'सैल',
+  'hdImages.default': 'डीफॉल्ट',
+  'hdImages.clear': 'साफ करा',
+  'hdImages.generate': 'इमेज तयार करा',
+  'hdImages.addToQueue': 'रांगेत टाका',
+  'hdImages.inProgress': '{count} तयार होत आहेत',
+  'hdImages.allDone': 'सर्व पूर्ण',
+  'hdImages.favoritesOnly': 'फक्त आवडत्या',
+  'hdImages.queue': 'इमेज तयार करण्याची रांग',
+  'hdImages.status.queued': 'रांगेत',
+  'hdImages.status.running': 'तयार होत आहे',
+  'hdImages.status.done': 'पूर्ण',
+  'hdImages.status.error': 'अयशस्वी',
+  'hdImages.status.cancelled': 'रद्द',
+  'hdImages.oneImage': '1 इमेज',
+  'hdImages.variationCount': '{count} प्रकार',
+  'hdImages.seedValue': 'सीड {seed}',
+  'hdImages.cancel': 'रद्द करा',
+  'hdImages.cancelJob': 'काम {position} रद्द करा',
+  'hdImages.remove': 'काढा',
+  'hdImages.removeJob': 'काम {position} काढा',
+  'hdImages.generatingJob': 'काम {position} तयार होत आहे',
+  'hdImages.variationAlt': 'प्रकार {number}: {prompt}',
+  'hdImages.favorite': 'आवडत्यांमध्ये जोडा',
+  'hdImages.unfavorite': 'आवडत्यांमधून काढा',
+  'hdImages.download': 'डाउनलोड',
+
+  'slideshow.title': 'ॲनिमेटेड स्लाइडशो जनरेटर',
+  'slideshow.description': 'तुमचा मजकूर एका मजेदार ॲनिमेटेड स्लाइडशो व्हिडिओमध्ये बदला - किंवा भाईकडून एखाद्या विषयावर स्लाइड लिहून घ्या! थीम निवडा, प्रत्येक स्लाइडची वेळ, रंग, चित्रे आणि ट्रांझिशन सेट करा, मग तो व्हिडिओ म्हणून डाउनलोड करा. हाताने स्लाइड बनवण्यासाठी API की लागत नाही - पूर्णपणे मोफत आणि विद्यार्थ्यांसाठी सोपे!',
+  'slideshow.ready': 'तुमचा ॲनिमेटेड स्लाइडशो बनवण्यासाठी मजकूर लिहा!',
+  'slideshow.loadedFromGallery': 'तुमच्या गॅलरीतून स्लाइड लोड झाल्या. त्या संपादित करा, मग पुन्हा एक्सपोर्ट करा!',
+  'slideshow.emptyText': 'कृपया तुमच्या स्लाइडशोसाठी काही मजकूर लिहा.',
+  'slideshow.added': '{count} स्लाइड जोडल्या. पूर्वावलोकनासाठी चालवा दाबा!',
+  'slideshow.addedMax': '{count} स्लाइड जोडल्या (कमाल {max}). पूर्वावलोकनासाठी चालवा दाबा!',
+  'slideshow.replaceConfirm': 'सध्याच्या स्लाइडऐवजी AI ने बनवलेल्या स्लाइड लावायच्या?',
+  'slideshow.planning': 'भाई तुमच्या स्लाइडची योजना करत आहे...',
+  'slideshow.generationCancelled': 'जनरेशन रद्द केले.',
+  'slideshow.fallbackNote': ' (उत्तर थोडे गोंधळलेले होते, म्हणून कृपया स्लाइड तपासा)',
+  'slideshow.created': '{count} स्लाइड बनवल्या{note}. हवे ते संपादित करा, मग चालवा दाबा!',
+  'slideshow.drawing': '{total} पैकी चित्र {current} काढत आहे...',
+  'slideshow.illustrationsStopped': '{count} चित्रांनंतर थांबवले. तुमच्या स्लाइड तयार आहेत!',
+  'slideshow.createdIllustrated': '{illustrated} चित्रांसह {count} स्लाइड बनवल्या{note}. पूर्वावलोकनासाठी चालवा दाबा!',
+  'slideshow.newSlide': 'नवी स्लाइड',
+  'slideshow.recording': 'तुमचा व्हिडिओ रेकॉर्ड होत आहे... याला स्लाइडशोइतकाच वेळ लागेल.',
+  'slideshow.renderingGif': 'तुमचा GIF बनत आहे...',
+  'slideshow.videoReady': 'व्हिडिओ तयार आहे! खालून डाउनलोड करा.',
+  'slideshow.gifFallback': 'तुमचा ब्राउझर व्हिडिओ रेकॉर्ड करू शकत नाही, म्हणून आम्ही ॲनिमेटेड GIF बनवला आहे. खालून डाउनलोड करा.',
+  'slideshow.gifReady': 'GIF तयार आहे! खालून डाउनलोड करा.',
+  'slideshow.exportCancelled': 'एक्सपोर्ट रद्द केले.',
+  'slideshow.exportFailed': 'स्लाइडशो एक्सपोर्ट करता आला नाही. कृपया पुन्हा प्रयत्न करा.',
+  'slideshow.finished': 'स्लाइडशो संपला! पुन्हा पाहण्यासाठी चालवा दाबा.',
+  'slideshow.themeLabel': 'थीम:',
+  'slideshow.themeGroup': 'स्लाइडशो थीम',
+  'slideshow.theme.classic': 'क्लासिक जांभळा',
+  'slideshow.theme.sunset': 'सूर्यास्त',
+  'slideshow.theme.ocean': 'समुद्र',
+  'slideshow.theme.chalkboard': 'फळा',
+  'slideshow.theme.notebook': 'वही',
+  'slideshow.topicLabel': 'एखाद्या विषयावरून बनवा:',
+  'slideshow.topicPlaceholder': 'उदा. प्रकाशसंश्लेषण, मुघल साम्राज्य, न्यूटनचे गतीचे नियम',
+  'slideshow.slideCount': 'स्लाइड',
+  'slideshow.illustrate': 'AI चित्रांनी सजवा',
+  'slideshow.stop': 'थांबवा',
+  'slideshow.generate': 'स्लाइड बनवा',
+  'slideshow.illustrateHelp': 'चित्रे HD इमेज जनरेशनने बनतात, ज्यासाठी बिलिंग असलेली API की लागते.',
+  'slideshow.textLabel': 'झटपट सुरुवात: तुमच्या स्लाइडशोचा मजकूर (प्रत्येक ओळ एक स्लाइड):',
+  'slideshow.textPlaceholder': 'तुमची भन्नाट गोष्ट इथे लिहा...\nप्रत्येक ओळ एक नवी स्लाइड होईल!\nछोटी आणि गोड ठेवा.',
+  'slideshow.textInputLabel': 'स्लाइडशोचा मजकूर',
+  'slideshow.clearAll': 'सर्व साफ करा',
+  'slideshow.create': 'स्लाइड बनवा',
+  'slideshow.totalLength': 'एकूण कालावधी: {seconds} सेकंद',
+  'slideshow.exportHint': 'जमा करण्यासाठी किंवा शेअर करण्यासाठी तुमचा स्लाइडशो फाइल म्हणून डाउनलोड करा.',
+  'slideshow.cancelExport': 'एक्सपोर्ट रद्द करा',
+  'slideshow.exportGif': 'GIF एक्सपोर्ट करा',
+  'slideshow.exportVideo': 'व्हिडिओ एक्सपोर्ट करा',
+  'slideshow.exportedVideo': 'एक्सपोर्ट केलेला स्लाइडशो व्हिडिओ',
+  'slideshow.exportedGif': 'एक्सपोर्ट केलेला स्लाइडशो GIF',
+  'slideshow.downloadVideo': 'व्हिडिओ डाउनलोड करा (.webm)',
+  'slideshow.downloadGif': 'GIF डाउनलोड करा',
+  'slideshow.placeholder': 'तुमचा भन्नाट स्लाइडशो इथे दिसेल!',
+  'slideshow.preview': 'स्लाइडशो पूर्वावलोकन',
+  'slideshow.slideLabel': 'स्लाइड {number}: {text}',
+  'slideshow.previousSlide': 'मागील स्लाइड',
+  'slideshow.prev': 'मागे',
+  'slideshow.nextSlide': 'पुढील स्लाइड',
+  'slideshow.next': 'पुढे',
+  'slideshow.playSlideshow': 'स्लाइडशो चालवा',
+  'slideshow.pauseSlideshow': 'स्लाइडशो थांबवा',
+  'slideshow.play': 'चालवा',
+  'slideshow.pause': 'थांबवा',
+  'slideshow.position': 'स्लाइड {number} / {total}',
+  'slideshow.noSlides': 'अजून एकही स्लाइड नाही',
+  'slideshow.slidesHeading': 'स्लाइड ({count}/{max})',
+  'slideshow.addSlide': 'स्लाइड जोडा',
+  'slideshow.slidesList': 'स्लाइड',
+  'slideshow.imageOnly': '(चित्र)',
+  'slideshow.emptySlide': '(रिकामी)',
+  'slideshow.moveUp': 'स्लाइड {number} वर हलवा',
+  'slideshow.moveDown': 'स्लाइड {number} खाली हलवा',
+  'slideshow.deleteSlide': 'स्लाइड {number} हटवा',
+  'slideshow.emptyList': 'अजून एकही स्लाइड नाही. एक जोडा किंवा खालील मजकुरातून बनवा.',
+  'slideshow.slideNumber': 'स्लाइड {number}',
+  'slideshow.text': 'मजकूर',
+  'slideshow.duration': 'कालावधी (सेकंद)',
+  'slideshow.transitionLabel': 'ट्रांझिशन',
+  'slideshow.transition.fadeUp': 'वर फेड',
+  'slideshow.transition.fade': 'क्रॉस-फेड',
+  'slideshow.transition.zoom': 'झूम इन',
+  'slideshow.transition.slideLeft': 'डावीकडे सरकवा',
+  'slideshow.transition.none': 'काहीही नाही',
+  'slideshow.fontSizeLabel': 'फॉन्ट आकार',
+  'slideshow.fontSize.small': 'लहान',
+  'slideshow.fontSize.medium': 'मध्यम',
+  'slideshow.fontSize.large': 'मोठा',
+  'slideshow.fontSize.xl': 'खूप मोठा',
+  'slideshow.textColor': 'मजकुराचा रंग',
+  'slideshow.background': 'पार्श्वभूमी',
+  'slideshow.backgroundType': 'पार्श्वभूमीचा प्रकार',
+  'slideshow.solidColor': 'एकच रंग',
+  'slideshow.gradient': 'ग्रेडियंट',
+  'slideshow.backgroundColor': 'पार्श्वभूमीचा रंग',
+  'slideshow.gradientStart': 'ग्रेडियंटचा सुरुवातीचा रंग',
+  'slideshow.gradientEnd': 'ग्रेडियंटचा शेवटचा रंग',
+  'slideshow.image': 'चित्र',
+  'slideshow.addImage': 'चित्र जोडा',
+  'slideshow.changeImage': 'चित्र बदला',
+  'slideshow.removeImage': 'काढा',
+};
+
+export const MESSAGES: Record<AppLanguage, Partial<MessageCatalog>> = { en, hinglish, hi, mr };
+
+export const FALLBACK_MESSAGES: MessageCatalog = en;
@@ -0,0 +1,135 @@
+import { ApiError } from '@google/genai';
+import { MAX_EDIT_IMAGES } from '../constants';
+import { MessageKey } from '../locales';
+import type { Translator } from './i18n';
+
+// Every failure from a model call is reported as one of these, so callers can
+// branch on `kind` instead of matching message text. `message` is English for
+// logs; the UI shows `getAIErrorMessage` in the user's language instead.
+export type AIError = (
+  | { kind: 'auth'; message: string } // Missing, invalid or unselected API key
+  | { kind: 'billing'; message: string } // Key is valid but the feature needs billing enabled
+  | { kind: 'rate-limit'; message: string; retryAfterMs?: number } // Quota exhausted or too many requests
+  | { kind: 'safety-blocked'; message: string } // Prompt or output blocked by safety filters
+  | { kind: 'network'; message: string } // Connection failure or temporary server error
+  | { kind: 'invalid-input'; message: string } // The request itself was rejected
+  | { kind: 'no-output'; message: string } // The model answered but returned nothing usable
+  | { kind: 'unknown'; message: string }
+) & { code?: AIErrorCode };
+
+export type AIErrorKind = AIError['kind'];
+
+// Narrows a kind down to the exact problem, for a more helpful message.
+export type AIErrorCode =
+  | 'missing-api-key'
+  | 'empty-message'
+  | 'no-edit-image'
+  | 'too-many-edit-images'
+  | 'empty-image-prompt'
+  | 'empty-enhance-prompt'
+  | 'empty-recording'
+  | 'empty-slideshow-topic'
+  | 'empty-video-prompt'
+  | 'no-edited-image'
+  | 'no-hd-image'
+  | 'no-enhanced-prompt'
+  | 'no-slides'
+  | 'no-video';
+
+// Thrown by providers when they already know what went wrong.
+export class AIRequestError extends Error {
+  readonly aiError: AIError;
+
+  constructor(aiError: AIError) {
+    super(aiError.message);
+    this.name = 'AIRequestError';
+    this.aiError = aiError;
+  }
+}
+
+const DEFAULT_MESSAGES: Record<AIErrorKind, string> = {
+  'auth': 'API key issue. Please select your API key again from the dialog.',
+  'billing': 'API key issue: this feature requires billing. Please ensure your API key is enabled for billing and re-select it.',
+  'rate-limit': 'Too many requests right now. Thoda ruk ke try karo.',
+  'safety-blocked': 'This request was blocked by the safety filters. Please try a different prompt.',
+  'network': 'Network issue. Please check your connection and try again.',
+  'invalid-input': 'The request was not accepted. Please check your input and try again.',
+  'no-output': 'No result came back. Please try a different prompt.',
+  'unknown': 'Sorry, kuch gadbad ho gayi. Can you please try again?',
+};
+
+export const createAIError = (kind: AIErrorKind, message: string = DEFAULT_MESSAGES[kind], code?: AIErrorCode): AIError =>
+  (code ? { kind, message, code } : { kind, message }) as AIError;
+
+const KIND_KEYS: Record<AIErrorKind, MessageKey> = {
+  'auth': 'errors.auth',
+  'billing': 'errors.billing',
+  'rate-limit': 'errors.rateLimit',
+  'safety-blocked': 'errors.safetyBlocked',
+  'network': 'errors.network',
+  'invalid-input': 'errors.invalidInput',
+  'no-output': 'errors.noOutput',
+  'unknown': 'errors.unknown',
+};
+
+const CODE_KEYS: Record<AIErrorCode, MessageKey> = {
+  'missing-api-key': 'errors.missingApiKey',
+  'empty-message': 'errors.emptyMessage',
+  'no-edit-image': 'errors.noEditImage',
+  'too-many-edit-images': 'errors.tooManyEditImages',
+  'empty-image-prompt': 'errors.emptyImagePrompt',
+  'empty-enhance-prompt': 'errors.emptyEnhancePrompt',
+  'empty-recording': 'errors.emptyRecording',
+  'empty-slideshow-topic': 'errors.emptySlideshowTopic',
+  'empty-video-prompt': 'errors.emptyVideoPrompt',
+  'no-edited-image': 'errors.noEditedImage',
+  'no-hd-image': 'errors.noHdImage',
+  'no-enhanced-prompt': 'errors.noEnhancedPrompt',
+  'no-slides': 'errors.noSlides',
+  'no-video': 'errors.noVideo',
+};
+
+// The message to show for an error, in the user's language.
+export const getAIErrorMessage = (error: AIError | undefined, t: Translator['t']): string =>
+  t(!error ? 'errors.unknown' : error.code ? CODE_KEYS[error.code] : KIND_KEYS[error.kind], { count: MAX_EDIT_IMAGES });
+
+// Parses "retry in 12s" style hints that the API includes with 429 responses.
+const parseRetryAfterMs = (text: string): number | undefined => {
+  const match = text.match(/retry (?:in|after) ([\d.]+)\s*s/i) || text.match(/"retryDelay":\s*"([\d.]+)s"/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Maps anything thrown by a provider or the SDK onto the AIError union.
+export const classifyError = (error: unknown): AIError => {
+  if (error instanceof AIRequestError) {
+    return error.aiError;
+  }
+
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  const status = error instanceof ApiError ? error.status : undefined;
+
+  if (/billing/i.test(message)) {
+    return createAIError('billing');
+  }
+  // AI Studio reports an unselected or revoked key as a missing entity.
+  if (status === 401 || status === 403 || /Requested entity was not found|API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+    return createAIError('auth');
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return { kind: 'rate-limit', message: DEFAULT_MESSAGES['rate-limit'], retryAfterMs: parseRetryAfterMs(message) };
+  }
+  if (/safety|blocked|PROHIBITED_CONTENT/i.test(message)) {
+    return createAIError('safety-blocked');
+  }
+  if ((status !== undefined && status >= 500) || (error instanceof TypeError && /fetch|network/i.test(message)) || /UNAVAILABLE|ECONNRESET|ETIMEDOUT/i.test(message)) {
+    return createAIError('network');
+  }
+  if (status === 400 || /INVALID_ARGUMENT/i.test(message)) {
+    return createAIError('invalid-input');
+  }
+  return createAIError('unknown');
+};
+
+// Only transient failures are worth retrying automatically.
+export const isRetryableError = (error: AIError): boolean =>
+  error.kind === 'rate-limit' || error.kind === 'network';
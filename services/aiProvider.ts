@@ -0,0 +1,78 @@
+import { AspectRatio, ChatMessage, HDImageFormat, HDPersonGeneration, HDSafetyLevel, ImagePart, VideoAspectRatio } from '../types';
+
+export type AIProviderId = 'gemini' | 'mock';
+
+export interface ChatRequest {
+  message: string;
+  media?: ImagePart[]; // Files attached to this message; history messages carry their own
+  history: ChatMessage[];
+  systemInstruction: string;
+  signal?: AbortSignal;
+}
+
+export interface TextGenerationRequest {
+  prompt: string;
+  systemInstruction?: string;
+  jsonSchema?: Record<string, unknown>; // When set, the reply must be JSON matching this JSON Schema
+  media?: ImagePart[]; // Inline files sent before the prompt, e.g. recorded audio to transcribe
+  signal?: AbortSignal;
+}
+
+export interface LabeledImage {
+  image: ImagePart;
+  label?: string; // e.g. "style reference"; shown to the model next to "Image 2"
+}
+
+export interface ImageEditRequest {
+  images: LabeledImage[]; // In order; the first is the image being edited
+  prompt: string;
+  mask?: ImagePart; // Same size as the first image: white where the edit applies, black elsewhere
+}
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  numberOfImages?: number; // 1-4 variations, default 1
+  outputMimeType?: HDImageFormat; // Default JPEG
+  negativePrompt?: string;
+  seed?: number;
+  personGeneration?: HDPersonGeneration;
+  safetyLevel?: HDSafetyLevel;
+  signal?: AbortSignal;
+}
+
+export interface VideoGenerationRequest {
+  prompt: string;
+  aspectRatio: VideoAspectRatio;
+  referenceImage?: ImagePart; // Optional first frame / visual reference
+}
+
+// A long-running video job. Providers return a fresh snapshot on every poll.
+export interface VideoOperation {
+  name: string;
+  done: boolean;
+  progressPercent?: number; // Only when the backend reports it
+  video?: {
+    url: string; // Playable URL (object URL or data: URL)
+    mimeType: string;
+  };
+}
+
+// Everything the app needs from a model backend. Providers throw on failure;
+// geminiService turns those errors into user-facing responses.
+export interface AIProvider {
+  id: AIProviderId;
+  supportsImageSeed: boolean; // Whether generateImages honors `seed`
+  // Yields reply text chunk by chunk.
+  streamChat: (request: ChatRequest) => AsyncIterable<string>;
+  // One-shot (non-streaming) text reply.
+  generateText: (request: TextGenerationRequest) => Promise<string>;
+  // Resolves to a data: URL, or undefined when the model returned no image.
+  editImage: (request: ImageEditRequest) => Promise<string | undefined>;
+  // Resolves to one data: URL per image; empty when the model returned none.
+  generateImages: (request: ImageGenerationRequest) => Promise<string[]>;
+  startVideoGeneration: (request: VideoGenerationRequest) => Promise<VideoOperation>;
+  getVideoOperation: (operation: VideoOperation) => Promise<VideoOperation>;
+  hasSelectedApiKey: () => Promise<boolean>;
+  openApiKeySelector: () => Promise<void>;
+}
@@ -0,0 +1,64 @@
+import { CHAT_TEXT_FILE_EXTENSIONS, MAX_CHAT_DOCUMENT_BYTES, MAX_CHAT_TEXT_FILE_BYTES } from '../constants';
+import { ChatAttachment, ChatAttachmentKind, ImagePart } from '../types';
+import { blobToDataUrl, dataUrlToImagePart, IMAGE_FILE_ACCEPT, isImageFile, preprocessImage } from './imagePreprocess';
+
+export const CHAT_ATTACHMENT_ACCEPT = [
+  IMAGE_FILE_ACCEPT,
+  'application/pdf',
+  'text/*',
+  ...CHAT_TEXT_FILE_EXTENSIONS.map(ext => `.${ext}`),
+].join(',');
+
+export type ChatAttachmentErrorCode = 'unsupported' | 'too-large' | 'unreadable';
+
+export class ChatAttachmentError extends Error {
+  constructor(public readonly code: ChatAttachmentErrorCode, public readonly fileName: string, message: string) {
+    super(message);
+    this.name = 'ChatAttachmentError';
+  }
+}
+
+let attachmentCounter = 0;
+
+const createAttachmentId = () => `attachment-${Date.now()}-${++attachmentCounter}`;
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+export const getChatAttachmentKind = (file: File): ChatAttachmentKind | null => {
+  if (isImageFile(file)) return 'image';
+  if (file.type === 'application/pdf' || getExtension(file.name) === 'pdf') return 'pdf';
+  if (file.type.startsWith('text/') || CHAT_TEXT_FILE_EXTENSIONS.includes(getExtension(file.name))) return 'text';
+  return null;
+};
+
+// Reads a picked, pasted or dropped file into an attachment. Photos are
+// resized like every other upload; text files are sent as plain UTF-8 text
+// because the model rejects most code and markup MIME types.
+export const createChatAttachment = async (file: File): Promise<ChatAttachment> => {
+  const kind = getChatAttachmentKind(file);
+  if (!kind) {
+    throw new ChatAttachmentError('unsupported', file.name, `${file.name} is not an image, PDF or text file.`);
+  }
+  const base = { id: createAttachmentId(), kind, name: file.name || 'pasted-image' };
+
+  if (kind === 'image') {
+    try {
+      const { dataUrl, processedBytes } = await preprocessImage(file);
+      return { ...base, dataUrl, size: processedBytes };
+    } catch {
+      throw new ChatAttachmentError('unreadable', file.name, `${file.name} could not be opened as an image.`);
+    }
+  }
+
+  if (file.size === 0) {
+    throw new ChatAttachmentError('unreadable', file.name, `${file.name} is empty.`);
+  }
+  const limit = kind === 'pdf' ? MAX_CHAT_DOCUMENT_BYTES : MAX_CHAT_TEXT_FILE_BYTES;
+  if (file.size > limit) {
+    throw new ChatAttachmentError('too-large', file.name, `${file.name} is too large to send.`);
+  }
+  const blob = new Blob([file], { type: kind === 'pdf' ? 'application/pdf' : 'text/plain' });
+  return { ...base, dataUrl: await blobToDataUrl(blob), size: file.size };
+};
+
+export const chatAttachmentToPart = (attachment: ChatAttachment): ImagePart => dataUrlToImagePart(attachment.dataUrl);
@@ -0,0 +1,99 @@
+import { CHAT_ATTACHMENT_TOKENS, CHAT_CONTEXT_KEEP_TOKENS, CHAT_CONTEXT_MIN_MESSAGES, CHAT_CONTEXT_TOKEN_BUDGET } from '../constants';
+import { ChatAttachment, ChatMessage, ConversationSummary } from '../types';
+
+// Decides how much of a long chat is sent to the model. Recent turns go word
+// for word; older ones are folded into a rolling summary on the conversation.
+
+// A cheap stand-in for the model's tokenizer: English averages about four
+// characters per token, while Devanagari and emoji cost far more per character.
+export const estimateTokens = (text: string): number => {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4 + other / 1.5);
+};
+
+const estimateAttachmentTokens = (attachment: ChatAttachment): number =>
+  attachment.kind === 'text' ? Math.ceil(attachment.size / 4) : CHAT_ATTACHMENT_TOKENS[attachment.kind];
+
+export const estimateMessageTokens = (message: ChatMessage): number =>
+  estimateTokens(message.text) + (message.attachments ?? []).reduce((sum, a) => sum + estimateAttachmentTokens(a), 0);
+
+// False once the messages the summary covers have been edited, deleted or
+// switched to another version.
+export const isSummaryCurrent = (summary: ConversationSummary | undefined, messages: ChatMessage[]): summary is ConversationSummary => {
+  if (!summary) return false;
+  const last = messages[summary.coveredCount - 1];
+  return !!last && last.id === summary.lastCoveredId && last.timestamp.getTime() === summary.lastCoveredTime;
+};
+
+export interface ChatContextPlan {
+  summary?: ConversationSummary; // The stored summary, if it still applies
+  recent: ChatMessage[]; // Sent word for word
+  toFold: ChatMessage[]; // Not yet summarized and too old to send; empty when everything fits
+  coveredCount: number; // Messages the summary covers once `toFold` is folded in
+}
+
+// Splits the history before a new message. Nothing is folded until the
+// unsummarized part outgrows the budget; then only the newest turns that fit
+// CHAT_CONTEXT_KEEP_TOKENS stay, so summaries happen in batches, not every turn.
+export const planChatContext = (history: ChatMessage[], summary?: ConversationSummary): ChatContextPlan => {
+  const current = isSummaryCurrent(summary, history) ? summary : undefined;
+  const start = current?.coveredCount ?? 0;
+  const pending = history.slice(start);
+  const tokens = pending.map(estimateMessageTokens);
+
+  if (tokens.reduce((sum, n) => sum + n, 0) <= CHAT_CONTEXT_TOKEN_BUDGET) {
+    return { summary: current, recent: pending, toFold: [], coveredCount: start };
+  }
+
+  let keepFrom = pending.length;
+  let kept = 0;
+  while (keepFrom > 0) {
+    const next = kept + tokens[keepFrom - 1];
+    if (pending.length - keepFrom >= CHAT_CONTEXT_MIN_MESSAGES && next > CHAT_CONTEXT_KEEP_TOKENS) break;
+    kept = next;
+    keepFrom--;
+  }
+  // The model expects the history to open with a user turn
+  while (keepFrom < pending.length && pending[keepFrom].sender !== 'user') keepFrom++;
+
+  return {
+    summary: current,
+    recent: pending.slice(keepFrom),
+    toFold: pending.slice(0, keepFrom),
+    coveredCount: start + keepFrom,
+  };
+};
+
+export const SUMMARY_INSTRUCTION = `You keep running notes on a long chat between a user and an AI assistant called Bhaii, so the conversation can continue after older messages are dropped.
+Write a concise summary of at most 250 words: who the user is and what they want, facts and numbers they shared, decisions made, what Bhaii already explained or promised, and open questions.
+Use the chat's language. Reply with the summary only.`;
+
+// Files are named rather than resent; the summary only needs to know they came up.
+export const buildSummaryPrompt = (messages: ChatMessage[], previousSummary?: string): string => {
+  const transcript = messages.map(m => {
+    const files = m.attachments?.length ? ` [attached: ${m.attachments.map(a => a.name).join(', ')}]` : '';
+    return `${m.sender === 'user' ? 'User' : 'Bhaii'}: ${m.text}${files}`;
+  }).join('\n\n');
+  return previousSummary
+    ? `Summary so far:\n${previousSummary}\n\nUpdate it with these later messages:\n\n${transcript}`
+    : `Summarize this conversation:\n\n${transcript}`;
+};
+
+export const buildSummaryInstruction = (summary: string): string =>
+  `Earlier messages in this chat are no longer shown to you. Summary of them:\n${summary}`;
+
+export const createConversationSummary = (text: string, history: ChatMessage[], coveredCount: number): ConversationSummary => {
+  const last = history[coveredCount - 1];
+  return {
+    text,
+    coveredCount,
+    lastCoveredId: last.id,
+    lastCoveredTime: last.timestamp.getTime(),
+    updatedAt: new Date(),
+  };
+};
@@ -0,0 +1,127 @@
+import { DEFAULT_PERSONA_ID } from '../constants';
+import { ChatMessage, ChatReplyAlternative, Conversation, UserPreferences } from '../types';
+import { parsePersonas } from './personas';
+import { detectLanguage, isAppLanguage } from './i18n';
+import { parseSpeechSettings } from './speech';
+import { parseUserMemory } from './memory';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New chat';
+const MAX_TITLE_LENGTH = 40;
+
+let messageCounter = 0;
+let conversationCounter = 0;
+
+export const createMessageId = () => `msg-${Date.now()}-${++messageCounter}`;
+
+export const createConversation = (personaId: string = DEFAULT_PERSONA_ID): Conversation => {
+  const now = new Date();
+  return {
+    id: `chat-${Date.now()}-${++conversationCounter}`,
+    title: DEFAULT_CONVERSATION_TITLE,
+    titleIsCustom: false,
+    pinned: false,
+    personaId,
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Builds a short title from the first thing the user said in the thread.
+export const deriveConversationTitle = (messages: ChatMessage[]): string => {
+  const firstUserMessage = messages.find(msg => msg.sender === 'user');
+  if (!firstUserMessage) {
+    return DEFAULT_CONVERSATION_TITLE;
+  }
+  // A file sent without any text is named after the file
+  const text = firstUserMessage.text.replace(/\s+/g, ' ').trim() || firstUserMessage.attachments?.[0]?.name || DEFAULT_CONVERSATION_TITLE;
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : text;
+};
+
+const toAlternative = ({ text, stopped, timestamp }: ChatMessage): ChatReplyAlternative => ({ text, stopped, timestamp });
+
+// Records the reply's current text as its first version, before it is regenerated.
+export const ensureReplyAlternatives = (message: ChatMessage): ChatMessage =>
+  (message.alternatives ? message : { ...message, alternatives: [toAlternative(message)], selectedAlternative: 0 });
+
+// Adds a regenerated version and shows it. Feedback was about the old text, so it is cleared.
+export const addReplyAlternative = (message: ChatMessage, reply: ChatReplyAlternative): ChatMessage => {
+  const alternatives = [...(message.alternatives ?? []), reply];
+  return { ...message, ...reply, alternatives, selectedAlternative: alternatives.length - 1, feedback: undefined };
+};
+
+export const selectReplyAlternative = (message: ChatMessage, index: number): ChatMessage => {
+  const alternative = message.alternatives?.[index];
+  return alternative ? { ...message, ...alternative, selectedAlternative: index } : message;
+};
+
+// Pinned threads first, then most recently active.
+export const sortConversations = (conversations: Conversation[]): Conversation[] =>
+  [...conversations].sort((a, b) => {
+    if (a.pinned !== b.pinned) {
+      return a.pinned ? -1 : 1;
+    }
+    return b.updatedAt.getTime() - a.updatedAt.getTime();
+  });
+
+const reviveMessage = (msg: ChatMessage): ChatMessage => ({
+  ...msg,
+  timestamp: new Date(msg.timestamp),
+  ...(msg.alternatives ? { alternatives: msg.alternatives.map(alt => ({ ...alt, timestamp: new Date(alt.timestamp) })) } : {}),
+});
+
+// Older builds used Date.now() as the message id, so two messages sent in the
+// same millisecond could share one; give any repeat a fresh id.
+const reviveMessages = (messages: ChatMessage[]): ChatMessage[] => {
+  const seen = new Set<string>();
+  return messages.map((msg) => {
+    const revived = reviveMessage(msg);
+    if (seen.has(revived.id)) revived.id = createMessageId();
+    seen.add(revived.id);
+    return revived;
+  });
+};
+
+const reviveConversation = (conversation: Conversation): Conversation => ({
+  ...conversation,
+  personaId: conversation.personaId || DEFAULT_PERSONA_ID, // Threads saved before personas existed
+  messages: reviveMessages(conversation.messages || []),
+  summary: conversation.summary && { ...conversation.summary, updatedAt: new Date(conversation.summary.updatedAt) },
+  createdAt: new Date(conversation.createdAt),
+  updatedAt: new Date(conversation.updatedAt),
+});
+
+// Older builds stored a single thread under `lastChat`.
+type StoredPreferences = Partial<UserPreferences> & { lastChat?: ChatMessage[] };
+
+// Restores Date objects from parsed JSON and upgrades the legacy single-thread shape.
+export const parseStoredPreferences = (stored: StoredPreferences): UserPreferences => {
+  let conversations = (stored.conversations || []).map(reviveConversation);
+
+  if (conversations.length === 0 && stored.lastChat && stored.lastChat.length > 0) {
+    const messages = reviveMessages(stored.lastChat);
+    const lastTimestamp = messages[messages.length - 1].timestamp;
+    conversations = [{
+      ...createConversation(),
+      title: deriveConversationTitle(messages),
+      messages,
+      createdAt: messages[0].timestamp,
+      updatedAt: lastTimestamp,
+    }];
+  }
+
+  const activeConversationId = conversations.some(c => c.id === stored.activeConversationId)
+    ? stored.activeConversationId!
+    : conversations[0]?.id ?? null;
+
+  return {
+    name: stored.name || '',
+    rememberMe: stored.rememberMe || false,
+    conversations,
+    activeConversationId,
+    customPersonas: parsePersonas(stored.customPersonas ?? []),
+    language: isAppLanguage(stored.language) ? stored.language : detectLanguage(),
+    speech: parseSpeechSettings(stored.speech),
+    memory: parseUserMemory(stored.memory),
+  };
+};
@@ -0,0 +1,150 @@
+import { GALLERY_TOOL_LABEL_KEYS, HD_STYLE_PRESETS, SLIDESHOW_THEMES } from '../constants';
+import { GalleryItem, GalleryTool } from '../types';
+import { getAppStorage } from './storage';
+import { createZip, ZipEntry } from './zip';
+import type { Translator } from './i18n';
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type NewGalleryItem = DistributiveOmit<GalleryItem, 'id' | 'createdAt'>;
+
+let galleryItemCounter = 0;
+
+// Saves a tool's output to the gallery. Best effort: a full or unavailable
+// database must never break the tool that produced the output.
+export const recordGalleryItem = async (item: NewGalleryItem): Promise<GalleryItem | null> => {
+  const saved = { ...item, id: `gallery-${Date.now()}-${++galleryItemCounter}`, createdAt: new Date() } as GalleryItem;
+  try {
+    const storage = await getAppStorage();
+    await storage.saveGalleryItem(saved);
+    return saved;
+  } catch (e) {
+    console.error('Failed to save to the gallery', e);
+    return null;
+  }
+};
+
+// Case-insensitive match on the prompt, model, tool name and (for slideshows) slide text.
+export const filterGalleryItems = (items: GalleryItem[], query: string, tool: GalleryTool | 'all', t: Translator['t']): GalleryItem[] => {
+  const needle = query.trim().toLowerCase();
+  return items.filter(item => {
+    if (tool !== 'all' && item.tool !== tool) return false;
+    if (!needle) return true;
+    const haystack = [item.prompt, item.model, t(GALLERY_TOOL_LABEL_KEYS[item.tool])];
+    if (item.tool === 'slideshow-generator') {
+      haystack.push(...item.settings.slides.map(slide => slide.text));
+    }
+    return haystack.some(text => text.toLowerCase().includes(needle));
+  });
+};
+
+// Unknown ids (e.g. a preset removed since the item was saved) show as-is.
+const styleName = (id: string, t: Translator['t']) => {
+  const preset = HD_STYLE_PRESETS.find(candidate => candidate.id === id);
+  return preset ? t(preset.nameKey) : id;
+};
+
+const themeName = (id: string, t: Translator['t']) => {
+  const theme = SLIDESHOW_THEMES.find(candidate => candidate.id === id);
+  return theme ? t(theme.nameKey) : id;
+};
+
+// Human-readable summary of the settings an item was made with.
+export const describeGallerySettings = (item: GalleryItem, t: Translator['t']): string[] => {
+  switch (item.tool) {
+    case 'image-editor': {
+      const { masked, referenceCount } = item.settings;
+      return [
+        t(masked ? 'gallery.settings.selectedArea' : 'gallery.settings.wholeImage'),
+        referenceCount > 0 && t(referenceCount === 1 ? 'gallery.settings.referenceImage' : 'gallery.settings.referenceImages', { count: referenceCount }),
+      ].filter((line): line is string => Boolean(line));
+    }
+    case 'hd-image-generator': {
+      const { settings } = item;
+      return [
+        t('gallery.settings.aspectRatio', { ratio: settings.aspectRatio }),
+        settings.format === 'image/png' ? 'PNG' : 'JPEG',
+        settings.stylePresetId && t('gallery.settings.style', { style: styleName(settings.stylePresetId, t) }),
+        settings.negativePrompt && t('gallery.settings.avoid', { text: settings.negativePrompt }),
+        settings.seed !== undefined && t('gallery.settings.seed', { seed: settings.seed }),
+        settings.personGeneration && t('gallery.settings.people', { value: settings.personGeneration.replace('_', ' ') }),
+        settings.safetyLevel && t('gallery.settings.safety', { value: settings.safetyLevel }),
+      ].filter((line): line is string => Boolean(line));
+    }
+    case 'slideshow-generator': {
+      const { settings } = item;
+      return [
+        t(settings.slides.length === 1 ? 'gallery.settings.slide' : 'gallery.settings.slides', { count: settings.slides.length }),
+        t('gallery.settings.theme', { theme: themeName(settings.themeId, t) }),
+        t(settings.format === 'webm' ? 'gallery.settings.webm' : 'gallery.settings.gif'),
+      ];
+    }
+  }
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/svg+xml': 'svg',
+};
+
+export const getGalleryItemExtension = (item: GalleryItem): string => {
+  const mimeType = item.mediaUrl.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream';
+  return MIME_EXTENSIONS[mimeType] ?? mimeType.split('/')[1] ?? 'bin';
+};
+
+// e.g. "hd-image-generator-2025-03-14-0930-2.png"
+export const getGalleryItemFileName = (item: GalleryItem, index?: number): string => {
+  const d = item.createdAt;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}`;
+  return `${item.tool}-${stamp}${index !== undefined ? `-${index + 1}` : ''}.${getGalleryItemExtension(item)}`;
+};
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const [header, payload = ''] = dataUrl.split(',', 2);
+  if (header.endsWith(';base64')) {
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+  return new TextEncoder().encode(decodeURIComponent(payload));
+};
+
+// Settings without their embedded images (the source image, slide pictures).
+const getManifestSettings = (item: GalleryItem) => {
+  switch (item.tool) {
+    case 'image-editor': {
+      const { sourceImageUrl: _sourceImageUrl, ...settings } = item.settings;
+      return settings;
+    }
+    case 'slideshow-generator':
+      return { ...item.settings, slides: item.settings.slides.map(({ imageUrl: _imageUrl, ...slide }) => slide) };
+    default:
+      return item.settings;
+  }
+};
+
+// Bundles the items into a ZIP with a gallery.json listing each file's prompt,
+// model and settings. Embedded images (e.g. slide pictures) are left out of the
+// listing to keep it readable.
+export const createGalleryZip = (items: GalleryItem[]): Blob => {
+  const entries: ZipEntry[] = items.map((item, index) => ({
+    name: getGalleryItemFileName(item, index),
+    data: dataUrlToBytes(item.mediaUrl),
+    modified: item.createdAt,
+  }));
+  const manifest = items.map((item, index) => ({
+    file: entries[index].name,
+    tool: item.tool,
+    prompt: item.prompt,
+    model: item.model,
+    createdAt: item.createdAt.toISOString(),
+    settings: getManifestSettings(item),
+  }));
+  const json = JSON.stringify(manifest, null, 2);
+  entries.push({ name: 'gallery.json', data: new TextEncoder().encode(json) });
+  return createZip(entries);
+};
@@ -0,0 +1,253 @@
+import { GoogleGenAI, GenerateContentResponse, GenerateVideosOperation, Chat, FinishReason, Part, PersonGeneration, SafetyFilterLevel } from '@google/genai';
+import { CHAT_MODEL_NAME, IMAGE_EDIT_MODEL_NAME, IMAGE_RESPONSE_MODALITIES, HD_IMAGE_GEN_MODEL_NAME, VIDEO_GEN_MODEL_NAME } from '../constants';
+import { AIProvider, VideoOperation } from './aiProvider';
+import { HDPersonGeneration, HDSafetyLevel } from '../types';
+import { AIRequestError, createAIError } from './aiErrors';
+import { chatAttachmentToPart } from './chatAttachments';
+
+// Function to initialize GoogleGenAI. It's called when an API request is made
+// to ensure it uses the latest API key from the environment.
+const getGeminiClient = () => {
+  if (!process.env.API_KEY) {
+    throw new AIRequestError(createAIError('auth', 'API_KEY is not set. Please ensure it is configured in your environment.', 'missing-api-key'));
+  }
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+const MASK_EDIT_INSTRUCTION = 'The mask is a black and white map of Image 1. '
+  + 'Change Image 1 only inside the white area and leave everything in the black area exactly as it is. '
+  + 'Return a single edited image with the same framing as Image 1.';
+
+const PERSON_GENERATION: Record<HDPersonGeneration, PersonGeneration> = {
+  dont_allow: PersonGeneration.DONT_ALLOW,
+  allow_adult: PersonGeneration.ALLOW_ADULT,
+  allow_all: PersonGeneration.ALLOW_ALL,
+};
+
+const SAFETY_FILTER_LEVELS: Record<HDSafetyLevel, SafetyFilterLevel> = {
+  strict: SafetyFilterLevel.BLOCK_LOW_AND_ABOVE,
+  balanced: SafetyFilterLevel.BLOCK_MEDIUM_AND_ABOVE,
+  relaxed: SafetyFilterLevel.BLOCK_ONLY_HIGH,
+};
+
+const SAFETY_FINISH_REASONS = new Set<string>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+]);
+
+// Throws a safety-blocked error when the prompt or the first candidate was filtered.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && SAFETY_FINISH_REASONS.has(finishReason))) {
+    throw new AIRequestError(createAIError('safety-blocked'));
+  }
+};
+
+// Converts the SDK operation into our snapshot, downloading the finished video.
+// Video URIs need the API key appended before they can be fetched.
+const toVideoOperation = async (operation: GenerateVideosOperation): Promise<VideoOperation> => {
+  if (operation.error) {
+    throw new Error(String(operation.error.message || 'Video generation failed.'));
+  }
+  const progressPercent = typeof operation.metadata?.progressPercent === 'number'
+    ? operation.metadata.progressPercent
+    : undefined;
+  if (!operation.done) {
+    return { name: operation.name || '', done: false, progressPercent };
+  }
+
+  if (operation.response?.raiMediaFilteredCount) {
+    throw new AIRequestError(createAIError('safety-blocked', operation.response.raiMediaFilteredReasons?.[0]));
+  }
+  const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
+  if (!uri) {
+    return { name: operation.name || '', done: true };
+  }
+  const response = await fetch(`${uri}${uri.includes('?') ? '&' : '?'}key=${process.env.API_KEY}`);
+  if (!response.ok) {
+    throw new Error(`Failed to download video (${response.status})`);
+  }
+  const blob = await response.blob();
+  return {
+    name: operation.name || '',
+    done: true,
+    progressPercent: 100,
+    video: { url: URL.createObjectURL(blob), mimeType: blob.type || 'video/mp4' },
+  };
+};
+
+// The AI Studio host injects `window.aistudio` for API key selection; it is absent elsewhere.
+const getAIStudio = () => (window as any).aistudio;
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  supportsImageSeed: false, // See generateImages
+
+  async *streamChat({ message, media, history, systemInstruction, signal }) {
+    const ai = getGeminiClient();
+
+    // Convert app's ChatMessage history to Gemini's Content format, replaying
+    // attachments as inline parts ahead of the text they were sent with.
+    const formattedHistory = history.map(msg => ({
+      role: msg.sender === 'user' ? 'user' : 'model',
+      parts: [
+        ...(msg.attachments ?? []).map(chatAttachmentToPart),
+        ...(msg.text || !msg.attachments?.length ? [{ text: msg.text }] : []),
+      ],
+    }));
+
+    // Always create a new chat instance, passing the full history directly.
+    // This ensures the model always has the complete and up-to-date context
+    // from the UI's chat history.
+    const chatInstance: Chat = ai.chats.create({
+      model: CHAT_MODEL_NAME,
+      config: {
+        systemInstruction,
+        abortSignal: signal,
+      },
+      history: formattedHistory, // Pass the formatted history here
+    });
+
+    const streamResponse = await chatInstance.sendMessageStream({
+      message: media?.length ? [...media, { text: message }] : message,
+    });
+    for await (const chunk of streamResponse) {
+      const c = chunk as GenerateContentResponse;
+      assertNotBlocked(c);
+      if (c.text) {
+        yield c.text;
+      }
+    }
+  },
+
+  async generateText({ prompt, systemInstruction, jsonSchema, media, signal }) {
+    const ai = getGeminiClient();
+    const response = await ai.models.generateContent({
+      model: CHAT_MODEL_NAME,
+      contents: media?.length ? { parts: [...media, { text: prompt }] } : prompt,
+      config: {
+        systemInstruction,
+        abortSignal: signal,
+        ...(jsonSchema ? { responseMimeType: 'application/json', responseJsonSchema: jsonSchema } : {}),
+      },
+    });
+    assertNotBlocked(response);
+    return response.text || '';
+  },
+
+  async editImage({ images, prompt, mask }) {
+    const ai = getGeminiClient();
+
+    // A single image goes in as-is. With several, each is introduced as
+    // "Image N (label)" so prompts can refer to them by number.
+    const parts: Part[] = images.length === 1 && !mask
+      ? [images[0].image]
+      : images.flatMap(({ image, label }, i) => [
+        { text: `Image ${i + 1}${label ? ` (${label})` : ''}:` },
+        image,
+      ]);
+    // The model has no mask input of its own, so the mask goes in as another
+    // image with instructions; the caller composites the result afterwards.
+    if (mask) {
+      parts.push({ text: 'Mask:' }, mask, { text: MASK_EDIT_INSTRUCTION });
+    }
+    parts.push({ text: prompt });
+
+    const response: GenerateContentResponse = await ai.models.generateContent({
+      model: IMAGE_EDIT_MODEL_NAME,
+      contents: { parts },
+      config: {
+        responseModalities: IMAGE_RESPONSE_MODALITIES,
+      },
+    });
+
+    assertNotBlocked(response);
+    // The model may put some text before the image.
+    const editedImagePart = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData;
+    if (!editedImagePart) {
+      console.error('No image data received from Gemini:', response);
+      return undefined;
+    }
+    return `data:${editedImagePart.mimeType};base64,${editedImagePart.data}`;
+  },
+
+  // The Gemini API rejects Imagen's `negativePrompt` and `seed` parameters, so
+  // the negative prompt is written into the prompt and the seed is not sent.
+  async generateImages({
+    prompt,
+    aspectRatio,
+    numberOfImages = 1,
+    outputMimeType = 'image/jpeg',
+    negativePrompt,
+    personGeneration,
+    safetyLevel,
+    signal,
+  }) {
+    const ai = getGeminiClient();
+
+    const response = await ai.models.generateImages({
+      model: HD_IMAGE_GEN_MODEL_NAME,
+      prompt: negativePrompt ? `${prompt}\n\nAvoid: ${negativePrompt}` : prompt,
+      config: {
+        numberOfImages,
+        outputMimeType,
+        aspectRatio: aspectRatio,
+        personGeneration: personGeneration ? PERSON_GENERATION[personGeneration] : undefined,
+        safetyFilterLevel: safetyLevel ? SAFETY_FILTER_LEVELS[safetyLevel] : undefined,
+        abortSignal: signal,
+      },
+    });
+
+    // Variations are filtered one by one; only fail when every one was blocked.
+    const generatedImages = response.generatedImages ?? [];
+    const imageUrls = generatedImages
+      .map(generated => generated.image)
+      .filter(image => image?.imageBytes)
+      .map(image => `data:${image!.mimeType ?? outputMimeType};base64,${image!.imageBytes}`);
+    if (imageUrls.length === 0) {
+      const filteredReason = generatedImages.find(generated => generated.raiFilteredReason)?.raiFilteredReason;
+      if (filteredReason) {
+        throw new AIRequestError(createAIError('safety-blocked', `Image blocked by safety filters: ${filteredReason}`));
+      }
+      console.error('No image data received from HD image generator:', response);
+    }
+    return imageUrls;
+  },
+
+  async startVideoGeneration({ prompt, aspectRatio, referenceImage }) {
+    const ai = getGeminiClient();
+    const operation = await ai.models.generateVideos({
+      model: VIDEO_GEN_MODEL_NAME,
+      prompt,
+      image: referenceImage
+        ? { imageBytes: referenceImage.inlineData.data, mimeType: referenceImage.inlineData.mimeType }
+        : undefined,
+      config: {
+        numberOfVideos: 1,
+        resolution: '720p',
+        aspectRatio,
+      },
+    });
+    return toVideoOperation(operation);
+  },
+
+  async getVideoOperation({ name }) {
+    const ai = getGeminiClient();
+    const operation = new GenerateVideosOperation();
+    operation.name = name;
+    return toVideoOperation(await ai.operations.getVideosOperation({ operation }));
+  },
+
+  async hasSelectedApiKey() {
+    const aistudio = getAIStudio();
+    return aistudio ? aistudio.hasSelectedApiKey() : Boolean(process.env.API_KEY);
+  },
+
+  async openApiKeySelector() {
+    await getAIStudio()?.openSelectKey();
+  },
+};
@@ -1,185 +1,440 @@
-
-
-import { GoogleGenAI, GenerateContentResponse, Chat, Modality } from '@google/genai';
-import { CHAT_MODEL_NAME, BHAI_SYSTEM_INSTRUCTION, IMAGE_EDIT_MODEL_NAME, IMAGE_RESPONSE_MODALITIES, HD_IMAGE_GEN_MODEL_NAME } from '../constants'; // Added HD_IMAGE_GEN_MODEL_NAME
-import { ChatMessage, ImagePart } from '../types';
+import { MAX_EDIT_IMAGES } from '../constants';
+import { AppLanguage, AspectRatio, ChatAttachment, ChatMessage, ConversationSummary, HDImageFormat, HDPersonGeneration, HDSafetyLevel, ImagePart, Persona, UserMemory, VideoAspectRatio } from '../types';
+import { AIProvider, AIProviderId, VideoOperation } from './aiProvider';
+import { geminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { AIError, classifyError, createAIError, isRetryableError } from './aiErrors';
+import { sleep, withRetry } from './retry';
+import { blobToDataUrl, dataUrlToImagePart, preprocessImage } from './imagePreprocess';
+import { buildPersonaInstruction } from './personas';
+import { chatAttachmentToPart } from './chatAttachments';
+import { buildMemoryInstruction, extractMemoryProposals, hideMemoryMarkers, selectRelevantMemories } from './memory';
+import { buildSummaryInstruction, buildSummaryPrompt, createConversationSummary, planChatContext, SUMMARY_INSTRUCTION } from './chatContext';
+import { getLanguageOption } from './i18n';
+import { cleanEnhancedPrompt, ENHANCE_PROMPT_INSTRUCTION } from './imagePrompt';
+import { buildSlideOutlinePrompt, parseSlideOutline, SLIDE_OUTLINE_SCHEMA, SlideOutline } from './slideOutline';
 
 interface GeminiChatResponse {
   text: string;
-  error?: string;
+  error?: AIError;
+  stopped?: boolean; // True when the caller aborted the stream partway
+  summary?: ConversationSummary; // Set when older messages were folded into a new summary
+  memoryProposals?: string[]; // Facts Bhaii offered to remember, for the user to confirm
+}
+
+export interface ChatStreamOptions {
+  // Called for every streamed chunk with the new piece and the text received so far.
+  onChunk?: (chunkText: string, fullText: string) => void;
+  // Aborting this signal stops the stream; the partial text is returned with `stopped: true`.
+  signal?: AbortSignal;
+  // Language Bhaii should reply in; unset leaves it to the persona.
+  language?: AppLanguage;
+  // Files sent with this message as inline parts.
+  attachments?: ChatAttachment[];
+  // The conversation's stored summary of its older messages.
+  summary?: ConversationSummary;
+  // Called before older messages are summarized, which delays the reply.
+  onSummarizing?: () => void;
+  // The user's long-term memory; relevant entries are sent and new ones may be proposed.
+  memory?: UserMemory;
+}
+
+// One input to a multi-image edit: an uploaded file or a data: URL, with an optional label.
+export interface EditImageSource {
+  image: File | string;
+  label?: string;
 }
 
 interface GeminiImageEditResponse {
   imageUrl?: string;
-  error?: string;
+  error?: AIError;
 }
 
 // NEW: Interface for HD Image Generation Response
 interface GeminiHDImageGenerationResponse {
-  imageUrl?: string;
-  error?: string;
+  imageUrl?: string; // The first image
+  imageUrls?: string[]; // Every variation that came back
+  error?: AIError;
+  cancelled?: boolean;
+}
+
+export interface HDImageGenerationOptions {
+  numberOfImages?: number; // 1-4
+  outputMimeType?: HDImageFormat;
+  negativePrompt?: string;
+  seed?: number;
+  personGeneration?: HDPersonGeneration;
+  safetyLevel?: HDSafetyLevel;
+  signal?: AbortSignal;
+}
+
+interface GeminiPromptEnhanceResponse {
+  prompt?: string;
+  error?: AIError;
+}
+
+interface GeminiTranscriptionResponse {
+  text?: string;
+  error?: AIError;
+  cancelled?: boolean;
+}
+
+export interface TranscriptionOptions {
+  language?: AppLanguage; // Expected spoken language, as a hint
+  signal?: AbortSignal;
+}
+
+export interface VideoGenerationProgress {
+  operationName: string;
+  progressPercent?: number; // Reported by the backend when available
+  elapsedMs: number;
+}
+
+interface VideoGenerationOptions {
+  onProgress?: (progress: VideoGenerationProgress) => void;
+  signal?: AbortSignal; // Stops polling; the job itself keeps running server-side
+  pollIntervalMs?: number;
+}
+
+interface SlideOutlineOptions {
+  slideCount?: number;
+  signal?: AbortSignal;
+}
+
+interface GeminiSlideOutlineResponse {
+  outline?: SlideOutline;
+  usedFallback?: boolean; // The reply wasn't valid JSON and was read as plain text
+  error?: AIError;
+  cancelled?: boolean;
+}
+
+interface GeminiVideoGenerationResponse {
+  video?: NonNullable<VideoOperation['video']>;
+  error?: AIError;
+  cancelled?: boolean;
 }
 
-// Function to initialize GoogleGenAI. It's called when an API request is made
-// to ensure it uses the latest API key from the environment.
-const getGeminiClient = () => {
-  if (!process.env.API_KEY) {
-    throw new Error('API_KEY is not set. Please ensure it is configured in your environment.');
+// Picks the provider from the AI_PROVIDER env setting ('gemini' by default, 'mock' to run offline).
+const createConfiguredProvider = (): AIProvider => {
+  const configured = (process.env.AI_PROVIDER || 'gemini') as AIProviderId;
+  return configured === 'mock' ? createMockProvider() : geminiProvider;
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = createConfiguredProvider();
   }
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return activeProvider;
 };
 
-// Helper to convert Blob to Base64
-async function blobToBase64(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      resolve(result.split(',')[1]); // Extract base64 part
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-}
+// Swap the provider at runtime, e.g. `setAIProvider(createMockProvider({ chunkDelayMs: 0 }))` in tests.
+export const setAIProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
+
+// Seeds that never reach the model must not be offered, saved or shown.
+export const supportsImageSeed = (): boolean => getAIProvider().supportsImageSeed;
+
+export const hasSelectedApiKey = (): Promise<boolean> => getAIProvider().hasSelectedApiKey();
+
+export const openApiKeySelector = (): Promise<void> => getAIProvider().openApiKeySelector();
+
+// Uploaded files are resized, rotated upright and stripped of metadata
+// before they are sent; see imagePreprocess.
+const fileToImagePart = async (file: File): Promise<ImagePart> =>
+  dataUrlToImagePart((await preprocessImage(file)).dataUrl);
+
+// Classifies a failed call and, for key problems, reopens the key selector
+// as the AI Studio guidelines ask.
+const handleServiceError = async (error: unknown, context: string): Promise<AIError> => {
+  console.error(`Error ${context}:`, error);
+  const aiError = classifyError(error);
+  if (aiError.kind === 'auth' || aiError.kind === 'billing') {
+    await openApiKeySelector();
+  }
+  return aiError;
+};
 
 export const chatWithBhaii = async (
   message: string,
   history: ChatMessage[],
   userName: string,
+  persona: Persona,
+  options: ChatStreamOptions = {},
 ): Promise<GeminiChatResponse> => {
+  const { onChunk, signal, language, attachments = [], onSummarizing, memory } = options;
+  let fullText = '';
+  let newSummary: ConversationSummary | undefined;
   try {
-    const ai = getGeminiClient();
-
-    // Convert app's ChatMessage history to Gemini's Content format.
-    const formattedHistory = history.map(msg => ({
-      role: msg.sender === 'user' ? 'user' : 'model',
-      parts: [{ text: msg.text }],
-    }));
-
-    // Always create a new chat instance, passing the full history directly.
-    // This ensures the model always has the complete and up-to-date context
-    // from the UI's chat history.
-    const chatInstance: Chat = ai.chats.create({
-      model: CHAT_MODEL_NAME,
-      config: {
-        systemInstruction: BHAI_SYSTEM_INSTRUCTION,
-      },
-      history: formattedHistory, // Pass the formatted history here
-    });
-      
-    // Prepend user name to the message for context
-    const personalizedMessage = userName ? `${userName} says: ${message}` : message;
-
-    const streamResponse = await chatInstance.sendMessageStream({ message: personalizedMessage });
-
-    let fullText = '';
-    for await (const chunk of streamResponse) {
-      const c = chunk as GenerateContentResponse;
-      if (c.text) {
-        fullText += c.text;
+    if (!message.trim() && attachments.length === 0) {
+      return { text: '', error: createAIError('invalid-input', 'Please type a message or attach a file.', 'empty-message') };
+    }
+    // A file sent on its own still needs a line of text to go with it
+    const text = message.trim() || 'Please take a look at this.';
+    const media = attachments.map(chatAttachmentToPart);
+
+    const plan = planChatContext(history, options.summary);
+    let summary = plan.summary;
+    if (plan.toFold.length > 0) {
+      onSummarizing?.();
+      try {
+        const summaryText = await withRetry(() => getAIProvider().generateText({
+          prompt: buildSummaryPrompt(plan.toFold, summary?.text),
+          systemInstruction: SUMMARY_INSTRUCTION,
+          signal,
+        }), { signal });
+        if (summaryText.trim()) {
+          newSummary = createConversationSummary(summaryText.trim(), history, plan.coveredCount);
+          summary = newSummary;
+        }
+      } catch (error) {
+        if (signal?.aborted) {
+          return { text: '', stopped: true };
+        }
+        // Carry on with the older summary, if any; the next message tries again
+        console.error('Error summarizing conversation:', error);
       }
     }
+    // The name and saved facts go in the system context rather than in every message
+    const memories = memory?.enabled
+      ? selectRelevantMemories(memory.entries, [...plan.recent.slice(-4).map(m => m.text), text].join('\n'))
+      : [];
+    const systemInstruction = [
+      buildPersonaInstruction(persona, language && getLanguageOption(language).replyInstruction),
+      buildMemoryInstruction(userName, memories, !!memory?.enabled),
+      summary && buildSummaryInstruction(summary.text),
+    ].filter(Boolean).join('\n\n');
+
+    // Once text has been shown a retry would duplicate it, so only failures
+    // before the first chunk are retried.
+    await withRetry(async () => {
+      const stream = getAIProvider().streamChat({
+        message: text,
+        media,
+        history: plan.recent,
+        systemInstruction,
+        signal,
+      });
 
-    return { text: fullText.trim() };
-  } catch (error: any) {
-    console.error('Error chatting with Bhaii:', error);
-    if (error.message && error.message.includes("Requested entity was not found")) {
-      // Prompt user to select API key if it's not found, as per guidelines for Veo.
-      // Although this is chat, the error handling pattern is consistent.
-      await (window as any).aistudio.openSelectKey();
-      return { text: '', error: 'API key issue. Please select your API key again from the dialog.' };
+      for await (const chunkText of stream) {
+        if (signal?.aborted) {
+          return;
+        }
+        fullText += chunkText;
+        onChunk?.(chunkText, hideMemoryMarkers(fullText));
+      }
+    }, { signal, shouldRetry: (error) => fullText === '' && isRetryableError(error) });
+
+    const reply = extractMemoryProposals(fullText, memory?.entries ?? []);
+    const memoryProposals = memory?.enabled && reply.proposals.length > 0 ? reply.proposals : undefined;
+    if (signal?.aborted) {
+      return { text: reply.text.trim(), stopped: true, summary: newSummary, memoryProposals };
+    }
+    return { text: reply.text.trim(), summary: newSummary, memoryProposals };
+  } catch (error) {
+    if (signal?.aborted) {
+      // Stopped by the user - keep whatever arrived before the abort.
+      return { text: hideMemoryMarkers(fullText).trim(), stopped: true, summary: newSummary };
     }
-    return { text: '', error: 'Sorry, kuch gadbad ho gayi. Can you please try again?' };
+    return { text: '', error: await handleServiceError(error, 'chatting with Bhaii'), summary: newSummary };
   }
 };
 
+const toImagePart = (image: File | string): Promise<ImagePart> =>
+  typeof image === 'string' ? Promise.resolve(dataUrlToImagePart(image)) : fileToImagePart(image);
+
+// Edits one image, or combines up to MAX_EDIT_IMAGES ordered images that the
+// prompt can refer to as "image 1", "image 2", ... The first one is edited.
+// With a mask (a data: URL, white = area to change) the model is asked to edit
+// only that region of the first image. Models don't follow masks exactly, so
+// callers should composite the result with compositeWithMask.
 export const editImageWithGemini = async (
-  imageFile: File,
+  image: File | string | EditImageSource[], // A single file or data: URL, or several labeled ones
   prompt: string,
+  mask?: string,
 ): Promise<GeminiImageEditResponse> => {
   try {
-    const ai = getGeminiClient();
-
-    const base64ImageData = await blobToBase64(imageFile);
+    const sources = Array.isArray(image) ? image : [{ image }];
+    if (sources.length === 0) {
+      return { error: createAIError('invalid-input', 'Please add an image to edit.', 'no-edit-image') };
+    }
+    if (sources.length > MAX_EDIT_IMAGES) {
+      return { error: createAIError('invalid-input', `You can combine at most ${MAX_EDIT_IMAGES} images in one edit.`, 'too-many-edit-images') };
+    }
 
-    const imagePart: ImagePart = {
-      inlineData: {
-        data: base64ImageData,
-        mimeType: imageFile.type,
-      },
-    };
+    const images = await Promise.all(sources.map(async ({ image: source, label }) => ({
+      image: await toImagePart(source),
+      label: label?.trim() || undefined,
+    })));
+    const maskPart = mask ? dataUrlToImagePart(mask) : undefined;
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: IMAGE_EDIT_MODEL_NAME,
-      contents: {
-        parts: [
-          imagePart,
-          { text: prompt },
-        ],
-      },
-      config: {
-        responseModalities: IMAGE_RESPONSE_MODALITIES,
-      },
-    });
-
-    const editedImagePart = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
-
-    if (editedImagePart) {
-      const imageUrl = `data:${editedImagePart.mimeType};base64,${editedImagePart.data}`;
+    const imageUrl = await withRetry(() => getAIProvider().editImage({ images, prompt, mask: maskPart }));
+    if (imageUrl) {
       return { imageUrl };
-    } else {
-      console.error('No image data received from Gemini:', response);
-      return { error: 'Could not generate edited image. Please try a different prompt.' };
-    }
-  } catch (error: any) {
-    console.error('Error editing image with Gemini:', error);
-    // Specific error handling for API key issues
-    if (error.message && error.message.includes("Requested entity was not found")) {
-      await (window as any).aistudio.openSelectKey();
-      return { error: 'API key issue. Please select your API key again from the dialog.' };
-    }
-    return { error: 'Failed to edit image. Network issue or invalid prompt?' };
+    }
+    return { error: createAIError('no-output', 'Could not generate edited image. Please try a different prompt.', 'no-edited-image') };
+  } catch (error) {
+    return { error: await handleServiceError(error, 'editing image with Gemini') };
   }
 };
 
 // NEW: Function to generate HD images
 export const generateHDImageWithGemini = async (
   prompt: string,
-  aspectRatio: '1:1' | '3:4' | '4:3' | '9:16' | '16:9',
+  aspectRatio: AspectRatio,
+  { numberOfImages = 1, outputMimeType = 'image/jpeg', negativePrompt, seed, personGeneration, safetyLevel, signal }: HDImageGenerationOptions = {},
 ): Promise<GeminiHDImageGenerationResponse> => {
   try {
-    const ai = getGeminiClient();
+    if (!prompt.trim()) {
+      return { error: createAIError('invalid-input', 'Please provide a text prompt for image generation.', 'empty-image-prompt') };
+    }
+
+    const imageUrls = await withRetry(() => getAIProvider().generateImages({
+      prompt: prompt.trim(),
+      aspectRatio,
+      numberOfImages: Math.min(4, Math.max(1, Math.round(numberOfImages))),
+      outputMimeType,
+      negativePrompt: negativePrompt?.trim() || undefined,
+      seed: supportsImageSeed() ? seed : undefined,
+      personGeneration,
+      safetyLevel,
+      signal,
+    }), { signal });
+    if (imageUrls.length > 0) {
+      return { imageUrl: imageUrls[0], imageUrls };
+    }
+    return { error: createAIError('no-output', 'Could not generate HD image. Please try a different prompt.', 'no-hd-image') };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { cancelled: true };
+    }
+    const aiError = await handleServiceError(error, 'generating HD image with Gemini');
+    // Imagen is billing-only, so a key problem here almost always means billing isn't enabled.
+    return { error: aiError.kind === 'auth' ? createAIError('billing') : aiError };
+  }
+};
+
+// Rewrites a short idea into a detailed image prompt for the user to review.
+export const enhanceImagePrompt = async (idea: string, signal?: AbortSignal): Promise<GeminiPromptEnhanceResponse> => {
+  try {
+    if (!idea.trim()) {
+      return { error: createAIError('invalid-input', 'Please write a short idea to enhance.', 'empty-enhance-prompt') };
+    }
+    const text = await withRetry(() => getAIProvider().generateText({
+      prompt: idea.trim(),
+      systemInstruction: ENHANCE_PROMPT_INSTRUCTION,
+      signal,
+    }), { signal });
+    const prompt = cleanEnhancedPrompt(text);
+    if (prompt) {
+      return { prompt };
+    }
+    return { error: createAIError('no-output', 'Could not enhance this prompt. Please try again.', 'no-enhanced-prompt') };
+  } catch (error) {
+    return { error: await handleServiceError(error, 'enhancing image prompt') };
+  }
+};
 
+// Turns a voice recording into text, for browsers without speech recognition.
+export const transcribeAudio = async (
+  audio: Blob,
+  { language, signal }: TranscriptionOptions = {},
+): Promise<GeminiTranscriptionResponse> => {
+  try {
+    if (audio.size === 0) {
+      return { error: createAIError('invalid-input', 'The recording is empty. Please try again.', 'empty-recording') };
+    }
+    const recording = dataUrlToImagePart(await blobToDataUrl(audio)); // Drops MIME parameters such as codecs
+    const languageHint = language ? ` The speaker most likely uses ${getLanguageOption(language).label}.` : '';
+    const text = await withRetry(() => getAIProvider().generateText({
+      prompt: `Transcribe this recording word for word.${languageHint} Reply with the transcript only, or nothing if there is no speech.`,
+      media: [recording],
+      signal,
+    }), { signal });
+    return { text: text.trim() };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { cancelled: true };
+    }
+    return { error: await handleServiceError(error, 'transcribing audio') };
+  }
+};
+
+// Asks the chat model for a slideshow outline (titles + bullets + image ideas).
+// Replies are validated; anything that isn't the expected JSON is salvaged as
+// plain text when possible rather than failing outright.
+export const generateSlideOutline = async (
+  topic: string,
+  { slideCount = 5, signal }: SlideOutlineOptions = {},
+): Promise<GeminiSlideOutlineResponse> => {
+  try {
+    if (!topic.trim()) {
+      return { error: createAIError('invalid-input', 'Please enter a topic for your slideshow.', 'empty-slideshow-topic') };
+    }
+
+    const text = await withRetry(() => getAIProvider().generateText({
+      prompt: buildSlideOutlinePrompt(topic.trim(), slideCount),
+      systemInstruction: 'You write clear, friendly slideshow outlines for Indian students. Reply only with JSON.',
+      jsonSchema: SLIDE_OUTLINE_SCHEMA,
+      signal,
+    }), { signal });
+
+    const { outline, usedFallback } = parseSlideOutline(text, topic.trim());
+    if (outline) {
+      return { outline, usedFallback };
+    }
+    return { error: createAIError('no-output', 'Could not build slides for this topic. Please try rephrasing it.', 'no-slides') };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { cancelled: true };
+    }
+    return { error: await handleServiceError(error, 'generating slideshow outline') };
+  }
+};
+
+// Starts a video job and polls it until it finishes. Video generation usually
+// takes a few minutes, so progress is reported after every poll.
+export const generateVideoWithGemini = async (
+  prompt: string,
+  aspectRatio: VideoAspectRatio,
+  referenceImage: File | null,
+  { onProgress, signal, pollIntervalMs = 10000 }: VideoGenerationOptions = {},
+): Promise<GeminiVideoGenerationResponse> => {
+  const startedAt = Date.now();
+  try {
     if (!prompt.trim()) {
-      return { error: 'Please provide a text prompt for image generation.' };
+      return { error: createAIError('invalid-input', 'Please describe the video you want to generate.', 'empty-video-prompt') };
     }
 
-    const response = await ai.models.generateImages({
-      model: HD_IMAGE_GEN_MODEL_NAME,
+    const provider = getAIProvider();
+    const request = {
       prompt: prompt.trim(),
-      config: {
-        numberOfImages: 1, // Generate a single image
-        outputMimeType: 'image/jpeg', // Standard output format
-        aspectRatio: aspectRatio,
-      },
-    });
+      aspectRatio,
+      referenceImage: referenceImage ? await fileToImagePart(referenceImage) : undefined,
+    };
 
-    const generatedImage = response.generatedImages?.[0]?.image;
+    let operation = await withRetry(() => provider.startVideoGeneration(request), { signal });
+    onProgress?.({ operationName: operation.name, progressPercent: operation.progressPercent, elapsedMs: Date.now() - startedAt });
 
-    if (generatedImage?.imageBytes) {
-      const imageUrl = `data:${generatedImage.mimeType};base64,${generatedImage.imageBytes}`;
-      return { imageUrl };
-    } else {
-      console.error('No image data received from HD image generator:', response);
-      return { error: 'Could not generate HD image. Please try a different prompt.' };
-    }
-  } catch (error: any) {
-    console.error('Error generating HD image with Gemini:', error);
-    if (error.message && error.message.includes("Requested entity was not found.")) {
-      // As per guidelines, if key selection fails or API key is invalid, prompt user again.
-      await (window as any).aistudio.openSelectKey();
-      return { error: 'API key issue: HD Image generation requires billing. Please ensure your API key is enabled for billing and re-select it.' };
-    }
-    return { error: `Failed to generate HD image: ${error.message || 'Unknown error'}` };
+    while (!operation.done) {
+      await sleep(pollIntervalMs, signal);
+      const current = operation;
+      operation = await withRetry(() => provider.getVideoOperation(current), { signal });
+      onProgress?.({ operationName: operation.name, progressPercent: operation.progressPercent, elapsedMs: Date.now() - startedAt });
+    }
+
+    if (operation.video) {
+      return { video: operation.video };
+    }
+    return { error: createAIError('no-output', 'The video finished without any output. Please try a different prompt.', 'no-video') };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { cancelled: true };
+    }
+    const aiError = await handleServiceError(error, 'generating video with Gemini');
+    // Like Imagen, Veo needs a billing-enabled key.
+    return { error: aiError.kind === 'auth' ? createAIError('billing') : aiError };
   }
 };
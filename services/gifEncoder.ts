@@ -0,0 +1,222 @@
+// Minimal animated GIF89a encoder. Frames are mapped onto a fixed 6x7x6 color
+// cube, which is plenty for flat gradients and text, and keeps encoding fast
+// enough to run on the main thread without a quantization pass.
+
+const PALETTE_SIZE = 256;
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+
+const buildPalette = (): Uint8Array => {
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  let i = 0;
+  for (let r = 0; r < 6; r++) {
+    for (let g = 0; g < 7; g++) {
+      for (let b = 0; b < 6; b++) {
+        palette[i++] = Math.round((r * 255) / 5);
+        palette[i++] = Math.round((g * 255) / 6);
+        palette[i++] = Math.round((b * 255) / 5);
+      }
+    }
+  }
+  return palette; // Remaining 4 entries stay black
+};
+
+const PALETTE = buildPalette();
+
+// RGBA pixels -> palette indices.
+const quantize = (rgba: Uint8ClampedArray): Uint8Array => {
+  const indices = new Uint8Array(rgba.length / 4);
+  for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+    const r = Math.round((rgba[i] * 5) / 255);
+    const g = Math.round((rgba[i + 1] * 6) / 255);
+    const b = Math.round((rgba[i + 2] * 5) / 255);
+    indices[p] = r * 42 + g * 6 + b;
+  }
+  return indices;
+};
+
+interface ByteWriter {
+  byte: (value: number) => void;
+  word: (value: number) => void; // Little-endian 16-bit
+  ascii: (text: string) => void;
+  append: (data: ArrayLike<number>) => void;
+  toUint8Array: () => Uint8Array;
+}
+
+const createByteWriter = (): ByteWriter => {
+  const bytes: number[] = [];
+  const byte = (value: number) => {
+    bytes.push(value & 0xff);
+  };
+  return {
+    byte,
+    word: (value) => {
+      byte(value);
+      byte(value >> 8);
+    },
+    ascii: (text) => {
+      for (let i = 0; i < text.length; i++) {
+        byte(text.charCodeAt(i));
+      }
+    },
+    append: (data) => {
+      for (let i = 0; i < data.length; i++) {
+        bytes.push(data[i]);
+      }
+    },
+    toUint8Array: () => new Uint8Array(bytes),
+  };
+};
+
+// Variable-length LZW as the GIF spec wants it, packed LSB-first and split
+// into sub-blocks of at most 255 bytes.
+const lzwEncode = (indices: Uint8Array, out: ByteWriter) => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const packed: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      packed.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let table = new Map<number, number>();
+  let nextCode = endCode + 1;
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const existing = table.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize++;
+      }
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    packed.push(bitBuffer & 0xff);
+  }
+
+  out.byte(MIN_CODE_SIZE);
+  for (let i = 0; i < packed.length; i += 255) {
+    const block = packed.slice(i, i + 255);
+    out.byte(block.length);
+    out.append(block);
+  }
+  out.byte(0); // Block terminator
+};
+
+const sameIndices = (a: Uint8Array, b: Uint8Array) => {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+const writeHeader = (out: ByteWriter, width: number, height: number) => {
+  out.ascii('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(0xf7); // Global color table, 8 bits per channel, 256 entries
+  out.byte(0); // Background color index
+  out.byte(0); // Pixel aspect ratio
+  out.append(PALETTE);
+
+  // NETSCAPE2.0 application extension: loop forever
+  out.byte(0x21);
+  out.byte(0xff);
+  out.byte(11);
+  out.ascii('NETSCAPE2.0');
+  out.byte(3);
+  out.byte(1);
+  out.word(0);
+  out.byte(0);
+};
+
+const writeFrame = (out: ByteWriter, indices: Uint8Array, delayMs: number, width: number, height: number) => {
+  // Graphic control extension with the frame delay (in 1/100 s)
+  out.byte(0x21);
+  out.byte(0xf9);
+  out.byte(4);
+  out.byte(0x04); // Disposal: leave frame in place
+  out.word(Math.max(2, Math.round(delayMs / 10)));
+  out.byte(0);
+  out.byte(0);
+
+  // Image descriptor covering the whole canvas, no local color table
+  out.byte(0x2c);
+  out.word(0);
+  out.word(0);
+  out.word(width);
+  out.word(height);
+  out.byte(0);
+
+  lzwEncode(indices, out);
+};
+
+export interface GifEncoder {
+  // Adds an RGBA frame (width * height * 4 bytes); the caller may reuse the buffer afterwards.
+  addFrame: (pixels: Uint8ClampedArray, delayMs: number) => void;
+  finish: () => Blob;
+}
+
+// Encodes a looping GIF one frame at a time, so only the compressed output and
+// the last frame's palette indices are kept in memory. Consecutive identical
+// frames are merged into one longer frame to keep the file small.
+export const createGifEncoder = (width: number, height: number): GifEncoder => {
+  const parts: Uint8Array[] = [];
+  const header = createByteWriter();
+  writeHeader(header, width, height);
+  parts.push(header.toUint8Array());
+
+  // Held back until a different frame arrives, in case it needs a longer delay
+  let pending: { indices: Uint8Array; delayMs: number } | null = null;
+  const flushPending = () => {
+    if (!pending) return;
+    const out = createByteWriter();
+    writeFrame(out, pending.indices, pending.delayMs, width, height);
+    parts.push(out.toUint8Array());
+    pending = null;
+  };
+
+  return {
+    addFrame: (pixels, delayMs) => {
+      const indices = quantize(pixels);
+      if (pending && sameIndices(pending.indices, indices)) {
+        pending.delayMs += delayMs;
+        return;
+      }
+      flushPending();
+      pending = { indices, delayMs };
+    },
+    finish: () => {
+      flushPending();
+      parts.push(new Uint8Array([0x3b])); // Trailer
+      return new Blob(parts, { type: 'image/gif' });
+    },
+  };
+};
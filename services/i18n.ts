@@ -0,0 +1,55 @@
+import { createContext, useContext } from 'react';
+import { APP_LANGUAGES, DEFAULT_LANGUAGE } from '../constants';
+import { FALLBACK_MESSAGES, MESSAGES, MessageKey } from '../locales';
+import { AppLanguage, AppLanguageOption } from '../types';
+
+export type MessageParams = Record<string, string | number>;
+
+export interface Translator {
+  language: AppLanguage;
+  locale: string;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatTime: (date: Date) => string; // e.g. "4:05 pm"
+  formatDate: (date: Date) => string; // e.g. "14 Mar 2025"
+  formatDateTime: (date: Date) => string;
+}
+
+export const isAppLanguage = (value: unknown): value is AppLanguage =>
+  APP_LANGUAGES.some(option => option.id === value);
+
+export const getLanguageOption = (language: AppLanguage): AppLanguageOption =>
+  APP_LANGUAGES.find(option => option.id === language) ?? APP_LANGUAGES[0];
+
+// Picks a starting language from the browser's preferences.
+export const detectLanguage = (browserLanguages: readonly string[] = typeof navigator !== 'undefined' ? navigator.languages : []): AppLanguage => {
+  for (const tag of browserLanguages) {
+    const base = tag.toLowerCase().split('-')[0];
+    if (base === 'hi') return 'hi';
+    if (base === 'mr') return 'mr';
+  }
+  return DEFAULT_LANGUAGE;
+};
+
+const fillPlaceholders = (template: string, params?: MessageParams) =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+
+export const createTranslator = (language: AppLanguage): Translator => {
+  const { locale } = getLanguageOption(language);
+  const messages = MESSAGES[language];
+  const timeFormat = new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit' });
+  const dateFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'medium' });
+  const dateTimeFormat = new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' });
+
+  return {
+    language,
+    locale,
+    t: (key, params) => fillPlaceholders(messages[key] ?? FALLBACK_MESSAGES[key], params),
+    formatTime: date => timeFormat.format(date),
+    formatDate: date => dateFormat.format(date),
+    formatDateTime: date => dateTimeFormat.format(date),
+  };
+};
+
+export const I18nContext = createContext<Translator>(createTranslator(DEFAULT_LANGUAGE));
+
+export const useTranslation = (): Translator => useContext(I18nContext);
@@ -0,0 +1,98 @@
+import { ImageVersion } from '../types';
+
+// Version tree for multi-turn image editing. `currentId` is the version the
+// next edit starts from; `redoIds` remembers where undo came from so redo can
+// walk back down the same branch.
+export interface ImageHistory {
+  versions: ImageVersion[]; // In creation order
+  currentId: string | null;
+  redoIds: string[];
+}
+
+export const EMPTY_IMAGE_HISTORY: ImageHistory = { versions: [], currentId: null, redoIds: [] };
+
+let versionCounter = 0;
+
+const createVersionId = () => `version-${Date.now()}-${++versionCounter}`;
+
+const createVersion = (imageUrl: string, prompt: string, parentId: string | null): ImageVersion => ({
+  id: createVersionId(),
+  parentId,
+  imageUrl,
+  prompt,
+  createdAt: new Date(),
+});
+
+export const startImageHistory = (originalImageUrl: string): ImageHistory => {
+  const original = createVersion(originalImageUrl, '', null);
+  return { versions: [original], currentId: original.id, redoIds: [] };
+};
+
+export const getVersion = (history: ImageHistory, id: string | null): ImageVersion | undefined =>
+  history.versions.find(version => version.id === id);
+
+export const getCurrentVersion = (history: ImageHistory): ImageVersion | undefined =>
+  getVersion(history, history.currentId);
+
+// Adds an edit result as a child of `parentId` (a new branch if that version
+// already has children) and makes it current.
+export const addVersion = (history: ImageHistory, parentId: string, imageUrl: string, prompt: string): ImageHistory => {
+  const version = createVersion(imageUrl, prompt, parentId);
+  return { versions: [...history.versions, version], currentId: version.id, redoIds: [] };
+};
+
+export const canUndo = (history: ImageHistory): boolean =>
+  Boolean(getCurrentVersion(history)?.parentId);
+
+export const canRedo = (history: ImageHistory): boolean => history.redoIds.length > 0;
+
+export const undo = (history: ImageHistory): ImageHistory => {
+  const current = getCurrentVersion(history);
+  if (!current?.parentId) return history;
+  return { ...history, currentId: current.parentId, redoIds: [...history.redoIds, current.id] };
+};
+
+export const redo = (history: ImageHistory): ImageHistory => {
+  if (history.redoIds.length === 0) return history;
+  const redoIds = history.redoIds.slice(0, -1);
+  return { ...history, currentId: history.redoIds[history.redoIds.length - 1], redoIds };
+};
+
+// Jumping straight to a version forgets the redo trail.
+export const selectVersion = (history: ImageHistory, id: string): ImageHistory =>
+  getVersion(history, id) ? { ...history, currentId: id, redoIds: [] } : history;
+
+export interface VersionTreeEntry {
+  version: ImageVersion;
+  depth: number;
+  startsBranch: boolean; // Not the first edit made from its parent
+}
+
+// Versions in tree order (each followed by its descendants) with their depth,
+// for drawing the timeline with branches indented.
+export const flattenVersionTree = (history: ImageHistory): VersionTreeEntry[] => {
+  const children = new Map<string | null, ImageVersion[]>();
+  for (const version of history.versions) {
+    const siblings = children.get(version.parentId) ?? [];
+    siblings.push(version);
+    children.set(version.parentId, siblings);
+  }
+
+  const result: VersionTreeEntry[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    const siblings = children.get(parentId) ?? [];
+    siblings.forEach((version, i) => {
+      // A first child continues its parent's line; later children are branches.
+      const startsBranch = parentId !== null && i > 0;
+      const childDepth = startsBranch ? depth + 1 : depth;
+      result.push({ version, depth: childDepth, startsBranch });
+      visit(version.id, childDepth);
+    });
+  };
+  visit(null, 0);
+  return result;
+};
+
+// "v3" style label based on creation order.
+export const getVersionLabel = (history: ImageHistory, id: string): string =>
+  `v${history.versions.findIndex(version => version.id === id) + 1}`;
@@ -0,0 +1,85 @@
+// Canvas helpers for region editing. A mask is a canvas the size of the image
+// where painted (opaque) pixels mark the area the edit may change.
+
+export const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image.'));
+    image.src = url;
+  });
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D is not available in this browser.');
+  }
+  return { canvas, ctx };
+};
+
+export const isMaskEmpty = (mask: HTMLCanvasElement): boolean => {
+  const ctx = mask.getContext('2d');
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(0, 0, mask.width, mask.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+// Swaps painted and unpainted areas in place.
+export const invertMask = (mask: HTMLCanvasElement) => {
+  const ctx = mask.getContext('2d');
+  if (!ctx) return;
+  const { canvas: copy, ctx: copyCtx } = createCanvas(mask.width, mask.height);
+  copyCtx.drawImage(mask, 0, 0);
+  ctx.save();
+  ctx.globalCompositeOperation = 'copy';
+  ctx.fillStyle = '#ef4444';
+  ctx.fillRect(0, 0, mask.width, mask.height);
+  ctx.globalCompositeOperation = 'destination-out';
+  ctx.drawImage(copy, 0, 0);
+  ctx.restore();
+};
+
+// The black-and-white PNG that is sent to the model.
+export const maskToDataUrl = (mask: HTMLCanvasElement): string => {
+  const { canvas, ctx } = createCanvas(mask.width, mask.height);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(mask, 0, 0);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+// Takes the edited image only where the mask is white and the original
+// everywhere else, so unmasked pixels are exactly the original ones. The
+// edit is stretched to the original's size in case the model changed it.
+export const compositeWithMask = async (originalUrl: string, editedUrl: string, maskUrl: string): Promise<string> => {
+  const [original, edited, maskImage] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl), loadImage(maskUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  // Black/white mask -> alpha mask
+  const { canvas: alphaMask, ctx: maskCtx } = createCanvas(width, height);
+  maskCtx.drawImage(maskImage, 0, 0, width, height);
+  const maskPixels = maskCtx.getImageData(0, 0, width, height);
+  for (let i = 0; i < maskPixels.data.length; i += 4) {
+    maskPixels.data[i + 3] = maskPixels.data[i]; // Red channel: 255 in white areas, 0 in black
+  }
+  maskCtx.putImageData(maskPixels, 0, 0);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(edited, 0, 0, width, height);
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.drawImage(alphaMask, 0, 0);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.drawImage(original, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,173 @@
+import { ImagePart } from '../types';
+import type { Translator } from './i18n';
+
+// Prepares uploaded photos before they are sent to a model: bakes in the EXIF
+// rotation, scales down huge photos and re-encodes them. Re-encoding through a
+// canvas also drops all metadata (GPS location, camera details, ...).
+
+export type ImageOutputFormat = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface ImagePreprocessOptions {
+  maxDimension: number | null; // Longest side in pixels; null keeps the original size
+  format: ImageOutputFormat;
+  quality: number; // 0-1, used by JPEG and WebP
+}
+
+export interface PreprocessedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+  originalBytes: number;
+  processedBytes: number;
+  originalWidth: number;
+  originalHeight: number;
+  orientation: number; // EXIF orientation that was applied (1 = already upright)
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: ImagePreprocessOptions = {
+  maxDimension: 1536,
+  format: 'image/jpeg',
+  quality: 0.85,
+};
+
+// Formats browsers may not decode (HEIC decodes in Safari only); accepted by
+// file pickers so we can try, and explain if it fails.
+const EXTRA_IMAGE_EXTENSIONS = /\.(heic|heif|tiff?)$/i;
+
+export const IMAGE_FILE_ACCEPT = 'image/*,.heic,.heif,.tif,.tiff';
+
+export const isImageFile = (file: File): boolean =>
+  file.type.startsWith('image/') || EXTRA_IMAGE_EXTENSIONS.test(file.name);
+
+// Reads the orientation tag (0x0112) from a JPEG's EXIF block; 1 when absent
+// or malformed. Every offset comes from the file, so each is bounds-checked.
+export const readExifOrientation = async (file: Blob): Promise<number> => {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  const fits = (offset: number, bytes: number) => offset >= 0 && offset + bytes <= view.byteLength;
+  if (!fits(0, 4) || view.getUint16(0) !== 0xffd8) return 1; // Not a JPEG
+
+  let offset = 2;
+  while (fits(offset, 4)) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && fits(offset + 4, 4) && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      const tiff = offset + 10;
+      if (!fits(tiff, 8)) return 1;
+      const little = view.getUint16(tiff) === 0x4949; // "II"
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (!fits(ifd, 2)) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (!fits(entry, 10)) break;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, little);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break; // Start of scan: no more metadata
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+export type ImagePreprocessErrorCode = 'unsupported-format';
+
+export class ImagePreprocessError extends Error {
+  constructor(public readonly code: ImagePreprocessErrorCode, message: string) {
+    super(message);
+    this.name = 'ImagePreprocessError';
+  }
+}
+
+const decodeImage = async (file: Blob): Promise<ImageBitmap> => {
+  try {
+    // 'from-image' applies the EXIF orientation while decoding.
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImagePreprocessError('unsupported-format', 'This browser cannot read that image format (e.g. HEIC or TIFF). Please convert it to JPEG or PNG first.');
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ImageOutputFormat, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image.'))), format, quality);
+  });
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+// Accepts a data: URL, e.g. an earlier edit result fed back in as the next input.
+export const dataUrlToImagePart = (dataUrl: string): ImagePart => {
+  const match = dataUrl.match(/^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/);
+  if (!match) {
+    throw new Error('Expected a base64 data: URL for the image.');
+  }
+  return { inlineData: { mimeType: match[1], data: match[2] } };
+};
+
+export const preprocessImage = async (
+  file: Blob,
+  { maxDimension, format, quality }: ImagePreprocessOptions = DEFAULT_PREPROCESS_OPTIONS,
+): Promise<PreprocessedImage> => {
+  const [orientation, bitmap] = await Promise.all([readExifOrientation(file), decodeImage(file)]);
+  try {
+    const scale = maxDimension ? Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height)) : 1;
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D is not available in this browser.');
+    }
+    if (format === 'image/jpeg') {
+      // JPEG has no transparency; flatten onto white instead of black.
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    const blob = await canvasToBlob(canvas, format, quality);
+    return {
+      dataUrl: await blobToDataUrl(blob),
+      width,
+      height,
+      originalBytes: file.size,
+      processedBytes: blob.size,
+      originalWidth: bitmap.width,
+      originalHeight: bitmap.height,
+      orientation,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// e.g. "photo.jpg: 4.2 MB → 310 KB, 4032×3024 → 1536×1152, rotated upright"
+export const describePreprocessing = (name: string, result: PreprocessedImage, t: Translator['t']): string => {
+  const parts = [`${formatBytes(result.originalBytes)} → ${formatBytes(result.processedBytes)}`];
+  if (result.width !== result.originalWidth || result.height !== result.originalHeight) {
+    parts.push(`${result.originalWidth}×${result.originalHeight} → ${result.width}×${result.height}`);
+  }
+  if (result.orientation > 1) {
+    parts.push(t('imageEditor.rotatedUpright'));
+  }
+  return `${name}: ${parts.join(', ')}`;
+};
@@ -0,0 +1,21 @@
+import { HD_STYLE_PRESETS } from '../constants';
+
+// Prompt helpers for the HD generator.
+
+// Appends a preset's modifiers to the prompt; unknown ids leave it unchanged.
+export const applyStylePreset = (prompt: string, stylePresetId?: string): string => {
+  const preset = HD_STYLE_PRESETS.find(p => p.id === stylePresetId);
+  return preset ? `${prompt.trim()}, ${preset.modifiers}` : prompt.trim();
+};
+
+export const ENHANCE_PROMPT_INSTRUCTION = `You turn short image ideas into detailed prompts for an image generation model.
+Describe the subject, setting, composition, lighting, colors and mood in one paragraph of at most 80 words.
+Keep the user's intent and language. Do not add text or lettering unless asked. Reply with the prompt only, no preamble or quotes.`;
+
+// Models sometimes wrap the answer in quotes or label it anyway.
+export const cleanEnhancedPrompt = (text: string): string =>
+  text
+    .trim()
+    .replace(/^(enhanced |improved )?prompt:\s*/i, '')
+    .replace(/^["'“”]+|["'“”]+$/g, '')
+    .trim();
@@ -0,0 +1,244 @@
+// Parses the everyday subset of LaTeX math that models write (fractions,
+// roots, powers, Greek letters, common symbols) into a tree that
+// components/MathFormula renders as MathML, which browsers typeset natively.
+// Anything it can't parse throws, and the caller shows the source instead.
+
+export type MathNode =
+  | { type: 'identifier'; text: string; variant?: 'normal' | 'bold' } // <mi>
+  | { type: 'number'; text: string } // <mn>
+  | { type: 'operator'; text: string; largeOp?: boolean; stretchy?: boolean } // <mo>
+  | { type: 'text'; text: string } // <mtext>
+  | { type: 'space'; width: string } // <mspace>
+  | { type: 'row'; children: MathNode[] }
+  | { type: 'fraction'; numerator: MathNode; denominator: MathNode }
+  | { type: 'root'; base: MathNode; index?: MathNode }
+  | { type: 'scripts'; base: MathNode; sub?: MathNode; sup?: MathNode }
+  | { type: 'accent'; base: MathNode; accent: string; stretchy: boolean };
+
+const GREEK: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ', eta: 'η', theta: 'θ',
+  vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π', rho: 'ρ', sigma: 'σ',
+  tau: 'τ', upsilon: 'υ', phi: 'ϕ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+};
+
+const OPERATORS: Record<string, string> = {
+  times: '×', cdot: '⋅', div: '÷', pm: '±', mp: '∓', ast: '∗', star: '⋆', circ: '∘', bullet: '∙',
+  leq: '≤', le: '≤', geq: '≥', ge: '≥', neq: '≠', ne: '≠', approx: '≈', equiv: '≡', sim: '∼', simeq: '≃',
+  cong: '≅', propto: '∝', ll: '≪', gg: '≫',
+  to: '→', rightarrow: '→', leftarrow: '←', leftrightarrow: '↔', Rightarrow: '⇒', Leftarrow: '⇐',
+  Leftrightarrow: '⇔', implies: '⟹', iff: '⟺', mapsto: '↦',
+  in: '∈', notin: '∉', ni: '∋', subset: '⊂', subseteq: '⊆', supset: '⊃', supseteq: '⊇', cup: '∪', cap: '∩',
+  setminus: '∖', forall: '∀', exists: '∃', neg: '¬', land: '∧', lor: '∨', wedge: '∧', vee: '∨',
+  perp: '⊥', parallel: '∥', mid: '∣', therefore: '∴', because: '∵', angle: '∠',
+  ldots: '…', cdots: '⋯', dots: '…', vdots: '⋮', ddots: '⋱',
+  langle: '⟨', rangle: '⟩', lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉', vert: '|', Vert: '‖',
+  '{': '{', '}': '}', '|': '‖', '%': '%', '$': '$', '#': '#', '&': '&', '_': '_',
+};
+
+const IDENTIFIERS: Record<string, string> = {
+  infty: '∞', partial: '∂', nabla: '∇', hbar: 'ℏ', ell: 'ℓ', emptyset: '∅', varnothing: '∅',
+  degree: '°', prime: '′', Re: 'ℜ', Im: 'ℑ', aleph: 'ℵ',
+};
+
+const LARGE_OPERATORS: Record<string, string> = {
+  sum: '∑', prod: '∏', coprod: '∐', int: '∫', iint: '∬', iiint: '∭', oint: '∮', bigcup: '⋃', bigcap: '⋂',
+};
+
+// Upright function names, e.g. \sin x
+const FUNCTIONS = [
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'det', 'gcd', 'deg', 'dim', 'mod', 'arg',
+];
+
+const SPACES: Record<string, string> = {
+  ',': '0.1667em', ':': '0.2222em', '>': '0.2222em', ';': '0.2778em', ' ': '0.25em', '!': '0em',
+  quad: '1em', qquad: '2em',
+};
+
+// Commands that only change styling we don't reproduce
+const IGNORED_COMMANDS = ['displaystyle', 'textstyle', 'limits', 'nolimits', 'big', 'Big', 'bigg', 'Bigg'];
+
+// Marks drawn over their argument, e.g. \vec{v}
+const ACCENTS: Record<string, string> = {
+  vec: '→', hat: '^', widehat: '^', bar: '¯', overline: '¯', dot: '˙', ddot: '¨', tilde: '~', widetilde: '~',
+};
+
+type Token = { start: number } & ( // start = offset in the source
+  | { kind: 'command'; name: string }
+  | { kind: 'number'; text: string }
+  | { kind: 'letter'; text: string }
+  | { kind: 'char'; text: string });
+
+const tokenize = (tex: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < tex.length) {
+    const char = tex[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '\\') {
+      const name = tex.slice(i + 1).match(/^[A-Za-z]+/)?.[0] ?? tex[i + 1] ?? '';
+      tokens.push({ kind: 'command', name, start: i });
+      i += 1 + Math.max(name.length, 1);
+    } else if (/\d/.test(char)) {
+      const number = tex.slice(i).match(/^\d+(\.\d+)?/)![0];
+      tokens.push({ kind: 'number', text: number, start: i });
+      i += number.length;
+    } else if (/[A-Za-z]/.test(char)) {
+      tokens.push({ kind: 'letter', text: char, start: i });
+      i++;
+    } else {
+      tokens.push({ kind: 'char', text: char, start: i });
+      i++;
+    }
+  }
+  return tokens;
+};
+
+const row = (children: MathNode[]): MathNode => (children.length === 1 ? children[0] : { type: 'row', children });
+
+export const parseLatex = (tex: string): MathNode => {
+  const tokens = tokenize(tex);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isChar = (token: Token | undefined, text: string) => token?.kind === 'char' && token.text === text;
+
+  const expectChar = (text: string) => {
+    if (!isChar(peek(), text)) throw new Error(`Expected "${text}" in formula.`);
+    position++;
+  };
+
+  // Source text of a {...} group, spaces included, for \text{...}
+  const readTextGroup = (): string => {
+    expectChar('{');
+    const start = tokens[position - 1].start + 1;
+    let depth = 1;
+    while (position < tokens.length) {
+      const token = tokens[position++];
+      if (isChar(token, '{')) depth++;
+      if (isChar(token, '}') && --depth === 0) {
+        return tex.slice(start, token.start).replace(/\\([{}%$#&_ ])/g, '$1');
+      }
+    }
+    throw new Error('Unclosed "{" in formula.');
+  };
+
+  const parseArgument = (): MathNode => {
+    if (isChar(peek(), '{')) {
+      position++;
+      const group = parseExpression();
+      expectChar('}');
+      return group;
+    }
+    if (!peek()) throw new Error('Missing argument in formula.');
+    return parseAtom();
+  };
+
+  const parseDelimiter = (): MathNode => {
+    const token = tokens[position++];
+    if (!token) throw new Error('Missing delimiter in formula.');
+    if (isChar(token, '.')) return { type: 'row', children: [] };
+    const text = token.kind === 'command' ? OPERATORS[token.name] : token.text;
+    if (!text) throw new Error(`Unknown delimiter \\${token.kind === 'command' ? token.name : ''}.`);
+    return { type: 'operator', text, stretchy: true };
+  };
+
+  const parseCommand = (name: string): MathNode => {
+    switch (name) {
+      case 'frac':
+      case 'dfrac':
+      case 'tfrac':
+        return { type: 'fraction', numerator: parseArgument(), denominator: parseArgument() };
+      case 'sqrt': {
+        let index: MathNode | undefined;
+        if (isChar(peek(), '[')) {
+          position++;
+          index = parseExpression(']');
+          expectChar(']');
+        }
+        return { type: 'root', base: parseArgument(), index };
+      }
+      case 'text':
+      case 'textrm':
+      case 'textit':
+      case 'mbox':
+        return { type: 'text', text: readTextGroup() };
+      case 'mathrm':
+      case 'operatorname':
+        return { type: 'identifier', text: readTextGroup().replace(/ /g, ''), variant: 'normal' };
+      case 'mathbf':
+      case 'textbf':
+      case 'boldsymbol':
+        return { type: 'identifier', text: readTextGroup().replace(/ /g, ''), variant: 'bold' };
+      case 'left':
+      case 'right':
+        return parseDelimiter();
+      case '\\':
+        return { type: 'space', width: '1em' }; // Line breaks are shown as a wide space
+    }
+    if (name in ACCENTS) {
+      return { type: 'accent', base: parseArgument(), accent: ACCENTS[name], stretchy: name.startsWith('wide') || name === 'overline' };
+    }
+    if (name in SPACES) return { type: 'space', width: SPACES[name] };
+    if (IGNORED_COMMANDS.includes(name)) return { type: 'row', children: [] };
+    if (name in GREEK) return { type: 'identifier', text: GREEK[name] };
+    if (name in IDENTIFIERS) return { type: 'identifier', text: IDENTIFIERS[name] };
+    if (name in OPERATORS) return { type: 'operator', text: OPERATORS[name] };
+    if (name in LARGE_OPERATORS) return { type: 'operator', text: LARGE_OPERATORS[name], largeOp: true };
+    if (FUNCTIONS.includes(name)) return { type: 'identifier', text: name, variant: 'normal' };
+    throw new Error(`Unsupported command \\${name}.`);
+  };
+
+  const parseAtom = (): MathNode => {
+    const token = tokens[position++];
+    switch (token.kind) {
+      case 'number':
+        return { type: 'number', text: token.text };
+      case 'letter':
+        return { type: 'identifier', text: token.text };
+      case 'command':
+        return parseCommand(token.name);
+      case 'char':
+        if (token.text === '{') {
+          const group = parseExpression();
+          expectChar('}');
+          return group;
+        }
+        if (token.text === '&') return { type: 'space', width: '1em' }; // Alignment points in aligned equations
+        if (token.text === "'") return { type: 'operator', text: '′' };
+        if (token.text === '-') return { type: 'operator', text: '−' };
+        return { type: 'operator', text: token.text };
+    }
+  };
+
+  // Parses atoms (each with optional ^ and _) until a closing brace, `closer` or the end.
+  const parseExpression = (closer?: string): MathNode => {
+    const children: MathNode[] = [];
+    while (position < tokens.length && !isChar(peek(), '}') && !(closer && isChar(peek(), closer))) {
+      let base: MathNode = isChar(peek(), '^') || isChar(peek(), '_') ? { type: 'row', children: [] } : parseAtom();
+      let sub: MathNode | undefined;
+      let sup: MathNode | undefined;
+      while (isChar(peek(), '^') || isChar(peek(), '_') || isChar(peek(), "'")) {
+        const script = tokens[position++] as { text: string };
+        if (script.text === "'") {
+          sup = row([...(sup ? [sup] : []), { type: 'operator', text: '′' }]);
+        } else if (script.text === '^') {
+          if (sup) throw new Error('Double superscript in formula.');
+          sup = parseArgument();
+        } else {
+          if (sub) throw new Error('Double subscript in formula.');
+          sub = parseArgument();
+        }
+      }
+      if (sub || sup) base = { type: 'scripts', base, sub, sup };
+      children.push(base);
+    }
+    return row(children);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) throw new Error('Unbalanced "}" in formula.');
+  return result;
+};
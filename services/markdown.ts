@@ -0,0 +1,402 @@
+// A small markdown parser for chat replies. It produces a tree that
+// components/MarkdownMessage renders as React elements, so model output can
+// never inject HTML. It is deliberately forgiving: replies are rendered while
+// they stream in, so an unclosed code fence or math block is shown as far as
+// it goes, and an unclosed `**` stays literal text.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'emphasis'; children: MarkdownInline[] }
+  | { type: 'strikethrough'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'math'; tex: string }
+  | { type: 'break' };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'code'; language: string; code: string; complete: boolean } // complete = closing fence received
+  | { type: 'math'; tex: string; complete: boolean }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'table'; align: TableAlignment[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const MATH_BLOCK_OPEN = /^\s*(\$\$|\\\[)/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+// Lines that end a paragraph without a blank line in between.
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || BLOCKQUOTE.test(line)
+  || LIST_ITEM.test(line) || MATH_BLOCK_OPEN.test(line);
+
+// Only web and mail links are kept; anything else (javascript:, data:, ...) renders as plain text.
+export const sanitizeHref = (href: string): string | null => {
+  const trimmed = href.trim();
+  return /^(https?:\/\/|mailto:)/i.test(trimmed) ? trimmed : null;
+};
+
+// ---- Inline content ----
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~$>]/;
+const AUTOLINK = /^https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"]/;
+
+// Finds the closing `delimiter` for an opener ending at `from`. The closer must
+// follow a non-space character, and single `*`/`_` must not be part of a pair.
+const findCloser = (text: string, delimiter: string, from: number): number => {
+  for (let i = from; i <= text.length - delimiter.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '`') {
+      // Delimiters inside code spans don't count
+      const close = text.indexOf('`', i + 1);
+      if (close === -1) return -1;
+      i = close;
+      continue;
+    }
+    if (!text.startsWith(delimiter, i) || i === from || /\s/.test(text[i - 1])) continue;
+    if (delimiter.length === 1 && (text[i + 1] === delimiter || text[i - 1] === delimiter)) {
+      i++; // Skip over a `**` pair inside `*...*`
+      continue;
+    }
+    if (delimiter === '_' && /\w/.test(text[i + 1] ?? '')) continue; // snake_case is not emphasis
+    return i;
+  }
+  return -1;
+};
+
+// Inline math: `$x$` (no space just inside the dollars, and not `$5 and $10`) or `\(x\)`.
+const matchInlineMath = (text: string, i: number): { tex: string; end: number } | null => {
+  if (text.startsWith('\\(', i)) {
+    const close = text.indexOf('\\)', i + 2);
+    return close === -1 ? null : { tex: text.slice(i + 2, close), end: close + 2 };
+  }
+  if (text[i] !== '$' || text[i + 1] === '$' || !text[i + 1] || /\s/.test(text[i + 1])) return null;
+  for (let j = i + 1; j < text.length; j++) {
+    if (text[j] === '\\') {
+      j++;
+    } else if (text[j] === '$') {
+      if (/\s/.test(text[j - 1]) || /\d/.test(text[j + 1] ?? '')) return null;
+      return { tex: text.slice(i + 1, j), end: j + 1 };
+    }
+  }
+  return null;
+};
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '') && !text.startsWith('\\(', i)) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = text.slice(i).match(/^`+/)![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) {
+        push({ type: 'code', text: text.slice(i + run.length, close).trim() || text.slice(i + run.length, close) });
+        i = close + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    const math = char === '$' || char === '\\' ? matchInlineMath(text, i) : null;
+    if (math) {
+      push({ type: 'math', tex: math.tex });
+      i = math.end;
+      continue;
+    }
+
+    const pair = ['**', '__', '~~'].find(delimiter => text.startsWith(delimiter, i));
+    const delimiter = pair ?? (char === '*' || char === '_' ? char : null);
+    if (delimiter && !/\s/.test(text[i + delimiter.length] ?? ' ')
+      && !(delimiter[0] === '_' && /\w/.test(text[i - 1] ?? ''))) {
+      const close = findCloser(text, delimiter, i + delimiter.length);
+      if (close !== -1) {
+        const children = parseInline(text.slice(i + delimiter.length, close));
+        push(delimiter === '~~' ? { type: 'strikethrough', children }
+          : delimiter.length === 2 ? { type: 'strong', children }
+          : { type: 'emphasis', children });
+        i = close + delimiter.length;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = text.slice(i).match(/^\[([^\]]+)\]\(\s*((?:[^\s()]|\([^\s()]*\))+)(?:\s+"[^"]*")?\s*\)/);
+      if (link) {
+        const href = sanitizeHref(link[2]);
+        if (href) {
+          push({ type: 'link', href, children: parseInline(link[1]) });
+        } else {
+          flush();
+          nodes.push(...parseInline(link[1]));
+        }
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (char === 'h' && !/\w/.test(text[i - 1] ?? '')) {
+      const url = text.slice(i).match(AUTOLINK);
+      if (url) {
+        push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    if (delimiter) {
+      buffer += delimiter; // Unclosed: keep the markers as typed
+      i += delimiter.length;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+  flush();
+  return nodes;
+};
+
+// ---- Blocks ----
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let cell = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const parseAlignment = (cell: string): TableAlignment => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+// Removes up to `count` columns of leading whitespace.
+const dedent = (line: string, count: number) => {
+  let removed = 0;
+  let i = 0;
+  while (i < line.length && removed < count && (line[i] === ' ' || line[i] === '\t')) {
+    removed += line[i] === '\t' ? 4 : 1;
+    i++;
+  }
+  return line.slice(i);
+};
+
+const parseBlockLines = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const indent = indentOf(line);
+      const code: string[] = [];
+      i++;
+      let complete = false;
+      while (i < lines.length) {
+        if (lines[i].trim().startsWith(marker[0].repeat(marker.length)) && lines[i].trim().replace(/[`~]/g, '') === '') {
+          complete = true;
+          i++;
+          break;
+        }
+        code.push(dedent(lines[i], indent));
+        i++;
+      }
+      blocks.push({ type: 'code', language: fence[2].toLowerCase(), code: code.join('\n'), complete });
+      continue;
+    }
+
+    const mathOpen = line.match(MATH_BLOCK_OPEN);
+    if (mathOpen) {
+      const closer = mathOpen[1] === '$$' ? '$$' : '\\]';
+      const rest = line.trim().slice(mathOpen[1].length);
+      const sameLineClose = rest.indexOf(closer);
+      if (sameLineClose !== -1) {
+        blocks.push({ type: 'math', tex: rest.slice(0, sameLineClose).trim(), complete: true });
+        i++;
+        continue;
+      }
+      const tex: string[] = [rest];
+      i++;
+      let complete = false;
+      while (i < lines.length) {
+        const close = lines[i].indexOf(closer);
+        if (close !== -1) {
+          tex.push(lines[i].slice(0, close));
+          complete = true;
+          i++;
+          break;
+        }
+        tex.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'math', tex: tex.join('\n').trim(), complete });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (BLOCKQUOTE.test(lines[i]) || !startsBlock(lines[i]))) {
+        quoted.push(lines[i].replace(BLOCKQUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlockLines(quoted) });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseAlignment);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        // Rows with missing cells (e.g. still streaming) are padded to the header width
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align: header.map((_, column) => align[column] ?? null), header: header.map(parseInline), rows });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const baseIndent = indentOf(line);
+      const ordered = /\d/.test(listItem[2]);
+      const items: MarkdownBlock[][] = [];
+      let itemLines: string[] = [];
+      let contentIndent = 0;
+      const finishItem = () => {
+        if (itemLines.length > 0) items.push(parseBlockLines(itemLines));
+        itemLines = [];
+      };
+
+      while (i < lines.length) {
+        const current = lines[i];
+        const item = current.match(LIST_ITEM);
+        if (item && indentOf(current) <= baseIndent + 1 && /\d/.test(item[2]) === ordered) {
+          finishItem();
+          contentIndent = item[1].length + item[2].length + 1;
+          itemLines.push(item[3]);
+          i++;
+          continue;
+        }
+        if (isBlank(current)) {
+          // A blank line continues the list only if the next line is still part of it
+          const next = lines[i + 1];
+          if (next === undefined || isBlank(next) || (indentOf(next) <= baseIndent && !LIST_ITEM.test(next))) break;
+          itemLines.push('');
+          i++;
+          continue;
+        }
+        if (indentOf(current) > baseIndent) {
+          itemLines.push(dedent(current, contentIndent));
+          i++;
+          continue;
+        }
+        if (!startsBlock(current) && itemLines.length > 0 && !isBlank(itemLines[itemLines.length - 1])) {
+          itemLines.push(current.trim()); // Lazy continuation of the item's text
+          i++;
+          continue;
+        }
+        break;
+      }
+      finishItem();
+      blocks.push({ type: 'list', ordered, start: ordered ? parseInt(listItem[2], 10) : 1, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      // A table starting right under a paragraph line ends the paragraph
+      if (paragraph.length > 0 && lines[i].includes('|') && TABLE_SEPARATOR.test(lines[i + 1] ?? '') && (lines[i + 1] ?? '').includes('-')) break;
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (text: string): MarkdownBlock[] =>
+  parseBlockLines(text.replace(/\r\n?/g, '\n').split('\n'));
@@ -0,0 +1,103 @@
+import { DEFAULT_USER_MEMORY, MAX_MEMORY_ENTRY_LENGTH, MAX_MEMORY_PROPOSALS, MEMORY_CONTEXT_LIMIT } from '../constants';
+import { MemoryEntry, UserMemory } from '../types';
+
+// Long-term memory: facts about the user that are sent with every chat.
+// Bhaii can only propose entries (as <<remember: ...>> lines at the end of a
+// reply); they are saved when the user accepts them.
+
+let memoryCounter = 0;
+
+export const createMemoryEntry = (text: string): MemoryEntry => {
+  const now = new Date();
+  return {
+    id: `memory-${Date.now()}-${++memoryCounter}`,
+    text: text.trim().slice(0, MAX_MEMORY_ENTRY_LENGTH),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim();
+
+export const hasMemory = (entries: MemoryEntry[], text: string): boolean => {
+  const key = normalize(text);
+  return entries.some(entry => normalize(entry.text) === key);
+};
+
+const MEMORY_MARKER = /<<\s*remember:\s*([\s\S]*?)>>/gi;
+const MARKER_START = 'remember:';
+
+// Hides markers while a reply streams in, including one that is still arriving.
+export const hideMemoryMarkers = (text: string): string => {
+  let visible = text.replace(MEMORY_MARKER, '');
+  const start = visible.lastIndexOf('<<');
+  if (start >= 0) {
+    const tail = visible.slice(start + 2).trimStart().toLowerCase();
+    if (MARKER_START.startsWith(tail) || tail.startsWith(MARKER_START)) {
+      visible = visible.slice(0, start);
+    }
+  }
+  return visible.trimEnd();
+};
+
+// Splits a finished reply into the text to show and the facts it proposes,
+// minus any the user has already saved.
+export const extractMemoryProposals = (text: string, entries: MemoryEntry[]): { text: string; proposals: string[] } => {
+  const proposals: string[] = [];
+  for (const match of text.matchAll(MEMORY_MARKER)) {
+    const fact = match[1].trim().slice(0, MAX_MEMORY_ENTRY_LENGTH);
+    if (fact && !hasMemory(entries, fact) && !proposals.some(p => normalize(p) === normalize(fact))) {
+      proposals.push(fact);
+    }
+  }
+  return { text: hideMemoryMarkers(text), proposals: proposals.slice(0, MAX_MEMORY_PROPOSALS) };
+};
+
+const words = (text: string) => (text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? []).filter(word => word.length >= 3);
+
+// Everything fits while the store is small; past the limit, entries sharing
+// the most words with the conversation win, then the most recently updated.
+export const selectRelevantMemories = (entries: MemoryEntry[], query: string, limit = MEMORY_CONTEXT_LIMIT): MemoryEntry[] => {
+  if (entries.length <= limit) return entries;
+  const queryWords = new Set(words(query));
+  return entries
+    .map(entry => ({ entry, score: words(entry.text).filter(word => queryWords.has(word)).length }))
+    .sort((a, b) => b.score - a.score || b.entry.updatedAt.getTime() - a.entry.updatedAt.getTime())
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+};
+
+export const buildMemoryInstruction = (userName: string, entries: MemoryEntry[], suggest: boolean): string =>
+  [
+    userName.trim() && `The user's name is ${userName.trim()}.`,
+    entries.length > 0 && `What you know about the user from earlier chats (saved by them, may be out of date):\n${entries.map(entry => `- ${entry.text}`).join('\n')}`,
+    suggest && `When the user shares a lasting fact about themselves that would help in future chats (an exam date, a goal, a favourite subject) and it isn't known yet, end your reply with one line per fact: <<remember: the fact, in the third person>>. The user decides whether to save it. Never propose passwords, contact details or other sensitive data.`,
+  ].filter(Boolean).join('\n\n');
+
+// Saved dates come back as strings (JSON) or Dates (IndexedDB)
+const asDate = (value: unknown, fallback: Date): Date => {
+  const date = value == null ? fallback : new Date(value as string | number | Date);
+  return Number.isNaN(date.getTime()) ? fallback : date;
+};
+
+// Restores saved memory, dropping malformed entries.
+export const parseUserMemory = (value: unknown): UserMemory => {
+  if (!value || typeof value !== 'object') return DEFAULT_USER_MEMORY;
+  const record = value as Record<string, unknown>;
+  const entries = Array.isArray(record.entries) ? record.entries : [];
+  return {
+    enabled: typeof record.enabled === 'boolean' ? record.enabled : DEFAULT_USER_MEMORY.enabled,
+    entries: entries.flatMap((raw): MemoryEntry[] => {
+      if (!raw || typeof raw !== 'object') return [];
+      const entry = raw as Record<string, unknown>;
+      if (typeof entry.text !== 'string' || !entry.text.trim()) return [];
+      const created = createMemoryEntry(entry.text);
+      return [{
+        ...created,
+        id: typeof entry.id === 'string' && entry.id ? entry.id : created.id,
+        createdAt: asDate(entry.createdAt, created.createdAt),
+        updatedAt: asDate(entry.updatedAt, created.updatedAt),
+      }];
+    }),
+  };
+};
@@ -0,0 +1,162 @@
+import { AspectRatio, VideoAspectRatio } from '../types';
+import { AIProvider } from './aiProvider';
+import { sleep } from './retry';
+
+// Offline provider with canned, deterministic output: the same input always
+// produces the same reply or placeholder image. Used for local development
+// without an API key and for tests.
+
+const CANNED_REPLIES = [
+  'Bilkul! Main samajh gaya. Thoda aur batao, phir milke solve karte hain.',
+  'Shabaash! Bahut accha sawaal hai. Step by step chalte hain, theek hai?',
+  'Koi nahi, ho jaata hai. Chal ab, ek chhota sa break lo aur phir try karo!',
+  'Kya baat hai! Aise hi mehnat karte raho. Khush raho!',
+];
+
+// Small stable string hash (djb2) so replies and colors depend only on the input.
+const hashString = (text: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, ch => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[ch]!));
+
+// Base64 like real model output, so results can be fed back in as edit inputs.
+const svgToDataUrl = (svg: string) => {
+  const bytes = new TextEncoder().encode(svg);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return `data:image/svg+xml;base64,${btoa(binary)}`;
+};
+
+const DIMENSIONS: Record<AspectRatio, [number, number]> = {
+  '1:1': [1024, 1024],
+  '3:4': [768, 1024],
+  '4:3': [1024, 768],
+  '9:16': [576, 1024],
+  '16:9': [1024, 576],
+};
+
+// Gradient card with a caption; the hue is derived from the caption so it is stable.
+const placeholderSvg = (width: number, height: number, caption: string) => {
+  const hue = hashString(caption) % 360;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+    + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+    + `<stop offset="0" stop-color="hsl(${hue},70%,55%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,35%)"/>`
+    + `</linearGradient></defs>`
+    + `<rect width="${width}" height="${height}" fill="url(#g)"/>`
+    + `<text x="50%" y="50%" fill="#fff" font-family="sans-serif" font-size="40" text-anchor="middle">`
+    + `${escapeXml(caption.slice(0, 40))}</text></svg>`;
+};
+
+const MOCK_VIDEO_POLLS_TO_FINISH = 4;
+
+interface MockProviderOptions {
+  chunkDelayMs?: number; // Delay between streamed words; 0 for tests
+}
+
+export const createMockProvider = ({ chunkDelayMs = 40 }: MockProviderOptions = {}): AIProvider => {
+  const videoJobs = new Map<string, { prompt: string; aspectRatio: VideoAspectRatio; polls: number }>();
+
+  return {
+    id: 'mock',
+    supportsImageSeed: true,
+
+    async *streamChat({ message, media, systemInstruction, signal }) {
+      const canned = CANNED_REPLIES[hashString(message) % CANNED_REPLIES.length];
+      let reply = media?.length ? `Maine tumhari ${media.length} file(s) dekh li. ${canned}` : canned;
+      // "Remember that ..." exercises the memory proposal flow when it's switched on
+      const fact = message.match(/\bremember(?: that)?\s+(.+)/i)?.[1];
+      if (fact && systemInstruction?.includes('<<remember:')) {
+        reply += ` <<remember: ${fact.trim()}>>`;
+      }
+      const words = reply.split(' ');
+      for (let i = 0; i < words.length; i++) {
+        if (chunkDelayMs > 0) {
+          await sleep(chunkDelayMs, signal);
+        }
+        yield i === 0 ? words[i] : ` ${words[i]}`;
+      }
+    },
+
+    // JSON requests get a small slideshow outline built from the "Topic:" line,
+    // since that is the only structured request the app makes.
+    async generateText({ prompt, jsonSchema, media }) {
+      if (media?.some(part => part.inlineData.mimeType.startsWith('audio/'))) {
+        return 'Bhaii, mock mode mein yeh meri awaaz ka transcript hai.';
+      }
+      if (!jsonSchema) {
+        return CANNED_REPLIES[hashString(prompt) % CANNED_REPLIES.length];
+      }
+      const topic = prompt.match(/Topic:\s*(.+)/)?.[1]?.trim() || 'Your topic';
+      const count = Number(prompt.match(/exactly (\d+)/)?.[1]) || 3;
+      const slides = Array.from({ length: count }, (_, i) => ({
+        title: `${topic}: part ${i + 1}`,
+        bullets: [`Key idea ${i + 1} about ${topic}`, 'Ek simple example socho'],
+        imagePrompt: `A colorful illustration of ${topic}, idea ${i + 1}`,
+      }));
+      return JSON.stringify({ title: topic, slides });
+    },
+
+    async editImage({ images, prompt }) {
+      // Show the first image with the prompt stamped across the bottom.
+      const { image } = images[0];
+      const source = `data:${image.inlineData.mimeType};base64,${image.inlineData.data}`;
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024">`
+        + `<image href="${source}" width="1024" height="1024" preserveAspectRatio="xMidYMid meet"/>`
+        + `<rect y="904" width="1024" height="120" fill="rgba(0,0,0,0.6)"/>`
+        + `<text x="512" y="974" fill="#fff" font-family="sans-serif" font-size="36" text-anchor="middle">`
+        + `Mock edit${images.length > 1 ? ` (${images.length} images)` : ''}: ${escapeXml(prompt.slice(0, 60))}</text></svg>`;
+      return svgToDataUrl(svg);
+    },
+
+    // Without a seed every call looks the same; a seed picks a different but
+    // repeatable set of colors, like a real seeded model would.
+    async generateImages({ prompt, aspectRatio, numberOfImages = 1, seed }) {
+      const [width, height] = DIMENSIONS[aspectRatio];
+      const caption = seed === undefined ? prompt : `${prompt} (seed ${seed})`;
+      return Array.from({ length: numberOfImages }, (_, i) =>
+        svgToDataUrl(placeholderSvg(width, height, i === 0 ? caption : `${caption} #${i + 1}`)));
+    },
+
+    // Finishes after a fixed number of polls, reporting even progress steps.
+    // There is no real video offline, so the result is a placeholder image.
+    async startVideoGeneration({ prompt, aspectRatio }) {
+      const name = `mock-video-${videoJobs.size + 1}`;
+      videoJobs.set(name, { prompt, aspectRatio, polls: 0 });
+      return { name, done: false, progressPercent: 0 };
+    },
+
+    async getVideoOperation({ name }) {
+      const job = videoJobs.get(name);
+      if (!job) {
+        throw new Error(`Unknown mock video operation: ${name}`);
+      }
+      job.polls += 1;
+      if (job.polls < MOCK_VIDEO_POLLS_TO_FINISH) {
+        return { name, done: false, progressPercent: Math.round((job.polls / MOCK_VIDEO_POLLS_TO_FINISH) * 100) };
+      }
+      const [width, height] = DIMENSIONS[job.aspectRatio];
+      return {
+        name,
+        done: true,
+        progressPercent: 100,
+        video: { url: svgToDataUrl(placeholderSvg(width, height, `🎬 ${job.prompt}`)), mimeType: 'image/svg+xml' },
+      };
+    },
+
+    async hasSelectedApiKey() {
+      return true; // No key needed offline
+    },
+
+    async openApiKeySelector() {
+      // Nothing to select offline.
+    },
+  };
+};
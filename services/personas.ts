@@ -0,0 +1,91 @@
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID } from '../constants';
+import { Persona } from '../types';
+
+const PERSONA_FILE_VERSION = 1;
+const MAX_PERSONA_NAME_LENGTH = 40;
+
+let personaCounter = 0;
+
+export const createPersonaId = () => `persona-${Date.now()}-${++personaCounter}`;
+
+export const getAllPersonas = (customPersonas: Persona[]): Persona[] => [...BUILT_IN_PERSONAS, ...customPersonas];
+
+// Deleted or unknown personas fall back to the default Bhaii.
+export const findPersona = (personaId: string | undefined, customPersonas: Persona[]): Persona =>
+  getAllPersonas(customPersonas).find(persona => persona.id === personaId)
+    ?? BUILT_IN_PERSONAS.find(persona => persona.id === DEFAULT_PERSONA_ID)!;
+
+// The persona's own instruction plus its tone and language mix. The chosen
+// reply language comes last so it wins over the persona's language mix.
+export const buildPersonaInstruction = (persona: Persona, replyLanguageInstruction?: string): string =>
+  [
+    persona.systemInstruction.trim(),
+    persona.tone.trim() && `Tone: ${persona.tone.trim()}.`,
+    persona.languageMix.trim() && `Language style: ${persona.languageMix.trim()}.`,
+    replyLanguageInstruction && `${replyLanguageInstruction} Keep the persona's style, adapted to this language.`,
+  ].filter(Boolean).join('\n');
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+// Keeps the well-formed custom personas from untrusted data (saved prefs or an
+// imported file). Anything without a name and instruction is dropped.
+export const parsePersonas = (value: unknown): Persona[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((raw): Persona[] => {
+    if (!raw || typeof raw !== 'object') return [];
+    const record = raw as Record<string, unknown>;
+    const name = asString(record.name).trim().slice(0, MAX_PERSONA_NAME_LENGTH);
+    const systemInstruction = asString(record.systemInstruction).trim();
+    if (!name || !systemInstruction) return [];
+    return [{
+      id: asString(record.id) || createPersonaId(),
+      name,
+      avatar: asString(record.avatar).trim() || '🙂',
+      tone: asString(record.tone).trim(),
+      languageMix: asString(record.languageMix).trim(),
+      systemInstruction,
+    }];
+  });
+};
+
+export const exportPersonasJson = (personas: Persona[]): string =>
+  JSON.stringify({
+    version: PERSONA_FILE_VERSION,
+    personas: personas.map(({ builtIn, ...persona }) => persona),
+  }, null, 2);
+
+export type PersonaImportErrorCode = 'invalid-json' | 'no-personas';
+
+export class PersonaImportError extends Error {
+  constructor(public readonly code: PersonaImportErrorCode, message: string) {
+    super(message);
+    this.name = 'PersonaImportError';
+  }
+}
+
+// Parses an exported file (or a bare array of personas) and merges it into
+// `existing`: personas with a matching id are updated, the rest are added.
+// Ids that clash with a built-in persona get a fresh one.
+export const importPersonasJson = (json: string, existing: Persona[]): { personas: Persona[]; imported: number } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new PersonaImportError('invalid-json', 'That file is not valid JSON.');
+  }
+  const list = Array.isArray(data) ? data : (data as { personas?: unknown } | null)?.personas;
+  const imported = parsePersonas(list).map(persona =>
+    (BUILT_IN_PERSONAS.some(builtIn => builtIn.id === persona.id) ? { ...persona, id: createPersonaId() } : persona));
+  if (imported.length === 0) {
+    throw new PersonaImportError('no-personas', 'No personas found in that file.');
+  }
+
+  const existingIds = new Set(existing.map(persona => persona.id));
+  return {
+    personas: [
+      ...existing.map(persona => imported.find(update => update.id === persona.id) ?? persona),
+      ...imported.filter(persona => !existingIds.has(persona.id)),
+    ],
+    imported: imported.length,
+  };
+};
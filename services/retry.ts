@@ -0,0 +1,61 @@
+import { AIError, classifyError, isRetryableError } from './aiErrors';
+
+export interface RetryOptions {
+  maxAttempts?: number; // Total tries, including the first one
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal; // Stops waiting between attempts
+  shouldRetry?: (error: AIError, attempt: number) => boolean;
+  random?: () => number; // Injectable for deterministic tests
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+// Resolves after `ms`, or rejects with the abort reason if `signal` fires first.
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// Exponential backoff with "full jitter": wait a random time up to base * 2^attempt,
+// capped at maxDelayMs. A server-provided retry-after hint wins when it is longer.
+export const getBackoffDelayMs = (
+  attempt: number,
+  error: AIError,
+  { baseDelayMs = 500, maxDelayMs = 8000, random = Math.random }: RetryOptions = {},
+): number => {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  const jittered = Math.round(random() * exponential);
+  const retryAfterMs = error.kind === 'rate-limit' ? error.retryAfterMs : undefined;
+  return retryAfterMs !== undefined ? Math.max(jittered, Math.min(retryAfterMs, maxDelayMs)) : jittered;
+};
+
+// Runs `operation`, retrying transient failures (rate limits, network errors).
+// The final error is rethrown unchanged so callers can classify it themselves.
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {},
+): Promise<T> => {
+  const { maxAttempts = 3, signal, shouldRetry = isRetryableError, sleep: sleepFn = sleep } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const aiError = classifyError(error);
+      if (signal?.aborted || attempt + 1 >= maxAttempts || !shouldRetry(aiError, attempt)) {
+        throw error;
+      }
+      const delayMs = getBackoffDelayMs(attempt, aiError, options);
+      console.warn(`Retrying after ${aiError.kind} error (attempt ${attempt + 2} of ${maxAttempts}) in ${delayMs}ms`);
+      await sleepFn(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import { APP_ROUTES } from '../constants';
+import { NavigationView } from '../types';
+
+// Where the app is: a view plus an optional id, e.g. "#/chat/<threadId>".
+export interface RouteLocation {
+  view: NavigationView;
+  param: string | null;
+}
+
+const HOME: RouteLocation = { view: 'home', param: null };
+
+// Unknown paths fall back to home.
+export const parseRouteHash = (hash: string): RouteLocation => {
+  const [path = '', param] = hash.replace(/^#\/?/, '').split('/');
+  const route = APP_ROUTES.find(r => r.path === path);
+  if (!route) return HOME;
+  try {
+    return { view: route.view, param: param ? decodeURIComponent(param) : null };
+  } catch {
+    return { view: route.view, param: null }; // Malformed escape in a hand-typed URL
+  }
+};
+
+export const formatRouteHash = (view: NavigationView, param: string | null = null): string => {
+  const path = APP_ROUTES.find(r => r.view === view)?.path ?? '';
+  return `#/${path}${param ? `/${encodeURIComponent(param)}` : ''}`;
+};
+
+export interface NavigateOptions {
+  replace?: boolean; // Update the URL without adding a history entry
+}
+
+// Keeps the location in sync with the URL hash, so refresh, deep links and
+// the browser's back/forward buttons all work.
+export const useHashRoute = () => {
+  const [location, setLocation] = useState<RouteLocation>(() => parseRouteHash(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => setLocation(parseRouteHash(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const navigate = useCallback((view: NavigationView, param: string | null = null, { replace = false }: NavigateOptions = {}) => {
+    const hash = formatRouteHash(view, param);
+    if (hash === window.location.hash) return;
+    if (replace) {
+      // replaceState does not fire hashchange, so update the location ourselves.
+      window.history.replaceState(null, '', hash);
+      setLocation(parseRouteHash(hash));
+    } else {
+      window.location.hash = hash; // hashchange updates the location
+    }
+  }, []);
+
+  return { location, navigate };
+};
@@ -0,0 +1,120 @@
+import { MAX_SLIDES } from '../constants';
+
+// A slideshow outline as produced by the chat model for "Generate from topic".
+export interface SlideOutline {
+  title: string;
+  slides: SlideOutlineItem[];
+}
+
+export interface SlideOutlineItem {
+  title: string;
+  bullets: string[];
+  imagePrompt?: string; // Description for an illustration of this slide
+}
+
+export const MAX_BULLETS_PER_SLIDE = 3;
+
+// JSON Schema the model is asked to follow.
+export const SLIDE_OUTLINE_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'Title of the whole slideshow' },
+    slides: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: 'Short slide heading' },
+          bullets: { type: 'array', items: { type: 'string' }, description: 'One to three short bullet points' },
+          imagePrompt: { type: 'string', description: 'A vivid description of an illustration for this slide' },
+        },
+        required: ['title', 'bullets'],
+      },
+    },
+  },
+  required: ['title', 'slides'],
+};
+
+export const buildSlideOutlinePrompt = (topic: string, slideCount: number) =>
+  `Create an outline for a short, student-friendly animated slideshow.
+Topic: ${topic}
+Make exactly ${slideCount} content slides. Each slide has a short title (max 6 words) and 1-${MAX_BULLETS_PER_SLIDE} bullet points (max 12 words each).
+Also give each slide an imagePrompt describing a simple, colorful illustration for it.`;
+
+const cleanText = (value: unknown): string =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+
+// Checks parsed JSON against the outline shape, dropping anything unusable.
+// Returns null when nothing valid is left.
+export const validateSlideOutline = (data: unknown, fallbackTitle = ''): SlideOutline | null => {
+  if (!data || typeof data !== 'object') return null;
+  const record = data as Record<string, unknown>;
+  if (!Array.isArray(record.slides)) return null;
+
+  const slides = record.slides
+    .map((item): SlideOutlineItem | null => {
+      if (!item || typeof item !== 'object') return null;
+      const slide = item as Record<string, unknown>;
+      const title = cleanText(slide.title);
+      const bullets = (Array.isArray(slide.bullets) ? slide.bullets : [])
+        .map(cleanText)
+        .filter(Boolean)
+        .slice(0, MAX_BULLETS_PER_SLIDE);
+      if (!title && bullets.length === 0) return null;
+      const imagePrompt = cleanText(slide.imagePrompt);
+      return { title, bullets, ...(imagePrompt ? { imagePrompt } : {}) };
+    })
+    .filter((slide): slide is SlideOutlineItem => slide !== null)
+    .slice(0, MAX_SLIDES - 1); // Leave room for the title slide
+
+  if (slides.length === 0) return null;
+  return { title: cleanText(record.title) || fallbackTitle, slides };
+};
+
+// Models sometimes wrap JSON in ```json fences or add a sentence around it.
+const extractJson = (text: string): string => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) return fenced[1];
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+};
+
+// Last resort for replies that aren't JSON: treat headings / numbered lines as
+// slide titles and "-", "*" or "•" lines as bullets.
+export const outlineFromPlainText = (text: string, topic: string): SlideOutline | null => {
+  const slides: SlideOutlineItem[] = [];
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const bullet = line.match(/^[-*•]\s+(.*)$/);
+    if (bullet && slides.length > 0) {
+      const current = slides[slides.length - 1];
+      if (current.bullets.length < MAX_BULLETS_PER_SLIDE) current.bullets.push(cleanText(bullet[1]));
+      continue;
+    }
+    const title = cleanText(line.replace(/^(#+|\d+[.)])\s*/, '').replace(/\*\*/g, ''));
+    if (title) slides.push({ title, bullets: [] });
+  }
+  return validateSlideOutline({ title: topic, slides }, topic);
+};
+
+// A reply that starts out as JSON (possibly cut off) is broken JSON, not prose.
+const JSON_START = /^\s*(?:```(?:json)?\s*)?[{[]/i;
+// Headings, numbered lines or bullets; a refusal or a lone sentence has none.
+const LIST_LINE = /^\s*(?:#+\s|\d+[.)]\s|[-*•]\s)/m;
+
+// Parses the model's reply: strict JSON first, then the plain-text fallback for
+// replies that look like an outline. Anything else gives `outline: null`.
+export const parseSlideOutline = (text: string, topic: string): { outline: SlideOutline | null; usedFallback: boolean } => {
+  try {
+    const outline = validateSlideOutline(JSON.parse(extractJson(text)), topic);
+    if (outline) return { outline, usedFallback: false };
+  } catch {
+    // Not JSON - maybe a plain-text outline.
+  }
+  if (JSON_START.test(text) || !LIST_LINE.test(text)) {
+    return { outline: null, usedFallback: false };
+  }
+  return { outline: outlineFromPlainText(text, topic), usedFallback: true };
+};
@@ -0,0 +1,78 @@
+import { DEFAULT_SLIDE_DURATION_MS, SLIDESHOW_THEMES } from '../constants';
+import { Slide, SlideshowTheme } from '../types';
+import { SlideOutline } from './slideOutline';
+
+let slideCounter = 0;
+
+// Unique even when many slides are created in the same millisecond.
+const createSlideId = () => `slide-${Date.now()}-${++slideCounter}`;
+
+export const createSlide = (text: string, theme: SlideshowTheme = SLIDESHOW_THEMES[0]): Slide => ({
+  id: createSlideId(),
+  text,
+  durationMs: DEFAULT_SLIDE_DURATION_MS,
+  background: theme.background,
+  textColor: theme.textColor,
+  fontFamily: theme.fontFamily,
+  fontSize: theme.fontSize,
+  transition: theme.transition,
+});
+
+// Restyles a slide with a theme, keeping its text, image and timing.
+export const applyTheme = (slide: Slide, theme: SlideshowTheme): Slide => ({
+  ...slide,
+  background: theme.background,
+  textColor: theme.textColor,
+  fontFamily: theme.fontFamily,
+  fontSize: theme.fontSize,
+  transition: theme.transition,
+});
+
+// One title slide, then a slide per outline item with its bullets below the heading.
+// Longer slides stay up a little longer so there is time to read them.
+export const outlineToSlides = (outline: SlideOutline, theme: SlideshowTheme = SLIDESHOW_THEMES[0]): Slide[] => {
+  const titleSlide = { ...createSlide(outline.title, theme), fontSize: 'xl' as const };
+  const contentSlides = outline.slides.map(item => {
+    const text = [item.title, ...item.bullets.map(bullet => `• ${bullet}`)].join('\n');
+    const slide = createSlide(text, theme);
+    return {
+      ...slide,
+      fontSize: item.bullets.length > 0 ? 'small' as const : slide.fontSize,
+      durationMs: DEFAULT_SLIDE_DURATION_MS + item.bullets.length * 1000,
+    };
+  });
+  return outline.title ? [titleSlide, ...contentSlides] : contentSlides;
+};
+
+export const getTotalDurationMs = (slides: Slide[]): number =>
+  slides.reduce((total, slide) => total + slide.durationMs, 0);
+
+// Start time of each slide within the whole show.
+export const getSlideStartTimes = (slides: Slide[]): number[] => {
+  let start = 0;
+  return slides.map(slide => {
+    const slideStart = start;
+    start += slide.durationMs;
+    return slideStart;
+  });
+};
+
+// Which slide is showing at `timeMs`, and how far into it we are.
+export const getSlidePosition = (slides: Slide[], timeMs: number): { index: number; timeInSlideMs: number } => {
+  const startTimes = getSlideStartTimes(slides);
+  let index = 0;
+  while (index < slides.length - 1 && timeMs >= startTimes[index + 1]) {
+    index++;
+  }
+  return { index, timeInSlideMs: timeMs - startTimes[index] };
+};
+
+export const moveSlide = (slides: Slide[], fromIndex: number, toIndex: number): Slide[] => {
+  if (toIndex < 0 || toIndex >= slides.length) {
+    return slides;
+  }
+  const next = [...slides];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, moved);
+  return next;
+};
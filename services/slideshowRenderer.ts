@@ -0,0 +1,309 @@
+import { Slide, SlideBackground, SlideFontSize } from '../types';
+import { createGifEncoder } from './gifEncoder';
+import { getSlidePosition, getTotalDurationMs } from './slides';
+
+// Draws slides onto a canvas. The on-screen player and the file export both
+// use these functions, so what you preview is exactly what gets recorded.
+
+export interface SlideshowRenderOptions {
+  width?: number;
+  height?: number;
+  fps?: number;
+}
+
+export interface SlideshowExport {
+  blob: Blob;
+  format: 'webm' | 'gif';
+}
+
+type ProgressCallback = (fraction: number) => void;
+
+// Preloaded slide images, keyed by their URL.
+export type SlideImages = Map<string, HTMLImageElement>;
+
+export const TRANSITION_MS = 800;
+const TRANSITION_OFFSET_FRACTION = 20 / 300; // 20px rise on the original 300px-high preview
+
+const FONT_SIZE_FRACTIONS: Record<SlideFontSize, number> = {
+  small: 0.055,
+  medium: 0.075,
+  large: 0.095,
+  xl: 0.12,
+};
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const easeOutCubic = (t: number) => 1 - (1 - t) ** 3;
+
+// Greedy word wrap against the current canvas font.
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+export const loadSlideImages = async (slides: Slide[]): Promise<SlideImages> => {
+  const urls = Array.from(new Set(slides.map(slide => slide.imageUrl).filter((url): url is string => Boolean(url))));
+  const entries = await Promise.all(urls.map(url => new Promise<[string, HTMLImageElement] | null>(resolve => {
+    const image = new Image();
+    image.onload = () => resolve([url, image]);
+    image.onerror = () => resolve(null); // A broken image just isn't drawn
+    image.src = url;
+  })));
+  return new Map(entries.filter((entry): entry is [string, HTMLImageElement] => entry !== null));
+};
+
+const drawBackground = (ctx: CanvasRenderingContext2D, background: SlideBackground) => {
+  const { width, height } = ctx.canvas;
+  if (background.type === 'solid') {
+    ctx.fillStyle = background.color;
+  } else {
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, background.from);
+    gradient.addColorStop(1, background.to);
+    ctx.fillStyle = gradient;
+  }
+  ctx.fillRect(0, 0, width, height);
+};
+
+// Image (if any) in the upper part, text centered in the remaining space.
+const drawContent = (ctx: CanvasRenderingContext2D, slide: Slide, images: SlideImages) => {
+  const { width, height } = ctx.canvas;
+  const image = slide.imageUrl ? images.get(slide.imageUrl) : undefined;
+  let textTop = 0;
+
+  if (image) {
+    const boxWidth = width * 0.8;
+    const boxHeight = slide.text.trim() ? height * 0.55 : height * 0.85;
+    const scale = Math.min(boxWidth / image.naturalWidth, boxHeight / image.naturalHeight);
+    const drawWidth = image.naturalWidth * scale;
+    const drawHeight = image.naturalHeight * scale;
+    const top = height * 0.06;
+    ctx.drawImage(image, (width - drawWidth) / 2, top, drawWidth, drawHeight);
+    textTop = top + drawHeight;
+  }
+
+  if (!slide.text.trim()) return;
+
+  const fontSize = Math.round(height * FONT_SIZE_FRACTIONS[slide.fontSize]);
+  ctx.font = `bold ${fontSize}px ${slide.fontFamily}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const lines = wrapText(ctx, slide.text, width * 0.9);
+  const lineHeight = fontSize * 1.25;
+  const centerY = textTop + (height - textTop) / 2;
+  const firstLineY = centerY - ((lines.length - 1) * lineHeight) / 2;
+
+  ctx.fillStyle = slide.textColor;
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.25)';
+  ctx.shadowBlur = fontSize * 0.15;
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, firstLineY + i * lineHeight));
+  ctx.shadowBlur = 0;
+};
+
+const drawSlide = (ctx: CanvasRenderingContext2D, slide: Slide, images: SlideImages) => {
+  drawBackground(ctx, slide.background);
+  drawContent(ctx, slide, images);
+};
+
+// Renders one frame: `timeInSlideMs` is how far into `slide` we are, and
+// `previous` is the slide being transitioned away from (if any).
+export const drawSlideFrame = (
+  ctx: CanvasRenderingContext2D,
+  slide: Slide,
+  timeInSlideMs: number,
+  images: SlideImages,
+  previous?: Slide,
+) => {
+  const { width, height } = ctx.canvas;
+  const progress = easeOutCubic(Math.min(1, Math.max(0, timeInSlideMs / TRANSITION_MS)));
+
+  ctx.save();
+  switch (slide.transition) {
+    case 'fade':
+      if (previous) drawSlide(ctx, previous, images);
+      ctx.globalAlpha = progress;
+      drawSlide(ctx, slide, images);
+      break;
+    case 'slide-left':
+      if (previous && progress < 1) {
+        ctx.save();
+        ctx.translate(-progress * width, 0);
+        drawSlide(ctx, previous, images);
+        ctx.restore();
+      }
+      ctx.translate((1 - progress) * width, 0);
+      drawSlide(ctx, slide, images);
+      break;
+    case 'zoom': {
+      drawBackground(ctx, slide.background);
+      const scale = 0.8 + 0.2 * progress;
+      ctx.globalAlpha = progress;
+      ctx.translate(width / 2, height / 2);
+      ctx.scale(scale, scale);
+      ctx.translate(-width / 2, -height / 2);
+      drawContent(ctx, slide, images);
+      break;
+    }
+    case 'fade-up':
+      drawBackground(ctx, slide.background);
+      ctx.globalAlpha = progress;
+      ctx.translate(0, (1 - progress) * TRANSITION_OFFSET_FRACTION * height);
+      drawContent(ctx, slide, images);
+      break;
+    case 'none':
+    default:
+      drawSlide(ctx, slide, images);
+  }
+  ctx.restore();
+};
+
+// Draws whatever is on screen `timeMs` into the whole show.
+export const drawSlideshowAt = (ctx: CanvasRenderingContext2D, slides: Slide[], timeMs: number, images: SlideImages) => {
+  const { index, timeInSlideMs } = getSlidePosition(slides, timeMs);
+  drawSlideFrame(ctx, slides[index], timeInSlideMs, images, slides[index - 1]);
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D is not available in this browser.');
+  }
+  return { canvas, ctx };
+};
+
+const getSupportedWebMType = (): string | undefined =>
+  typeof MediaRecorder === 'undefined'
+    ? undefined
+    : WEBM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export const isWebMRecordingSupported = (): boolean =>
+  Boolean(getSupportedWebMType()) && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+// MediaRecorder captures in real time, so this takes as long as the slideshow itself.
+export const recordSlideshowWebM = async (
+  slides: Slide[],
+  { width = 1280, height = 720, fps = 30 }: SlideshowRenderOptions,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<Blob> => {
+  const mimeType = getSupportedWebMType();
+  if (!mimeType) {
+    throw new Error('WebM recording is not supported in this browser.');
+  }
+
+  const images = await loadSlideImages(slides);
+  const { canvas, ctx } = createCanvas(width, height);
+  const totalMs = getTotalDurationMs(slides);
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 4_000_000 });
+  const chunks: Blob[] = [];
+
+  return new Promise<Blob>((resolve, reject) => {
+    let timer: number | undefined;
+    const finish = () => {
+      window.clearTimeout(timer);
+      stream.getTracks().forEach(track => track.stop());
+    };
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      finish();
+      if (signal?.aborted) {
+        reject(signal.reason);
+      } else {
+        resolve(new Blob(chunks, { type: 'video/webm' }));
+      }
+    };
+    recorder.onerror = () => {
+      finish();
+      reject(new Error('Recording failed.'));
+    };
+    signal?.addEventListener('abort', () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    }, { once: true });
+
+    drawSlideshowAt(ctx, slides, 0, images);
+    recorder.start(250);
+    const startedAt = performance.now();
+
+    const tick = () => {
+      if (signal?.aborted) return; // The abort listener already stopped the recorder
+      const elapsed = performance.now() - startedAt;
+      drawSlideshowAt(ctx, slides, Math.min(elapsed, totalMs), images);
+      onProgress?.(Math.min(1, elapsed / totalMs));
+      if (elapsed >= totalMs) {
+        if (recorder.state !== 'inactive') recorder.stop();
+      } else {
+        timer = window.setTimeout(tick, 1000 / fps);
+      }
+    };
+    tick();
+  });
+};
+
+// Renders frames offline (faster than real time) at a smaller size and encodes a GIF.
+export const renderSlideshowGif = async (
+  slides: Slide[],
+  { width = 480, height = 270, fps = 10 }: SlideshowRenderOptions,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<Blob> => {
+  const images = await loadSlideImages(slides);
+  const { ctx } = createCanvas(width, height);
+  const frameMs = 1000 / fps;
+  const totalMs = getTotalDurationMs(slides);
+  // Each frame is encoded as soon as it is drawn; holding every RGBA frame
+  // until the end would take hundreds of MB for a long slideshow.
+  const encoder = createGifEncoder(width, height);
+  let frameCount = 0;
+
+  for (let timeMs = 0; timeMs < totalMs; timeMs += frameMs) {
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    drawSlideshowAt(ctx, slides, timeMs, images);
+    encoder.addFrame(ctx.getImageData(0, 0, width, height).data, frameMs);
+    onProgress?.(timeMs / totalMs);
+    // Yield to the browser now and then so the progress bar can repaint.
+    if (++frameCount % 10 === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  const blob = encoder.finish();
+  onProgress?.(1);
+  return blob;
+};
+
+// Records WebM where the browser can, otherwise falls back to an animated GIF.
+export const exportSlideshow = async (
+  slides: Slide[],
+  options: SlideshowRenderOptions,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+  preferredFormat: SlideshowExport['format'] = 'webm',
+): Promise<SlideshowExport> => {
+  if (preferredFormat === 'webm' && isWebMRecordingSupported()) {
+    return { blob: await recordSlideshowWebM(slides, options, onProgress, signal), format: 'webm' };
+  }
+  return { blob: await renderSlideshowGif(slides, options, onProgress, signal), format: 'gif' };
+};
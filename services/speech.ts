@@ -0,0 +1,230 @@
+import { DEFAULT_SPEECH_SETTINGS, SPEECH_RATE_RANGE } from '../constants';
+import { SpeechSettings } from '../types';
+
+// Browser speech helpers: speech recognition and audio recording for voice
+// input, and speech synthesis for reading replies aloud. Every feature is
+// optional; callers check the matching `is...Supported()` first.
+
+// The Web Speech recognition API is not in TypeScript's DOM types yet, and
+// Chrome/Safari still only ship it prefixed.
+interface RecognitionAlternative {
+  transcript: string;
+}
+
+interface RecognitionResultList {
+  length: number;
+  [index: number]: { isFinal: boolean; 0: RecognitionAlternative };
+}
+
+interface RecognitionEvent extends Event {
+  resultIndex: number;
+  results: RecognitionResultList;
+}
+
+interface RecognitionErrorEvent extends Event {
+  error: string; // e.g. "not-allowed", "no-speech", "network"
+}
+
+interface Recognition extends EventTarget {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+  onresult: ((event: RecognitionEvent) => void) | null;
+  onerror: ((event: RecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+}
+
+type RecognitionConstructor = new () => Recognition;
+
+const getRecognitionConstructor = (): RecognitionConstructor | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+export const isSpeechRecognitionSupported = (): boolean => Boolean(getRecognitionConstructor());
+
+export const isAudioRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia);
+
+export const isSpeechSynthesisSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && typeof SpeechSynthesisUtterance !== 'undefined';
+
+export type SpeechInputErrorCode = 'permission-denied' | 'no-speech' | 'unavailable';
+
+export class SpeechInputError extends Error {
+  constructor(public readonly code: SpeechInputErrorCode, message: string) {
+    super(message);
+    this.name = 'SpeechInputError';
+  }
+}
+
+const toSpeechInputError = (code: string): SpeechInputError => {
+  switch (code) {
+    case 'not-allowed':
+    case 'service-not-allowed':
+      return new SpeechInputError('permission-denied', 'Microphone access was blocked.');
+    case 'no-speech':
+      return new SpeechInputError('no-speech', 'No speech was heard.');
+    default:
+      return new SpeechInputError('unavailable', `Speech recognition failed (${code}).`);
+  }
+};
+
+export interface SpeechRecognitionHandlers {
+  onTranscript: (transcript: string, isFinal: boolean) => void; // Everything heard so far in this session
+  onError: (error: SpeechInputError) => void;
+  onEnd: () => void;
+}
+
+export interface SpeechSession {
+  stop: () => void; // Finish and deliver what was heard
+  cancel: () => void;
+}
+
+// Listens until the user stops (or pauses for long enough that the browser stops).
+export const startSpeechRecognition = (lang: string, { onTranscript, onError, onEnd }: SpeechRecognitionHandlers): SpeechSession => {
+  const Constructor = getRecognitionConstructor();
+  if (!Constructor) {
+    throw new SpeechInputError('unavailable', 'Speech recognition is not available in this browser.');
+  }
+  const recognition = new Constructor();
+  recognition.lang = lang;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+
+  recognition.onresult = (event) => {
+    let transcript = '';
+    let isFinal = true;
+    for (let i = 0; i < event.results.length; i++) {
+      transcript += event.results[i][0].transcript;
+      isFinal = isFinal && event.results[i].isFinal;
+    }
+    onTranscript(transcript.trim(), isFinal);
+  };
+  recognition.onerror = (event) => {
+    if (event.error !== 'aborted') onError(toSpeechInputError(event.error));
+  };
+  recognition.onend = onEnd;
+  recognition.start();
+
+  return {
+    stop: () => recognition.stop(),
+    cancel: () => recognition.abort(),
+  };
+};
+
+// Containers the model accepts, in order of preference; browsers record different ones.
+const RECORDING_MIME_TYPES = ['audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm;codecs=opus', 'audio/webm'];
+
+export interface AudioRecording {
+  stop: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+// Records from the microphone until stopped. Asking for the microphone may
+// throw a SpeechInputError if the user blocks it.
+export const startAudioRecording = async (): Promise<AudioRecording> => {
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  } catch {
+    throw new SpeechInputError('permission-denied', 'Microphone access was blocked.');
+  }
+  const mimeType = RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const releaseMicrophone = () => stream.getTracks().forEach(track => track.stop());
+  recorder.start();
+
+  return {
+    stop: () => new Promise<Blob>((resolve) => {
+      recorder.onstop = () => {
+        releaseMicrophone();
+        resolve(new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' }));
+      };
+      recorder.stop();
+    }),
+    cancel: () => {
+      recorder.onstop = releaseMicrophone;
+      if (recorder.state !== 'inactive') recorder.stop();
+    },
+  };
+};
+
+// Voices load asynchronously in some browsers; `onChange` fires when the list updates.
+export const watchSpeechVoices = (onChange: (voices: SpeechSynthesisVoice[]) => void): (() => void) => {
+  if (!isSpeechSynthesisSupported()) return () => undefined;
+  const update = () => onChange(window.speechSynthesis.getVoices());
+  update();
+  window.speechSynthesis.addEventListener('voiceschanged', update);
+  return () => window.speechSynthesis.removeEventListener('voiceschanged', update);
+};
+
+// Voices for the given locale first (e.g. "hi-IN", then other "hi" voices), then the rest.
+export const sortVoicesForLocale = (voices: SpeechSynthesisVoice[], locale: string): SpeechSynthesisVoice[] => {
+  const base = locale.split('-')[0].toLowerCase();
+  const rank = (voice: SpeechSynthesisVoice) => {
+    const lang = voice.lang.replace('_', '-').toLowerCase();
+    if (lang === locale.toLowerCase()) return 0;
+    if (lang.split('-')[0] === base) return 1;
+    return 2;
+  };
+  return [...voices].sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+};
+
+// Text for reading aloud: markdown symbols and emoji would be read out literally.
+export const toSpeakableText = (text: string): string =>
+  text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/[*_`#>~|]/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\p{Extended_Pictographic}/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export interface SpeakOptions {
+  locale: string;
+  voiceURI: string | null; // null picks the best voice for the locale
+  rate: number; // 0.5-2, 1 is normal speed
+  onEnd?: () => void;
+}
+
+// Reads text aloud, cutting off anything already being read.
+export const speak = (text: string, { locale, voiceURI, rate, onEnd }: SpeakOptions): void => {
+  if (!isSpeechSynthesisSupported()) return;
+  const synth = window.speechSynthesis;
+  synth.cancel();
+  const utterance = new SpeechSynthesisUtterance(toSpeakableText(text));
+  const voices = sortVoicesForLocale(synth.getVoices(), locale);
+  const voice = voices.find(v => v.voiceURI === voiceURI) ?? voices[0];
+  if (voice) utterance.voice = voice;
+  utterance.lang = voice?.lang ?? locale;
+  utterance.rate = rate;
+  utterance.onend = () => onEnd?.();
+  utterance.onerror = () => onEnd?.();
+  synth.speak(utterance);
+};
+
+// Restores saved settings, falling back to the defaults for anything missing or invalid.
+export const parseSpeechSettings = (value: unknown): SpeechSettings => {
+  const stored = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof SpeechSettings, unknown>>;
+  const rate = typeof stored.rate === 'number' && Number.isFinite(stored.rate)
+    ? Math.min(SPEECH_RATE_RANGE.max, Math.max(SPEECH_RATE_RANGE.min, stored.rate))
+    : DEFAULT_SPEECH_SETTINGS.rate;
+  return {
+    voiceURI: typeof stored.voiceURI === 'string' ? stored.voiceURI : DEFAULT_SPEECH_SETTINGS.voiceURI,
+    rate,
+    autoRead: typeof stored.autoRead === 'boolean' ? stored.autoRead : DEFAULT_SPEECH_SETTINGS.autoRead,
+  };
+};
+
+export const stopSpeaking = (): void => {
+  if (isSpeechSynthesisSupported()) window.speechSynthesis.cancel();
+};
@@ -0,0 +1,310 @@
+import { STORAGE_DB_NAME, STORAGE_KEY_USER_PREFS } from '../constants';
+import { Conversation, GalleryItem, UserPreferences } from '../types';
+import { parseStoredPreferences } from './conversations';
+
+// IndexedDB object stores. Bump DB_VERSION whenever a store is added.
+export type StoreName = 'meta' | 'conversations' | 'images';
+const STORE_NAMES: StoreName[] = ['meta', 'conversations', 'images'];
+const DB_VERSION = 1;
+
+const META_SCHEMA_VERSION = 'schemaVersion';
+const META_PREFERENCES = 'preferences';
+
+// Minimal key-value interface over the object stores, so the app can run
+// against IndexedDB in the browser and an in-memory fake elsewhere.
+export interface StorageBackend {
+  get<T>(store: StoreName, key: string): Promise<T | undefined>;
+  getAll<T>(store: StoreName): Promise<T[]>;
+  put<T>(store: StoreName, key: string, value: T): Promise<void>;
+  delete(store: StoreName, key: string): Promise<void>;
+  clear(store: StoreName): Promise<void>;
+  keys(store: StoreName): Promise<string[]>;
+  // Applies every operation or none of them (one IndexedDB transaction).
+  batch(operations: StorageOperation[]): Promise<void>;
+}
+
+export type StorageOperation =
+  | { type: 'put'; store: StoreName; key: string; value: unknown }
+  | { type: 'delete'; store: StoreName; key: string }
+  | { type: 'clear'; store: StoreName };
+
+// The subset of `localStorage` the legacy import needs.
+export type LegacyStorage = Pick<Storage, 'getItem' | 'removeItem'>;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDBBackend = async (dbName: string = STORAGE_DB_NAME): Promise<StorageBackend> => {
+  const openRequest = indexedDB.open(dbName, DB_VERSION);
+  openRequest.onupgradeneeded = () => {
+    const db = openRequest.result;
+    STORE_NAMES.forEach(name => {
+      if (!db.objectStoreNames.contains(name)) {
+        db.createObjectStore(name);
+      }
+    });
+  };
+  const db = await requestToPromise(openRequest);
+
+  const objectStore = (store: StoreName, mode: IDBTransactionMode) =>
+    db.transaction(store, mode).objectStore(store);
+
+  return {
+    get: async <T>(store: StoreName, key: string) =>
+      (await requestToPromise(objectStore(store, 'readonly').get(key))) as T | undefined,
+    getAll: async <T>(store: StoreName) =>
+      (await requestToPromise(objectStore(store, 'readonly').getAll())) as T[],
+    put: async <T>(store: StoreName, key: string, value: T) => {
+      await requestToPromise(objectStore(store, 'readwrite').put(value, key));
+    },
+    delete: async (store: StoreName, key: string) => {
+      await requestToPromise(objectStore(store, 'readwrite').delete(key));
+    },
+    clear: async (store: StoreName) => {
+      await requestToPromise(objectStore(store, 'readwrite').clear());
+    },
+    keys: async (store: StoreName) =>
+      (await requestToPromise(objectStore(store, 'readonly').getAllKeys())).map(String),
+    batch: (operations: StorageOperation[]) => new Promise<void>((resolve, reject) => {
+      const stores = Array.from(new Set(operations.map(op => op.store)));
+      if (stores.length === 0) {
+        resolve();
+        return;
+      }
+      const transaction = db.transaction(stores, 'readwrite');
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+      for (const op of operations) {
+        const target = transaction.objectStore(op.store);
+        if (op.type === 'put') target.put(op.value, op.key);
+        else if (op.type === 'delete') target.delete(op.key);
+        else target.clear();
+      }
+    }),
+  };
+};
+
+// In-memory fake with the same semantics as IndexedDB: values are structured-cloned
+// on the way in and out, so callers can't mutate what is "on disk".
+export const createMemoryBackend = (): StorageBackend => {
+  const stores = new Map<StoreName, Map<string, unknown>>(STORE_NAMES.map(name => [name, new Map()]));
+  const storeFor = (store: StoreName) => stores.get(store)!;
+
+  return {
+    get: async <T>(store: StoreName, key: string) => {
+      const value = storeFor(store).get(key);
+      return value === undefined ? undefined : structuredClone(value) as T;
+    },
+    getAll: async <T>(store: StoreName) =>
+      Array.from(storeFor(store).values(), value => structuredClone(value) as T),
+    put: async <T>(store: StoreName, key: string, value: T) => {
+      storeFor(store).set(key, structuredClone(value));
+    },
+    delete: async (store: StoreName, key: string) => {
+      storeFor(store).delete(key);
+    },
+    clear: async (store: StoreName) => {
+      storeFor(store).clear();
+    },
+    keys: async (store: StoreName) => Array.from(storeFor(store).keys()),
+    batch: async (operations: StorageOperation[]) => {
+      // Clone everything first so a failure leaves the stores untouched
+      const cloned = operations.map(op => (op.type === 'put' ? { ...op, value: structuredClone(op.value) } : op));
+      for (const op of cloned) {
+        if (op.type === 'put') storeFor(op.store).set(op.key, op.value);
+        else if (op.type === 'delete') storeFor(op.store).delete(op.key);
+        else storeFor(op.store).clear();
+      }
+    },
+  };
+};
+
+// Everything in UserPreferences except the conversations, which get their own store.
+type StoredSettings = Omit<UserPreferences, 'conversations'>;
+
+// Writes only conversations that changed since `previous` (compared by
+// reference, as React state updates replace changed objects) and deletes removed
+// ones, all in one transaction so a closed tab can't leave a half-written save.
+const writePreferences = async (
+  backend: StorageBackend,
+  prefs: UserPreferences,
+  previous: ReadonlyMap<string, Conversation>,
+) => {
+  const { conversations, ...settings } = prefs;
+  const ids = new Set(conversations.map(c => c.id));
+  const storedIds = await backend.keys('conversations');
+  await backend.batch([
+    ...storedIds
+      .filter(id => !ids.has(id))
+      .map((key): StorageOperation => ({ type: 'delete', store: 'conversations', key })),
+    ...conversations
+      .filter(c => previous.get(c.id) !== c)
+      .map((c): StorageOperation => ({ type: 'put', store: 'conversations', key: c.id, value: c })),
+    { type: 'put', store: 'meta', key: META_PREFERENCES, value: settings satisfies StoredSettings },
+  ]);
+};
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (backend: StorageBackend, legacyStorage: LegacyStorage | null) => Promise<void>;
+}
+
+// Data migrations, applied in order. Append new entries; never edit shipped ones.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Import the legacy localStorage preferences blob',
+    migrate: async (backend, legacyStorage) => {
+      const legacyBlob = legacyStorage?.getItem(STORAGE_KEY_USER_PREFS);
+      if (!legacyBlob) {
+        return;
+      }
+      // A blob that fails to parse throws here, so it stays in localStorage and
+      // the import is retried on the next start (see runMigrations).
+      const { conversations, ...settings } = parseStoredPreferences(JSON.parse(legacyBlob));
+      // The app may have saved newer data since a failed earlier attempt, so only
+      // add what is missing: never delete or overwrite stored records.
+      const hasSettings = (await backend.get<StoredSettings>('meta', META_PREFERENCES)) !== undefined;
+      const storedIds = new Set(await backend.keys('conversations'));
+      const operations = conversations
+        .filter(c => !storedIds.has(c.id))
+        .map((c): StorageOperation => ({ type: 'put', store: 'conversations', key: c.id, value: c }));
+      if (!hasSettings) {
+        operations.push({ type: 'put', store: 'meta', key: META_PREFERENCES, value: settings satisfies StoredSettings });
+      }
+      await backend.batch(operations);
+      legacyStorage!.removeItem(STORAGE_KEY_USER_PREFS);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const runMigrations = async (backend: StorageBackend, legacyStorage: LegacyStorage | null): Promise<number> => {
+  const currentVersion = (await backend.get<number>('meta', META_SCHEMA_VERSION)) ?? 0;
+  if (currentVersion > SCHEMA_VERSION) {
+    console.warn(`Stored data is schema v${currentVersion}, newer than this app (v${SCHEMA_VERSION}).`);
+    return currentVersion;
+  }
+  let version = currentVersion;
+  for (const migration of MIGRATIONS) {
+    if (migration.version > version) {
+      try {
+        await migration.migrate(backend, legacyStorage);
+      } catch (e) {
+        // Keep the old version so this migration (and any after it) runs again next time
+        console.error(`Migration v${migration.version} failed: ${migration.description}`, e);
+        return version;
+      }
+      await backend.put('meta', META_SCHEMA_VERSION, migration.version);
+      version = migration.version;
+    }
+  }
+  return version;
+};
+
+export interface AppStorage {
+  loadPreferences: () => Promise<UserPreferences | null>;
+  savePreferences: (prefs: UserPreferences) => Promise<void>;
+  clearPreferences: () => Promise<void>;
+  listGalleryItems: () => Promise<GalleryItem[]>;
+  saveGalleryItem: (item: GalleryItem) => Promise<void>;
+  deleteGalleryItems: (ids: string[]) => Promise<void>;
+}
+
+export const createAppStorage = (backend: StorageBackend): AppStorage => {
+  // Writes run one at a time so overlapping saves can't interleave.
+  let writeQueue: Promise<void> = Promise.resolve();
+  const enqueueWrite = (write: () => Promise<void>): Promise<void> => {
+    const result = writeQueue.then(write);
+    writeQueue = result.catch(() => undefined);
+    return result;
+  };
+
+  // Conversations as last written, to skip unchanged ones on the next save.
+  let saved = new Map<string, Conversation>();
+  // A save that is queued but not started yet. Later saves replace its snapshot,
+  // so a streaming reply causes at most one write in flight and one waiting.
+  let pendingSave: { prefs: UserPreferences; done: Promise<void> } | null = null;
+
+  return {
+    loadPreferences: async () => {
+      const settings = await backend.get<StoredSettings>('meta', META_PREFERENCES);
+      if (!settings) {
+        return null;
+      }
+      const conversations = await backend.getAll<Conversation>('conversations');
+      const prefs = parseStoredPreferences({ ...settings, conversations });
+      saved = new Map(prefs.conversations.map(c => [c.id, c]));
+      return prefs;
+    },
+    savePreferences: (prefs) => {
+      if (pendingSave) {
+        pendingSave.prefs = prefs;
+        return pendingSave.done;
+      }
+      const slot: { prefs: UserPreferences; done: Promise<void> } = { prefs, done: Promise.resolve() };
+      slot.done = enqueueWrite(async () => {
+        if (pendingSave === slot) pendingSave = null;
+        const { conversations } = slot.prefs;
+        await writePreferences(backend, slot.prefs, saved);
+        saved = new Map(conversations.map(c => [c.id, c]));
+      });
+      pendingSave = slot;
+      return slot.done;
+    },
+    clearPreferences: () => {
+      pendingSave = null; // A save queued before this still runs first; later ones queue after it
+      return enqueueWrite(async () => {
+        await backend.batch([
+          { type: 'clear', store: 'conversations' },
+          { type: 'delete', store: 'meta', key: META_PREFERENCES },
+        ]);
+        saved = new Map();
+      });
+    },
+    // Gallery items live in the 'images' store, newest first.
+    listGalleryItems: async () => {
+      const items = await backend.getAll<GalleryItem>('images');
+      return items.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    },
+    saveGalleryItem: (item) => enqueueWrite(() => backend.put('images', item.id, item)),
+    deleteGalleryItems: (ids) => enqueueWrite(async () => {
+      await Promise.all(ids.map(id => backend.delete('images', id)));
+    }),
+  };
+};
+
+// Opens the backend and runs pending migrations. Falls back to memory-only
+// storage when IndexedDB is unavailable (e.g. some private browsing modes).
+export const openAppStorage = async (
+  backend?: StorageBackend,
+  legacyStorage: LegacyStorage | null = typeof localStorage !== 'undefined' ? localStorage : null,
+): Promise<AppStorage> => {
+  let resolvedBackend = backend;
+  if (!resolvedBackend) {
+    try {
+      resolvedBackend = await createIndexedDBBackend();
+    } catch (e) {
+      console.error('IndexedDB unavailable, data will not persist across reloads', e);
+      resolvedBackend = createMemoryBackend();
+    }
+  }
+  await runMigrations(resolvedBackend, legacyStorage);
+  return createAppStorage(resolvedBackend);
+};
+
+let appStoragePromise: Promise<AppStorage> | null = null;
+
+// Shared instance for the app; tests should call openAppStorage with a memory backend instead.
+export const getAppStorage = (): Promise<AppStorage> => {
+  if (!appStoragePromise) {
+    appStoragePromise = openAppStorage();
+  }
+  return appStoragePromise;
+};
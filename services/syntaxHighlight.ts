@@ -0,0 +1,156 @@
+// Lightweight syntax highlighting for code blocks in chat replies: splits code
+// into keyword / string / comment / number tokens for the languages students
+// ask about most. Unknown languages get the JavaScript rules, which suit most
+// C-style code; blocks marked as plain text are left alone.
+
+export type CodeTokenType = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+interface LanguageRules {
+  keywords: string[];
+  comments: RegExp[]; // Each must match at the start of the remaining text
+  strings: RegExp[];
+}
+
+const C_COMMENTS = [/^\/\/[^\n]*/, /^\/\*[\s\S]*?(\*\/|$)/];
+const HASH_COMMENTS = [/^#[^\n]*/];
+const QUOTED_STRINGS = [/^"(\\.|[^"\\\n])*"?/, /^'(\\.|[^'\\\n])*'?/];
+
+const JS_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else',
+  'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'let',
+  'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof',
+  'undefined', 'var', 'void', 'while', 'yield',
+];
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  javascript: {
+    keywords: JS_KEYWORDS,
+    comments: C_COMMENTS,
+    strings: [...QUOTED_STRINGS, /^`(\\.|[^`\\])*`?/],
+  },
+  typescript: {
+    keywords: [...JS_KEYWORDS, 'enum', 'implements', 'interface', 'keyof', 'private', 'protected', 'public', 'readonly', 'type'],
+    comments: C_COMMENTS,
+    strings: [...QUOTED_STRINGS, /^`(\\.|[^`\\])*`?/],
+  },
+  python: {
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+      'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None', 'nonlocal', 'not',
+      'or', 'pass', 'print', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield',
+    ],
+    comments: HASH_COMMENTS,
+    strings: [/^("""|''')[\s\S]*?(\1|$)/, ...QUOTED_STRINGS],
+  },
+  java: {
+    keywords: [
+      'abstract', 'boolean', 'break', 'case', 'catch', 'char', 'class', 'continue', 'default', 'do', 'double', 'else',
+      'extends', 'false', 'final', 'finally', 'float', 'for', 'if', 'implements', 'import', 'int', 'interface', 'long',
+      'new', 'null', 'package', 'private', 'protected', 'public', 'return', 'static', 'String', 'super', 'switch',
+      'this', 'throw', 'throws', 'true', 'try', 'void', 'while',
+    ],
+    comments: C_COMMENTS,
+    strings: QUOTED_STRINGS,
+  },
+  c: {
+    keywords: [
+      'auto', 'bool', 'break', 'case', 'char', 'class', 'const', 'continue', 'default', 'delete', 'do', 'double', 'else',
+      'enum', 'false', 'float', 'for', 'if', 'include', 'int', 'long', 'namespace', 'new', 'nullptr', 'private',
+      'public', 'return', 'short', 'signed', 'sizeof', 'static', 'std', 'struct', 'switch', 'template', 'this',
+      'true', 'typedef', 'unsigned', 'using', 'void', 'while',
+    ],
+    comments: C_COMMENTS,
+    strings: QUOTED_STRINGS,
+  },
+  bash: {
+    keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'return', 'then', 'while'],
+    comments: HASH_COMMENTS,
+    strings: QUOTED_STRINGS,
+  },
+  sql: {
+    keywords: [
+      'and', 'as', 'by', 'create', 'delete', 'desc', 'from', 'group', 'having', 'insert', 'into', 'join', 'left',
+      'limit', 'not', 'null', 'on', 'or', 'order', 'select', 'set', 'table', 'update', 'values', 'where',
+    ],
+    comments: [/^--[^\n]*/, /^\/\*[\s\S]*?(\*\/|$)/],
+    strings: QUOTED_STRINGS,
+  },
+  json: {
+    keywords: ['true', 'false', 'null'],
+    comments: [],
+    strings: [/^"(\\.|[^"\\\n])*"?/],
+  },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  py: 'python', python3: 'python',
+  cpp: 'c', 'c++': 'c', cc: 'c', h: 'c', csharp: 'c', cs: 'c',
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+  mysql: 'sql', postgresql: 'sql', sqlite: 'sql',
+};
+
+const PLAIN_LANGUAGES = ['text', 'txt', 'plaintext', 'markdown', 'md', 'output'];
+
+const NUMBER = /^(0x[\da-f]+|\d+(\.\d+)?(e[+-]?\d+)?)/i;
+const WORD = /^[A-Za-z_$][\w$]*/;
+
+const resolveLanguage = (language: string): LanguageRules =>
+  LANGUAGES[LANGUAGE_ALIASES[language] ?? language] ?? LANGUAGES.javascript;
+
+// SQL keywords are case-insensitive; every other language here is case-sensitive.
+const isKeyword = (word: string, language: string, rules: LanguageRules) =>
+  (LANGUAGE_ALIASES[language] ?? language) === 'sql'
+    ? rules.keywords.includes(word.toLowerCase())
+    : rules.keywords.includes(word);
+
+export const highlightCode = (code: string, language: string): CodeToken[] => {
+  if (PLAIN_LANGUAGES.includes(language)) return [{ type: 'plain', text: code }];
+  const rules = resolveLanguage(language);
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text; // Merge runs so the renderer makes fewer spans
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let rest = code;
+  while (rest.length > 0) {
+    const match = (patterns: RegExp[]) => patterns.map(pattern => rest.match(pattern)?.[0]).find(Boolean);
+
+    const comment = match(rules.comments);
+    const literal = comment ?? match(rules.strings);
+    if (literal) {
+      push(comment ? 'comment' : 'string', literal);
+      rest = rest.slice(literal.length);
+      continue;
+    }
+
+    const word = rest.match(WORD)?.[0];
+    if (word) {
+      push(isKeyword(word, language, rules) ? 'keyword' : 'plain', word);
+      rest = rest.slice(word.length);
+      continue;
+    }
+
+    const number = rest.match(NUMBER)?.[0];
+    if (number) {
+      push('number', number);
+      rest = rest.slice(number.length);
+      continue;
+    }
+
+    push('plain', rest[0]);
+    rest = rest.slice(1);
+  }
+  return tokens;
+};
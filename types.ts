@@ -1,14 +1,130 @@
+import { MessageKey } from './locales';
+
 export interface ChatMessage {
   id: string;
   sender: 'user' | 'bhaii';
   text: string;
   timestamp: Date;
+  stopped?: boolean; // Reply was cut short by the user pressing Stop
+  attachments?: ChatAttachment[]; // Files the user sent with the message
+  feedback?: ChatFeedback; // Thumbs up/down on a reply
+  // Every version of a regenerated reply; `text` and `stopped` mirror the selected one
+  alternatives?: ChatReplyAlternative[];
+  selectedAlternative?: number;
+  memoryProposals?: MemoryProposal[]; // Facts Bhaii offered to remember from this reply
+}
+
+export type ChatFeedback = 'up' | 'down';
+
+export interface ChatReplyAlternative {
+  text: string;
+  stopped?: boolean;
+  timestamp: Date;
+}
+
+// A fact Bhaii suggested saving; nothing is remembered until the user accepts.
+export interface MemoryProposal {
+  text: string;
+  status: 'pending' | 'saved' | 'dismissed';
+}
+
+export type ChatAttachmentKind = 'image' | 'pdf' | 'text';
+
+// A file attached to a chat message. Kept as a data: URL so it can be saved
+// with the conversation and replayed to the model as an inline part.
+export interface ChatAttachment {
+  id: string;
+  kind: ChatAttachmentKind;
+  name: string;
+  dataUrl: string;
+  size: number; // Bytes after any resizing
+}
+
+// A model-written recap of the older part of a long thread, sent in place of
+// those messages to keep requests within the context budget.
+export interface ConversationSummary {
+  text: string;
+  coveredCount: number; // The first N messages are folded into the summary
+  // The last covered message as it was when summarized; editing, deleting or
+  // switching it (or anything before it) makes the summary stale.
+  lastCoveredId: string;
+  lastCoveredTime: number;
+  updatedAt: Date;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  titleIsCustom: boolean; // Renamed by the user, so stop auto-generating the title
+  pinned: boolean;
+  personaId: string; // Who answers in this thread; unknown ids fall back to the default persona
+  messages: ChatMessage[];
+  summary?: ConversationSummary;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface UserPreferences {
   name: string;
   rememberMe: boolean;
-  lastChat: ChatMessage[];
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  customPersonas: Persona[];
+  language: AppLanguage;
+  speech: SpeechSettings;
+  memory: UserMemory;
+}
+
+// A fact about the user that Bhaii keeps across conversations, written or
+// confirmed by the user.
+export interface MemoryEntry {
+  id: string;
+  text: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UserMemory {
+  enabled: boolean; // Off = saved entries aren't sent and Bhaii doesn't propose new ones
+  entries: MemoryEntry[];
+}
+
+// Read-aloud settings for Bhaii's replies.
+export interface SpeechSettings {
+  voiceURI: string | null; // null = best voice for the UI language
+  rate: number; // 0.5-2, 1 is normal speed
+  autoRead: boolean; // Read each new reply aloud when it finishes
+}
+
+// UI language, also used as Bhaii's reply language.
+export type AppLanguage = 'en' | 'hinglish' | 'hi' | 'mr';
+
+export interface AppLanguageOption {
+  id: AppLanguage;
+  label: string; // In its own script, e.g. "हिन्दी"
+  locale: string; // BCP 47 tag for dates and the <html lang> attribute
+  replyInstruction: string; // Added to the chat system instruction
+}
+
+// A personality Bhaii can take on in chat. Built-in ones live in constants.ts.
+export interface Persona {
+  id: string;
+  name: string;
+  avatar: string; // Emoji shown next to replies
+  tone: string; // e.g. "Warm and encouraging"
+  languageMix: string; // e.g. "Hinglish with a few Marathi phrases"
+  systemInstruction: string;
+  builtIn?: boolean;
+}
+
+// One step in the Image Editor's history. Versions form a tree: editing an
+// earlier version starts a new branch instead of discarding later ones.
+export interface ImageVersion {
+  id: string;
+  parentId: string | null; // null for the uploaded original
+  imageUrl: string; // data: URL
+  prompt: string; // Edit that produced this version; empty for the original
+  createdAt: Date;
 }
 
 export interface ImagePart {
@@ -17,3 +133,113 @@ export interface ImagePart {
     data: string; // Base64 encoded string
   };
 }
+
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export type HDImageFormat = 'image/jpeg' | 'image/png';
+
+export interface GeneratedImage {
+  id: string;
+  imageUrl: string; // data: URL
+  favorite: boolean;
+}
+
+export type HDPersonGeneration = 'dont_allow' | 'allow_adult' | 'allow_all';
+
+export type HDSafetyLevel = 'strict' | 'balanced' | 'relaxed';
+
+export interface HDStylePreset {
+  id: string;
+  nameKey: MessageKey;
+  modifiers: string; // Appended to the prompt
+}
+
+// Everything besides the prompt that shapes an HD generation.
+export interface HDImageSettings {
+  aspectRatio: AspectRatio;
+  numberOfImages: number; // 1-4
+  format: HDImageFormat;
+  negativePrompt?: string; // Things to keep out of the image
+  seed?: number; // Only set when the provider honored it
+  personGeneration?: HDPersonGeneration; // Unset uses the API default
+  safetyLevel?: HDSafetyLevel;
+  stylePresetId?: string; // One of HD_STYLE_PRESETS
+}
+
+// One prompt in the HD generator's queue and the variations it produced.
+export interface HDGenerationJob {
+  id: string;
+  prompt: string; // As typed, before the style preset is applied
+  settings: HDImageSettings;
+  status: 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+  error?: string;
+  images: GeneratedImage[];
+  startedAt?: number; // ms timestamp, for the elapsed time display
+}
+
+export type VideoAspectRatio = '16:9' | '9:16';
+
+export type SlideTransition = 'fade-up' | 'fade' | 'zoom' | 'slide-left' | 'none';
+
+export type SlideFontSize = 'small' | 'medium' | 'large' | 'xl';
+
+export type SlideBackground =
+  | { type: 'solid'; color: string }
+  | { type: 'gradient'; from: string; to: string }; // Diagonal, top-left to bottom-right
+
+export interface Slide {
+  id: string;
+  text: string;
+  durationMs: number;
+  background: SlideBackground;
+  textColor: string;
+  fontFamily: string;
+  fontSize: SlideFontSize;
+  transition: SlideTransition;
+  imageUrl?: string; // data: URL, shown above the text
+}
+
+export interface SlideshowTheme {
+  id: string;
+  nameKey: MessageKey;
+  background: SlideBackground;
+  textColor: string;
+  fontFamily: string;
+  fontSize: SlideFontSize;
+  transition: SlideTransition;
+}
+
+export type GalleryTool = 'image-editor' | 'hd-image-generator' | 'slideshow-generator';
+
+interface GalleryItemBase {
+  id: string;
+  mediaUrl: string; // data: URL of the image, GIF or video
+  prompt: string;
+  model: string; // Model that produced it; empty when no AI model was involved
+  createdAt: Date;
+}
+
+// A saved output, with what is needed to reopen its tool with the same inputs.
+export type GalleryItem = GalleryItemBase & (
+  | { tool: 'image-editor'; settings: { sourceImageUrl: string; masked: boolean; referenceCount: number } }
+  | { tool: 'hd-image-generator'; settings: HDImageSettings }
+  | { tool: 'slideshow-generator'; settings: { themeId: string; format: 'webm' | 'gif'; slides: Slide[] } }
+);
+
+export type GalleryItemOf<T extends GalleryTool> = Extract<GalleryItem, { tool: T }>;
+
+export type NavigationView = 'home' | 'chat' | 'image-editor' | 'slideshow-generator' | 'hd-image-generator' | 'video-generator' | 'gallery';
+
+// One entry in the app's route table: its URL, sidebar entry and (optionally) home page card.
+// Text is given as message catalog keys (see locales.ts).
+export interface AppRoute {
+  view: NavigationView;
+  path: string; // URL segment after "#/"; empty for home
+  labelKey: MessageKey;
+  icon: string;
+  card?: {
+    titleKey: MessageKey;
+    descriptionKey: MessageKey;
+    gradient: string;
+  };
+}